@@ -0,0 +1,83 @@
+/**
+ * Directive Round-Trip Check
+ *
+ * Splits the Markdown feature guide into segments, regenerates every directive
+ * from its parsed attributes (ignoring the kept source) and asserts the
+ * reassembled document is byte-for-byte equal to the original file.
+ *
+ * Usage: pnpm check:directives [file.md ...]
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { type DirectiveBlock, serializeDirectiveBlock, splitDirectiveBlocks } from '../src/lib/directives';
+
+const PROJECT_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+const DEFAULT_CORPUS = ['src/content/blog/guide/markdown-features.md'];
+
+/** Edge cases the guide does not cover: quotes in attribute values */
+const QUOTE_CASES: DirectiveBlock[] = [
+  {
+    type: 'comic',
+    props: { id: 'a', name: `She said "hi"`, src: '/m.json', author: `O'Neil`, artist: '', cover: '' },
+    source: '',
+  },
+  {
+    type: 'comic',
+    props: { id: 'b', name: `"Both" 'quotes'`, src: '/m.json', author: 'A &amp; B', artist: '', cover: '' },
+    source: '',
+  },
+  { type: 'video', props: { src: `/media/"x".mp4`, poster: '', autoplay: true, loop: false, muted: true }, source: '' },
+];
+
+/**
+ * Rebuilds a document with every directive serialized from its attributes
+ * @returns The rebuilt document and the number of directives found
+ */
+function rebuildDocument(markdown: string): { rebuilt: string; count: number } {
+  let rebuilt = '';
+  let cursor = 0;
+  let count = 0;
+
+  for (const segment of splitDirectiveBlocks(markdown)) {
+    if (segment.kind !== 'directive') continue;
+
+    const { block } = segment;
+    const start = markdown.indexOf(block.source, cursor);
+    assert.notEqual(start, -1, `Directive source not found in document: ${block.source}`);
+
+    rebuilt += markdown.slice(cursor, start) + serializeDirectiveBlock({ ...block, source: '' } as DirectiveBlock);
+    cursor = start + block.source.length;
+    count++;
+  }
+
+  return { rebuilt: rebuilt + markdown.slice(cursor), count };
+}
+
+function checkFile(file: string): void {
+  const markdown = fs.readFileSync(path.resolve(PROJECT_ROOT, file), 'utf-8');
+  const { rebuilt, count } = rebuildDocument(markdown);
+
+  assert.ok(count > 0, `${file}: no directives found`);
+  assert.equal(rebuilt, markdown, `${file}: round trip changed the document`);
+  console.log(`✓ ${file} (${count} directives)`);
+}
+
+function checkQuoteCases(): void {
+  for (const block of QUOTE_CASES) {
+    const serialized = serializeDirectiveBlock(block);
+    const [segment] = splitDirectiveBlocks(serialized);
+
+    assert.equal(segment?.kind, 'directive', `Not parsed as a directive: ${serialized}`);
+    assert.deepEqual(segment.block.props, block.props, `Attributes changed in round trip: ${serialized}`);
+  }
+  console.log(`✓ quoted attribute values (${QUOTE_CASES.length} cases)`);
+}
+
+const files = process.argv.slice(2);
+for (const file of files.length > 0 ? files : DEFAULT_CORPUS) {
+  checkFile(file);
+}
+checkQuoteCases();
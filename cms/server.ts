@@ -16,29 +16,78 @@ import yaml from 'js-yaml';
 import { createServer as createViteServer } from 'vite';
 
 import {
+  batchHandler,
   createHandler,
+  deleteHandler,
+  eventsHandler,
+  historyHandler,
   listHandler,
+  moveHandler,
   ogCacheHandler,
   ogDataHandler,
   readHandler,
+  renameHandler,
+  restoreHandler,
+  revertHandler,
+  revisionHandler,
   toggleDraftHandler,
   toggleStickyHandler,
+  uploadHandler,
   writeHandler,
 } from './src/api';
 import { setCategoryMap } from './src/lib/category';
-import { CMS_PORT } from './src/lib/config';
+import { CMS_PORT, setSiteOrigin, setSiteTimezone } from './src/lib/config';
+import { ASSET_ROUTE, CONTENT_DIR, PUBLIC_DIR } from './src/lib/paths';
 
 // Type for Hono context variables
 type AppVariables = {
   projectRoot: string;
 };
 
+// Featured series entry in config/site.yaml (fields used by the CMS)
+type FeaturedSeriesConfig = {
+  slug: string;
+  label: string;
+  categoryName: string;
+  enabled?: boolean;
+};
+
 // Load project configuration
 // Use fileURLToPath for cross-platform compatibility (Windows path fix)
 const __filename = fileURLToPath(import.meta.url);
 const CMS_DIR = path.dirname(__filename);
 const PROJECT_ROOT = path.resolve(CMS_DIR, '..');
 
+// Images the editor may display, served under ASSET_ROUTE
+const ASSET_DIRS = [PUBLIC_DIR, CONTENT_DIR].map((dir) => path.join(PROJECT_ROOT, dir));
+const ASSET_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+};
+
+/**
+ * Resolves an ASSET_ROUTE URL to an image file inside public/ or the content directory
+ * e.g. /cms-assets/public/img/cover/1.webp => <root>/public/img/cover/1.webp
+ */
+function resolveAssetPath(url: string): string | null {
+  let relative: string;
+  try {
+    relative = decodeURIComponent(url.slice(ASSET_ROUTE.length).split('?')[0] ?? '');
+  } catch {
+    // Malformed percent-encoding, e.g. /cms-assets/%
+    return null;
+  }
+  const filePath = path.resolve(PROJECT_ROOT, relative);
+  const isInside = ASSET_DIRS.some((dir) => filePath.startsWith(`${dir}${path.sep}`));
+  if (!isInside || !ASSET_TYPES[path.extname(filePath).toLowerCase()]) return null;
+  return filePath;
+}
+
 // Load site config for category map
 function loadSiteConfig() {
   const configPath = path.join(PROJECT_ROOT, 'config', 'site.yaml');
@@ -57,6 +106,13 @@ async function main() {
   const categoryMap = (siteConfig.categoryMap as Record<string, string>) || {};
   setCategoryMap(categoryMap);
 
+  // Set site timezone from config, used to tell scheduled posts
+  const site = siteConfig.site as { timezone?: unknown; url?: unknown } | undefined;
+  setSiteTimezone(site?.timezone);
+
+  // Set site origin from config, used to find absolute links to renamed posts
+  setSiteOrigin(site?.url);
+
   // Create Hono app for API routes
   const app = new Hono<{ Variables: AppVariables }>();
 
@@ -99,15 +155,31 @@ async function main() {
   app.post('/api/cms/create', createHandler);
   app.post('/api/cms/toggle-draft', toggleDraftHandler);
   app.post('/api/cms/toggle-sticky', toggleStickyHandler);
+  app.post('/api/cms/upload', uploadHandler);
+  app.post('/api/cms/delete', deleteHandler);
+  app.post('/api/cms/restore', restoreHandler);
+  app.post('/api/cms/rename', renameHandler);
+  app.post('/api/cms/move', moveHandler);
+  app.post('/api/cms/batch', batchHandler);
+  app.get('/api/cms/history', historyHandler);
+  app.get('/api/cms/revision', revisionHandler);
+  app.post('/api/cms/revert', revertHandler);
+  app.get('/api/cms/events', eventsHandler);
   app.get('/api/cms/og-data', ogDataHandler);
   app.get('/api/cms/og-cache', ogCacheHandler);
 
+  // Enabled featured series, posts join a series through its category
+  const featuredSeries = ((siteConfig.featuredSeries as FeaturedSeriesConfig[] | undefined) || [])
+    .filter((series) => series.enabled !== false)
+    .map(({ slug, label, categoryName }) => ({ slug, label, categoryName }));
+
   // Config endpoint - returns project configuration for client use
   app.get('/api/cms/config', (c) => {
     return c.json({
       projectRoot: PROJECT_ROOT,
       contentDir: 'src/content/blog',
       categoryMap,
+      featuredSeries,
     });
   });
 
@@ -146,6 +218,10 @@ async function main() {
 
       if (response.body) {
         const reader = response.body.getReader();
+        // Stop streaming responses (server-sent events) when the client disconnects
+        res.on('close', () => {
+          reader.cancel().catch(() => {});
+        });
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
@@ -156,6 +232,20 @@ async function main() {
       return;
     }
 
+    // Serve project images for the editor (public/ and content images)
+    if (url.startsWith(ASSET_ROUTE)) {
+      const isLocalhost = /^(localhost|127\.0\.0\.1|::1)(:\d+)?$/.test(req.headers.host || '');
+      const filePath = isLocalhost ? resolveAssetPath(url) : null;
+      if (!filePath || !fs.existsSync(filePath)) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.setHeader('Content-Type', ASSET_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream');
+      fs.createReadStream(filePath).pipe(res);
+      return;
+    }
+
     // All other requests go to Vite
     vite.middlewares(req, res);
   });
@@ -8,18 +8,38 @@ import { Icon } from '@iconify/react';
 import { ErrorBoundary } from 'react-error-boundary';
 import { Toaster } from 'sonner';
 import {
+  BulkActionBar,
+  BulkEditDialog,
+  CategoryMappingDialog,
   CategoryStats,
   CreatePostDialog,
   DashboardStats,
   ErrorFallback,
+  MovePostDialog,
   PostEditor,
   PostTable,
   RecentUpdates,
+  RenamePostDialog,
 } from '@/components';
 import { Button } from '@/components/ui/button';
 import { type StatusFilter, useDashboardState } from '@/hooks';
 import { MAX_CATEGORY_DISPLAY, MAX_RECENT_POSTS_DISPLAY } from '@/lib/paths';
 import { cn } from '@/lib/utils';
+import type { PostListItem } from '@/types';
+
+/**
+ * Lists the folders containing posts, including their parent folders
+ */
+function getPostFolders(posts: PostListItem[]): string[] {
+  const folders = new Set<string>();
+  for (const post of posts) {
+    const parts = post.id.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      folders.add(parts.slice(0, i).join('/'));
+    }
+  }
+  return [...folders].sort();
+}
 
 // Main App Content
 function AppContent() {
@@ -32,6 +52,17 @@ function AppContent() {
     isCreateDialogOpen,
     setIsCreateDialogOpen,
     editingPostId,
+    renamingPost,
+    setRenamingPost,
+    movingPost,
+    setMovingPost,
+    selectedPostIds,
+    setSelectedPostIds,
+    bulkEditMode,
+    setBulkEditMode,
+    pendingBulkCategoryMappings,
+    isBulkUpdating,
+    featuredSeries,
     search,
     setSearch,
     category,
@@ -44,6 +75,13 @@ function AppContent() {
     handleSort,
     handleToggleDraft,
     handleToggleSticky,
+    handleDeletePost,
+    handleRenamePost,
+    handleMovePost,
+    handleBulkAction,
+    handleBulkEdit,
+    handleBulkCategoryMappingConfirm,
+    handleBulkCategoryMappingCancel,
     handleCreatePostSuccess,
     handleEditPost,
     handleOpenInEditor,
@@ -127,7 +165,12 @@ function AppContent() {
               <>
                 {activeTab === 'overview' && (
                   <div className="space-y-6">
-                    <DashboardStats total={data.stats.total} published={data.stats.published} draft={data.stats.draft} />
+                    <DashboardStats
+                      total={data.stats.total}
+                      published={data.stats.published}
+                      draft={data.stats.draft}
+                      scheduled={data.stats.scheduled}
+                    />
 
                     {/* Two-column layout for Categories and Recent Updates */}
                     <div className="grid gap-6 md:grid-cols-2">
@@ -192,6 +235,7 @@ function AppContent() {
                         >
                           <option value="all">All Status</option>
                           <option value="published">Published</option>
+                          <option value="scheduled">Scheduled</option>
                           <option value="draft">Draft</option>
                         </select>
                         <Icon
@@ -206,6 +250,20 @@ function AppContent() {
                       Showing {data.posts.length} of {data.stats.total} posts
                     </p>
 
+                    {/* Bulk actions for the selected posts */}
+                    {selectedPostIds.size > 0 && (
+                      <BulkActionBar
+                        count={selectedPostIds.size}
+                        featuredSeries={featuredSeries}
+                        isBusy={isBulkUpdating}
+                        onSetDraft={(draft) => handleBulkAction({ type: 'setDraft', draft })}
+                        onEdit={setBulkEditMode}
+                        onSetSeries={(categoryName) => handleBulkAction({ type: 'setCategories', categories: [categoryName] })}
+                        onDelete={() => handleBulkAction({ type: 'delete' })}
+                        onClear={() => setSelectedPostIds(new Set())}
+                      />
+                    )}
+
                     {/* Table */}
                     <PostTable
                       posts={data.posts}
@@ -216,6 +274,11 @@ function AppContent() {
                       onToggleSticky={handleToggleSticky}
                       onEdit={handleEditPost}
                       onOpenInEditor={handleOpenInEditor}
+                      onRename={setRenamingPost}
+                      onMove={setMovingPost}
+                      onDelete={handleDeletePost}
+                      selectedIds={selectedPostIds}
+                      onSelectionChange={setSelectedPostIds}
                     />
                   </div>
                 )}
@@ -232,6 +295,35 @@ function AppContent() {
         existingCategories={data?.categories || []}
         onSuccess={handleCreatePostSuccess}
       />
+
+      {/* Rename / Move Dialogs */}
+      <RenamePostDialog
+        post={renamingPost}
+        onOpenChange={(open) => !open && setRenamingPost(null)}
+        onConfirm={handleRenamePost}
+      />
+      <MovePostDialog
+        post={movingPost}
+        folders={data ? getPostFolders(data.posts) : []}
+        onOpenChange={(open) => !open && setMovingPost(null)}
+        onConfirm={handleMovePost}
+      />
+
+      {/* Bulk Edit Dialogs */}
+      <BulkEditDialog
+        mode={bulkEditMode}
+        count={selectedPostIds.size}
+        suggestions={bulkEditMode === 'setCategories' ? data?.categories || [] : data?.tags || []}
+        onOpenChange={(open) => !open && setBulkEditMode(null)}
+        onConfirm={handleBulkEdit}
+      />
+      <CategoryMappingDialog
+        open={pendingBulkCategoryMappings !== null}
+        onOpenChange={(open) => !open && handleBulkCategoryMappingCancel()}
+        newCategories={pendingBulkCategoryMappings ?? {}}
+        onConfirm={handleBulkCategoryMappingConfirm}
+        onCancel={handleBulkCategoryMappingCancel}
+      />
     </>
   );
 }
@@ -0,0 +1,225 @@
+/**
+ * CMS Batch API Handler
+ *
+ * Applies one action (publish/unpublish, tags, categories, delete) to several posts.
+ * The batch is atomic: every post is checked before anything is written, and
+ * completed changes are rolled back if a later write fails.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { addCategoryMappings } from '@/lib/config';
+import { recordRevision } from '@/lib/history';
+import { CONTENT_DIR } from '@/lib/paths';
+import {
+  findPostsLinkingTo,
+  getPostSlug,
+  readPostFrontmatter,
+  restorePost,
+  trashPost,
+  updatePostFrontmatter,
+} from '@/lib/post-files';
+import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
+import type { BatchAction, BatchPostResult, BatchPostsResponse } from '@/types';
+
+const tagListSchema = z.array(z.string().trim().min(1)).min(1, 'tags is required');
+
+/** Zod schema for batch request validation */
+const batchRequestSchema = z.object({
+  postIds: z.array(z.string().min(1)).min(1, 'postIds is required'),
+  action: z.discriminatedUnion('type', [
+    z.object({ type: z.literal('setDraft'), draft: z.boolean() }),
+    z.object({ type: z.literal('addTags'), tags: tagListSchema }),
+    z.object({ type: z.literal('removeTags'), tags: tagListSchema }),
+    z.object({
+      type: z.literal('setCategories'),
+      categories: z.array(z.string().trim().min(1)).min(1, 'categories is required'),
+      categoryMappings: z.record(z.string(), z.string()).optional(),
+    }),
+    z.object({ type: z.literal('delete') }),
+  ]),
+});
+
+type FrontmatterAction = Exclude<BatchAction, { type: 'delete' }>;
+
+/**
+ * Applies a batch action to parsed frontmatter
+ */
+function applyFrontmatterAction(frontmatter: Record<string, unknown>, action: FrontmatterAction): void {
+  const tags = Array.isArray(frontmatter.tags) ? (frontmatter.tags as unknown[]).map(String) : [];
+
+  switch (action.type) {
+    case 'setDraft':
+      frontmatter.draft = action.draft;
+      break;
+    case 'addTags':
+      frontmatter.tags = [...new Set([...tags, ...action.tags])];
+      break;
+    case 'removeTags': {
+      const remaining = tags.filter((tag) => !action.tags.includes(tag));
+      if (remaining.length > 0) {
+        frontmatter.tags = remaining;
+      } else {
+        delete frontmatter.tags;
+      }
+      break;
+    }
+    case 'setCategories':
+      frontmatter.categories = action.categories;
+      break;
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 'File not found';
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Updates the frontmatter of every post, writing nothing if any post fails
+ */
+async function updatePosts(
+  projectRoot: string,
+  results: BatchPostResult[],
+  action: FrontmatterAction,
+): Promise<BatchPostsResponse> {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+  const updates: { result: BatchPostResult; filePath: string; original: string; updated: string }[] = [];
+
+  // Prepare all changes in memory first
+  for (const result of results) {
+    const filePath = path.join(contentDir, result.postId);
+    try {
+      const original = await fs.readFile(filePath, 'utf-8');
+      const updated = updatePostFrontmatter(original, (frontmatter) => applyFrontmatterAction(frontmatter, action));
+      updates.push({ result, filePath, original, updated });
+    } catch (error) {
+      result.error = getErrorMessage(error);
+    }
+  }
+  if (results.some((result) => result.error)) {
+    return { success: false, results };
+  }
+
+  if (action.type === 'setCategories' && action.categoryMappings && Object.keys(action.categoryMappings).length > 0) {
+    await addCategoryMappings(projectRoot, action.categoryMappings);
+  }
+
+  const changed = updates.filter((update) => update.updated !== update.original);
+  const written: typeof changed = [];
+  for (const update of changed) {
+    try {
+      await fs.writeFile(update.filePath, update.updated, 'utf-8');
+      written.push(update);
+    } catch (error) {
+      update.result.error = getErrorMessage(error);
+      // Roll back the posts already written
+      await Promise.allSettled(written.map(({ filePath, original }) => fs.writeFile(filePath, original, 'utf-8')));
+      return { success: false, results };
+    }
+  }
+
+  // Record revisions so each post can be restored individually
+  for (const { result, original, updated } of changed) {
+    try {
+      await recordRevision(projectRoot, result.postId, original, 'disk');
+      await recordRevision(projectRoot, result.postId, updated, 'save');
+    } catch (error) {
+      console.warn('[CMS Batch API] Failed to record revision:', error);
+    }
+  }
+
+  return { success: true, results };
+}
+
+/**
+ * Moves every post to the trash, restoring them all if one fails
+ */
+async function deletePosts(projectRoot: string, results: BatchPostResult[]): Promise<BatchPostsResponse> {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+  const deletedIds = new Set(results.map((result) => result.postId));
+
+  // Check every post and collect links from posts that are not deleted too
+  for (const result of results) {
+    try {
+      const frontmatter = await readPostFrontmatter(path.join(contentDir, result.postId));
+      const linking = await findPostsLinkingTo(projectRoot, getPostSlug(result.postId, frontmatter), result.postId);
+      result.referencedBy = linking.filter((postId) => !deletedIds.has(postId));
+    } catch (error) {
+      result.error = getErrorMessage(error);
+    }
+  }
+  if (results.some((result) => result.error)) {
+    return { success: false, results };
+  }
+
+  const trashed: BatchPostResult[] = [];
+  for (const result of results) {
+    try {
+      result.trashId = await trashPost(projectRoot, result.postId);
+      trashed.push(result);
+    } catch (error) {
+      result.error = getErrorMessage(error);
+      // Roll back the posts already trashed
+      await Promise.allSettled(trashed.map(({ trashId }) => restorePost(projectRoot, trashId as string)));
+      for (const item of trashed) delete item.trashId;
+      return { success: false, results };
+    }
+  }
+
+  return { success: true, results };
+}
+
+/**
+ * POST /api/cms/batch
+ *
+ * Request body:
+ * {
+ *   postIds: string[],
+ *   action:
+ *     | { type: 'setDraft', draft: boolean }
+ *     | { type: 'addTags' | 'removeTags', tags: string[] }
+ *     | { type: 'setCategories', categories: string[], categoryMappings?: Record<string, string> }
+ *     | { type: 'delete' }
+ * }
+ *
+ * Response (422 if any post failed, nothing is changed then):
+ * {
+ *   success: boolean,
+ *   results: { postId: string, error: string | null, trashId?: string, referencedBy?: string[] }[]
+ * }
+ */
+export async function batchHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = batchRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const { postIds, action } = parseResult.data;
+
+    const results: BatchPostResult[] = [...new Set<string>(postIds)].map((postId) => ({
+      postId,
+      error: isPathSafe(postId) && hasValidMarkdownExtension(postId) ? null : 'Invalid postId',
+    }));
+    if (results.some((result) => result.error)) {
+      const response: BatchPostsResponse = { success: false, results };
+      return c.json(response, 422);
+    }
+
+    const response =
+      action.type === 'delete' ? await deletePosts(projectRoot, results) : await updatePosts(projectRoot, results, action);
+
+    return c.json(response, response.success ? 200 : 422);
+  } catch (error) {
+    console.error('[CMS Batch API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * CMS Delete API Handlers
+ *
+ * Moves a blog post to the trash folder, and restores it for undo.
+ */
+
+import path from 'node:path';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { CONTENT_DIR } from '@/lib/paths';
+import {
+  findPostsLinkingTo,
+  getPostSlug,
+  PostExistsError,
+  readPostFrontmatter,
+  restorePost,
+  trashPost,
+} from '@/lib/post-files';
+import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
+import type { DeletePostResponse, RestorePostResponse } from '@/types';
+
+/** Zod schema for delete post request validation */
+const deletePostRequestSchema = z.object({
+  postId: z.string().min(1, 'postId is required'),
+});
+
+/** Zod schema for restore post request validation */
+const restorePostRequestSchema = z.object({
+  trashId: z.string().regex(/^\d+-[a-z0-9]+$/, 'Invalid trashId'),
+});
+
+/**
+ * POST /api/cms/delete
+ *
+ * Request body:
+ * {
+ *   postId: string
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   trashId: string,
+ *   referencedBy: string[]
+ * }
+ */
+export async function deleteHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = deletePostRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const { postId } = parseResult.data;
+
+    if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+      return c.json({ error: 'Invalid postId' }, 400);
+    }
+
+    const frontmatter = await readPostFrontmatter(path.join(projectRoot, CONTENT_DIR, postId));
+    const referencedBy = await findPostsLinkingTo(projectRoot, getPostSlug(postId, frontmatter), postId);
+    const trashId = await trashPost(projectRoot, postId);
+
+    const response: DeletePostResponse = {
+      success: true,
+      trashId,
+      referencedBy,
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    console.error('[CMS Delete API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * POST /api/cms/restore
+ *
+ * Request body:
+ * {
+ *   trashId: string
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   postId: string
+ * }
+ */
+export async function restoreHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = restorePostRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const postId = await restorePost(projectRoot, parseResult.data.trashId);
+
+    const response: RestorePostResponse = {
+      success: true,
+      postId,
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return c.json({ error: 'Trash entry not found' }, 404);
+    }
+    if (error instanceof PostExistsError) {
+      return c.json({ error: error.message }, 409);
+    }
+
+    console.error('[CMS Restore API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
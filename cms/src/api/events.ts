@@ -0,0 +1,36 @@
+/**
+ * CMS Events API Handler
+ *
+ * Streams post file changes to the client as server-sent events.
+ */
+
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { watchContentChanges } from '@/lib/content-watcher';
+
+/** Interval of keep-alive pings */
+const PING_INTERVAL_MS = 30_000;
+
+/**
+ * GET /api/cms/events
+ *
+ * Event stream:
+ * event: change
+ * data: { type: 'change' | 'delete', postId: string, hash: string | null }
+ */
+export function eventsHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  return streamSSE(c, async (stream) => {
+    const unsubscribe = watchContentChanges(projectRoot, (event) => {
+      void stream.writeSSE({ event: 'change', data: JSON.stringify(event) });
+    });
+    stream.onAbort(unsubscribe);
+
+    while (!stream.aborted) {
+      await stream.sleep(PING_INTERVAL_MS);
+      if (stream.aborted) break;
+      await stream.writeSSE({ event: 'ping', data: '' });
+    }
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * CMS History API Handlers
+ *
+ * Lists, reads and restores post revisions recorded on every CMS save.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { listRevisions, REVISION_ID_PATTERN, readRevision, recordRevision } from '@/lib/history';
+import { CONTENT_DIR } from '@/lib/paths';
+import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
+import type { RevertPostResponse } from '@/types';
+
+/** Zod schema for revert request validation */
+const revertPostRequestSchema = z.object({
+  postId: z.string().min(1, 'postId is required'),
+  revisionId: z.string().regex(REVISION_ID_PATTERN, 'Invalid revisionId'),
+});
+
+/**
+ * GET /api/cms/history?postId=<postId>
+ *
+ * Response:
+ * {
+ *   revisions: { id: string, createdAt: string, source: 'save' | 'disk' | 'revert', size: number }[]
+ * }
+ */
+export async function historyHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+  const postId = c.req.query('postId');
+
+  if (!postId) {
+    return c.json({ error: 'Missing postId parameter' }, 400);
+  }
+  if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+    return c.json({ error: 'Invalid postId' }, 400);
+  }
+
+  try {
+    return c.json({ revisions: await listRevisions(projectRoot, postId) });
+  } catch (error) {
+    console.error('[CMS History API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * GET /api/cms/revision?postId=<postId>&revisionId=<revisionId>
+ *
+ * Response:
+ * {
+ *   id: string,
+ *   content: string
+ * }
+ */
+export async function revisionHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+  const postId = c.req.query('postId');
+  const revisionId = c.req.query('revisionId');
+
+  if (!postId || !revisionId) {
+    return c.json({ error: 'Missing postId or revisionId parameter' }, 400);
+  }
+  if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+    return c.json({ error: 'Invalid postId' }, 400);
+  }
+  if (!REVISION_ID_PATTERN.test(revisionId)) {
+    return c.json({ error: 'Invalid revisionId' }, 400);
+  }
+
+  try {
+    return c.json({ id: revisionId, content: await readRevision(projectRoot, postId, revisionId) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    console.error('[CMS History API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
+
+/**
+ * POST /api/cms/revert
+ *
+ * Request body:
+ * {
+ *   postId: string,
+ *   revisionId: string
+ * }
+ *
+ * The current file content is recorded first, so a revert can itself be undone.
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   revisionId: string | null
+ * }
+ */
+export async function revertHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = revertPostRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const { postId, revisionId } = parseResult.data;
+
+    if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+      return c.json({ error: 'Invalid postId' }, 400);
+    }
+
+    let content: string;
+    try {
+      content = await readRevision(projectRoot, postId, revisionId);
+    } catch {
+      return c.json({ error: 'Revision not found' }, 404);
+    }
+
+    const filePath = path.join(projectRoot, CONTENT_DIR, postId);
+    const current = await fs.readFile(filePath, 'utf-8');
+    await recordRevision(projectRoot, postId, current, 'disk');
+
+    await fs.writeFile(filePath, content, 'utf-8');
+    const response: RevertPostResponse = {
+      success: true,
+      revisionId: await recordRevision(projectRoot, postId, content, 'revert'),
+    };
+
+    return c.json(response);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return c.json({ error: 'File not found' }, 404);
+    }
+
+    console.error('[CMS Revert API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -2,10 +2,16 @@
  * CMS API Handlers
  */
 
+export { batchHandler } from './batch';
 export { createHandler } from './create';
+export { deleteHandler, restoreHandler } from './delete';
+export { eventsHandler } from './events';
+export { historyHandler, revertHandler, revisionHandler } from './history';
 export { listHandler } from './list';
 export { ogCacheHandler, ogDataHandler } from './og-data';
 export { readHandler } from './read';
+export { moveHandler, renameHandler } from './relocate';
 export { toggleDraftHandler } from './toggle-draft';
 export { toggleStickyHandler } from './toggle-sticky';
+export { uploadHandler } from './upload';
 export { writeHandler } from './write';
@@ -8,34 +8,15 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { isValid, parse, parseISO } from 'date-fns';
+import { toDate } from 'date-fns-tz';
 import matter from 'gray-matter';
 import type { Context } from 'hono';
 import yaml from 'js-yaml';
+import { getSiteTimezone } from '@/lib/config';
 import { CONTENT_DIR, RECENT_POSTS_COUNT } from '@/lib/paths';
+import { getAllMarkdownFiles } from '@/lib/post-files';
 import type { DashboardStats, ListPostsResponse, PostListItem } from '@/types';
 
-/**
- * Recursively reads all markdown files from a directory
- */
-async function getAllMarkdownFiles(dir: string, baseDir: string = dir): Promise<string[]> {
-  const files: string[] = [];
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-    if (entry.isDirectory()) {
-      const subFiles = await getAllMarkdownFiles(fullPath, baseDir);
-      files.push(...subFiles);
-    } else if (entry.isFile() && (entry.name.endsWith('.md') || entry.name.endsWith('.mdx'))) {
-      // Get relative path from base content dir
-      const relativePath = path.relative(baseDir, fullPath);
-      files.push(relativePath);
-    }
-  }
-
-  return files;
-}
-
 /**
  * Extracts category names from frontmatter categories
  * Handles both flat ['A', 'B'] and nested [['A', 'B']] formats
@@ -86,6 +67,16 @@ function parseLocalDate(dateStr: string | Date | undefined): string {
   return new Date().toISOString();
 }
 
+/**
+ * Whether a post is dated in the future
+ * Dates without an offset are in the site timezone, as in the site build and `koharu list`
+ */
+function isFutureDated(dateStr: string | Date | undefined): boolean {
+  if (!dateStr) return false;
+  const date = dateStr instanceof Date ? dateStr : toDate(String(dateStr), { timeZone: getSiteTimezone() });
+  return date.getTime() > Date.now();
+}
+
 /**
  * Converts a post file to PostListItem
  */
@@ -107,16 +98,21 @@ async function parsePostFile(filePath: string, contentDir: string): Promise<Post
     const slug = filePath.replace(/\.(md|mdx)$/, '');
     const categories = extractCategoryNames(data.categories);
     const tags = Array.isArray(data.tags) ? data.tags : [];
+    const date = parseLocalDate(data.date);
+    const draft = data.draft === true;
 
     return {
       id: filePath,
       slug,
       title: data.title || slug,
-      date: parseLocalDate(data.date),
+      link: typeof data.link === 'string' && data.link ? data.link : undefined,
+      date,
       updated: data.updated ? parseLocalDate(data.updated) : undefined,
       categories,
       tags,
-      draft: data.draft === true,
+      draft,
+      // Future-dated posts are left out of production builds until the next rebuild after their date
+      scheduled: !draft && isFutureDated(data.date),
       sticky: data.sticky === true,
     };
   } catch (error) {
@@ -146,8 +142,10 @@ function filterPosts(
 
   if (status === 'draft') {
     filtered = filtered.filter((post) => post.draft);
+  } else if (status === 'scheduled') {
+    filtered = filtered.filter((post) => post.scheduled);
   } else if (status === 'published') {
-    filtered = filtered.filter((post) => !post.draft);
+    filtered = filtered.filter((post) => !post.draft && !post.scheduled);
   }
 
   if (search) {
@@ -195,10 +193,13 @@ function calculateStats(posts: PostListItem[]): DashboardStats {
 
   let published = 0;
   let draft = 0;
+  let scheduled = 0;
 
   for (const post of posts) {
     if (post.draft) {
       draft++;
+    } else if (post.scheduled) {
+      scheduled++;
     } else {
       published++;
     }
@@ -233,6 +234,7 @@ function calculateStats(posts: PostListItem[]): DashboardStats {
     total: posts.length,
     published,
     draft,
+    scheduled,
     categoryStats,
     tagStats,
     recentPosts,
@@ -245,7 +247,7 @@ function calculateStats(posts: PostListItem[]): DashboardStats {
  * Query parameters:
  * - category: Filter by category name
  * - tag: Filter by tag
- * - status: 'all' | 'draft' | 'published'
+ * - status: 'all' | 'draft' | 'published' | 'scheduled'
  * - search: Search in title
  * - sort: 'date' | 'title' | 'updated'
  * - order: 'asc' | 'desc'
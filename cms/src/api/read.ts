@@ -10,12 +10,14 @@ import matter from 'gray-matter';
 import type { Context } from 'hono';
 import yaml from 'js-yaml';
 import { CONTENT_DIR } from '@/lib/paths';
+import { hashContent } from '@/lib/post-files';
 import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
 
 /**
  * GET /api/cms/read?postId=<postId>
  *
- * Returns the frontmatter and content of a blog post file.
+ * Returns the frontmatter and content of a blog post file,
+ * plus a hash of the file to send back as `baseHash` when writing.
  */
 export async function readHandler(c: Context) {
   const projectRoot = c.get('projectRoot') as string;
@@ -54,7 +56,7 @@ export async function readHandler(c: Context) {
       },
     });
 
-    return c.json({ frontmatter, content });
+    return c.json({ frontmatter, content, hash: hashContent(fileContent) });
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
       return c.json({ error: 'File not found' }, 404);
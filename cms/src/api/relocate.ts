@@ -0,0 +1,201 @@
+/**
+ * CMS Rename/Move API Handlers
+ *
+ * Renames a post file, changes its `link` slug, or moves it to another
+ * folder. When the URL slug changes, internal links in other posts are
+ * rewritten and stale generated data (summaries/similarities) is reported.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { moveHistory } from '@/lib/history';
+import { CONTENT_DIR } from '@/lib/paths';
+import {
+  findGeneratedDataReferences,
+  getPostSlug,
+  movePostFile,
+  PostExistsError,
+  readPostFrontmatter,
+  rewritePostLinks,
+  setFrontmatterLink,
+} from '@/lib/post-files';
+import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
+import type { RelocatePostResponse } from '@/types';
+
+/** A single path segment: no slashes, not hidden, no URL-reserved characters */
+const segmentSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .regex(/^[^/\\.?#\s][^/\\?#\s]*$/, 'Invalid name');
+
+/** Zod schema for rename post request validation */
+const renamePostRequestSchema = z.object({
+  postId: z.string().min(1, 'postId is required'),
+  /** New file name without extension */
+  fileName: segmentSchema.optional(),
+  /** New link slug, null removes the link (URL falls back to the file path) */
+  link: z
+    .string()
+    .trim()
+    .regex(/^[^/\s?#]+(\/[^/\s?#]+)*$/, 'Invalid link')
+    .nullable()
+    .optional(),
+});
+
+/** Zod schema for move post request validation */
+const movePostRequestSchema = z.object({
+  postId: z.string().min(1, 'postId is required'),
+  /** Target folder relative to the content directory, '' for the root */
+  folder: z.union([
+    z.literal(''),
+    z
+      .string()
+      .trim()
+      .regex(/^[^/\\.\s][^/\\\s]*(\/[^/\\.\s][^/\\\s]*)*$/, 'Invalid folder'),
+  ]),
+});
+
+/**
+ * Moves/updates a post and fixes references when its URL slug changes
+ *
+ * @param newId - New post ID (file path relative to the content directory)
+ * @param link - New link, null to remove, undefined to keep
+ */
+async function relocatePost(
+  projectRoot: string,
+  postId: string,
+  newId: string,
+  link?: string | null,
+): Promise<RelocatePostResponse> {
+  const filePath = path.join(projectRoot, CONTENT_DIR, postId);
+  const frontmatter = await readPostFrontmatter(filePath);
+  const oldSlug = getPostSlug(postId, frontmatter);
+
+  if (newId !== postId) {
+    await movePostFile(projectRoot, postId, newId);
+    await moveHistory(projectRoot, postId, newId);
+  }
+
+  const newFrontmatter = link === undefined ? frontmatter : { ...frontmatter, link };
+  if (link !== undefined && (frontmatter.link ?? null) !== link) {
+    const newPath = path.join(projectRoot, CONTENT_DIR, newId);
+    const content = await fs.readFile(newPath, 'utf-8');
+    await fs.writeFile(newPath, setFrontmatterLink(content, link), 'utf-8');
+  }
+
+  const newSlug = getPostSlug(newId, newFrontmatter);
+  const slugChanged = newSlug !== oldSlug;
+
+  return {
+    success: true,
+    postId: newId,
+    oldSlug,
+    newSlug,
+    updatedPosts: slugChanged ? await rewritePostLinks(projectRoot, oldSlug, newSlug) : [],
+    warnings: slugChanged ? await findGeneratedDataReferences(projectRoot, oldSlug) : [],
+  };
+}
+
+/**
+ * Maps errors shared by the rename and move handlers to responses
+ */
+function handleRelocateError(c: Context, error: unknown, label: string) {
+  if (error instanceof PostExistsError) {
+    return c.json({ error: error.message }, 409);
+  }
+  if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  console.error(`[CMS ${label} API] Error:`, error);
+  return c.json({ error: 'Internal server error' }, 500);
+}
+
+/**
+ * POST /api/cms/rename
+ *
+ * Request body:
+ * {
+ *   postId: string,
+ *   fileName?: string,
+ *   link?: string | null
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   postId: string,
+ *   oldSlug: string,
+ *   newSlug: string,
+ *   updatedPosts: string[],
+ *   warnings: string[]
+ * }
+ */
+export async function renameHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = renamePostRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const { postId, fileName, link } = parseResult.data;
+
+    if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+      return c.json({ error: 'Invalid postId' }, 400);
+    }
+    if (link && !isPathSafe(link)) {
+      return c.json({ error: 'Invalid link' }, 400);
+    }
+
+    const newId = fileName ? path.posix.join(path.posix.dirname(postId), `${fileName}${path.extname(postId)}`) : postId;
+
+    return c.json(await relocatePost(projectRoot, postId, newId, link));
+  } catch (error) {
+    return handleRelocateError(c, error, 'Rename');
+  }
+}
+
+/**
+ * POST /api/cms/move
+ *
+ * Request body:
+ * {
+ *   postId: string,
+ *   folder: string
+ * }
+ *
+ * Response: same as /api/cms/rename
+ */
+export async function moveHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const rawBody = await c.req.json();
+    const parseResult = movePostRequestSchema.safeParse(rawBody);
+
+    if (!parseResult.success) {
+      const errorMessage = parseResult.error.errors.map((e) => e.message).join(', ');
+      return c.json({ error: errorMessage }, 400);
+    }
+
+    const { postId, folder } = parseResult.data;
+
+    if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+      return c.json({ error: 'Invalid postId' }, 400);
+    }
+
+    const newId = path.posix.join(folder, path.posix.basename(postId));
+
+    return c.json(await relocatePost(projectRoot, postId, newId));
+  } catch (error) {
+    return handleRelocateError(c, error, 'Move');
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * CMS Upload API Handler
+ *
+ * Stores an image pasted or dropped into the editor, next to the post or
+ * under public/img/<slug>/ (see `dev.upload` in config/site.yaml).
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Context } from 'hono';
+import { CONTENT_DIR, PUBLIC_DIR } from '@/lib/paths';
+import {
+  getAvailableFileName,
+  IMAGE_EXTENSIONS,
+  loadUploadConfig,
+  MAX_UPLOAD_SIZE,
+  processImage,
+  resolveUploadDir,
+  toUploadFileName,
+  updateLqipEntry,
+} from '@/lib/upload';
+import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
+import type { UploadResponse } from '@/types';
+
+/**
+ * POST /api/cms/upload
+ *
+ * Request body (multipart/form-data):
+ * - postId: string - The post the image belongs to
+ * - file: File - The image (PNG, JPEG, WebP, GIF or AVIF)
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   path: string,
+ *   file: string,
+ *   converted: boolean,
+ *   lqip?: string
+ * }
+ */
+export async function uploadHandler(c: Context) {
+  const projectRoot = c.get('projectRoot') as string;
+
+  try {
+    const body = await c.req.parseBody();
+    const postId = body.postId;
+    const file = body.file;
+
+    if (typeof postId !== 'string' || !postId) {
+      return c.json({ error: 'postId is required' }, 400);
+    }
+    if (!isPathSafe(postId) || !hasValidMarkdownExtension(postId)) {
+      return c.json({ error: 'Invalid postId' }, 400);
+    }
+    if (!(file instanceof File)) {
+      return c.json({ error: 'file is required' }, 400);
+    }
+
+    const originalExt = IMAGE_EXTENSIONS[file.type];
+    if (!originalExt) {
+      return c.json({ error: `Unsupported file type: ${file.type || 'unknown'}` }, 415);
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return c.json({ error: `File exceeds ${MAX_UPLOAD_SIZE / 1024 / 1024}MB` }, 413);
+    }
+
+    // Make sure the post exists so images are not stored for a mistyped postId
+    try {
+      await fs.access(path.join(projectRoot, CONTENT_DIR, postId));
+    } catch {
+      return c.json({ error: 'Post not found' }, 404);
+    }
+
+    const config = await loadUploadConfig(projectRoot);
+    const uploadDir = resolveUploadDir(config, postId, CONTENT_DIR);
+    if (!uploadDir) {
+      return c.json({ error: 'dev.upload.publicDir must be inside public/' }, 500);
+    }
+
+    const image = await processImage(Buffer.from(await file.arrayBuffer()), originalExt, config);
+
+    const absoluteDir = path.join(projectRoot, uploadDir);
+    await fs.mkdir(absoluteDir, { recursive: true });
+    const fileName = await getAvailableFileName(absoluteDir, toUploadFileName(file.name, image.ext));
+    await fs.writeFile(path.join(absoluteDir, fileName), image.buffer);
+
+    const relativeFile = `${uploadDir}/${fileName}`;
+    const response: UploadResponse = {
+      success: true,
+      path: config.target === 'post' ? `./${fileName}` : relativeFile.slice(PUBLIC_DIR.length),
+      file: relativeFile,
+      converted: image.converted,
+    };
+
+    // LQIP data only covers images under public/img/
+    const imgPrefix = `${PUBLIC_DIR}/img/`;
+    if (relativeFile.startsWith(imgPrefix)) {
+      response.lqip = await updateLqipEntry(projectRoot, relativeFile.slice(imgPrefix.length), image.buffer);
+    }
+
+    return c.json(response);
+  } catch (error) {
+    console.error('[CMS Upload API] Error:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -2,6 +2,8 @@
  * CMS Write API Handler
  *
  * Writes frontmatter and content to a blog post file.
+ * Every write is recorded in the revision history (see lib/history.ts).
+ * Writes based on an outdated version of the file are rejected with 409.
  */
 
 import fs from 'node:fs/promises';
@@ -12,9 +14,11 @@ import type { Context } from 'hono';
 import yaml from 'js-yaml';
 import { z } from 'zod';
 import { addCategoryMappings } from '@/lib/config';
+import { recordRevision } from '@/lib/history';
 import { CONTENT_DIR } from '@/lib/paths';
+import { hashContent } from '@/lib/post-files';
 import { hasValidMarkdownExtension, isPathSafe } from '@/lib/validation';
-import type { BlogSchema } from '@/types';
+import type { BlogSchema, PostConflictResponse, WritePostResponse } from '@/types';
 
 /**
  * Converts frontmatter dates to YAML-friendly strings
@@ -41,12 +45,25 @@ const writePostRequestSchema = z.object({
   frontmatter: z.record(z.unknown()),
   content: z.string(),
   categoryMappings: z.record(z.string(), z.string()).optional(),
+  // Required: null means the post is expected not to exist on disk (recreating a deleted post)
+  baseHash: z.string({ required_error: 'baseHash is required' }).nullable(),
 });
 
 /**
  * POST /api/cms/write
  *
  * Writes frontmatter and content to a blog post file.
+ *
+ * `baseHash` is the hash returned by the read API, or null to create the file
+ * again after it was deleted. If the file has changed or was deleted since,
+ * the write is rejected with 409 and the current file content (null when deleted):
+ * { error: string, hash: string | null, content: string | null }
+ *
+ * Response:
+ * {
+ *   success: boolean,
+ *   hash: string
+ * }
  */
 export async function writeHandler(c: Context) {
   const projectRoot = c.get('projectRoot') as string;
@@ -60,7 +77,7 @@ export async function writeHandler(c: Context) {
       return c.json({ error: errorMessage }, 400);
     }
 
-    const { postId, frontmatter, content, categoryMappings } = parseResult.data;
+    const { postId, frontmatter, content, categoryMappings, baseHash } = parseResult.data;
 
     // Validate path safety
     if (!isPathSafe(postId)) {
@@ -134,6 +151,28 @@ export async function writeHandler(c: Context) {
       },
     });
 
+    // Reject the write if the file was changed since the editor read it
+    let currentContent: string | null = null;
+    try {
+      currentContent = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    if (baseHash !== null && currentContent === null) {
+      const conflict: PostConflictResponse = { error: 'The post was deleted outside the CMS', hash: null, content: null };
+      return c.json(conflict, 409);
+    }
+
+    if (currentContent !== null && hashContent(currentContent) !== baseHash) {
+      const conflict: PostConflictResponse = {
+        error: 'The post was changed outside the CMS',
+        hash: hashContent(currentContent),
+        content: currentContent,
+      };
+      return c.json(conflict, 409);
+    }
+
     // Add new category mappings if provided
     if (categoryMappings && Object.keys(categoryMappings).length > 0) {
       await addCategoryMappings(projectRoot, categoryMappings);
@@ -143,10 +182,23 @@ export async function writeHandler(c: Context) {
     const dirPath = path.dirname(filePath);
     await fs.mkdir(dirPath, { recursive: true });
 
+    // Keep the current file content first, it may contain edits made outside the CMS
+    if (currentContent !== null) {
+      await recordRevision(projectRoot, postId, currentContent, 'disk');
+    }
+
     // Write the file
     await fs.writeFile(filePath, fileContent, 'utf-8');
 
-    return c.json({ success: true });
+    try {
+      await recordRevision(projectRoot, postId, fileContent, 'save');
+    } catch (error) {
+      // The post is already saved, a missing revision should not fail the request
+      console.warn('[CMS Write API] Failed to record revision:', error);
+    }
+
+    const response: WritePostResponse = { success: true, hash: hashContent(fileContent) };
+    return c.json(response);
   } catch (error) {
     console.error('[CMS Write API] Error:', error);
     return c.json({ error: 'Internal server error' }, 500);
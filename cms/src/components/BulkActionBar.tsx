@@ -0,0 +1,116 @@
+/**
+ * Bulk Action Bar
+ *
+ * Toolbar for the posts selected in the post table.
+ */
+
+import { Icon } from '@iconify/react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { CMSConfigResponse } from '@/lib/api';
+import type { BulkEditMode } from '@/types';
+
+interface BulkActionBarProps {
+  /** Number of selected posts */
+  count: number;
+  /** Featured series the posts can be added to */
+  featuredSeries: CMSConfigResponse['featuredSeries'];
+  /** Disables the actions while a batch is running */
+  isBusy: boolean;
+  onSetDraft: (draft: boolean) => void;
+  onEdit: (mode: BulkEditMode) => void;
+  /** Called with the category of the chosen series */
+  onSetSeries: (categoryName: string) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+export function BulkActionBar({
+  count,
+  featuredSeries,
+  isBusy,
+  onSetDraft,
+  onEdit,
+  onSetSeries,
+  onDelete,
+  onClear,
+}: BulkActionBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-3 py-2">
+      <span className="mr-2 font-medium text-sm">
+        {isBusy && <Icon icon="ri:loader-4-line" className="mr-1.5 inline size-4 animate-spin" />}
+        {count} selected
+      </span>
+
+      <Button variant="outline" size="sm" onClick={() => onSetDraft(false)} disabled={isBusy}>
+        <Icon icon="ri:check-line" className="mr-1.5 size-4" />
+        Publish
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => onSetDraft(true)} disabled={isBusy}>
+        <Icon icon="ri:draft-line" className="mr-1.5 size-4" />
+        Unpublish
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isBusy}>
+            <Icon icon="ri:price-tag-3-line" className="mr-1.5 size-4" />
+            Tags
+            <Icon icon="ri:arrow-down-s-line" className="ml-1 size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => onEdit('addTags')}>
+            <Icon icon="ri:add-line" className="mr-2 size-4" />
+            Add tags
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onEdit('removeTags')}>
+            <Icon icon="ri:subtract-line" className="mr-2 size-4" />
+            Remove tags
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="outline" size="sm" onClick={() => onEdit('setCategories')} disabled={isBusy}>
+        <Icon icon="ri:folder-line" className="mr-1.5 size-4" />
+        Category
+      </Button>
+
+      {featuredSeries.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isBusy}>
+              <Icon icon="ri:stack-line" className="mr-1.5 size-4" />
+              Series
+              <Icon icon="ri:arrow-down-s-line" className="ml-1 size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel className="text-muted-foreground text-xs">Sets the category to the series</DropdownMenuLabel>
+            {featuredSeries.map((series) => (
+              <DropdownMenuItem key={series.slug} onSelect={() => onSetSeries(series.categoryName)}>
+                {series.label}
+                <span className="ml-auto pl-3 text-muted-foreground text-xs">{series.categoryName}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button variant="outline" size="sm" onClick={onDelete} disabled={isBusy} className="text-destructive">
+        <Icon icon="ri:delete-bin-line" className="mr-1.5 size-4" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy} className="ml-auto">
+        Clear selection
+      </Button>
+    </div>
+  );
+}
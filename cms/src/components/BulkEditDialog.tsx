@@ -0,0 +1,165 @@
+/**
+ * Bulk Edit Dialog
+ *
+ * Dialog for adding or removing tags, or setting the category, of the selected posts.
+ */
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Icon } from '@iconify/react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { type BulkEditFormData, bulkEditSchema } from '@/lib/schemas';
+import { cn } from '@/lib/utils';
+import type { BulkEditMode } from '@/types';
+
+interface BulkEditDialogProps {
+  /** What to edit, the dialog is open while set */
+  mode: BulkEditMode | null;
+  /** Number of selected posts */
+  count: number;
+  /** Existing tags or categories to suggest */
+  suggestions: string[];
+  onOpenChange: (open: boolean) => void;
+  /** Called with the parsed tags, or the category path */
+  onConfirm: (values: string[]) => Promise<void>;
+}
+
+const MODE_CONFIG: Record<
+  BulkEditMode,
+  { title: string; icon: string; label: string; placeholder: string; separator: string }
+> = {
+  addTags: {
+    title: 'Add Tags',
+    icon: 'ri:price-tag-3-line',
+    label: 'Tags (comma-separated)',
+    placeholder: 'tag1, tag2',
+    separator: ',',
+  },
+  removeTags: {
+    title: 'Remove Tags',
+    icon: 'ri:price-tag-3-line',
+    label: 'Tags (comma-separated)',
+    placeholder: 'tag1, tag2',
+    separator: ',',
+  },
+  setCategories: {
+    title: 'Change Category',
+    icon: 'ri:folder-line',
+    label: 'Category (use > for hierarchy)',
+    placeholder: '笔记 > 前端',
+    separator: '>',
+  },
+};
+
+export function BulkEditDialog({ mode, count, suggestions, onOpenChange, onConfirm }: BulkEditDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const config = mode ? MODE_CONFIG[mode] : null;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<BulkEditFormData>({
+    resolver: zodResolver(bulkEditSchema),
+    defaultValues: { value: '' },
+  });
+
+  // Start empty every time the dialog opens
+  useEffect(() => {
+    if (mode) {
+      reset({ value: '' });
+    }
+  }, [mode, reset]);
+
+  const onSubmit = async (data: BulkEditFormData) => {
+    if (!config) return;
+
+    const values = data.value
+      .split(config.separator)
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(values);
+      onOpenChange(false);
+    } catch {
+      // The caller shows the error, keep the dialog open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {config && <Icon icon={config.icon} className="size-5 text-primary" />}
+            {config?.title}
+          </DialogTitle>
+          <DialogDescription>
+            {count} selected post{count === 1 ? '' : 's'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1.5">
+            <label htmlFor="bulk-edit-value" className="font-medium text-sm">
+              {config?.label}
+            </label>
+            <input
+              id="bulk-edit-value"
+              type="text"
+              list="bulk-edit-options"
+              {...register('value')}
+              placeholder={config?.placeholder}
+              className={cn(
+                'w-full rounded border border-input bg-background px-2 py-1.5 text-sm',
+                'focus:outline-none focus:ring-1 focus:ring-ring',
+                errors.value && 'border-destructive',
+              )}
+            />
+            <datalist id="bulk-edit-options">
+              {suggestions.map((suggestion) => (
+                <option key={suggestion} value={suggestion} />
+              ))}
+            </datalist>
+            {errors.value && <p className="text-destructive text-xs">{errors.value.message}</p>}
+          </div>
+
+          {mode === 'setCategories' && (
+            <div className="rounded-lg bg-muted/50 p-3">
+              <p className="text-muted-foreground text-xs">
+                <Icon icon="ri:information-line" className="mr-1 inline size-3.5" />
+                Replaces the categories of every selected post. New categories need a URL slug mapping, which is asked for next.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Icon icon="ri:loader-4-line" className="mr-1.5 size-4 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                <>
+                  <Icon icon="ri:check-line" className="mr-1.5 size-4" />
+                  Apply
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
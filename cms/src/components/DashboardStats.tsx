@@ -11,9 +11,10 @@ interface DashboardStatsProps {
   total: number;
   published: number;
   draft: number;
+  scheduled: number;
 }
 
-export function DashboardStats({ total, published, draft }: DashboardStatsProps) {
+export function DashboardStats({ total, published, draft, scheduled }: DashboardStatsProps) {
   const stats = [
     {
       label: 'Total Posts',
@@ -29,6 +30,13 @@ export function DashboardStats({ total, published, draft }: DashboardStatsProps)
       iconColor: 'text-green-500',
       bgColor: 'bg-green-500/20',
     },
+    {
+      label: 'Scheduled',
+      value: scheduled,
+      icon: 'ri:calendar-schedule-line',
+      iconColor: 'text-sky-500',
+      bgColor: 'bg-sky-500/20',
+    },
     {
       label: 'Drafts',
       value: draft,
@@ -39,7 +47,7 @@ export function DashboardStats({ total, published, draft }: DashboardStatsProps)
   ];
 
   return (
-    <div className="grid grid-cols-3 gap-4">
+    <div className="grid grid-cols-4 gap-4">
       {stats.map((stat) => (
         <div key={stat.label} className="rounded-lg border border-border bg-card p-4">
           <div className="flex items-center gap-4">
@@ -0,0 +1,50 @@
+/**
+ * Diff Table
+ *
+ * Side-by-side line diff rows, removed lines on the left and added lines on the right.
+ */
+
+import type { DiffLine, DiffRow } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+function DiffCell({ line, className, divider }: { line: DiffLine | null; className?: string; divider?: boolean }) {
+  return (
+    <>
+      <td
+        className={cn(
+          'select-none border-border border-r px-2 text-right align-top text-muted-foreground',
+          divider && 'border-l',
+        )}
+      >
+        {line?.lineNumber}
+      </td>
+      <td className={cn('whitespace-pre-wrap break-all px-2 align-top', !line && 'bg-muted/40', line && className)}>
+        {line?.text}
+      </td>
+    </>
+  );
+}
+
+export function DiffTable({ rows }: { rows: DiffRow[] }) {
+  return (
+    <table className="w-full table-fixed font-mono text-xs leading-5">
+      <colgroup>
+        <col className="w-10" />
+        <col />
+        <col className="w-10" />
+        <col />
+      </colgroup>
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={`${row.left?.lineNumber ?? ''}:${row.right?.lineNumber ?? ''}`}
+            className="border-border/50 border-b last:border-b-0"
+          >
+            <DiffCell line={row.left} className={row.type !== 'equal' ? 'bg-red-500/10' : undefined} />
+            <DiffCell line={row.right} className={row.type !== 'equal' ? 'bg-green-500/10' : undefined} divider />
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
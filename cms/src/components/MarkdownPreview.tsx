@@ -125,7 +125,8 @@ export function MarkdownPreview({ content }: MarkdownPreviewProps) {
     setLightboxSrc(null);
   }, []);
 
-  if (isLoading) {
+  // Keep showing the previous render while live updates re-render
+  if (isLoading && !html) {
     return (
       <div className="flex items-center justify-center py-12">
         <Icon icon="ri:loader-4-line" className="size-8 animate-spin text-muted-foreground" />
@@ -0,0 +1,140 @@
+/**
+ * Move Post Dialog
+ *
+ * Dialog for moving a post to another category folder.
+ * Suggests the folders that already contain posts.
+ */
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Icon } from '@iconify/react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { type MovePostFormData, movePostSchema } from '@/lib/schemas';
+import { cn } from '@/lib/utils';
+import type { PostListItem } from '@/types';
+
+interface MovePostDialogProps {
+  /** Post to move, the dialog is open while set */
+  post: PostListItem | null;
+  /** Existing folders relative to the content directory */
+  folders: string[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (postId: string, folder: string) => Promise<void>;
+}
+
+/**
+ * Returns the folder of a post ID, '' for the content root
+ */
+function getPostFolder(postId: string): string {
+  const index = postId.lastIndexOf('/');
+  return index === -1 ? '' : postId.slice(0, index);
+}
+
+export function MovePostDialog({ post, folders, onOpenChange, onConfirm }: MovePostDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<MovePostFormData>({
+    resolver: zodResolver(movePostSchema),
+    defaultValues: { folder: '' },
+  });
+
+  // Reset form when a different post is opened
+  useEffect(() => {
+    if (post) {
+      reset({ folder: getPostFolder(post.id) });
+    }
+  }, [post, reset]);
+
+  const onSubmit = async (data: MovePostFormData) => {
+    if (!post) return;
+
+    if (data.folder === getPostFolder(post.id)) {
+      onOpenChange(false);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(post.id, data.folder);
+      onOpenChange(false);
+    } catch {
+      // The caller shows the error, keep the dialog open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={post !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon icon="ri:folder-transfer-line" className="size-5 text-primary" />
+            Move Post
+          </DialogTitle>
+          <DialogDescription className="line-clamp-1">{post?.title}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1.5">
+            <label htmlFor="move-folder" className="font-medium text-sm">
+              Folder
+            </label>
+            <input
+              id="move-folder"
+              type="text"
+              list="move-folder-options"
+              {...register('folder')}
+              placeholder="Leave empty for the content root"
+              className={cn(
+                'w-full rounded border border-input bg-background px-2 py-1.5 text-sm',
+                'focus:outline-none focus:ring-1 focus:ring-ring',
+                errors.folder && 'border-destructive',
+              )}
+            />
+            <datalist id="move-folder-options">
+              {folders.map((folder) => (
+                <option key={folder} value={folder} />
+              ))}
+            </datalist>
+            {errors.folder && <p className="text-destructive text-xs">{errors.folder.message}</p>}
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="text-muted-foreground text-xs">
+              <Icon icon="ri:information-line" className="mr-1 inline size-3.5" />
+              Posts without a custom link change URL when moved. Links to the old URL in other posts are updated automatically;
+              categories in the frontmatter are left unchanged.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Icon icon="ri:loader-4-line" className="mr-1.5 size-4 animate-spin" />
+                  Moving...
+                </>
+              ) : (
+                <>
+                  <Icon icon="ri:check-line" className="mr-1.5 size-4" />
+                  Move
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
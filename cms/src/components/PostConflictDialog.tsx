@@ -0,0 +1,79 @@
+/**
+ * Post Conflict Dialog
+ *
+ * Shown when a save is rejected because the file was changed or deleted outside
+ * the CMS. Compares both versions and lets the user keep theirs, take the file
+ * on disk, or merge the two in source mode. A deleted file can only be created again.
+ */
+
+import { Icon } from '@iconify/react';
+import { useMemo } from 'react';
+import { DiffTable } from '@/components/DiffTable';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { diffSideBySide } from '@/lib/diff';
+
+export interface PostConflict {
+  /** File content on disk, null when the file was deleted */
+  disk: string | null;
+  /** Content the editor tried to save */
+  local: string;
+}
+
+interface PostConflictDialogProps {
+  /** The dialog is open while set */
+  conflict: PostConflict | null;
+  onOpenChange: (open: boolean) => void;
+  /** Overwrite the file on disk with the editor content */
+  onKeepLocal: () => void;
+  /** Discard the editor changes and reload the file */
+  onUseDisk: () => void;
+  /** Open both versions with conflict markers in source mode */
+  onMerge: () => void;
+}
+
+export function PostConflictDialog({ conflict, onOpenChange, onKeepLocal, onUseDisk, onMerge }: PostConflictDialogProps) {
+  const rows = useMemo(() => (conflict ? diffSideBySide(conflict.disk ?? '', conflict.local) : []), [conflict]);
+  const isDeleted = conflict?.disk === null;
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[90vh] max-w-6xl flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon icon="ri:git-merge-line" className="size-5 text-orange-500" />
+            {isDeleted ? 'File Deleted on Disk' : 'File Changed on Disk'}
+          </DialogTitle>
+          <DialogDescription>
+            {isDeleted
+              ? 'This post was deleted outside the CMS since it was opened. Keep your version to create it again.'
+              : 'This post was changed outside the CMS since it was opened. Left: file on disk, right: your version.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-lg border border-border">
+          <DiffTable rows={rows} />
+        </div>
+
+        <DialogFooter>
+          {!isDeleted && (
+            <>
+              <Button variant="outline" onClick={onUseDisk}>
+                <Icon icon="ri:file-download-line" className="mr-1.5 size-4" />
+                Use Disk Version
+              </Button>
+              <Button variant="outline" onClick={onMerge}>
+                <Icon icon="ri:git-merge-line" className="mr-1.5 size-4" />
+                Merge in Source Mode
+              </Button>
+            </>
+          )}
+          <Button onClick={onKeepLocal}>
+            <Icon icon="ri:save-line" className="mr-1.5 size-4" />
+            Keep Mine
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
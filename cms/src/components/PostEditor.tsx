@@ -2,28 +2,40 @@
  * Post Editor
  *
  * Full-screen editor for blog posts with BlockNote editor and frontmatter panel.
- * Supports Cmd+S save, new category detection, and unsaved changes warning.
+ * Supports Cmd+S save, image paste/drop upload, new category detection, revision history, and unsaved changes warning.
+ * Edits made to the file outside the CMS are detected; conflicting saves open a merge dialog.
+ * Directives and alerts are edited as custom blocks so they survive the Markdown round-trip.
+ * Source mode edits the raw file in CodeMirror next to a live preview.
  */
 
 import { BlockNoteSchema, createCodeBlockSpec, defaultBlockSpecs } from '@blocknote/core';
-import { useCreateBlockNote } from '@blocknote/react';
+import { filterSuggestionItems, insertOrUpdateBlockForSlashMenu } from '@blocknote/core/extensions';
+import { getDefaultReactSlashMenuItems, SuggestionMenuController, useCreateBlockNote } from '@blocknote/react';
 import { BlockNoteView } from '@blocknote/shadcn';
 import '@blocknote/shadcn/style.css';
 import { Icon } from '@iconify/react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { ErrorBoundary, type FallbackProps } from 'react-error-boundary';
 import { toast } from 'sonner';
+import { DIRECTIVE_SLASH_ITEMS, directiveBlockSpecs, fromEditorBlock, toEditorBlock } from '@/components/blocks';
 import { CategoryMappingDialog } from '@/components/CategoryMappingDialog';
 import { EditorTOC } from '@/components/EditorTOC';
 import { FrontmatterEditor, type FrontmatterEditorRef } from '@/components/FrontmatterEditor';
 import { MarkdownPreview } from '@/components/MarkdownPreview';
+import { type PostConflict, PostConflictDialog } from '@/components/PostConflictDialog';
+import { RevisionHistory } from '@/components/RevisionHistory';
+import { SourceSplitView } from '@/components/SourceSplitView';
 import { Button } from '@/components/ui/button';
-import { useEditorHeadings } from '@/hooks';
-import { readPost, writePost } from '@/lib/api';
-import { detectNewCategories, getCategoryMap, setCategoryMap } from '@/lib/category';
+import { useContentChanges, useEditorHeadings } from '@/hooks';
+import { PostConflictError, readPost, revertPost, uploadImage, writePost } from '@/lib/api';
+import { resolveAssetUrl } from '@/lib/asset-url';
+import { detectNewCategories, extractCategoryNames, getCategoryMap, setCategoryMap } from '@/lib/category';
 import { DEV_SERVER_URL } from '@/lib/config';
+import { mergeWithConflictMarkers } from '@/lib/diff';
+import { serializeDirectiveBlock, splitDirectiveBlocks } from '@/lib/directives';
+import { composeSourceDocument, normalizeSourceDocument, parseSourceDocument } from '@/lib/source-document';
 import { cn } from '@/lib/utils';
-import type { BlogSchema } from '@/types';
+import type { BlogSchema, ContentChangeEvent } from '@/types';
 
 // Supported languages for code blocks
 const CODE_BLOCK_LANGUAGES = {
@@ -60,9 +72,13 @@ const schema = BlockNoteSchema.create({
       defaultLanguage: 'text',
       supportedLanguages: CODE_BLOCK_LANGUAGES,
     }),
+    ...directiveBlockSpecs,
   },
 });
 
+type EditorBlock = typeof schema.Block;
+type EditorPartialBlock = typeof schema.PartialBlock;
+
 interface PostEditorProps {
   postId: string;
   onClose: () => void;
@@ -89,20 +105,54 @@ function EditorErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
 
 /**
  * Converts BlockNote blocks to markdown
+ * Directive blocks are serialized by lib/directives.ts, the rest by BlockNote
  */
-async function blocksToMarkdown(editor: ReturnType<typeof useCreateBlockNote>): Promise<string> {
-  return await editor.blocksToMarkdownLossy(editor.document);
+async function blocksToMarkdown(editor: typeof schema.BlockNoteEditor): Promise<string> {
+  const parts: string[] = [];
+  let run: EditorBlock[] = [];
+
+  const flushRun = () => {
+    if (run.length === 0) return;
+    parts.push(editor.blocksToMarkdownLossy(run).trimEnd());
+    run = [];
+  };
+
+  for (const block of editor.document) {
+    const directive = fromEditorBlock(block);
+    if (directive) {
+      flushRun();
+      parts.push(serializeDirectiveBlock(directive));
+    } else {
+      run.push(block);
+    }
+  }
+  flushRun();
+
+  return `${parts.join('\n\n')}\n`;
 }
 
 /**
  * Converts markdown to BlockNote blocks
+ * Directives and alerts become custom blocks instead of being parsed as Markdown
  */
-async function markdownToBlocks(editor: ReturnType<typeof useCreateBlockNote>, markdown: string): Promise<void> {
-  const blocks = await editor.tryParseMarkdownToBlocks(markdown);
-  editor.replaceBlocks(editor.document, blocks);
+async function markdownToBlocks(editor: typeof schema.BlockNoteEditor, markdown: string): Promise<void> {
+  const blocks: EditorPartialBlock[] = [];
+
+  for (const segment of splitDirectiveBlocks(markdown)) {
+    if (segment.kind === 'markdown') {
+      blocks.push(...(await editor.tryParseMarkdownToBlocks(segment.text)));
+    } else {
+      blocks.push(toEditorBlock(segment.block) as EditorPartialBlock);
+    }
+  }
+
+  editor.replaceBlocks(editor.document, blocks.length > 0 ? blocks : [{ type: 'paragraph' }]);
 }
 
-type SidebarTab = 'frontmatter' | 'toc' | 'preview';
+type SidebarTab = 'frontmatter' | 'toc' | 'preview' | 'history';
+
+/** Rich: BlockNote with the sidebar; source: raw file with live preview */
+type EditorMode = 'rich' | 'source';
 
 const SIDEBAR_WIDTH_KEY = 'cms-sidebar-width';
 const SIDEBAR_DEFAULT_WIDTH = 320;
@@ -114,6 +164,20 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showSidebar, setShowSidebar] = useState(true);
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>('frontmatter');
+  const [mode, setMode] = useState<EditorMode>('rich');
+
+  // Source mode state: initial text for CodeMirror, then the latest text
+  // sourceKey remounts the source editor when its text is replaced
+  const [sourceInitial, setSourceInitial] = useState('');
+  const [sourceKey, setSourceKey] = useState(0);
+  const sourceTextRef = useRef('');
+
+  // Conflict state: hash of the file version being edited, and changes found on disk since
+  const baseHashRef = useRef<string | null>(null);
+  const [externalChange, setExternalChange] = useState<ContentChangeEvent | null>(null);
+  const [conflict, setConflict] = useState<
+    (PostConflict & { hash: string | null; categoryMappings?: Record<string, string> }) | null
+  >(null);
 
   // Sidebar resize state
   const [sidebarWidth, setSidebarWidth] = useState(() => {
@@ -129,35 +193,74 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
   // Preview state
   const [previewContent, setPreviewContent] = useState('');
 
+  // History state: bumped after saves/restores to reload the post or revision list
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+
   // Category state
   const [currentCategories, setCurrentCategories] = useState<string[]>([]);
   const [pendingCategoryMappings, setPendingCategoryMappings] = useState<Record<string, string>>({});
   const [showCategoryDialog, setShowCategoryDialog] = useState(false);
 
   // BlockNote editor with code block language support
-  const editor = useCreateBlockNote({ schema });
+  // Pasted/dropped images are uploaded and inserted with their Markdown path
+  const editor = useCreateBlockNote(
+    {
+      schema,
+      uploadFile: async (file: File) => {
+        try {
+          const result = await uploadImage(postId, file);
+          toast.success(`Image saved to ${result.file}`);
+          return result.path;
+        } catch (err) {
+          toast.error(err instanceof Error ? err.message : 'Failed to upload image');
+          throw err;
+        }
+      },
+      resolveFileUrl: async (url: string) => resolveAssetUrl(url, postId),
+    },
+    [postId],
+  );
   const initialContentLoaded = useRef(false);
   const initialFrontmatterLoaded = useRef(false);
 
+  // Markdown body the blocks were loaded from; reused until the blocks are edited
+  // so switching modes or saving does not reformat untouched content
+  const markdownRef = useRef('');
+  const blocksDirtyRef = useRef(false);
+
   // Extract headings for TOC
   const headings = useEditorHeadings(editor);
 
-  // Load post data
+  // Load post data (again after a revision is restored)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reloadKey is a reload trigger
   useEffect(() => {
     async function loadPost() {
       setIsLoading(true);
       setError(null);
+      initialContentLoaded.current = false;
+      initialFrontmatterLoaded.current = false;
 
       try {
         const data = await readPost(postId);
         setFrontmatter(data.frontmatter);
         initialFrontmatterLoaded.current = true;
+        baseHashRef.current = data.hash;
+        setExternalChange(null);
+
+        // Source mode shows the reloaded file too
+        const source = composeSourceDocument(data.frontmatter, data.content ?? '');
+        sourceTextRef.current = source;
+        setSourceInitial(source);
 
         // Load content into editor
-        if (data.content && editor) {
-          await markdownToBlocks(editor, data.content);
+        if (editor) {
+          await markdownToBlocks(editor, data.content ?? '');
+          markdownRef.current = data.content ?? '';
+          blocksDirtyRef.current = false;
           initialContentLoaded.current = true;
         }
+        setHasUnsavedChanges(false);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load post');
       } finally {
@@ -166,7 +269,7 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     }
 
     loadPost();
-  }, [postId, editor]);
+  }, [postId, editor, reloadKey]);
 
   // Track content changes
   useEffect(() => {
@@ -175,6 +278,7 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     const unsubscribe = editor.onChange(() => {
       // Only mark as changed after initial content is loaded
       if (initialContentLoaded.current) {
+        blocksDirtyRef.current = true;
         setHasUnsavedChanges(true);
       }
     });
@@ -182,6 +286,19 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     return unsubscribe;
   }, [editor]);
 
+  // Watch for edits to this post made outside the CMS
+  useContentChanges((event) => {
+    if (event.postId !== postId || event.hash === baseHashRef.current || isSaving) return;
+
+    if (event.type === 'change' && !hasUnsavedChanges) {
+      // Nothing to lose, load the new version
+      toast.info('Post changed on disk, reloaded');
+      setReloadKey((v) => v + 1);
+      return;
+    }
+    setExternalChange(event);
+  });
+
   // Handle frontmatter changes
   const handleFrontmatterChange = useCallback((fm: BlogSchema) => {
     setFrontmatter(fm);
@@ -196,26 +313,59 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     setCurrentCategories(categories);
   }, []);
 
+  // Handle source text changes
+  const handleSourceChange = useCallback((value: string) => {
+    sourceTextRef.current = value;
+    setHasUnsavedChanges(true);
+  }, []);
+
+  // Markdown of the rich editor, serialized only if the blocks were edited
+  const getEditorMarkdown = useCallback(async () => {
+    if (!blocksDirtyRef.current) return markdownRef.current;
+    return blocksToMarkdown(editor);
+  }, [editor]);
+
   // Actual save operation (defined first so handleSave can reference it)
   const performSave = useCallback(
     async (categoryMappings?: Record<string, string>) => {
       if (!editor) return;
 
       setIsSaving(true);
+      // Full file text of this save, shown if the save conflicts
+      let localSource = '';
       try {
-        // Get markdown content
-        const content = await blocksToMarkdown(editor);
+        // Get frontmatter and markdown content from the active mode
+        let currentFrontmatter = frontmatter;
+        let content: string;
+        if (mode === 'source') {
+          const parsed = parseSourceDocument(sourceTextRef.current);
+          currentFrontmatter = parsed.frontmatter;
+          content = parsed.content;
+          localSource = sourceTextRef.current;
+          setFrontmatter(parsed.frontmatter);
+        } else {
+          content = await getEditorMarkdown();
+          localSource = composeSourceDocument(frontmatter, content);
+        }
 
         // Update the updated date
         const now = new Date();
         const updatedFrontmatter = {
-          ...frontmatter,
+          ...currentFrontmatter,
           updated: now,
           // Set date if not present (new post)
-          date: frontmatter.date || now,
+          date: currentFrontmatter.date || now,
         };
 
-        await writePost(postId, updatedFrontmatter, content, categoryMappings);
+        const result = await writePost(postId, updatedFrontmatter, content, categoryMappings, baseHashRef.current);
+        baseHashRef.current = result.hash;
+        setExternalChange(null);
+
+        // The blocks now match the saved body
+        if (mode === 'rich') {
+          markdownRef.current = content;
+          blocksDirtyRef.current = false;
+        }
 
         // Update category map if we added new mappings
         if (categoryMappings) {
@@ -224,23 +374,45 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
         }
 
         setHasUnsavedChanges(false);
+        setHistoryVersion((v) => v + 1);
         toast.success('Post saved successfully');
         onSaved?.();
       } catch (err) {
+        if (err instanceof PostConflictError) {
+          // Source mode compares the raw text, rich mode both versions formatted the same way
+          setConflict({
+            hash: err.hash,
+            disk: err.content === null || mode === 'source' ? err.content : normalizeSourceDocument(err.content),
+            local: localSource,
+            categoryMappings,
+          });
+          return;
+        }
         toast.error(err instanceof Error ? err.message : 'Failed to save post');
       } finally {
         setIsSaving(false);
       }
     },
-    [editor, frontmatter, postId, onSaved],
+    [editor, frontmatter, mode, postId, onSaved, getEditorMarkdown],
   );
 
   // Save post with new category detection
   const handleSave = useCallback(async () => {
     if (!editor) return;
 
+    // In source mode the categories come from the frontmatter in the text
+    let categories: BlogSchema['categories'] = currentCategories;
+    if (mode === 'source') {
+      try {
+        categories = parseSourceDocument(sourceTextRef.current).frontmatter.categories;
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Invalid frontmatter');
+        return;
+      }
+    }
+
     // Check for new categories
-    const newCats = detectNewCategories(currentCategories);
+    const newCats = detectNewCategories(categories);
     if (Object.keys(newCats).length > 0) {
       setPendingCategoryMappings(newCats);
       setShowCategoryDialog(true);
@@ -248,7 +420,48 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     }
 
     await performSave();
-  }, [editor, currentCategories, performSave]);
+  }, [editor, currentCategories, mode, performSave]);
+
+  // Switch between rich and source mode, carrying over frontmatter and content
+  const handleModeChange = useCallback(
+    async (nextMode: EditorMode) => {
+      if (nextMode === mode || !editor) return;
+
+      if (nextMode === 'source') {
+        const content = await getEditorMarkdown();
+        markdownRef.current = content;
+        blocksDirtyRef.current = false;
+
+        const source = composeSourceDocument(frontmatter, content);
+        sourceTextRef.current = source;
+        setSourceInitial(source);
+        setMode('source');
+        return;
+      }
+
+      let parsed: ReturnType<typeof parseSourceDocument>;
+      try {
+        parsed = parseSourceDocument(sourceTextRef.current);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Invalid frontmatter');
+        return;
+      }
+
+      setFrontmatter(parsed.frontmatter);
+      setCurrentCategories(extractCategoryNames(parsed.frontmatter.categories));
+
+      // Only rebuild the blocks if the body was edited in source mode (or replaced by a merge)
+      if (blocksDirtyRef.current || parsed.content !== markdownRef.current.replace(/^\n+/, '')) {
+        initialContentLoaded.current = false;
+        await markdownToBlocks(editor, parsed.content);
+        markdownRef.current = parsed.content;
+        blocksDirtyRef.current = false;
+        initialContentLoaded.current = true;
+      }
+      setMode('rich');
+    },
+    [editor, frontmatter, mode, getEditorMarkdown],
+  );
 
   // Handle category mapping confirmation
   const handleCategoryMappingConfirm = useCallback(
@@ -259,6 +472,63 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     [performSave],
   );
 
+  // Restore a revision, then reload the editor from the restored file
+  const handleRestoreRevision = useCallback(
+    async (revisionId: string) => {
+      const message = hasUnsavedChanges
+        ? 'Restore this revision? Your unsaved changes will be lost.'
+        : 'Restore this revision? The current version stays in the history.';
+      if (!window.confirm(message)) return;
+
+      try {
+        await revertPost(postId, revisionId);
+        toast.success('Revision restored');
+        setHistoryVersion((v) => v + 1);
+        setReloadKey((v) => v + 1);
+        onSaved?.();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to restore revision');
+      }
+    },
+    [hasUnsavedChanges, postId, onSaved],
+  );
+
+  // Conflict resolution: overwrite the file on disk with the editor content
+  const handleKeepLocal = useCallback(() => {
+    if (!conflict) return;
+    baseHashRef.current = conflict.hash;
+    setConflict(null);
+    performSave(conflict.categoryMappings);
+  }, [conflict, performSave]);
+
+  // Conflict resolution: discard the editor changes
+  const handleUseDisk = useCallback(() => {
+    setConflict(null);
+    setReloadKey((v) => v + 1);
+  }, []);
+
+  // Conflict resolution: edit both versions with conflict markers in source mode
+  const handleMerge = useCallback(() => {
+    if (!conflict || conflict.disk === null) return;
+    const merged = mergeWithConflictMarkers(conflict.local, conflict.disk, { ours: 'CMS', theirs: 'disk' });
+
+    baseHashRef.current = conflict.hash;
+    sourceTextRef.current = merged;
+    setSourceInitial(merged);
+    setSourceKey((v) => v + 1);
+    setMode('source');
+    setConflict(null);
+    setExternalChange(null);
+    setHasUnsavedChanges(true);
+    toast.info('Resolve the conflict markers, then save');
+  }, [conflict]);
+
+  // Reload the file changed on disk, discarding unsaved changes
+  const handleReloadFromDisk = useCallback(() => {
+    if (hasUnsavedChanges && !window.confirm('Discard your unsaved changes and load the version on disk?')) return;
+    setReloadKey((v) => v + 1);
+  }, [hasUnsavedChanges]);
+
   // Keyboard shortcut for save
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -362,12 +632,12 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
     async (tab: SidebarTab) => {
       if (tab === 'preview' && editor) {
         // Convert blocks to markdown when switching to preview
-        const md = await blocksToMarkdown(editor);
+        const md = await getEditorMarkdown();
         setPreviewContent(md);
       }
       setSidebarTab(tab);
     },
-    [editor],
+    [editor, getEditorMarkdown],
   );
 
   if (isLoading) {
@@ -427,19 +697,34 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
             Preview
           </a>
 
-          {/* Toggle sidebar */}
+          {/* Toggle source mode */}
           <button
             type="button"
-            onClick={() => setShowSidebar(!showSidebar)}
+            onClick={() => handleModeChange(mode === 'rich' ? 'source' : 'rich')}
             className={cn(
               'rounded-lg p-2 transition-colors',
-              showSidebar ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted',
+              mode === 'source' ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted',
             )}
-            title="Toggle frontmatter panel"
+            title={mode === 'rich' ? 'Edit Markdown source' : 'Back to rich editor'}
           >
-            <Icon icon="ri:sidebar-unfold-line" className="size-5" />
+            <Icon icon="ri:markdown-line" className="size-5" />
           </button>
 
+          {/* Toggle sidebar */}
+          {mode === 'rich' && (
+            <button
+              type="button"
+              onClick={() => setShowSidebar(!showSidebar)}
+              className={cn(
+                'rounded-lg p-2 transition-colors',
+                showSidebar ? 'bg-muted text-foreground' : 'text-muted-foreground hover:bg-muted',
+              )}
+              title="Toggle frontmatter panel"
+            >
+              <Icon icon="ri:sidebar-unfold-line" className="size-5" />
+            </button>
+          )}
+
           {/* Save button */}
           <Button onClick={handleSave} disabled={isSaving || !hasUnsavedChanges}>
             {isSaving ? (
@@ -457,19 +742,64 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
         </div>
       </header>
 
-      {/* Main content */}
-      <div className="flex flex-1 overflow-hidden">
+      {/* File changed outside the CMS while there are unsaved changes */}
+      {externalChange && (
+        <div className="flex items-center justify-between gap-3 border-orange-500/20 border-b bg-orange-500/10 px-4 py-2 text-orange-500 text-sm">
+          <span className="flex items-center gap-2">
+            <Icon icon="ri:error-warning-line" className="size-4 shrink-0" />
+            {externalChange.type === 'delete'
+              ? 'This post was deleted on disk. Saving will ask whether to create it again.'
+              : 'This post was changed on disk. Saving will ask how to resolve the conflict.'}
+          </span>
+          <div className="flex shrink-0 items-center gap-2">
+            {externalChange.type === 'change' && (
+              <Button size="sm" variant="outline" onClick={handleReloadFromDisk}>
+                Reload
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" onClick={() => setExternalChange(null)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Source mode */}
+      {mode === 'source' && <SourceSplitView key={sourceKey} initialValue={sourceInitial} onChange={handleSourceChange} />}
+
+      {/* Main content, kept mounted in source mode so the editor state survives */}
+      <div className={cn('flex flex-1 overflow-hidden', mode === 'source' && 'hidden')}>
         {/* Editor */}
         <main className="flex-1 overflow-auto">
           <div className="mx-auto max-w-3xl p-6">
             <ErrorBoundary FallbackComponent={EditorErrorFallback}>
-              <BlockNoteView editor={editor} theme="dark" />
+              <BlockNoteView editor={editor} theme="dark" slashMenu={false}>
+                <SuggestionMenuController
+                  triggerCharacter="/"
+                  getItems={async (query) =>
+                    filterSuggestionItems(
+                      [
+                        ...getDefaultReactSlashMenuItems(editor),
+                        ...DIRECTIVE_SLASH_ITEMS.map((item) => ({
+                          title: item.title,
+                          subtext: item.subtext,
+                          aliases: item.aliases,
+                          group: 'Koharu',
+                          icon: <Icon icon={item.icon} className="size-[18px]" />,
+                          onItemClick: () => insertOrUpdateBlockForSlashMenu(editor, { type: item.type }),
+                        })),
+                      ],
+                      query,
+                    )
+                  }
+                />
+              </BlockNoteView>
             </ErrorBoundary>
           </div>
         </main>
 
         {/* Resize Handle */}
-        {showSidebar && (
+        {showSidebar && mode === 'rich' && (
           <hr
             tabIndex={0}
             aria-orientation="vertical"
@@ -484,7 +814,7 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
         )}
 
         {/* Sidebar */}
-        {showSidebar && (
+        {showSidebar && mode === 'rich' && (
           <aside style={{ width: sidebarWidth }} className="flex shrink-0 flex-col border-border border-l bg-card">
             {/* Tab buttons */}
             <div className="flex border-border border-b">
@@ -527,6 +857,19 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
                 <Icon icon="ri:eye-line" className="mr-1 inline-block size-4" />
                 预览
               </button>
+              <button
+                type="button"
+                onClick={() => handleTabChange('history')}
+                className={cn(
+                  'flex-1 px-3 py-2.5 font-medium text-sm transition-colors',
+                  sidebarTab === 'history'
+                    ? 'border-primary border-b-2 text-foreground'
+                    : 'text-muted-foreground hover:text-foreground',
+                )}
+              >
+                <Icon icon="ri:history-line" className="mr-1 inline-block size-4" />
+                历史
+              </button>
             </div>
 
             {/* Tab content */}
@@ -549,6 +892,11 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
                   <MarkdownPreview content={previewContent} />
                 </div>
               )}
+              {sidebarTab === 'history' && (
+                <div className="p-4">
+                  <RevisionHistory postId={postId} version={historyVersion} onRestore={handleRestoreRevision} />
+                </div>
+              )}
             </div>
           </aside>
         )}
@@ -562,6 +910,15 @@ export function PostEditor({ postId, onClose, onSaved }: PostEditorProps) {
         onConfirm={handleCategoryMappingConfirm}
         onCancel={() => setShowCategoryDialog(false)}
       />
+
+      {/* Save Conflict Dialog */}
+      <PostConflictDialog
+        conflict={conflict}
+        onOpenChange={(open) => !open && setConflict(null)}
+        onKeepLocal={handleKeepLocal}
+        onUseDisk={handleUseDisk}
+        onMerge={handleMerge}
+      />
     </div>
   );
 }
@@ -2,10 +2,18 @@
  * Post Table Component
  *
  * Displays a sortable table of blog posts with actions.
+ * Rows can be selected for bulk actions when a selection is passed.
  */
 
 import { Icon } from '@iconify/react';
 import { format } from 'date-fns';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import type { SortField, SortOrder } from '@/hooks';
 import { cn } from '@/lib/utils';
 import type { PostListItem } from '@/types';
@@ -44,6 +52,12 @@ interface PostTableProps {
   onToggleSticky?: (postId: string) => void;
   onEdit?: (postId: string) => void;
   onOpenInEditor?: (postId: string) => void;
+  onRename?: (post: PostListItem) => void;
+  onMove?: (post: PostListItem) => void;
+  onDelete?: (postId: string) => void;
+  /** Selected post IDs; shows the selection column when set */
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
 }
 
 export function PostTable({
@@ -55,7 +69,31 @@ export function PostTable({
   onToggleSticky,
   onEdit,
   onOpenInEditor,
+  onRename,
+  onMove,
+  onDelete,
+  selectedIds,
+  onSelectionChange,
 }: PostTableProps) {
+  const hasFileActions = Boolean(onRename || onMove || onDelete);
+  const isSelectable = Boolean(selectedIds && onSelectionChange);
+  const selectedCount = posts.filter((post) => selectedIds?.has(post.id)).length;
+  const allSelected = posts.length > 0 && selectedCount === posts.length;
+
+  const toggleAll = () => {
+    onSelectionChange?.(allSelected ? new Set() : new Set(posts.map((post) => post.id)));
+  };
+
+  const toggleOne = (postId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(postId)) {
+      next.delete(postId);
+    } else {
+      next.add(postId);
+    }
+    onSelectionChange?.(next);
+  };
+
   if (posts.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center rounded-lg border border-border border-dashed p-8 text-center">
@@ -71,6 +109,20 @@ export function PostTable({
         <table className="w-full">
           <thead className="border-border border-b bg-muted/50">
             <tr>
+              {isSelectable && (
+                <th className="w-10 py-3 pl-4 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    ref={(el) => {
+                      if (el) el.indeterminate = selectedCount > 0 && !allSelected;
+                    }}
+                    onChange={toggleAll}
+                    className="size-4 accent-primary"
+                    aria-label="Select all posts"
+                  />
+                </th>
+              )}
               <th className="px-4 py-3 text-left">
                 <SortableHeader label="Title" field="title" sortField={sortField} sortOrder={sortOrder} onSort={onSort} />
               </th>
@@ -93,7 +145,21 @@ export function PostTable({
           </thead>
           <tbody className="divide-y divide-border">
             {posts.map((post) => (
-              <tr key={post.id} className="transition-colors hover:bg-muted/30">
+              <tr
+                key={post.id}
+                className={cn('transition-colors hover:bg-muted/30', selectedIds?.has(post.id) && 'bg-primary/5')}
+              >
+                {isSelectable && (
+                  <td className="w-10 py-3 pl-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds?.has(post.id) ?? false}
+                      onChange={() => toggleOne(post.id)}
+                      className="size-4 accent-primary"
+                      aria-label={`Select ${post.title}`}
+                    />
+                  </td>
+                )}
                 <td className="px-4 py-3">
                   <div className="flex items-center gap-2">
                     {post.sticky && (
@@ -126,14 +192,20 @@ export function PostTable({
                   <span className="text-muted-foreground text-sm">{format(new Date(post.date), 'yyyy-MM-dd')}</span>
                 </td>
                 <td className="px-4 py-3">
-                  <span
-                    className={cn(
-                      'inline-flex rounded-full px-2 py-0.5 text-xs',
-                      post.draft ? 'bg-orange-500/10 text-orange-500' : 'bg-green-500/10 text-green-500',
-                    )}
-                  >
-                    {post.draft ? 'Draft' : 'Published'}
-                  </span>
+                  {post.draft ? (
+                    <span className="inline-flex rounded-full bg-orange-500/10 px-2 py-0.5 text-orange-500 text-xs">Draft</span>
+                  ) : post.scheduled ? (
+                    <span
+                      className="inline-flex rounded-full bg-sky-500/10 px-2 py-0.5 text-sky-500 text-xs"
+                      title={`Publishes after ${format(new Date(post.date), 'yyyy-MM-dd HH:mm')}`}
+                    >
+                      Scheduled
+                    </span>
+                  ) : (
+                    <span className="inline-flex rounded-full bg-green-500/10 px-2 py-0.5 text-green-500 text-xs">
+                      Published
+                    </span>
+                  )}
                 </td>
                 <td className="px-4 py-3">
                   <div className="flex items-center justify-end gap-1">
@@ -178,6 +250,45 @@ export function PostTable({
                     >
                       <Icon icon={post.draft ? 'ri:check-line' : 'ri:draft-line'} className="size-4" />
                     </button>
+                    {hasFileActions && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button
+                            type="button"
+                            className="rounded-md p-1.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                            title="More actions"
+                          >
+                            <Icon icon="ri:more-2-fill" className="size-4" />
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {onRename && (
+                            <DropdownMenuItem onSelect={() => onRename(post)}>
+                              <Icon icon="ri:edit-box-line" className="mr-2 size-4" />
+                              Rename
+                            </DropdownMenuItem>
+                          )}
+                          {onMove && (
+                            <DropdownMenuItem onSelect={() => onMove(post)}>
+                              <Icon icon="ri:folder-transfer-line" className="mr-2 size-4" />
+                              Move to folder
+                            </DropdownMenuItem>
+                          )}
+                          {onDelete && (
+                            <>
+                              {(onRename || onMove) && <DropdownMenuSeparator />}
+                              <DropdownMenuItem
+                                onSelect={() => onDelete(post.id)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Icon icon="ri:delete-bin-line" className="mr-2 size-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </div>
                 </td>
               </tr>
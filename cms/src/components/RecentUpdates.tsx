@@ -47,6 +47,9 @@ export function RecentUpdates({ posts, maxDisplay = 5, onEdit }: RecentUpdatesPr
               {post.draft && (
                 <span className="shrink-0 rounded-md bg-orange-500/10 px-1.5 py-0.5 text-orange-500 text-xs">Draft</span>
               )}
+              {post.scheduled && (
+                <span className="shrink-0 rounded-md bg-sky-500/10 px-1.5 py-0.5 text-sky-500 text-xs">Scheduled</span>
+              )}
             </div>
             <span className="ml-2 shrink-0 text-muted-foreground text-xs">{formatRelativeTime(post.date)}</span>
           </button>
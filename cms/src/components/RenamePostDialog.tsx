@@ -0,0 +1,168 @@
+/**
+ * Rename Post Dialog
+ *
+ * Dialog for renaming a post file and editing its `link` slug.
+ * Internal links in other posts are rewritten by the server when the URL changes.
+ */
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Icon } from '@iconify/react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { type RenamePostFormData, renamePostSchema } from '@/lib/schemas';
+import { cn } from '@/lib/utils';
+import type { PostListItem } from '@/types';
+
+interface RenamePostDialogProps {
+  /** Post to rename, the dialog is open while set */
+  post: PostListItem | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the changed fields only; link null removes it */
+  onConfirm: (postId: string, changes: { fileName?: string; link?: string | null }) => Promise<void>;
+}
+
+/**
+ * Splits a post ID into folder, file name and extension
+ * e.g. 'note/front-end/theme.md' => ['note/front-end/', 'theme', '.md']
+ */
+function splitPostId(postId: string): [string, string, string] {
+  const match = postId.match(/^(.*\/)?([^/]+?)(\.mdx?)$/);
+  return [match?.[1] ?? '', match?.[2] ?? postId, match?.[3] ?? ''];
+}
+
+export function RenamePostDialog({ post, onOpenChange, onConfirm }: RenamePostDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [folder, fileName, ext] = post ? splitPostId(post.id) : ['', '', ''];
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<RenamePostFormData>({
+    resolver: zodResolver(renamePostSchema),
+    defaultValues: { fileName: '', link: '' },
+  });
+
+  // Reset form when a different post is opened
+  useEffect(() => {
+    if (post) {
+      reset({ fileName: splitPostId(post.id)[1], link: post.link ?? '' });
+    }
+  }, [post, reset]);
+
+  const link = watch('link');
+  const newFileName = watch('fileName');
+  const previewSlug = link || `${folder}${newFileName}`;
+
+  const onSubmit = async (data: RenamePostFormData) => {
+    if (!post) return;
+
+    const changes: { fileName?: string; link?: string | null } = {};
+    if (data.fileName !== fileName) changes.fileName = data.fileName;
+    if (data.link !== (post.link ?? '')) changes.link = data.link || null;
+
+    if (Object.keys(changes).length === 0) {
+      onOpenChange(false);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onConfirm(post.id, changes);
+      onOpenChange(false);
+    } catch {
+      // The caller shows the error, keep the dialog open to retry
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={post !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon icon="ri:edit-box-line" className="size-5 text-primary" />
+            Rename Post
+          </DialogTitle>
+          <DialogDescription className="line-clamp-1">{post?.title}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-1.5">
+            <label htmlFor="rename-file-name" className="font-medium text-sm">
+              File name
+            </label>
+            <div className="flex items-center gap-1">
+              {folder && <span className="text-muted-foreground text-sm">{folder}</span>}
+              <input
+                id="rename-file-name"
+                type="text"
+                {...register('fileName')}
+                className={cn(
+                  'min-w-0 flex-1 rounded border border-input bg-background px-2 py-1.5 text-sm',
+                  'focus:outline-none focus:ring-1 focus:ring-ring',
+                  errors.fileName && 'border-destructive',
+                )}
+              />
+              <span className="text-muted-foreground text-sm">{ext}</span>
+            </div>
+            {errors.fileName && <p className="text-destructive text-xs">{errors.fileName.message}</p>}
+          </div>
+
+          <div className="space-y-1.5">
+            <label htmlFor="rename-link" className="font-medium text-sm">
+              Link
+            </label>
+            <input
+              id="rename-link"
+              type="text"
+              {...register('link')}
+              placeholder="Leave empty to use the file path"
+              className={cn(
+                'w-full rounded border border-input bg-background px-2 py-1.5 text-sm',
+                'focus:outline-none focus:ring-1 focus:ring-ring',
+                errors.link && 'border-destructive',
+              )}
+            />
+            {errors.link && <p className="text-destructive text-xs">{errors.link.message}</p>}
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="break-all text-muted-foreground text-xs">
+              <Icon icon="ri:link" className="mr-1 inline size-3.5" />
+              /post/{previewSlug}
+            </p>
+            <p className="mt-1 text-muted-foreground text-xs">
+              <Icon icon="ri:information-line" className="mr-1 inline size-3.5" />
+              Links to the old URL in other posts are updated automatically.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Icon icon="ri:loader-4-line" className="mr-1.5 size-4 animate-spin" />
+                  Renaming...
+                </>
+              ) : (
+                <>
+                  <Icon icon="ri:check-line" className="mr-1.5 size-4" />
+                  Rename
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
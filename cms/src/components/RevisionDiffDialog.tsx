@@ -0,0 +1,95 @@
+/**
+ * Revision Diff Dialog
+ *
+ * Side-by-side line diff between two revisions of a post.
+ */
+
+import { Icon } from '@iconify/react';
+import { format } from 'date-fns';
+import { useEffect, useMemo, useState } from 'react';
+import { DiffTable } from '@/components/DiffTable';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { getRevision } from '@/lib/api';
+import { diffSideBySide } from '@/lib/diff';
+import type { PostRevision } from '@/types';
+
+interface RevisionDiffDialogProps {
+  postId: string;
+  /** Older revision (left), the dialog is open while both are set */
+  from: PostRevision | null;
+  /** Newer revision (right) */
+  to: PostRevision | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatRevisionTime(revision: PostRevision): string {
+  return format(new Date(revision.createdAt), 'yyyy-MM-dd HH:mm:ss');
+}
+
+export function RevisionDiffDialog({ postId, from, to, onOpenChange }: RevisionDiffDialogProps) {
+  const [contents, setContents] = useState<[string, string] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) return;
+
+    let cancelled = false;
+    setContents(null);
+    setError(null);
+
+    Promise.all([getRevision(postId, from.id), getRevision(postId, to.id)])
+      .then(([a, b]) => {
+        if (!cancelled) setContents([a.content, b.content]);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load revisions');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, from, to]);
+
+  const rows = useMemo(() => (contents ? diffSideBySide(contents[0], contents[1]) : []), [contents]);
+  const removedCount = rows.filter((row) => row.left && row.type !== 'equal').length;
+  const addedCount = rows.filter((row) => row.right && row.type !== 'equal').length;
+
+  return (
+    <Dialog open={from !== null && to !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[90vh] max-w-6xl flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon icon="ri:git-compare-line" className="size-5 text-primary" />
+            Compare Revisions
+          </DialogTitle>
+          <DialogDescription>
+            {from && to && (
+              <>
+                {formatRevisionTime(from)} → {formatRevisionTime(to)}
+                {contents && (
+                  <span className="ml-2">
+                    <span className="text-green-500">+{addedCount}</span> <span className="text-red-500">-{removedCount}</span>
+                  </span>
+                )}
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 overflow-auto rounded-lg border border-border">
+          {error ? (
+            <p className="p-4 text-destructive text-sm">{error}</p>
+          ) : !contents ? (
+            <div className="flex h-32 items-center justify-center">
+              <Icon icon="ri:loader-4-line" className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : addedCount === 0 && removedCount === 0 ? (
+            <p className="p-4 text-muted-foreground text-sm">The revisions are identical.</p>
+          ) : (
+            <DiffTable rows={rows} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
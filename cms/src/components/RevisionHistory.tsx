@@ -0,0 +1,145 @@
+/**
+ * Revision History
+ *
+ * Editor sidebar panel listing saved revisions of a post.
+ * Select two revisions to compare them, or restore any revision.
+ */
+
+import { Icon } from '@iconify/react';
+import { format } from 'date-fns';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { RevisionDiffDialog } from '@/components/RevisionDiffDialog';
+import { Button } from '@/components/ui/button';
+import { getPostHistory } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { PostRevision, RevisionSource } from '@/types';
+
+interface RevisionHistoryProps {
+  postId: string;
+  /** Change to reload the list, e.g. after a save */
+  version: number;
+  /** Called when the user restores a revision */
+  onRestore: (revisionId: string) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, { label: string; className: string }> = {
+  save: { label: '保存', className: 'bg-primary/10 text-primary' },
+  disk: { label: '外部修改', className: 'bg-orange-500/10 text-orange-500' },
+  revert: { label: '恢复', className: 'bg-sky-500/10 text-sky-500' },
+};
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function RevisionHistory({ postId, version, onRestore }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<PostRevision[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [comparing, setComparing] = useState<[PostRevision, PostRevision] | null>(null);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: version is a reload trigger
+  useEffect(() => {
+    let cancelled = false;
+    getPostHistory(postId)
+      .then((result) => {
+        if (cancelled) return;
+        setRevisions(result.revisions);
+        setSelected((prev) => prev.filter((id) => result.revisions.some((revision) => revision.id === id)));
+      })
+      .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to load history'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, version]);
+
+  // Keeps at most two selected revisions, dropping the oldest selection
+  const toggleSelected = useCallback((id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id].slice(-2)));
+  }, []);
+
+  const handleCompare = () => {
+    if (!revisions || selected.length !== 2) return;
+    // Revisions are sorted newest first, so the higher index is older
+    const pair = revisions.filter((revision) => selected.includes(revision.id));
+    if (pair[0] && pair[1]) setComparing([pair[1], pair[0]]);
+  };
+
+  if (!revisions) {
+    return (
+      <div className="flex h-32 items-center justify-center">
+        <Icon icon="ri:loader-4-line" className="size-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 py-8 text-muted-foreground">
+        <Icon icon="ri:history-line" className="size-8" />
+        <p className="text-sm">暂无历史版本</p>
+        <p className="text-xs">每次保存都会记录一个版本</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-muted-foreground text-xs">选择两个版本进行对比</p>
+        <Button size="sm" variant="outline" onClick={handleCompare} disabled={selected.length !== 2}>
+          <Icon icon="ri:git-compare-line" className="mr-1.5 size-4" />
+          对比
+        </Button>
+      </div>
+
+      <ul className="space-y-1">
+        {revisions.map((revision, index) => {
+          const source = SOURCE_LABELS[revision.source];
+          const isSelected = selected.includes(revision.id);
+          return (
+            <li
+              key={revision.id}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border px-2 py-1.5',
+                isSelected ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted/50',
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => toggleSelected(revision.id)}
+                aria-label={`Select revision ${revision.id}`}
+                className="size-4 shrink-0 accent-primary"
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm">{format(new Date(revision.createdAt), 'MM-dd HH:mm:ss')}</p>
+                <p className="flex items-center gap-1.5 text-muted-foreground text-xs">
+                  <span className={cn('rounded px-1.5', source.className)}>{source.label}</span>
+                  {formatSize(revision.size)}
+                  {index === 0 && <span>· 最新</span>}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRestore(revision.id)}
+                className="rounded-md p-1.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                title="Restore this revision"
+              >
+                <Icon icon="ri:arrow-go-back-line" className="size-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <RevisionDiffDialog
+        postId={postId}
+        from={comparing?.[0] ?? null}
+        to={comparing?.[1] ?? null}
+        onOpenChange={(open) => !open && setComparing(null)}
+      />
+    </div>
+  );
+}
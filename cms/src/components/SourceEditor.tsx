@@ -0,0 +1,114 @@
+/**
+ * Source Editor
+ *
+ * CodeMirror editor for the raw Markdown file, with syntax highlighting for
+ * Markdown, fenced code and YAML frontmatter. The frontmatter block folds.
+ */
+
+import { markdown } from '@codemirror/lang-markdown';
+import { yamlFrontmatter } from '@codemirror/lang-yaml';
+import { foldEffect, foldService } from '@codemirror/language';
+import { languages } from '@codemirror/language-data';
+import { EditorState } from '@codemirror/state';
+import { oneDark } from '@codemirror/theme-one-dark';
+import { EditorView } from '@codemirror/view';
+import { basicSetup } from 'codemirror';
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+
+export interface SourceEditorRef {
+  /** Scrolls to a position between 0 (top) and 1 (bottom) */
+  scrollToRatio: (ratio: number) => void;
+}
+
+interface SourceEditorProps {
+  /** Initial file text; the editor owns the text afterwards */
+  initialValue: string;
+  onChange: (value: string) => void;
+  /** Called with the scroll position between 0 (top) and 1 (bottom) */
+  onScroll?: (ratio: number) => void;
+}
+
+/**
+ * Range of the frontmatter block: from the end of the opening --- to the end of the closing ---
+ */
+function getFrontmatterRange(state: EditorState): { from: number; to: number } | null {
+  const first = state.doc.line(1);
+  if (first.text.trim() !== '---') return null;
+
+  for (let n = 2; n <= state.doc.lines; n++) {
+    const line = state.doc.line(n);
+    if (line.text.trim() === '---') return { from: first.to, to: line.to };
+  }
+  return null;
+}
+
+const frontmatterFolding = foldService.of((state, lineStart) => (lineStart === 0 ? getFrontmatterRange(state) : null));
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '14px' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' },
+});
+
+export const SourceEditor = forwardRef<SourceEditorRef, SourceEditorProps>(function SourceEditor(
+  { initialValue, onChange, onScroll },
+  ref,
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+
+  // Keep the latest callbacks without recreating the editor
+  const onChangeRef = useRef(onChange);
+  const onScrollRef = useRef(onScroll);
+  onChangeRef.current = onChange;
+  onScrollRef.current = onScroll;
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: initialValue is only read when the editor is created
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: initialValue,
+        extensions: [
+          basicSetup,
+          yamlFrontmatter({ content: markdown({ codeLanguages: languages }) }),
+          frontmatterFolding,
+          oneDark,
+          editorTheme,
+          EditorView.lineWrapping,
+          EditorView.updateListener.of((update) => {
+            if (update.docChanged) onChangeRef.current(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+
+    // Start with the frontmatter folded so the body is in view
+    const range = getFrontmatterRange(view.state);
+    if (range) view.dispatch({ effects: foldEffect.of(range) });
+
+    const handleScroll = () => {
+      const { scrollTop, scrollHeight, clientHeight } = view.scrollDOM;
+      const max = scrollHeight - clientHeight;
+      onScrollRef.current?.(max > 0 ? scrollTop / max : 0);
+    };
+    view.scrollDOM.addEventListener('scroll', handleScroll);
+    viewRef.current = view;
+
+    return () => {
+      view.scrollDOM.removeEventListener('scroll', handleScroll);
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToRatio: (ratio: number) => {
+      const scroller = viewRef.current?.scrollDOM;
+      if (scroller) scroller.scrollTop = ratio * (scroller.scrollHeight - scroller.clientHeight);
+    },
+  }));
+
+  return <div ref={containerRef} className="h-full overflow-hidden" />;
+});
@@ -0,0 +1,86 @@
+/**
+ * Source Split View
+ *
+ * Source mode of the post editor: raw Markdown on the left, live preview on
+ * the right. The pane under the pointer (or with focus) drives scrolling.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MarkdownPreview } from '@/components/MarkdownPreview';
+import { SourceEditor, type SourceEditorRef } from '@/components/SourceEditor';
+import { getSourceBody } from '@/lib/source-document';
+
+interface SourceSplitViewProps {
+  /** Initial file text including frontmatter */
+  initialValue: string;
+  onChange: (value: string) => void;
+}
+
+/** Delay before re-rendering the preview after typing */
+const PREVIEW_DEBOUNCE_MS = 300;
+
+type Pane = 'editor' | 'preview';
+
+export function SourceSplitView({ initialValue, onChange }: SourceSplitViewProps) {
+  const editorRef = useRef<SourceEditorRef>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const activePane = useRef<Pane>('editor');
+  const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [previewContent, setPreviewContent] = useState(() => getSourceBody(initialValue));
+
+  useEffect(() => {
+    return () => {
+      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+    };
+  }, []);
+
+  const handleChange = useCallback(
+    (value: string) => {
+      onChange(value);
+      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+      debounceTimer.current = setTimeout(() => setPreviewContent(getSourceBody(value)), PREVIEW_DEBOUNCE_MS);
+    },
+    [onChange],
+  );
+
+  const handleEditorScroll = useCallback((ratio: number) => {
+    const preview = previewRef.current;
+    if (activePane.current !== 'editor' || !preview) return;
+    preview.scrollTop = ratio * (preview.scrollHeight - preview.clientHeight);
+  }, []);
+
+  const handlePreviewScroll = useCallback(() => {
+    const preview = previewRef.current;
+    if (activePane.current !== 'preview' || !preview) return;
+    const max = preview.scrollHeight - preview.clientHeight;
+    editorRef.current?.scrollToRatio(max > 0 ? preview.scrollTop / max : 0);
+  }, []);
+
+  return (
+    <div className="flex flex-1 overflow-hidden">
+      <section
+        className="w-1/2 min-w-0 border-border border-r"
+        aria-label="Markdown source"
+        onMouseEnter={() => {
+          activePane.current = 'editor';
+        }}
+        onFocus={() => {
+          activePane.current = 'editor';
+        }}
+      >
+        <SourceEditor ref={editorRef} initialValue={initialValue} onChange={handleChange} onScroll={handleEditorScroll} />
+      </section>
+      <section
+        ref={previewRef}
+        className="w-1/2 min-w-0 overflow-auto bg-card p-6"
+        aria-label="Preview"
+        onMouseEnter={() => {
+          activePane.current = 'preview';
+        }}
+        onScroll={handlePreviewScroll}
+      >
+        <MarkdownPreview content={previewContent} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Alert Block
+ *
+ * BlockNote block for GitHub alerts (> [!TIP]) and :::tip containers
+ * (see src/lib/markdown/remark-github-alerts.ts). The body is kept as Markdown.
+ */
+
+import { createReactBlockSpec } from '@blocknote/react';
+import { ALERT_TYPES, type AlertAttributes, type AlertType, serializeDirectiveBlock } from '@/lib/directives';
+import { cn } from '@/lib/utils';
+import { BlockCard, SelectField, TextAreaField, TextField } from './fields';
+
+const ALERT_STYLES: Record<AlertType, { icon: string; className: string }> = {
+  note: { icon: 'ri:information-line', className: 'border-l-4 border-l-blue-500' },
+  tip: { icon: 'ri:lightbulb-line', className: 'border-l-4 border-l-green-500' },
+  important: { icon: 'ri:chat-quote-line', className: 'border-l-4 border-l-purple-500' },
+  warning: { icon: 'ri:alert-line', className: 'border-l-4 border-l-yellow-500' },
+  caution: { icon: 'ri:error-warning-line', className: 'border-l-4 border-l-red-500' },
+};
+
+const TYPE_OPTIONS = ALERT_TYPES.map((type) => ({ value: type, label: type.toUpperCase() }));
+
+const SYNTAX_OPTIONS = [
+  { value: 'github', label: '> [!TYPE]' },
+  { value: 'directive', label: ':::type' },
+] as const;
+
+export const createAlertBlock = createReactBlockSpec(
+  {
+    type: 'alert',
+    propSchema: {
+      alertType: { default: 'note', values: ALERT_TYPES },
+      syntax: { default: 'github', values: ['github', 'directive'] as const },
+      title: { default: '' },
+      body: { default: '' },
+      /** Original Markdown, cleared once the block is edited */
+      source: { default: '' },
+    },
+    content: 'none',
+  },
+  {
+    render: ({ block, editor }) => {
+      const update = (patch: Partial<AlertAttributes>) => {
+        editor.updateBlock(block, { props: { ...patch, source: '' } });
+      };
+      const style = ALERT_STYLES[block.props.alertType];
+
+      return (
+        <BlockCard icon={style.icon} label="Alert" className={cn(style.className)}>
+          <div className="grid grid-cols-2 gap-2">
+            <SelectField
+              label="type"
+              value={block.props.alertType}
+              options={TYPE_OPTIONS}
+              onChange={(alertType) => update({ alertType })}
+            />
+            <SelectField
+              label="syntax"
+              value={block.props.syntax}
+              options={SYNTAX_OPTIONS}
+              onChange={(syntax) => update({ syntax })}
+            />
+          </div>
+          {block.props.syntax === 'directive' && (
+            <TextField
+              label="title"
+              value={block.props.title}
+              onChange={(title) => update({ title })}
+              placeholder="Defaults to the type name"
+            />
+          )}
+          <TextAreaField label="content (Markdown)" value={block.props.body} onChange={(body) => update({ body })} />
+        </BlockCard>
+      );
+    },
+    toExternalHTML: ({ block }) => (
+      <pre>{serializeDirectiveBlock({ type: 'alert', props: block.props, source: block.props.source })}</pre>
+    ),
+  },
+);
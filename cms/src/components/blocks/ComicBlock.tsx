@@ -0,0 +1,67 @@
+/**
+ * Comic Block
+ *
+ * BlockNote block for ::comic{} directives (see src/lib/markdown/remark-comic.ts).
+ */
+
+import { createReactBlockSpec } from '@blocknote/react';
+import { type ComicAttributes, serializeDirectiveBlock } from '@/lib/directives';
+import { BlockCard, TextField } from './fields';
+
+export const createComicBlock = createReactBlockSpec(
+  {
+    type: 'comic',
+    propSchema: {
+      id: { default: '' },
+      name: { default: '' },
+      src: { default: '' },
+      author: { default: '' },
+      artist: { default: '' },
+      cover: { default: '' },
+      /** Original Markdown, cleared once the block is edited */
+      source: { default: '' },
+    },
+    content: 'none',
+  },
+  {
+    render: ({ block, editor }) => {
+      const update = (patch: Partial<ComicAttributes>) => {
+        editor.updateBlock(block, { props: { ...patch, source: '' } });
+      };
+
+      return (
+        <BlockCard icon="ri:book-open-line" label="::comic">
+          <div className="grid grid-cols-2 gap-2">
+            <TextField label="id" value={block.props.id} onChange={(id) => update({ id })} required />
+            <TextField label="name" value={block.props.name} onChange={(name) => update({ name })} required />
+          </div>
+          <TextField
+            label="src"
+            value={block.props.src}
+            onChange={(src) => update({ src })}
+            placeholder="/img/comic/<id>/manifest.json"
+            required
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <TextField label="author" value={block.props.author} onChange={(author) => update({ author })} />
+            <TextField
+              label="artist"
+              value={block.props.artist}
+              onChange={(artist) => update({ artist })}
+              placeholder="artist-a,artist-b"
+            />
+          </div>
+          <TextField
+            label="cover"
+            value={block.props.cover}
+            onChange={(cover) => update({ cover })}
+            placeholder="Defaults to the cover in manifest.json"
+          />
+        </BlockCard>
+      );
+    },
+    toExternalHTML: ({ block }) => (
+      <p>{serializeDirectiveBlock({ type: 'comic', props: block.props, source: block.props.source })}</p>
+    ),
+  },
+);
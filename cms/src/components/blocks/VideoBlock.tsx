@@ -0,0 +1,56 @@
+/**
+ * Video Block
+ *
+ * BlockNote block for ::video{} directives (see src/lib/markdown/remark-video.ts).
+ */
+
+import { createReactBlockSpec } from '@blocknote/react';
+import { serializeDirectiveBlock, type VideoAttributes } from '@/lib/directives';
+import { BlockCard, CheckboxField, TextField } from './fields';
+
+export const createVideoBlock = createReactBlockSpec(
+  {
+    type: 'video',
+    propSchema: {
+      src: { default: '' },
+      poster: { default: '' },
+      autoplay: { default: false },
+      loop: { default: false },
+      muted: { default: false },
+      /** Original Markdown, cleared once the block is edited */
+      source: { default: '' },
+    },
+    content: 'none',
+  },
+  {
+    render: ({ block, editor }) => {
+      const update = (patch: Partial<VideoAttributes>) => {
+        editor.updateBlock(block, { props: { ...patch, source: '' } });
+      };
+
+      return (
+        <BlockCard icon="ri:video-line" label="::video">
+          <TextField
+            label="src"
+            value={block.props.src}
+            onChange={(src) => update({ src })}
+            placeholder="/media/video.mp4"
+            required
+          />
+          <TextField label="poster" value={block.props.poster} onChange={(poster) => update({ poster })} />
+          <div className="flex flex-wrap items-center gap-4">
+            <CheckboxField label="autoplay" checked={block.props.autoplay} onChange={(autoplay) => update({ autoplay })} />
+            <CheckboxField label="loop" checked={block.props.loop} onChange={(loop) => update({ loop })} />
+            <CheckboxField label="muted" checked={block.props.muted} onChange={(muted) => update({ muted })} />
+            {block.props.autoplay && !block.props.muted && (
+              <span className="text-orange-500 text-xs">Browsers only autoplay muted videos</span>
+            )}
+          </div>
+        </BlockCard>
+      );
+    },
+    toExternalHTML: ({ block }) => (
+      <p>{serializeDirectiveBlock({ type: 'video', props: block.props, source: block.props.source })}</p>
+    ),
+  },
+);
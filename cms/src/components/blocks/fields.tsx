@@ -0,0 +1,119 @@
+/**
+ * Directive Block Fields
+ *
+ * Shared layout and form controls for the attribute forms of directive blocks.
+ */
+
+import { Icon } from '@iconify/react';
+import type { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+const inputClassName =
+  'w-full rounded border border-input bg-background px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-ring';
+
+interface BlockCardProps {
+  icon: string;
+  label: string;
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Card wrapping a directive block; not editable as rich text
+ */
+export function BlockCard({ icon, label, className, children }: BlockCardProps) {
+  return (
+    <div contentEditable={false} className={cn('w-full rounded-lg border border-border bg-muted/30 p-3', className)}>
+      <div className="mb-2 flex items-center gap-1.5 font-medium text-muted-foreground text-xs">
+        <Icon icon={icon} className="size-4" />
+        {label}
+      </div>
+      <div className="space-y-2">{children}</div>
+    </div>
+  );
+}
+
+interface TextFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  required?: boolean;
+}
+
+export function TextField({ label, value, onChange, placeholder, required }: TextFieldProps) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-muted-foreground text-xs">
+        {label}
+        {required && <span className="text-destructive"> *</span>}
+      </span>
+      <input
+        type="text"
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className={cn(inputClassName, required && !value && 'border-destructive')}
+      />
+    </label>
+  );
+}
+
+interface CheckboxFieldProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+export function CheckboxField({ label, checked, onChange }: CheckboxFieldProps) {
+  return (
+    <label className="flex items-center gap-1.5 text-sm">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="size-4 accent-primary" />
+      {label}
+    </label>
+  );
+}
+
+interface SelectFieldProps<T extends string> {
+  label: string;
+  value: T;
+  options: readonly { value: T; label: string }[];
+  onChange: (value: T) => void;
+}
+
+export function SelectField<T extends string>({ label, value, options, onChange }: SelectFieldProps<T>) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-muted-foreground text-xs">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value as T)} className={inputClassName}>
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface TextAreaFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export function TextAreaField({ label, value, onChange, placeholder }: TextAreaFieldProps) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-muted-foreground text-xs">{label}</span>
+      <textarea
+        value={value}
+        placeholder={placeholder}
+        rows={Math.max(2, value.split('\n').length)}
+        onChange={(e) => onChange(e.target.value)}
+        className={cn(inputClassName, 'resize-y font-mono')}
+      />
+    </label>
+  );
+}
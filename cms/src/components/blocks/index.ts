@@ -0,0 +1,68 @@
+/**
+ * Directive Blocks
+ *
+ * Custom BlockNote blocks for Markdown syntax BlockNote does not support,
+ * and conversions between them and the parsed directive blocks in lib/directives.ts.
+ */
+
+import type { DirectiveBlock } from '@/lib/directives';
+import { createAlertBlock } from './AlertBlock';
+import { createComicBlock } from './ComicBlock';
+import { createVideoBlock } from './VideoBlock';
+
+export { createAlertBlock, createComicBlock, createVideoBlock };
+
+/** Block specs to add to the editor schema */
+export const directiveBlockSpecs = {
+  alert: createAlertBlock(),
+  comic: createComicBlock(),
+  video: createVideoBlock(),
+};
+
+type DirectiveBlockType = DirectiveBlock['type'];
+
+/** Editor block data of a directive: its attributes plus the original source */
+export interface DirectiveEditorBlock {
+  type: DirectiveBlockType;
+  props: DirectiveBlock['props'] & { source: string };
+}
+
+function isDirectiveBlockType(type: string): type is DirectiveBlockType {
+  return type in directiveBlockSpecs;
+}
+
+/**
+ * Converts a parsed directive into editor block data
+ */
+export function toEditorBlock(directive: DirectiveBlock): DirectiveEditorBlock {
+  return { type: directive.type, props: { ...directive.props, source: directive.source } };
+}
+
+/**
+ * Converts an editor block back into a directive, or null for other block types
+ */
+export function fromEditorBlock(block: { type: string; props: object }): DirectiveBlock | null {
+  if (!isDirectiveBlockType(block.type)) return null;
+
+  const { source, ...props } = block.props as DirectiveEditorBlock['props'];
+  return { type: block.type, props, source } as DirectiveBlock;
+}
+
+/** Slash menu entries inserting empty directive blocks */
+export const DIRECTIVE_SLASH_ITEMS: {
+  title: string;
+  subtext: string;
+  aliases: string[];
+  icon: string;
+  type: DirectiveBlockType;
+}[] = [
+  {
+    title: 'Alert',
+    subtext: '> [!NOTE] / :::note',
+    aliases: ['note', 'tip', 'warning', 'callout'],
+    icon: 'ri:information-line',
+    type: 'alert',
+  },
+  { title: 'Video', subtext: '::video{}', aliases: ['video', 'mp4'], icon: 'ri:video-line', type: 'video' },
+  { title: 'Comic', subtext: '::comic{}', aliases: ['comic', 'manga'], icon: 'ri:book-open-line', type: 'comic' },
+];
@@ -4,15 +4,25 @@
  * Reusable UI components for the CMS dashboard.
  */
 
+export { BulkActionBar } from './BulkActionBar';
+export { BulkEditDialog } from './BulkEditDialog';
 export { CategoryMappingDialog } from './CategoryMappingDialog';
 export { CategoryStats } from './CategoryStats';
 export { CreatePostDialog } from './CreatePostDialog';
 export { DashboardStats } from './DashboardStats';
+export { DiffTable } from './DiffTable';
 export { EditorTOC } from './EditorTOC';
 export { EmbedHydrator } from './EmbedHydrator';
 export { ErrorFallback } from './ErrorFallback';
 export { FrontmatterEditor, type FrontmatterEditorRef } from './FrontmatterEditor';
 export { MarkdownPreview } from './MarkdownPreview';
+export { MovePostDialog } from './MovePostDialog';
+export { type PostConflict, PostConflictDialog } from './PostConflictDialog';
 export { PostEditor } from './PostEditor';
 export { PostTable } from './PostTable';
 export { RecentUpdates } from './RecentUpdates';
+export { RenamePostDialog } from './RenamePostDialog';
+export { RevisionDiffDialog } from './RevisionDiffDialog';
+export { RevisionHistory } from './RevisionHistory';
+export { SourceEditor, type SourceEditorRef } from './SourceEditor';
+export { SourceSplitView } from './SourceSplitView';
@@ -2,6 +2,7 @@
  * CMS Hooks
  */
 
+export { useContentChanges } from './useContentChanges';
 export { type CustomCategory, useCustomCategories } from './useCustomCategories';
 export {
   type SortField,
@@ -0,0 +1,18 @@
+/**
+ * useContentChanges Hook
+ *
+ * Subscribes to post file changes pushed by the CMS server while the component is mounted.
+ * Used to refresh the post list and detect edits made in other editors.
+ */
+
+import { useEffect, useRef } from 'react';
+import { subscribeToContentChanges } from '@/lib/api';
+import type { ContentChangeEvent } from '@/types';
+
+export function useContentChanges(onChange: (event: ContentChangeEvent) => void): void {
+  // Keep the latest callback without reconnecting
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => subscribeToContentChanges((event) => onChangeRef.current(event)), []);
+}
@@ -1,20 +1,43 @@
 /**
  * Dashboard State Hook
  *
- * Manages the main dashboard state including posts data, filters, sorting, and actions.
+ * Manages the main dashboard state including posts data, filters, sorting, actions, and bulk actions.
  */
 
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
-import { getCMSConfig, listPosts, toggleDraft, toggleSticky } from '@/lib/api';
+import {
+  batchUpdatePosts,
+  type CMSConfigResponse,
+  deletePost,
+  getCMSConfig,
+  listPosts,
+  movePost,
+  renamePost,
+  restorePost,
+  toggleDraft,
+  toggleSticky,
+} from '@/lib/api';
+import { detectNewCategories, getCategoryMap, setCategoryMap } from '@/lib/category';
 import { buildEditorUrl, buildFilePath, getDefaultEditor } from '@/lib/editor-url';
-import type { ListPostsResponse } from '@/types';
+import type {
+  BatchAction,
+  BatchPostsResponse,
+  BulkEditMode,
+  ListPostsResponse,
+  PostListItem,
+  RelocatePostResponse,
+} from '@/types';
+import { useContentChanges } from './useContentChanges';
 
 export type Tab = 'overview' | 'posts';
-export type StatusFilter = 'all' | 'draft' | 'published';
+export type StatusFilter = 'all' | 'draft' | 'published' | 'scheduled';
 export type SortField = 'date' | 'updated' | 'title';
 export type SortOrder = 'asc' | 'desc';
 
+/** Delay before refreshing the list after a file change, to batch bursts of changes */
+const LIVE_REFRESH_DELAY_MS = 300;
+
 export interface UseDashboardStateResult {
   // Tab state
   activeTab: Tab;
@@ -29,6 +52,20 @@ export interface UseDashboardStateResult {
   isCreateDialogOpen: boolean;
   setIsCreateDialogOpen: (open: boolean) => void;
   editingPostId: string | null;
+  renamingPost: PostListItem | null;
+  setRenamingPost: (post: PostListItem | null) => void;
+  movingPost: PostListItem | null;
+  setMovingPost: (post: PostListItem | null) => void;
+
+  // Bulk action state
+  selectedPostIds: Set<string>;
+  setSelectedPostIds: (ids: Set<string>) => void;
+  bulkEditMode: BulkEditMode | null;
+  setBulkEditMode: (mode: BulkEditMode | null) => void;
+  /** New categories of a bulk category change, waiting for slug mappings */
+  pendingBulkCategoryMappings: Record<string, string> | null;
+  isBulkUpdating: boolean;
+  featuredSeries: CMSConfigResponse['featuredSeries'];
 
   // Filter state
   search: string;
@@ -45,6 +82,13 @@ export interface UseDashboardStateResult {
   handleSort: (field: SortField) => void;
   handleToggleDraft: (postId: string) => Promise<void>;
   handleToggleSticky: (postId: string) => Promise<void>;
+  handleDeletePost: (postId: string) => Promise<void>;
+  handleRenamePost: (postId: string, changes: { fileName?: string; link?: string | null }) => Promise<void>;
+  handleMovePost: (postId: string, folder: string) => Promise<void>;
+  handleBulkAction: (action: BatchAction) => Promise<void>;
+  handleBulkEdit: (values: string[]) => Promise<void>;
+  handleBulkCategoryMappingConfirm: (mappings: Record<string, string>) => Promise<void>;
+  handleBulkCategoryMappingCancel: () => void;
   handleCreatePostSuccess: (postId: string) => void;
   handleEditPost: (postId: string) => void;
   handleOpenInEditor: (postId: string) => void;
@@ -61,9 +105,21 @@ export function useDashboardState(): UseDashboardStateResult {
   // Dialog/Editor state
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  const [renamingPost, setRenamingPost] = useState<PostListItem | null>(null);
+  const [movingPost, setMovingPost] = useState<PostListItem | null>(null);
+
+  // Bulk action state
+  const [selectedPostIds, setSelectedPostIds] = useState<Set<string>>(() => new Set());
+  const [bulkEditMode, setBulkEditMode] = useState<BulkEditMode | null>(null);
+  const [pendingBulkCategories, setPendingBulkCategories] = useState<{
+    categories: string[];
+    mappings: Record<string, string>;
+  } | null>(null);
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
 
   // Config state
   const [projectRoot, setProjectRoot] = useState<string>('');
+  const [featuredSeries, setFeaturedSeries] = useState<CMSConfigResponse['featuredSeries']>([]);
 
   // Filter state
   const [search, setSearch] = useState('');
@@ -100,13 +156,43 @@ export function useDashboardState(): UseDashboardStateResult {
     fetchData();
   }, [fetchData]);
 
+  // Refresh the list in the background when post files change (in the CMS or another editor)
+  const liveRefreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useContentChanges(() => {
+    if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+    liveRefreshTimer.current = setTimeout(() => {
+      listPosts(params)
+        .then(setData)
+        .catch((err) => console.error('Failed to refresh posts:', err));
+    }, LIVE_REFRESH_DELAY_MS);
+  });
+
+  useEffect(() => {
+    return () => {
+      if (liveRefreshTimer.current) clearTimeout(liveRefreshTimer.current);
+    };
+  }, []);
+
   // Fetch CMS config for project root (needed for editor URLs)
   useEffect(() => {
     getCMSConfig()
-      .then((config) => setProjectRoot(config.projectRoot))
+      .then((config) => {
+        setProjectRoot(config.projectRoot);
+        setFeaturedSeries(config.featuredSeries ?? []);
+      })
       .catch((err) => console.error('Failed to load CMS config:', err));
   }, []);
 
+  // Keep only selected posts that are still listed (after filtering, deleting, etc.)
+  useEffect(() => {
+    if (!data) return;
+    setSelectedPostIds((prev) => {
+      const listed = new Set(data.posts.map((post) => post.id));
+      const next = new Set([...prev].filter((id) => listed.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [data]);
+
   const handleSort = useCallback(
     (field: SortField) => {
       if (field === sortField) {
@@ -145,6 +231,199 @@ export function useDashboardState(): UseDashboardStateResult {
     [fetchData],
   );
 
+  const handleDeletePost = useCallback(
+    async (postId: string) => {
+      try {
+        const result = await deletePost(postId);
+        fetchData();
+        toast.success('Post moved to trash', {
+          description: postId,
+          action: {
+            label: 'Undo',
+            onClick: () => {
+              restorePost(result.trashId)
+                .then(() => {
+                  toast.success('Post restored');
+                  fetchData();
+                })
+                .catch((err) => toast.error(err instanceof Error ? err.message : 'Failed to restore post'));
+            },
+          },
+        });
+        if (result.referencedBy.length > 0) {
+          toast.warning(`${result.referencedBy.length} post(s) still link to the deleted post`, {
+            description: result.referencedBy.join(', '),
+          });
+        }
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to delete post');
+      }
+    },
+    [fetchData],
+  );
+
+  const notifyRelocated = useCallback(
+    (result: RelocatePostResponse, message: string) => {
+      const updated = result.updatedPosts.length;
+      toast.success(message, {
+        description: updated > 0 ? `Updated links in ${updated} post(s)` : undefined,
+      });
+      for (const warning of result.warnings) {
+        toast.warning(warning);
+      }
+      fetchData();
+    },
+    [fetchData],
+  );
+
+  // Errors are rethrown so the dialog stays open
+  const handleRenamePost = useCallback(
+    async (postId: string, changes: { fileName?: string; link?: string | null }) => {
+      try {
+        notifyRelocated(await renamePost(postId, changes), 'Post renamed');
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to rename post');
+        throw err;
+      }
+    },
+    [notifyRelocated],
+  );
+
+  const handleMovePost = useCallback(
+    async (postId: string, folder: string) => {
+      try {
+        notifyRelocated(await movePost(postId, folder), 'Post moved');
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to move post');
+        throw err;
+      }
+    },
+    [notifyRelocated],
+  );
+
+  // Runs a batch action on the selected posts; failures are shown and rethrown
+  const runBulkAction = useCallback(
+    async (action: BatchAction): Promise<BatchPostsResponse> => {
+      const postIds = [...selectedPostIds];
+      setIsBulkUpdating(true);
+      try {
+        const result = await batchUpdatePosts(postIds, action);
+        if (!result.success) {
+          const failed = result.results.filter((item) => item.error);
+          throw new Error(
+            `No posts were changed. ${failed.length} post(s) failed: ${failed.map((item) => `${item.postId} (${item.error})`).join(', ')}`,
+          );
+        }
+        return result;
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to update posts');
+        throw err;
+      } finally {
+        setIsBulkUpdating(false);
+        fetchData();
+      }
+    },
+    [selectedPostIds, fetchData],
+  );
+
+  const handleBulkAction = useCallback(
+    async (action: BatchAction) => {
+      const count = selectedPostIds.size;
+      if (action.type === 'delete' && !window.confirm(`Move ${count} post(s) to the trash?`)) return;
+
+      let result: BatchPostsResponse;
+      try {
+        result = await runBulkAction(action);
+      } catch {
+        return;
+      }
+      setSelectedPostIds(new Set());
+
+      if (action.type !== 'delete') {
+        toast.success(`Updated ${count} post(s)`);
+        return;
+      }
+
+      const trashIds = result.results.flatMap((item) => (item.trashId ? [item.trashId] : []));
+      toast.success(`${count} post(s) moved to trash`, {
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            Promise.allSettled(trashIds.map((trashId) => restorePost(trashId))).then((restored) => {
+              const failed = restored.filter((item) => item.status === 'rejected').length;
+              if (failed > 0) {
+                toast.error(`Failed to restore ${failed} post(s)`);
+              } else {
+                toast.success('Posts restored');
+              }
+              fetchData();
+            });
+          },
+        },
+      });
+
+      const referenced = result.results.filter((item) => item.referencedBy && item.referencedBy.length > 0);
+      if (referenced.length > 0) {
+        toast.warning(`${referenced.length} deleted post(s) are still linked from other posts`, {
+          description: referenced.map((item) => `${item.postId} ← ${item.referencedBy?.join(', ')}`).join('; '),
+        });
+      }
+    },
+    [selectedPostIds, runBulkAction, fetchData],
+  );
+
+  // Applies the bulk edit dialog; errors are rethrown so the dialog stays open
+  const handleBulkEdit = useCallback(
+    async (values: string[]) => {
+      if (!bulkEditMode) return;
+
+      if (bulkEditMode === 'setCategories') {
+        // New categories need slug mappings first, same as saving a post
+        const newCats = detectNewCategories(values);
+        if (Object.keys(newCats).length > 0) {
+          setPendingBulkCategories({ categories: values, mappings: newCats });
+          setBulkEditMode(null);
+          return;
+        }
+      }
+
+      const count = selectedPostIds.size;
+      await runBulkAction(
+        bulkEditMode === 'setCategories' ? { type: 'setCategories', categories: values } : { type: bulkEditMode, tags: values },
+      );
+      setBulkEditMode(null);
+      setSelectedPostIds(new Set());
+      toast.success(`Updated ${count} post(s)`);
+    },
+    [bulkEditMode, selectedPostIds, runBulkAction],
+  );
+
+  const handleBulkCategoryMappingConfirm = useCallback(
+    async (mappings: Record<string, string>) => {
+      if (!pendingBulkCategories) return;
+      setPendingBulkCategories(null);
+
+      const count = selectedPostIds.size;
+      try {
+        await runBulkAction({
+          type: 'setCategories',
+          categories: pendingBulkCategories.categories,
+          categoryMappings: mappings,
+        });
+      } catch {
+        return;
+      }
+      setCategoryMap({ ...getCategoryMap(), ...mappings });
+      setSelectedPostIds(new Set());
+      toast.success(`Updated ${count} post(s)`);
+    },
+    [pendingBulkCategories, selectedPostIds, runBulkAction],
+  );
+
+  const handleBulkCategoryMappingCancel = useCallback(() => {
+    setPendingBulkCategories(null);
+  }, []);
+
   const handleCreatePostSuccess = useCallback(
     (postId: string) => {
       toast.success('Post created successfully');
@@ -190,6 +469,17 @@ export function useDashboardState(): UseDashboardStateResult {
     isCreateDialogOpen,
     setIsCreateDialogOpen,
     editingPostId,
+    renamingPost,
+    setRenamingPost,
+    movingPost,
+    setMovingPost,
+    selectedPostIds,
+    setSelectedPostIds,
+    bulkEditMode,
+    setBulkEditMode,
+    pendingBulkCategoryMappings: pendingBulkCategories?.mappings ?? null,
+    isBulkUpdating,
+    featuredSeries,
     search,
     setSearch,
     category,
@@ -202,6 +492,13 @@ export function useDashboardState(): UseDashboardStateResult {
     handleSort,
     handleToggleDraft,
     handleToggleSticky,
+    handleDeletePost,
+    handleRenamePost,
+    handleMovePost,
+    handleBulkAction,
+    handleBulkEdit,
+    handleBulkCategoryMappingConfirm,
+    handleBulkCategoryMappingCancel,
     handleCreatePostSuccess,
     handleEditPost,
     handleOpenInEditor,
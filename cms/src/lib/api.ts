@@ -6,17 +6,46 @@
 
 import { format, isValid, parse, parseISO } from 'date-fns';
 import type {
+  BatchAction,
+  BatchPostsResponse,
   BlogSchema,
+  ContentChangeEvent,
   CreatePostParams,
   CreatePostResponse,
+  DeletePostResponse,
   ListPostsParams,
   ListPostsResponse,
+  PostConflictResponse,
+  PostHistoryResponse,
   ReadPostResult,
+  RelocatePostResponse,
+  RestorePostResponse,
+  RevertPostResponse,
+  RevisionContentResponse,
   ToggleDraftResponse,
   ToggleStickyResponse,
+  UploadResponse,
+  WritePostResponse,
 } from '@/types';
 import { setCategoryMap } from './category';
 
+/**
+ * Thrown by writePost when the file was changed or deleted since it was read
+ */
+export class PostConflictError extends Error {
+  /** Hash of the file content on disk, null when deleted */
+  readonly hash: string | null;
+  /** File content on disk, including frontmatter, null when deleted */
+  readonly content: string | null;
+
+  constructor(conflict: PostConflictResponse) {
+    super(conflict.error);
+    this.name = 'PostConflictError';
+    this.hash = conflict.hash;
+    this.content = conflict.content;
+  }
+}
+
 /**
  * Encode a slug for URL usage
  */
@@ -91,6 +120,20 @@ function prepareFrontmatterForApi(frontmatter: BlogSchema): Record<string, unkno
   return result;
 }
 
+/**
+ * Converts date strings in raw frontmatter (as parsed with the YAML JSON schema) to Date objects
+ */
+export function parseFrontmatterDates(frontmatter: Record<string, unknown>): BlogSchema {
+  const result = { ...frontmatter };
+  for (const key of ['date', 'updated'] as const) {
+    const value = result[key];
+    if (value && typeof value === 'string') {
+      result[key] = safeParseDateString(value);
+    }
+  }
+  return result as unknown as BlogSchema;
+}
+
 /**
  * Reads a blog post from the CMS API
  *
@@ -108,15 +151,7 @@ export async function readPost(postId: string): Promise<ReadPostResult> {
 
   const data = await response.json();
 
-  // Convert date strings to Date objects with safe parsing
-  if (data.frontmatter.date && typeof data.frontmatter.date === 'string') {
-    data.frontmatter.date = safeParseDateString(data.frontmatter.date);
-  }
-  if (data.frontmatter.updated && typeof data.frontmatter.updated === 'string') {
-    data.frontmatter.updated = safeParseDateString(data.frontmatter.updated);
-  }
-
-  return data as ReadPostResult;
+  return { frontmatter: parseFrontmatterDates(data.frontmatter), content: data.content, hash: data.hash } as ReadPostResult;
 }
 
 /**
@@ -126,14 +161,19 @@ export async function readPost(postId: string): Promise<ReadPostResult> {
  * @param frontmatter - The post frontmatter
  * @param content - The post content (markdown)
  * @param categoryMappings - Optional new category mappings to add to config/site.yaml
+ * @param baseHash - Hash of the file version the edit is based on (from readPost or a previous write),
+ *                   null to create the file again after it was deleted
+ * @returns The hash of the written file
+ * @throws PostConflictError if the file was changed or deleted since baseHash
  * @throws Error if the request fails
  */
 export async function writePost(
   postId: string,
   frontmatter: BlogSchema,
   content: string,
-  categoryMappings?: Record<string, string>,
-): Promise<void> {
+  categoryMappings: Record<string, string> | undefined,
+  baseHash: string | null,
+): Promise<WritePostResponse> {
   const response = await fetch('/api/cms/write', {
     method: 'POST',
     headers: {
@@ -144,13 +184,20 @@ export async function writePost(
       frontmatter: prepareFrontmatterForApi(frontmatter),
       content,
       categoryMappings,
+      baseHash,
     }),
   });
 
+  if (response.status === 409) {
+    throw new PostConflictError(await response.json());
+  }
+
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
     throw new Error(errorData.error || `Failed to write post: ${response.status}`);
   }
+
+  return response.json();
 }
 
 /**
@@ -251,6 +298,213 @@ export async function toggleSticky(postId: string): Promise<ToggleStickyResponse
   return response.json();
 }
 
+/**
+ * Uploads an image for a post
+ *
+ * @param postId - The post ID (file path)
+ * @param file - The image file
+ * @returns The stored image, including the path to insert into Markdown
+ */
+export async function uploadImage(postId: string, file: File): Promise<UploadResponse> {
+  const formData = new FormData();
+  formData.append('postId', postId);
+  formData.append('file', file);
+
+  const response = await fetch('/api/cms/upload', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to upload image: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Moves a post to the trash folder (.cms-trash/)
+ *
+ * @returns The trash ID for undo and posts still linking to it
+ */
+export async function deletePost(postId: string): Promise<DeletePostResponse> {
+  const response = await fetch('/api/cms/delete', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ postId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to delete post: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Restores a post from the trash folder
+ */
+export async function restorePost(trashId: string): Promise<RestorePostResponse> {
+  const response = await fetch('/api/cms/restore', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ trashId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to restore post: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Renames a post file and/or changes its link
+ *
+ * @param changes.fileName - New file name without extension
+ * @param changes.link - New link, null to remove it
+ */
+export async function renamePost(
+  postId: string,
+  changes: { fileName?: string; link?: string | null },
+): Promise<RelocatePostResponse> {
+  const response = await fetch('/api/cms/rename', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ postId, ...changes }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to rename post: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Moves a post to another folder
+ *
+ * @param folder - Folder relative to the content directory, '' for the root
+ */
+export async function movePost(postId: string, folder: string): Promise<RelocatePostResponse> {
+  const response = await fetch('/api/cms/move', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ postId, folder }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to move post: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Applies an action to several posts at once
+ * The batch is atomic; check `success` and the per-post errors in `results`
+ *
+ * @param postIds - The post IDs
+ * @param action - The change to apply
+ * @returns Per-post results
+ * @throws Error if the request is invalid or fails
+ */
+export async function batchUpdatePosts(postIds: string[], action: BatchAction): Promise<BatchPostsResponse> {
+  const response = await fetch('/api/cms/batch', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ postIds, action }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  // 422 carries per-post errors
+  if (!response.ok && !Array.isArray(data.results)) {
+    throw new Error(data.error || `Failed to update posts: ${response.status}`);
+  }
+
+  return data as BatchPostsResponse;
+}
+
+/**
+ * Lists the revisions of a post, newest first
+ */
+export async function getPostHistory(postId: string): Promise<PostHistoryResponse> {
+  const response = await fetch(`/api/cms/history?postId=${encodeSlug(postId)}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to load history: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Reads the full file content of a revision
+ */
+export async function getRevision(postId: string, revisionId: string): Promise<RevisionContentResponse> {
+  const response = await fetch(`/api/cms/revision?postId=${encodeSlug(postId)}&revisionId=${encodeURIComponent(revisionId)}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to load revision: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Restores a post to a revision
+ */
+export async function revertPost(postId: string, revisionId: string): Promise<RevertPostResponse> {
+  const response = await fetch('/api/cms/revert', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ postId, revisionId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Failed to revert post: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Subscribes to post file changes pushed by the server
+ *
+ * @param onChange - Called for every changed or deleted post file
+ * @returns Function that closes the connection
+ */
+export function subscribeToContentChanges(onChange: (event: ContentChangeEvent) => void): () => void {
+  const source = new EventSource('/api/cms/events');
+
+  source.addEventListener('change', (e) => {
+    onChange(JSON.parse((e as MessageEvent<string>).data) as ContentChangeEvent);
+  });
+
+  return () => source.close();
+}
+
 /**
  * CMS configuration from server
  */
@@ -258,6 +512,8 @@ export interface CMSConfigResponse {
   projectRoot: string;
   contentDir: string;
   categoryMap: Record<string, string>;
+  /** Enabled featured series; a post belongs to a series through its category */
+  featuredSeries: { slug: string; label: string; categoryName: string }[];
 }
 
 // Cache for CMS config
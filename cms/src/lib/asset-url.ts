@@ -0,0 +1,30 @@
+/**
+ * Asset URL utilities
+ *
+ * Maps image paths written in Markdown to URLs the CMS server can serve,
+ * so the editor shows images stored in public/ or next to the post.
+ */
+
+import { ASSET_ROUTE, CONTENT_DIR, PUBLIC_DIR } from './paths';
+
+/**
+ * Resolves a Markdown image path for display in the editor
+ *
+ * @example
+ * resolveAssetUrl('/img/cover/1.webp', 'note/theme.md')  // '/cms-assets/public/img/cover/1.webp'
+ * resolveAssetUrl('./shot.webp', 'note/theme.md')        // '/cms-assets/src/content/blog/note/shot.webp'
+ * resolveAssetUrl('https://example.com/a.png', 'a.md')   // unchanged
+ */
+export function resolveAssetUrl(url: string, postId: string): string {
+  if (url.startsWith('/') && !url.startsWith('//') && !url.startsWith(ASSET_ROUTE)) {
+    return `${ASSET_ROUTE}${PUBLIC_DIR}${url}`;
+  }
+
+  if (url.startsWith('./') || url.startsWith('../')) {
+    const postDir = postId.includes('/') ? postId.slice(0, postId.lastIndexOf('/')) : '';
+    const base = `http://cms/${CONTENT_DIR}/${postDir ? `${postDir}/` : ''}`;
+    return `${ASSET_ROUTE}${new URL(url, base).pathname.slice(1)}`;
+  }
+
+  return url;
+}
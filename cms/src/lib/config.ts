@@ -18,6 +18,59 @@ export const DEV_SERVER_PORT = 4321;
 /** Astro dev server URL for previewing posts */
 export const DEV_SERVER_URL = `http://localhost:${DEV_SERVER_PORT}`;
 
+/** Timezone used when site.timezone is missing or invalid (same as the site build) */
+export const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+
+// Site timezone will be loaded at runtime from config
+let siteTimezone = DEFAULT_TIMEZONE;
+
+/**
+ * Set the site timezone from config (site.timezone), falling back to DEFAULT_TIMEZONE
+ */
+export function setSiteTimezone(timezone: unknown) {
+  if (typeof timezone !== 'string' || !timezone) {
+    siteTimezone = DEFAULT_TIMEZONE;
+    return;
+  }
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    siteTimezone = timezone;
+  } catch {
+    console.warn(`[CMS] Invalid timezone "${timezone}", falling back to "${DEFAULT_TIMEZONE}"`);
+    siteTimezone = DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Get the site timezone, in which dates without an offset are interpreted
+ */
+export function getSiteTimezone(): string {
+  return siteTimezone;
+}
+
+// Site origin will be loaded at runtime from config
+let siteOrigin: string | null = null;
+
+/**
+ * Set the site origin from config (site.url), ignored when missing or not a URL
+ */
+export function setSiteOrigin(url: unknown) {
+  siteOrigin = null;
+  if (typeof url !== 'string' || !url) return;
+  try {
+    siteOrigin = new URL(url).origin;
+  } catch {
+    console.warn(`[CMS] Invalid site URL "${url}", absolute links to the site will not be recognized`);
+  }
+}
+
+/**
+ * Get the site origin (e.g. https://example.com), used to recognize absolute links to the site
+ */
+export function getSiteOrigin(): string | null {
+  return siteOrigin;
+}
+
 /**
  * Adds new category mappings to config/site.yaml
  * Preserves the existing file structure and adds to the categoryMap section
@@ -0,0 +1,92 @@
+/**
+ * CMS Content Watcher
+ *
+ * Watches the content directory and notifies subscribers when a post file is
+ * changed or deleted, whether by the CMS or another editor. The watcher runs
+ * only while there are subscribers (see api/events.ts).
+ */
+
+import { type FSWatcher, watch } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ContentChangeEvent } from '@/types';
+import { CONTENT_DIR } from './paths';
+import { hashContent } from './post-files';
+import { hasValidMarkdownExtension } from './validation';
+
+type ContentChangeListener = (event: ContentChangeEvent) => void;
+
+/** Delay to coalesce the burst of events a single save produces */
+const DEBOUNCE_MS = 100;
+
+const listeners = new Set<ContentChangeListener>();
+const pendingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+/** Last reported hash per post, to skip events that did not change the content */
+const lastHashes = new Map<string, string | null>();
+let watcher: FSWatcher | null = null;
+
+async function emitChange(contentDir: string, postId: string): Promise<void> {
+  let hash: string | null = null;
+  try {
+    hash = hashContent(await fs.readFile(path.join(contentDir, postId), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[CMS Watcher] Failed to read changed file:', error);
+      return;
+    }
+  }
+
+  if (lastHashes.get(postId) === hash) return;
+  lastHashes.set(postId, hash);
+
+  const event: ContentChangeEvent = { type: hash ? 'change' : 'delete', postId, hash };
+  for (const listener of listeners) {
+    listener(event);
+  }
+}
+
+function startWatcher(projectRoot: string): FSWatcher {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+
+  const fsWatcher = watch(contentDir, { recursive: true }, (_eventType, filename) => {
+    if (!filename) return;
+    const postId = filename.toString().split(path.sep).join('/');
+    if (!hasValidMarkdownExtension(postId)) return;
+
+    clearTimeout(pendingTimers.get(postId));
+    pendingTimers.set(
+      postId,
+      setTimeout(() => {
+        pendingTimers.delete(postId);
+        void emitChange(contentDir, postId);
+      }, DEBOUNCE_MS),
+    );
+  });
+
+  fsWatcher.on('error', (error) => {
+    console.error('[CMS Watcher] Error:', error);
+  });
+
+  return fsWatcher;
+}
+
+/**
+ * Subscribes to post file changes, starting the watcher if needed
+ *
+ * @returns Function that removes the listener (and stops the watcher after the last one)
+ */
+export function watchContentChanges(projectRoot: string, listener: ContentChangeListener): () => void {
+  watcher ??= startWatcher(projectRoot);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0 || !watcher) return;
+
+    watcher.close();
+    watcher = null;
+    for (const timer of pendingTimers.values()) clearTimeout(timer);
+    pendingTimers.clear();
+    lastHashes.clear();
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Line Diff
+ *
+ * Minimal line-based diff (LCS) used to compare post revisions side by side
+ * and to merge conflicting versions of a post.
+ */
+
+/** Above this many line pairs the changed middle part is shown as a full replace */
+const MAX_LCS_CELLS = 4_000_000;
+
+export interface DiffLine {
+  /** 1-based line number in its revision */
+  lineNumber: number;
+  text: string;
+}
+
+/**
+ * A row of the side-by-side view. Removed lines only have `left`,
+ * added lines only `right`, changed rows pair a removed and an added line.
+ */
+export interface DiffRow {
+  type: 'equal' | 'removed' | 'added' | 'changed';
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+type DiffOp = { type: 'equal' | 'removed' | 'added'; text: string };
+
+/**
+ * Computes line operations turning `a` into `b`
+ */
+function diffLineOps(a: string[], b: string[]): DiffOp[] {
+  // Common prefix/suffix are compared directly to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((text) => ({ type: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    ops.push(...midA.map((text) => ({ type: 'removed' as const, text })));
+    ops.push(...midB.map((text) => ({ type: 'added' as const, text })));
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          midA[i] === midB[j]
+            ? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+            : Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && midA[i] === midB[j]) {
+        ops.push({ type: 'equal', text: midA[i++] as string });
+        j++;
+      } else if (j < m && (i >= n || (lcs[i * width + j + 1] ?? 0) >= (lcs[(i + 1) * width + j] ?? 0))) {
+        ops.push({ type: 'added', text: midB[j++] as string });
+      } else {
+        ops.push({ type: 'removed', text: midA[i++] as string });
+      }
+    }
+  }
+
+  ops.push(...a.slice(endA).map((text) => ({ type: 'equal' as const, text })));
+  return ops;
+}
+
+/**
+ * Builds side-by-side rows comparing two texts line by line
+ */
+export function diffSideBySide(oldText: string, newText: string): DiffRow[] {
+  const ops = diffLineOps(oldText.split(/\r?\n/), newText.split(/\r?\n/));
+  const rows: DiffRow[] = [];
+  let leftLine = 1;
+  let rightLine = 1;
+  let index = 0;
+
+  while (index < ops.length) {
+    const op = ops[index] as DiffOp;
+    if (op.type === 'equal') {
+      rows.push({
+        type: 'equal',
+        left: { lineNumber: leftLine++, text: op.text },
+        right: { lineNumber: rightLine++, text: op.text },
+      });
+      index++;
+      continue;
+    }
+
+    // Pair a run of removed lines with the added lines that follow it
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index]?.type !== 'equal') {
+      const change = ops[index] as DiffOp;
+      (change.type === 'removed' ? removed : added).push(change.text);
+      index++;
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? { lineNumber: leftLine++, text: removed[k] as string } : null;
+      const right = k < added.length ? { lineNumber: rightLine++, text: added[k] as string } : null;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Merges two texts line by line, wrapping each differing part in Git-style conflict markers
+ */
+export function mergeWithConflictMarkers(ours: string, theirs: string, labels: { ours: string; theirs: string }): string {
+  const lines: string[] = [];
+  let oursHunk: string[] = [];
+  let theirsHunk: string[] = [];
+
+  const flushHunk = () => {
+    if (oursHunk.length === 0 && theirsHunk.length === 0) return;
+    lines.push(`<<<<<<< ${labels.ours}`, ...oursHunk, '=======', ...theirsHunk, `>>>>>>> ${labels.theirs}`);
+    oursHunk = [];
+    theirsHunk = [];
+  };
+
+  for (const row of diffSideBySide(ours, theirs)) {
+    if (row.type === 'equal') {
+      flushHunk();
+      lines.push(row.left?.text ?? '');
+      continue;
+    }
+    if (row.left) oursHunk.push(row.left.text);
+    if (row.right) theirsHunk.push(row.right.text);
+  }
+  flushHunk();
+
+  return lines.join('\n');
+}
@@ -0,0 +1,285 @@
+/**
+ * Markdown Directive Blocks
+ *
+ * Splits Markdown into plain segments and the custom syntax BlockNote cannot
+ * represent (::comic{}, ::video{}, :::note containers and > [!TIP] alerts),
+ * and serializes those blocks back. Used by the editor for lossless round-tripping.
+ *
+ * Only top-level syntax (starting at column 0, outside code fences) is extracted;
+ * see src/lib/markdown/remark-{comic,video,github-alerts}.ts for the renderers.
+ */
+
+export const ALERT_TYPES = ['note', 'tip', 'important', 'warning', 'caution'] as const;
+
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+/** Attributes of ::comic{} (see remark-comic.ts) */
+export interface ComicAttributes {
+  id: string;
+  name: string;
+  src: string;
+  author: string;
+  artist: string;
+  cover: string;
+}
+
+/** Attributes of ::video{} (see remark-video.ts) */
+export interface VideoAttributes {
+  src: string;
+  poster: string;
+  autoplay: boolean;
+  loop: boolean;
+  muted: boolean;
+}
+
+/** Alert in GitHub (> [!TIP]) or directive (:::tip[Title]) syntax */
+export interface AlertAttributes {
+  alertType: AlertType;
+  syntax: 'github' | 'directive';
+  /** Custom title, directive syntax only */
+  title: string;
+  /** Inner Markdown */
+  body: string;
+}
+
+/**
+ * A directive block extracted from Markdown.
+ * `source` is the original text, written back unchanged until the block is edited.
+ */
+export type DirectiveBlock =
+  | { type: 'comic'; props: ComicAttributes; source: string }
+  | { type: 'video'; props: VideoAttributes; source: string }
+  | { type: 'alert'; props: AlertAttributes; source: string };
+
+export type MarkdownSegment = { kind: 'markdown'; text: string } | { kind: 'directive'; block: DirectiveBlock };
+
+const COMIC_ATTRIBUTES = ['id', 'name', 'src', 'author', 'artist', 'cover'] as const;
+const VIDEO_STRING_ATTRIBUTES = ['src', 'poster'] as const;
+const VIDEO_BOOLEAN_ATTRIBUTES = ['autoplay', 'loop', 'muted'] as const;
+
+const LEAF_DIRECTIVE_PATTERN = /^::(comic|video)(\{.*\})?[ \t]*$/;
+const CONTAINER_OPEN_PATTERN = /^:::(note|tip|important|warning|caution)(?:\[(.*)\])?[ \t]*$/i;
+const CONTAINER_ANY_OPEN_PATTERN = /^:::+[a-z]/i;
+const CONTAINER_CLOSE_PATTERN = /^:::+[ \t]*$/;
+const GITHUB_ALERT_PATTERN = /^>[ \t]?\[!(note|tip|important|warning|caution)\][ \t]*(.*)$/i;
+const FENCE_PATTERN = /^(`{3,}|~{3,})/;
+
+const NAMED_REFERENCES: Record<string, string> = { amp: '&', quot: '"', apos: "'", lt: '<', gt: '>' };
+
+/**
+ * Decodes the character references remark-directive decodes in attribute values
+ * (named references limited to the ones serializeAttributes may write)
+ */
+function decodeCharacterReferences(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, reference: string) => {
+    if (reference.startsWith('#')) {
+      const code =
+        reference[1] === 'x' || reference[1] === 'X' ? Number.parseInt(reference.slice(2), 16) : Number(reference.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_REFERENCES[reference.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Parses directive attributes: {key="value" key='value' key=value flag}
+ */
+export function parseDirectiveAttributes(input: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = input.replace(/^\{|\}$/g, '');
+  const pattern = /([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([^\s"'}]+)))?/g;
+
+  for (const match of body.matchAll(pattern)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    if (key) attributes[key] = decodeCharacterReferences(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Quotes an attribute value, escaping what would otherwise end the value or be decoded
+ */
+function quoteAttributeValue(value: string): string {
+  const escaped = value.replace(/&(?=#x[\da-f]+;|#\d+;|[a-z]+;)/gi, '&amp;');
+  if (!escaped.includes('"')) return `"${escaped}"`;
+  if (!escaped.includes("'")) return `'${escaped}'`;
+  return `"${escaped.replaceAll('"', '&quot;')}"`;
+}
+
+/**
+ * Serializes attributes, skipping empty values; `true` is written as a bare flag
+ */
+function serializeAttributes(entries: [string, string | boolean][]): string {
+  const parts = entries.flatMap(([key, value]) => {
+    if (value === true) return [key];
+    if (value === false || value === '') return [];
+    return [`${key}=${quoteAttributeValue(value)}`];
+  });
+  return `{${parts.join(' ')}}`;
+}
+
+function toComicAttributes(attributes: Record<string, string>): ComicAttributes {
+  return {
+    id: attributes.id ?? '',
+    name: attributes.name ?? '',
+    src: attributes.src ?? '',
+    author: attributes.author ?? '',
+    artist: attributes.artist ?? '',
+    cover: attributes.cover ?? '',
+  };
+}
+
+function toVideoAttributes(attributes: Record<string, string>): VideoAttributes {
+  // Same rule as parseBooleanAttr in remark-video.ts: present and not 'false'
+  const flag = (key: string) => key in attributes && attributes[key] !== 'false';
+  return {
+    src: attributes.src ?? '',
+    poster: attributes.poster ?? '',
+    autoplay: flag('autoplay'),
+    loop: flag('loop'),
+    muted: flag('muted'),
+  };
+}
+
+/**
+ * Serializes a directive block, returning its original source when unchanged
+ */
+export function serializeDirectiveBlock(block: DirectiveBlock): string {
+  if (block.source) return block.source;
+
+  switch (block.type) {
+    case 'comic':
+      return `::comic${serializeAttributes(COMIC_ATTRIBUTES.map((key) => [key, block.props[key]]))}`;
+    case 'video':
+      return `::video${serializeAttributes([
+        ...VIDEO_STRING_ATTRIBUTES.map((key): [string, string] => [key, block.props[key]]),
+        ...VIDEO_BOOLEAN_ATTRIBUTES.map((key): [string, boolean] => [key, block.props[key]]),
+      ])}`;
+    case 'alert': {
+      const { alertType, syntax, title, body } = block.props;
+      const content = body.replace(/\n+$/, '');
+      if (syntax === 'directive') {
+        return `:::${alertType}${title ? `[${title}]` : ''}\n${content}\n:::`;
+      }
+      const lines = content ? content.split('\n').map((line) => (line ? `> ${line}` : '>')) : [];
+      return [`> [!${alertType.toUpperCase()}]`, ...lines].join('\n');
+    }
+  }
+}
+
+/**
+ * Splits Markdown into plain segments and directive blocks
+ */
+export function splitDirectiveBlocks(markdown: string): MarkdownSegment[] {
+  const lines = markdown.split(/\r?\n/);
+  const segments: MarkdownSegment[] = [];
+  let buffer: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    const text = buffer.join('\n');
+    if (text.trim()) segments.push({ kind: 'markdown', text });
+    buffer = [];
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index] as string;
+
+    // Skip code fences so examples of the syntax stay plain code
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (fenceMatch?.[1]?.startsWith(fence)) fence = null;
+      buffer.push(line);
+      index++;
+      continue;
+    }
+    if (fenceMatch?.[1]) {
+      fence = fenceMatch[1];
+      buffer.push(line);
+      index++;
+      continue;
+    }
+
+    const leaf = line.match(LEAF_DIRECTIVE_PATTERN);
+    if (leaf?.[1]) {
+      flush();
+      const attributes = parseDirectiveAttributes(leaf[2] ?? '');
+      segments.push({
+        kind: 'directive',
+        block:
+          leaf[1] === 'comic'
+            ? { type: 'comic', props: toComicAttributes(attributes), source: line }
+            : { type: 'video', props: toVideoAttributes(attributes), source: line },
+      });
+      index++;
+      continue;
+    }
+
+    const container = line.match(CONTAINER_OPEN_PATTERN);
+    if (container?.[1]) {
+      // Find the matching close fence, allowing nested containers
+      let depth = 1;
+      let end = index + 1;
+      while (end < lines.length) {
+        const current = lines[end] as string;
+        if (CONTAINER_CLOSE_PATTERN.test(current)) depth--;
+        else if (CONTAINER_ANY_OPEN_PATTERN.test(current)) depth++;
+        if (depth === 0) break;
+        end++;
+      }
+
+      if (end < lines.length) {
+        flush();
+        segments.push({
+          kind: 'directive',
+          block: {
+            type: 'alert',
+            props: {
+              alertType: container[1].toLowerCase() as AlertType,
+              syntax: 'directive',
+              title: container[2] ?? '',
+              body: lines.slice(index + 1, end).join('\n'),
+            },
+            source: lines.slice(index, end + 1).join('\n'),
+          },
+        });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    const alert = line.match(GITHUB_ALERT_PATTERN);
+    if (alert?.[1]) {
+      let end = index + 1;
+      while (end < lines.length && (lines[end] as string).startsWith('>')) end++;
+
+      const bodyLines = lines.slice(index + 1, end).map((item) => item.replace(/^>[ \t]?/, ''));
+      if (alert[2]) bodyLines.unshift(alert[2]);
+
+      flush();
+      segments.push({
+        kind: 'directive',
+        block: {
+          type: 'alert',
+          props: {
+            alertType: alert[1].toLowerCase() as AlertType,
+            syntax: 'github',
+            title: '',
+            body: bodyLines.join('\n'),
+          },
+          source: lines.slice(index, end).join('\n'),
+        },
+      });
+      index = end;
+      continue;
+    }
+
+    buffer.push(line);
+    index++;
+  }
+
+  flush();
+  return segments;
+}
@@ -0,0 +1,112 @@
+/**
+ * CMS Revision History
+ *
+ * Server-side store for post revisions under .cache/cms-history/<postId>/.
+ * Each revision is a full copy of the Markdown file named <timestamp>-<source>.md.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { PostRevision, RevisionSource } from '@/types';
+import { HISTORY_DIR, MAX_REVISIONS } from './paths';
+
+const REVISION_FILE_PATTERN = /^(\d+)-(save|disk|revert)\.md$/;
+
+/** Revision IDs accepted by the API, e.g. '1729300000000-save' */
+export const REVISION_ID_PATTERN = /^\d+-(save|disk|revert)$/;
+
+function getHistoryDir(projectRoot: string, postId: string): string {
+  return path.join(projectRoot, HISTORY_DIR, postId);
+}
+
+/**
+ * Lists revisions of a post, newest first
+ */
+export async function listRevisions(projectRoot: string, postId: string): Promise<PostRevision[]> {
+  const dir = getHistoryDir(projectRoot, postId);
+
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const revisions: PostRevision[] = [];
+  for (const file of files) {
+    const match = file.match(REVISION_FILE_PATTERN);
+    if (!match?.[1] || !match[2]) continue;
+
+    const stat = await fs.stat(path.join(dir, file));
+    revisions.push({
+      id: file.slice(0, -'.md'.length),
+      createdAt: new Date(Number(match[1])).toISOString(),
+      source: match[2] as RevisionSource,
+      size: stat.size,
+    });
+  }
+
+  return revisions.sort((a, b) => b.id.localeCompare(a.id, undefined, { numeric: true }));
+}
+
+/**
+ * Reads the content of a revision
+ */
+export async function readRevision(projectRoot: string, postId: string, revisionId: string): Promise<string> {
+  return fs.readFile(path.join(getHistoryDir(projectRoot, postId), `${revisionId}.md`), 'utf-8');
+}
+
+/**
+ * Stores a revision unless it matches the latest one, then prunes old revisions
+ *
+ * @param source - 'save': written by the CMS, 'disk': file content found before a write
+ *   (e.g. edited in another editor), 'revert': restored from an older revision
+ * @returns The new revision ID, or null if the content was unchanged
+ */
+export async function recordRevision(
+  projectRoot: string,
+  postId: string,
+  content: string,
+  source: RevisionSource,
+): Promise<string | null> {
+  const dir = getHistoryDir(projectRoot, postId);
+  const revisions = await listRevisions(projectRoot, postId);
+  const latest = revisions[0];
+
+  if (latest && (await readRevision(projectRoot, postId, latest.id)) === content) {
+    return null;
+  }
+
+  // Keep IDs increasing even when two revisions are recorded within the same millisecond
+  const latestTime = latest ? Number(latest.id.split('-')[0]) : 0;
+  const id = `${Math.max(Date.now(), latestTime + 1)}-${source}`;
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${id}.md`), content, 'utf-8');
+
+  for (const old of revisions.slice(MAX_REVISIONS - 1)) {
+    await fs.rm(path.join(dir, `${old.id}.md`), { force: true });
+  }
+
+  return id;
+}
+
+/**
+ * Moves the history of a renamed/moved post to its new ID
+ */
+export async function moveHistory(projectRoot: string, fromId: string, toId: string): Promise<void> {
+  const from = getHistoryDir(projectRoot, fromId);
+  const to = getHistoryDir(projectRoot, toId);
+
+  try {
+    await fs.access(from);
+  } catch {
+    return;
+  }
+
+  // A leftover history at the new ID (e.g. from a deleted post) is replaced
+  await fs.rm(to, { recursive: true, force: true });
+  await fs.mkdir(path.dirname(to), { recursive: true });
+  await fs.rename(from, to);
+}
@@ -5,19 +5,51 @@
  */
 
 // API functions
-export { createPost, listPosts, readPost, toggleDraft, writePost } from './api';
+export {
+  batchUpdatePosts,
+  createPost,
+  deletePost,
+  getPostHistory,
+  getRevision,
+  listPosts,
+  movePost,
+  PostConflictError,
+  readPost,
+  renamePost,
+  restorePost,
+  revertPost,
+  subscribeToContentChanges,
+  toggleDraft,
+  uploadImage,
+  writePost,
+} from './api';
+// Asset URLs
+export { resolveAssetUrl } from './asset-url';
 // Category utilities
 export { detectNewCategories, extractCategoryNames, generateCategorySlug, getCategoryMap, setCategoryMap } from './category';
 // Config utilities (server-side only)
 export { addCategoryMappings } from './config';
+// Revision diff
+export { type DiffLine, type DiffRow, diffSideBySide, mergeWithConflictMarkers } from './diff';
 // Markdown rendering
 export { renderMarkdown } from './markdown-render';
 // Path constants
-export { CONFIG_PATH, CONTENT_DIR, MAX_CATEGORY_DISPLAY, MAX_RECENT_POSTS_DISPLAY, RECENT_POSTS_COUNT } from './paths';
+export {
+  ASSET_ROUTE,
+  CONFIG_PATH,
+  CONTENT_DIR,
+  LQIP_PATH,
+  MAX_CATEGORY_DISPLAY,
+  MAX_RECENT_POSTS_DISPLAY,
+  PUBLIC_DIR,
+  RECENT_POSTS_COUNT,
+} from './paths';
 // Preview enhancement
 export { enhancePreviewContent } from './preview-enhancer';
 // Form schemas
 export {
+  type BulkEditFormData,
+  bulkEditSchema,
   type CategoryMappingFormData,
   type CreatePostFormData,
   categoryMappingSchema,
@@ -25,9 +57,15 @@ export {
   createPostSchema,
   type FrontmatterFormData,
   frontmatterSchema,
+  type MovePostFormData,
+  movePostSchema,
+  type RenamePostFormData,
+  renamePostSchema,
 } from './schemas';
 // Slug generation
 export { generateSlug } from './slug';
+// Source mode documents
+export { composeSourceDocument, getSourceBody, normalizeSourceDocument, parseSourceDocument } from './source-document';
 // Utils
 export { cn } from './utils';
 // Validation utilities
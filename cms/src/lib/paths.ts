@@ -10,6 +10,30 @@ export const CONTENT_DIR = 'src/content/blog';
 /** Config file path relative to project root */
 export const CONFIG_PATH = 'config/site.yaml';
 
+/** Static assets directory relative to project root */
+export const PUBLIC_DIR = 'public';
+
+/** LQIP data file relative to project root (keys are relative to public/img/) */
+export const LQIP_PATH = 'src/assets/lqips.json';
+
+/** Generated AI summaries relative to project root (keyed by post slug) */
+export const SUMMARIES_PATH = 'src/assets/summaries.json';
+
+/** Generated similar posts relative to project root (keyed by post slug) */
+export const SIMILARITIES_PATH = 'src/assets/similarities.json';
+
+/** Trash folder for deleted posts, relative to project root */
+export const TRASH_DIR = '.cms-trash';
+
+/** Revision history of posts saved in the CMS, relative to project root */
+export const HISTORY_DIR = '.cache/cms-history';
+
+/** Maximum revisions kept per post (oldest are removed first) */
+export const MAX_REVISIONS = 50;
+
+/** URL prefix the CMS server uses to serve project images to the editor */
+export const ASSET_ROUTE = '/cms-assets/';
+
 /** Number of recent posts to show in dashboard overview */
 export const RECENT_POSTS_COUNT = 10;
 
@@ -0,0 +1,334 @@
+/**
+ * CMS Post File Utilities
+ *
+ * Server-side helpers for post files: content hashes for conflict detection,
+ * frontmatter updates for batch edits, and for delete/rename/move operations
+ * listing post files, resolving URL slugs, moving files, the trash folder, and
+ * fixing internal links that point to a post whose slug changed.
+ */
+
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import matter from 'gray-matter';
+import yaml from 'js-yaml';
+import { getSiteOrigin } from './config';
+import { CONTENT_DIR, SIMILARITIES_PATH, SUMMARIES_PATH, TRASH_DIR } from './paths';
+
+/**
+ * Thrown when a move, rename or restore would overwrite an existing post
+ */
+export class PostExistsError extends Error {
+  constructor(postId: string) {
+    super(`A post already exists at ${postId}`);
+    this.name = 'PostExistsError';
+  }
+}
+
+/** Trash entry metadata, stored as meta.json next to the trashed file */
+interface TrashMeta {
+  postId: string;
+  deletedAt: string;
+}
+
+/**
+ * Hashes a post file's content, used as its version for conflict detection
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Recursively lists markdown files, returning paths relative to baseDir
+ */
+export async function getAllMarkdownFiles(dir: string, baseDir: string = dir): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const subFiles = await getAllMarkdownFiles(fullPath, baseDir);
+      files.push(...subFiles);
+    } else if (entry.isFile() && (entry.name.endsWith('.md') || entry.name.endsWith('.mdx'))) {
+      // Get relative path from base content dir
+      const relativePath = path.relative(baseDir, fullPath);
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads the frontmatter of a post (dates kept as strings)
+ */
+export async function readPostFrontmatter(filePath: string): Promise<Record<string, unknown>> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const { data } = matter(content, {
+    engines: {
+      yaml: {
+        parse: (str) => yaml.load(str, { schema: yaml.JSON_SCHEMA }) as object,
+        stringify: (obj) => yaml.dump(obj),
+      },
+    },
+  });
+  return data;
+}
+
+/**
+ * Applies changes to the frontmatter of a post file (dates kept as strings),
+ * writing YAML the same way as the write API
+ */
+export function updatePostFrontmatter(fileContent: string, update: (frontmatter: Record<string, unknown>) => void): string {
+  const { data, content } = matter(fileContent, {
+    engines: {
+      yaml: {
+        parse: (str) => yaml.load(str, { schema: yaml.JSON_SCHEMA }) as object,
+        stringify: (obj) => yaml.dump(obj),
+      },
+    },
+  });
+  // Copy, gray-matter caches parsed data per input string
+  const frontmatter = { ...data };
+  update(frontmatter);
+
+  return matter.stringify(content, frontmatter, {
+    engines: {
+      yaml: {
+        parse: (input: string) => yaml.load(input) as object,
+        stringify: (obj: object) => {
+          const yamlStr = yaml.dump(obj, { flowLevel: 2, lineWidth: -1, quotingType: "'", forceQuotes: false });
+          // Remove quotes around date/updated values
+          return yamlStr.replace(/^(date|updated): '(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})'$/gm, '$1: $2');
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Returns the URL slug of a post: frontmatter `link`, or the file path without extension
+ * e.g. 'note/front-end/theme.md' => 'note/front-end/theme' (URL: /post/note/front-end/theme)
+ */
+export function getPostSlug(postId: string, frontmatter: Record<string, unknown>): string {
+  const link = frontmatter.link;
+  return typeof link === 'string' && link ? link : postId.replace(/\.(md|mdx)$/, '');
+}
+
+/**
+ * Sets or removes the `link` field, editing only that line of the frontmatter
+ * so comments and formatting are preserved
+ *
+ * @param link - New link, or null to remove it
+ */
+export function setFrontmatterLink(fileContent: string, link: string | null): string {
+  const match = fileContent.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match?.[1]) {
+    return link ? `---\nlink: ${link}\n---\n${fileContent}` : fileContent;
+  }
+
+  const lines = match[1].split(/\r?\n/);
+  const index = lines.findIndex((line) => /^link:/.test(line));
+  if (link === null) {
+    if (index !== -1) lines.splice(index, 1);
+  } else if (index !== -1) {
+    lines[index] = `link: ${link}`;
+  } else {
+    // Place after title to match the order used by the create API
+    const titleIndex = lines.findIndex((line) => /^title:/.test(line));
+    lines.splice(titleIndex + 1, 0, `link: ${link}`);
+  }
+
+  return fileContent.replace(match[1], lines.join('\n'));
+}
+
+/**
+ * Moves a post file within the content directory, removing folders left empty
+ *
+ * @throws PostExistsError if the target already exists
+ */
+export async function movePostFile(projectRoot: string, fromId: string, toId: string): Promise<void> {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+  const from = path.join(contentDir, fromId);
+  const to = path.join(contentDir, toId);
+
+  try {
+    await fs.access(to);
+    throw new PostExistsError(toId);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  await fs.mkdir(path.dirname(to), { recursive: true });
+  await fs.rename(from, to);
+  await removeEmptyDirs(path.dirname(from), contentDir);
+}
+
+/**
+ * Removes empty directories from dir up to (not including) stopDir
+ */
+async function removeEmptyDirs(dir: string, stopDir: string): Promise<void> {
+  let current = dir;
+  while (current.startsWith(`${stopDir}${path.sep}`)) {
+    const entries = await fs.readdir(current);
+    if (entries.length > 0) return;
+    await fs.rmdir(current);
+    current = path.dirname(current);
+  }
+}
+
+/**
+ * Moves a post into the trash folder
+ *
+ * @returns The trash ID used to restore the post
+ */
+export async function trashPost(projectRoot: string, postId: string): Promise<string> {
+  const trashId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const trashDir = path.join(projectRoot, TRASH_DIR, trashId);
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+
+  await fs.mkdir(trashDir, { recursive: true });
+  await fs.rename(path.join(contentDir, postId), path.join(trashDir, path.basename(postId)));
+
+  const meta: TrashMeta = { postId, deletedAt: new Date().toISOString() };
+  await fs.writeFile(path.join(trashDir, 'meta.json'), `${JSON.stringify(meta, null, 2)}\n`);
+  await removeEmptyDirs(path.dirname(path.join(contentDir, postId)), contentDir);
+
+  return trashId;
+}
+
+/**
+ * Restores a trashed post to its original location
+ *
+ * @returns The restored post ID
+ * @throws PostExistsError if a post was created at the original location in the meantime
+ */
+export async function restorePost(projectRoot: string, trashId: string): Promise<string> {
+  const trashDir = path.join(projectRoot, TRASH_DIR, trashId);
+  const meta = JSON.parse(await fs.readFile(path.join(trashDir, 'meta.json'), 'utf-8')) as TrashMeta;
+  const target = path.join(projectRoot, CONTENT_DIR, meta.postId);
+
+  try {
+    await fs.access(target);
+    throw new PostExistsError(meta.postId);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.rename(path.join(trashDir, path.basename(meta.postId)), target);
+  await fs.rm(trashDir, { recursive: true });
+
+  return meta.postId;
+}
+
+/**
+ * Encodes a slug for URLs, keeping '/' (same as encodeSlug in src/lib/route.ts)
+ */
+function encodeSlug(slug: string): string {
+  return slug.split('/').map(encodeURIComponent).join('/');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches internal links to a post: /post/<slug> with an optional locale prefix
+ * (/en/post/<slug>) and trailing slash, ending before #, ?, ), quotes, whitespace or ].
+ * The link must start a Markdown/HTML link target (after (, quotes, <, whitespace or
+ * at line start), optionally with the site's own origin, so other sites' /post/ URLs
+ * are left alone.
+ */
+function createPostLinkPattern(slug: string, flags = 'gm'): RegExp {
+  const siteOrigin = getSiteOrigin();
+  const origin = siteOrigin ? `(?:${escapeRegExp(siteOrigin).replace(/^https?/, 'https?')})?` : '';
+  return new RegExp(
+    `(?<=^|[("'<\\s])(${origin}/(?:[a-z]{2}(?:-[A-Za-z]{2,4})?/)?post/)${escapeRegExp(slug)}(?=/?(?:[#?)"'\\s>\\]]|$))`,
+    flags,
+  );
+}
+
+/**
+ * Finds posts whose content links to /post/<slug>
+ *
+ * @returns Post IDs, excluding excludeId
+ */
+export async function findPostsLinkingTo(projectRoot: string, slug: string, excludeId?: string): Promise<string[]> {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+  // Non-global patterns: test() on a global RegExp keeps lastIndex between files
+  const patterns = [...new Set([slug, encodeSlug(slug)])].map((item) => createPostLinkPattern(item, 'm'));
+  const result: string[] = [];
+
+  for (const postId of await getAllMarkdownFiles(contentDir)) {
+    if (postId === excludeId) continue;
+    const content = await fs.readFile(path.join(contentDir, postId), 'utf-8');
+    if (patterns.some((pattern) => pattern.test(content))) result.push(postId);
+  }
+
+  return result;
+}
+
+/**
+ * Rewrites internal links from /post/<oldSlug> to /post/<newSlug> in all posts
+ *
+ * @returns IDs of the posts that were updated
+ */
+export async function rewritePostLinks(projectRoot: string, oldSlug: string, newSlug: string): Promise<string[]> {
+  const contentDir = path.join(projectRoot, CONTENT_DIR);
+  const updated: string[] = [];
+
+  for (const postId of await findPostsLinkingTo(projectRoot, oldSlug)) {
+    const filePath = path.join(contentDir, postId);
+    const content = await fs.readFile(filePath, 'utf-8');
+    // Keep the link style: encoded links get an encoded new slug
+    const next = content
+      .replace(createPostLinkPattern(encodeSlug(oldSlug)), `$1${encodeSlug(newSlug)}`)
+      .replace(createPostLinkPattern(oldSlug), `$1${newSlug}`);
+
+    if (next !== content) {
+      await fs.writeFile(filePath, next, 'utf-8');
+      updated.push(postId);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Checks the generated summaries/similarities data for entries keyed by a slug.
+ * These files are produced by `pnpm generate:summaries` / `generate:similarities`
+ * and are not rewritten by the CMS.
+ *
+ * @returns Warning messages, empty when nothing references the slug
+ */
+export async function findGeneratedDataReferences(projectRoot: string, slug: string): Promise<string[]> {
+  const warnings: string[] = [];
+
+  const readJson = async (file: string): Promise<Record<string, unknown> | null> => {
+    try {
+      return JSON.parse(await fs.readFile(path.join(projectRoot, file), 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+
+  const summaries = await readJson(SUMMARIES_PATH);
+  if (summaries && slug in summaries) {
+    warnings.push(`${SUMMARIES_PATH} has a summary keyed by "${slug}", run pnpm generate:summaries`);
+  }
+
+  const similarities = await readJson(SIMILARITIES_PATH);
+  if (similarities) {
+    const asKey = slug in similarities;
+    const asEntry = Object.values(similarities).some(
+      (items) => Array.isArray(items) && items.some((item) => (item as { slug?: string }).slug === slug),
+    );
+    if (asKey || asEntry) {
+      warnings.push(`${SIMILARITIES_PATH} references "${slug}", run pnpm generate:similarities`);
+    }
+  }
+
+  return warnings;
+}
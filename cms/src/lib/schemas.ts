@@ -52,7 +52,42 @@ export const categorySlugSchema = z
  */
 export const categoryMappingSchema = z.record(z.string(), categorySlugSchema);
 
+/**
+ * Schema for renaming a post (file name without extension, optional link)
+ */
+export const renamePostSchema = z.object({
+  fileName: z
+    .string()
+    .trim()
+    .min(1, '文件名不能为空')
+    .regex(/^[^/\\.?#\s][^/\\?#\s]*$/, '文件名不能包含 / ? # 或空格，且不能以 . 开头'),
+  link: z
+    .string()
+    .trim()
+    .regex(/^([^/\s?#]+(\/[^/\s?#]+)*)?$/, 'Link 不能包含 ? # 或空格，且不能以 / 开头或结尾'),
+});
+
+/**
+ * Schema for moving a post to another folder ('' for the content root)
+ */
+export const movePostSchema = z.object({
+  folder: z
+    .string()
+    .trim()
+    .regex(/^([^/\\.\s][^/\\\s]*(\/[^/\\.\s][^/\\\s]*)*)?$/, '目录格式无效，例如 note/front-end'),
+});
+
+/**
+ * Schema for bulk editing tags or categories of the selected posts
+ */
+export const bulkEditSchema = z.object({
+  value: z.string().trim().min(1, '请至少输入一项'),
+});
+
 // Type exports
 export type CreatePostFormData = z.infer<typeof createPostSchema>;
 export type FrontmatterFormData = z.infer<typeof frontmatterSchema>;
 export type CategoryMappingFormData = z.infer<typeof categoryMappingSchema>;
+export type RenamePostFormData = z.infer<typeof renamePostSchema>;
+export type MovePostFormData = z.infer<typeof movePostSchema>;
+export type BulkEditFormData = z.infer<typeof bulkEditSchema>;
@@ -0,0 +1,82 @@
+/**
+ * Source Document
+ *
+ * Converts between the editor state (frontmatter + Markdown body) and the
+ * full file text edited in source mode.
+ */
+
+import { format } from 'date-fns';
+import yaml from 'js-yaml';
+import type { BlogSchema } from '@/types';
+import { parseFrontmatterDates } from './api';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Builds the file text from frontmatter and body
+ * YAML options match the write API so switching modes does not reformat the file
+ */
+export function composeSourceDocument(frontmatter: BlogSchema, content: string): string {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (value instanceof Date) {
+      data[key] = format(value, 'yyyy-MM-dd HH:mm:ss');
+    } else if (value !== undefined && value !== null) {
+      data[key] = value;
+    }
+  }
+
+  const yamlStr = yaml
+    .dump(data, { flowLevel: 2, lineWidth: -1, quotingType: "'", forceQuotes: false })
+    .replace(/^(date|updated): '(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2})'$/gm, '$1: $2');
+
+  return `---\n${yamlStr}---\n\n${content.replace(/^\n+/, '')}`;
+}
+
+/**
+ * Returns the body of the file text without frontmatter
+ */
+export function getSourceBody(source: string): string {
+  return source.replace(FRONTMATTER_PATTERN, '');
+}
+
+/**
+ * Parses the file text into frontmatter and body
+ *
+ * @throws Error if the frontmatter is not valid YAML or not a mapping
+ */
+export function parseSourceDocument(source: string): { frontmatter: BlogSchema; content: string } {
+  const match = source.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    throw new Error('Missing frontmatter: the file must start with a --- block');
+  }
+
+  let data: unknown;
+  try {
+    // JSON_SCHEMA keeps dates as strings, same as the read API
+    data = yaml.load(match[1] ?? '', { schema: yaml.JSON_SCHEMA }) ?? {};
+  } catch (error) {
+    throw new Error(`Invalid frontmatter: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid frontmatter: expected key/value pairs');
+  }
+
+  return {
+    frontmatter: parseFrontmatterDates(data as Record<string, unknown>),
+    content: source.slice(match[0].length).replace(/^\n+/, ''),
+  };
+}
+
+/**
+ * Reformats file text the way the CMS writes it, so comparisons only show real changes
+ * Text with invalid frontmatter is returned unchanged
+ */
+export function normalizeSourceDocument(source: string): string {
+  try {
+    const { frontmatter, content } = parseSourceDocument(source);
+    return composeSourceDocument(frontmatter, content);
+  } catch {
+    return source;
+  }
+}
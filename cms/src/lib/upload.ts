@@ -0,0 +1,163 @@
+/**
+ * CMS Upload Utilities
+ *
+ * Server-side helpers for storing uploaded images: upload settings from
+ * config/site.yaml, file naming, WebP conversion and LQIP updates.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import sharp from 'sharp';
+import { extractLqipColors } from '../../../src/scripts/utils/lqip';
+import { CONFIG_PATH, LQIP_PATH, PUBLIC_DIR } from './paths';
+import { generateSlug } from './slug';
+
+/**
+ * Upload settings (`dev.upload` in config/site.yaml)
+ */
+export interface UploadConfig {
+  /** 'public': store under publicDir, 'post': store next to the post file */
+  target: 'public' | 'post';
+  /** Directory for target 'public', relative to project root; {slug} is the post path without extension */
+  publicDir: string;
+  /** Convert PNG/JPEG uploads to WebP */
+  webp: boolean;
+  /** WebP quality (1-100) */
+  quality: number;
+}
+
+export const DEFAULT_UPLOAD_CONFIG: UploadConfig = {
+  target: 'public',
+  publicDir: 'public/img/{slug}',
+  webp: true,
+  quality: 80,
+};
+
+/** Maximum upload size in bytes */
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024;
+
+/** Accepted image extensions by MIME type */
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'image/avif': '.avif',
+};
+
+/** Formats that are converted when WebP conversion is enabled (GIF keeps its animation) */
+const CONVERTIBLE_EXTENSIONS = new Set(['.png', '.jpg']);
+
+/**
+ * Reads upload settings from config/site.yaml, falling back to defaults
+ */
+export async function loadUploadConfig(projectRoot: string): Promise<UploadConfig> {
+  try {
+    const content = await fs.readFile(path.join(projectRoot, CONFIG_PATH), 'utf-8');
+    const config = yaml.load(content) as { dev?: { upload?: Partial<UploadConfig> } } | undefined;
+    const upload = config?.dev?.upload ?? {};
+
+    return {
+      target: upload.target === 'post' ? 'post' : DEFAULT_UPLOAD_CONFIG.target,
+      publicDir: typeof upload.publicDir === 'string' ? upload.publicDir : DEFAULT_UPLOAD_CONFIG.publicDir,
+      webp: typeof upload.webp === 'boolean' ? upload.webp : DEFAULT_UPLOAD_CONFIG.webp,
+      quality:
+        typeof upload.quality === 'number' && upload.quality >= 1 && upload.quality <= 100
+          ? upload.quality
+          : DEFAULT_UPLOAD_CONFIG.quality,
+    };
+  } catch {
+    return DEFAULT_UPLOAD_CONFIG;
+  }
+}
+
+/**
+ * Resolves the directory (relative to project root) to store images of a post
+ *
+ * @param postId - Post file path relative to the content directory
+ * @param contentDir - Content directory relative to project root
+ * @returns null if the configured publicDir points outside public/
+ */
+export function resolveUploadDir(config: UploadConfig, postId: string, contentDir: string): string | null {
+  if (config.target === 'post') {
+    return path.posix.join(contentDir, path.posix.dirname(postId));
+  }
+
+  const slug = postId.replace(/\.(md|mdx)$/, '');
+  const dir = path.posix.normalize(config.publicDir.replaceAll('{slug}', slug));
+  if (dir.includes('..') || !dir.startsWith(`${PUBLIC_DIR}/`)) {
+    return null;
+  }
+  return dir.replace(/\/$/, '');
+}
+
+/**
+ * Builds a URL-friendly file name from the original name
+ * e.g. '截图 1.PNG' + '.webp' => 'jie-tu-1.webp'
+ */
+export function toUploadFileName(originalName: string, ext: string): string {
+  const stem = generateSlug(path.parse(originalName).name) || 'image';
+  return `${stem}${ext}`;
+}
+
+/**
+ * Returns a file name that does not exist yet in the directory,
+ * appending -1, -2... to the stem when needed
+ */
+export async function getAvailableFileName(dir: string, fileName: string): Promise<string> {
+  const { name, ext } = path.parse(fileName);
+  let candidate = fileName;
+  for (let i = 1; ; i++) {
+    try {
+      await fs.access(path.join(dir, candidate));
+    } catch {
+      return candidate;
+    }
+    candidate = `${name}-${i}${ext}`;
+  }
+}
+
+/**
+ * Converts PNG/JPEG images to WebP when enabled
+ */
+export async function processImage(
+  buffer: Buffer,
+  ext: string,
+  config: UploadConfig,
+): Promise<{ buffer: Buffer; ext: string; converted: boolean }> {
+  if (!config.webp || !CONVERTIBLE_EXTENSIONS.has(ext)) {
+    return { buffer, ext, converted: false };
+  }
+  const webp = await sharp(buffer).rotate().webp({ quality: config.quality }).toBuffer();
+  return { buffer: webp, ext: '.webp', converted: true };
+}
+
+// Serialize lqips.json updates so concurrent uploads do not overwrite each other
+let lqipQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Generates the LQIP for a single image and updates its entry in lqips.json
+ *
+ * @param key - Image path relative to public/img/, e.g. 'note/theme/cover.webp'
+ * @returns The compact LQIP colors
+ */
+export function updateLqipEntry(projectRoot: string, key: string, image: Buffer): Promise<string> {
+  const task = lqipQueue.then(async () => {
+    const compact = await extractLqipColors(image);
+    const lqipPath = path.join(projectRoot, LQIP_PATH);
+
+    let lqips: Record<string, string> = {};
+    try {
+      lqips = JSON.parse(await fs.readFile(lqipPath, 'utf-8'));
+    } catch {
+      // File missing or invalid, start a new one
+    }
+
+    lqips[key] = compact;
+    await fs.writeFile(lqipPath, `${JSON.stringify(lqips, null, 2)}\n`);
+    return compact;
+  });
+  lqipQueue = task.catch(() => {});
+  return task;
+}
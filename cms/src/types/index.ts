@@ -56,6 +56,38 @@ export interface BlogSchema {
 export interface ReadPostResult {
   frontmatter: BlogSchema;
   content: string;
+  /** Hash of the file content, sent back on write to detect edits made in the meantime */
+  hash: string;
+}
+
+/**
+ * Response from write API
+ */
+export interface WritePostResponse {
+  success: boolean;
+  /** Hash of the written file content */
+  hash: string;
+}
+
+/**
+ * Response from write API when the file changed since it was read (409)
+ */
+export interface PostConflictResponse {
+  error: string;
+  /** Hash of the file content on disk, null when deleted */
+  hash: string | null;
+  /** File content on disk, including frontmatter, null when deleted */
+  content: string | null;
+}
+
+/**
+ * A post file change, pushed by the events API
+ */
+export interface ContentChangeEvent {
+  type: 'change' | 'delete';
+  postId: string;
+  /** Hash of the new file content, null when deleted */
+  hash: string | null;
 }
 
 /**
@@ -65,11 +97,15 @@ export interface PostListItem {
   id: string;
   slug: string;
   title: string;
+  /** Custom URL slug from frontmatter */
+  link?: string;
   date: string;
   updated?: string;
   categories: string[];
   tags: string[];
   draft: boolean;
+  /** Not a draft, but dated in the future */
+  scheduled: boolean;
   sticky: boolean;
 }
 
@@ -80,6 +116,7 @@ export interface DashboardStats {
   total: number;
   published: number;
   draft: number;
+  scheduled: number;
   categoryStats: { name: string; count: number }[];
   tagStats: { name: string; count: number }[];
   recentPosts: PostListItem[];
@@ -102,7 +139,7 @@ export interface ListPostsResponse {
 export interface ListPostsParams {
   category?: string;
   tag?: string;
-  status?: 'all' | 'draft' | 'published';
+  status?: 'all' | 'draft' | 'published' | 'scheduled';
   search?: string;
   sort?: 'date' | 'title' | 'updated';
   order?: 'asc' | 'desc';
@@ -136,6 +173,138 @@ export interface ToggleDraftResponse {
   draft: boolean;
 }
 
+/**
+ * Response from upload API
+ */
+export interface UploadResponse {
+  success: boolean;
+  /** Path to use in Markdown, e.g. '/img/note/theme/cover.webp' or './cover.webp' */
+  path: string;
+  /** Saved file path relative to project root */
+  file: string;
+  /** Whether the image was converted to WebP */
+  converted: boolean;
+  /** Compact LQIP colors, only for images under public/img/ */
+  lqip?: string;
+}
+
+/**
+ * Response from delete post API
+ */
+export interface DeletePostResponse {
+  success: boolean;
+  /** ID of the trash entry, used to undo the delete */
+  trashId: string;
+  /** Posts that still link to the deleted post */
+  referencedBy: string[];
+}
+
+/**
+ * Response from restore post API
+ */
+export interface RestorePostResponse {
+  success: boolean;
+  postId: string;
+}
+
+/**
+ * Change applied to every selected post by the batch API
+ * Series are featured-series categories, so setting a series uses setCategories
+ */
+export type BatchAction =
+  | { type: 'setDraft'; draft: boolean }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'setCategories'; categories: string[]; categoryMappings?: Record<string, string> }
+  | { type: 'delete' };
+
+/**
+ * Batch actions edited in a dialog before they run
+ */
+export type BulkEditMode = 'addTags' | 'removeTags' | 'setCategories';
+
+/**
+ * Outcome of a batch action for one post
+ */
+export interface BatchPostResult {
+  postId: string;
+  /** Why this post could not be changed, null if it was (or would have been) changed */
+  error: string | null;
+  /** ID of the trash entry (delete only) */
+  trashId?: string;
+  /** Posts outside the batch that still link to the deleted post (delete only) */
+  referencedBy?: string[];
+}
+
+/**
+ * Response from batch API
+ * The batch is atomic: if any post fails, success is false and no post is changed
+ */
+export interface BatchPostsResponse {
+  success: boolean;
+  results: BatchPostResult[];
+}
+
+/**
+ * Response from rename/move post APIs
+ */
+export interface RelocatePostResponse {
+  success: boolean;
+  /** New post ID (file path relative to the content directory) */
+  postId: string;
+  oldSlug: string;
+  newSlug: string;
+  /** Posts whose internal links were rewritten to the new slug */
+  updatedPosts: string[];
+  /** Generated data still keyed by the old slug */
+  warnings: string[];
+}
+
+/**
+ * How a revision was recorded
+ * - save: written by the CMS editor
+ * - disk: file content found before a CMS write (e.g. edited in another editor)
+ * - revert: restored from an older revision
+ */
+export type RevisionSource = 'save' | 'disk' | 'revert';
+
+/**
+ * A stored revision of a post
+ */
+export interface PostRevision {
+  /** Revision ID, e.g. '1729300000000-save' */
+  id: string;
+  createdAt: string;
+  source: RevisionSource;
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Response from history API
+ */
+export interface PostHistoryResponse {
+  revisions: PostRevision[];
+}
+
+/**
+ * Response from revision API
+ */
+export interface RevisionContentResponse {
+  id: string;
+  /** Full file content including frontmatter */
+  content: string;
+}
+
+/**
+ * Response from revert API
+ */
+export interface RevertPostResponse {
+  success: boolean;
+  /** ID of the revision recorded for the restored content, null if nothing changed */
+  revisionId: string | null;
+}
+
 /**
  * Response from toggle sticky API
  */
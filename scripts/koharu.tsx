@@ -5,13 +5,15 @@ import { Box, render, Text, useApp } from 'ink';
 import { useState } from 'react';
 import { BackupApp } from './koharu/backup.js';
 import { CleanApp } from './koharu/clean.js';
+import { DiffApp } from './koharu/diff.js';
 import { GenerateApp } from './koharu/generate.js';
 import { HelpApp } from './koharu/help.js';
 import { ListApp } from './koharu/list.js';
 import { NewApp } from './koharu/new.js';
 import { RestoreApp } from './koharu/restore.js';
-import { BACKUP_DIR, getBackupList, parseArgs } from './koharu/shared.js';
+import { BACKUP_DIR, getBackupList, parseArgs, WORKING_TREE } from './koharu/shared.js';
 import { UpdateApp } from './koharu/update.js';
+import { VerifyApp } from './koharu/verify.js';
 
 const args = parseArgs();
 
@@ -23,6 +25,8 @@ koharu - astro-koharu CLI
 用法:
   pnpm koharu              交互式主菜单
   pnpm koharu backup       备份博客内容和配置
+  pnpm koharu backup verify <file>          校验备份完整性
+  pnpm koharu backup diff <a> [b|working-tree]  比较备份与另一个备份或当前文件
   pnpm koharu restore      从备份恢复
   pnpm koharu update       更新主题
   pnpm koharu clean        清理旧备份
@@ -32,6 +36,9 @@ koharu - astro-koharu CLI
 
 备份选项:
   --full                   完整备份（包含所有图片和资产）
+  --standalone             创建独立备份（不基于已有备份做增量）
+  --encrypt                使用密码加密备份（加密备份总是独立备份）
+  --skip-upload            不上传到已配置的远程存储（S3 / WebDAV）
 
 还原选项:
   --latest                 还原最新备份
@@ -47,15 +54,17 @@ koharu - astro-koharu CLI
   --dry-run                预览 rebase 操作（不实际执行）
 
 清理选项:
-  --keep N                 保留最近 N 个备份，删除其余
+  --keep N                 保留最近 N 个备份，删除其余（同时清理远程存储）
 
 生成选项:
   pnpm koharu generate lqips        生成 LQIP 图片占位符
   pnpm koharu generate similarities 生成相似度向量
   pnpm koharu generate summaries    生成 AI 摘要
+  pnpm koharu generate comics       生成漫画 manifest
   pnpm koharu generate all          生成全部
   --model <name>                    指定 LLM 模型 (用于 summaries)
-  --force                           强制重新生成 (用于 summaries)
+  --from <file.cbz>                 导入 CBZ/ZIP 漫画压缩包 (用于 comics)
+  --force                           强制重新生成 (用于 summaries, comics)
 
 新建选项:
   pnpm koharu new                   交互式选择内容类型
@@ -68,7 +77,7 @@ koharu - astro-koharu CLI
   process.exit(0);
 }
 
-type AppMode = 'menu' | 'backup' | 'restore' | 'update' | 'clean' | 'list' | 'help' | 'generate' | 'new';
+type AppMode = 'menu' | 'backup' | 'verify' | 'diff' | 'restore' | 'update' | 'clean' | 'list' | 'help' | 'generate' | 'new';
 
 function KoharuApp() {
   const { exit } = useApp();
@@ -76,7 +85,7 @@ function KoharuApp() {
   const [fromMenu] = useState(() => !args.command);
   const [mode, setMode] = useState<AppMode>(() => {
     // 根据命令行参数决定初始模式
-    if (args.command === 'backup') return 'backup';
+    if (args.command === 'backup') return args.backupAction ?? 'backup';
     if (args.command === 'restore') return 'restore';
     if (args.command === 'update') return 'update';
     if (args.command === 'clean') return 'clean';
@@ -105,6 +114,18 @@ function KoharuApp() {
     setMode(value as AppMode);
   };
 
+  // 解析备份文件参数：支持完整路径或备份目录中的文件名
+  const resolveBackupFile = (file: string): string | undefined => {
+    if (fs.existsSync(file)) {
+      return file;
+    }
+    const inBackupDir = path.join(BACKUP_DIR, file);
+    if (fs.existsSync(inBackupDir)) {
+      return inBackupDir;
+    }
+    return undefined;
+  };
+
   // 获取还原用的备份文件
   const getRestoreBackupFile = (): string | undefined => {
     if (args.latest) {
@@ -113,17 +134,19 @@ function KoharuApp() {
         return backups[0].path;
       }
     } else if (args.backupFile) {
-      if (fs.existsSync(args.backupFile)) {
-        return args.backupFile;
-      }
-      const inBackupDir = path.join(BACKUP_DIR, args.backupFile);
-      if (fs.existsSync(inBackupDir)) {
-        return inBackupDir;
-      }
+      return resolveBackupFile(args.backupFile);
     }
     return undefined;
   };
 
+  // 获取比较目标：另一个备份文件或当前工作区
+  const getCompareTarget = (): string => {
+    if (!args.compareTarget || args.compareTarget === WORKING_TREE) {
+      return WORKING_TREE;
+    }
+    return resolveBackupFile(args.compareTarget) ?? args.compareTarget;
+  };
+
   return (
     <Box flexDirection="column" padding={1}>
       <Box marginBottom={1}>
@@ -143,7 +166,7 @@ function KoharuApp() {
               { label: '备份 - 备份博客内容和配置', value: 'backup' },
               { label: '还原 - 从备份恢复', value: 'restore' },
               { label: '更新 - 更新主题', value: 'update' },
-              { label: '生成 - 生成内容资产 (LQIP, 相似度, 摘要)', value: 'generate' },
+              { label: '生成 - 生成内容资产 (LQIP, 相似度, 摘要, 漫画)', value: 'generate' },
               { label: '清理 - 清理旧备份', value: 'clean' },
               { label: '列表 - 查看所有备份', value: 'list' },
               { label: '帮助 - 查看命令用法', value: 'help' },
@@ -154,7 +177,29 @@ function KoharuApp() {
         </Box>
       )}
 
-      {mode === 'backup' && <BackupApp initialFull={args.full} showReturnHint={fromMenu} onComplete={handleComplete} />}
+      {mode === 'backup' && (
+        <BackupApp
+          initialFull={args.full}
+          standalone={args.standalone}
+          encrypt={args.encrypt}
+          skipUpload={args.skipUpload}
+          showReturnHint={fromMenu}
+          onComplete={handleComplete}
+        />
+      )}
+
+      {mode === 'verify' && (
+        <VerifyApp initialBackupFile={getRestoreBackupFile()} showReturnHint={fromMenu} onComplete={handleComplete} />
+      )}
+
+      {mode === 'diff' && (
+        <DiffApp
+          initialFrom={getRestoreBackupFile()}
+          initialTo={getCompareTarget()}
+          showReturnHint={fromMenu}
+          onComplete={handleComplete}
+        />
+      )}
 
       {mode === 'restore' && (
         <RestoreApp
@@ -190,6 +235,7 @@ function KoharuApp() {
           initialType={args.generateType || undefined}
           initialModel={args.model || undefined}
           force={args.force}
+          from={args.from || undefined}
           showReturnHint={fromMenu}
           onComplete={handleComplete}
         />
@@ -1,32 +1,107 @@
 import path from 'node:path';
-import { Select, Spinner } from '@inkjs/ui';
+import { PasswordInput, Select, Spinner } from '@inkjs/ui';
 import { Box, Text } from 'ink';
 import { useCallback, useEffect, useState } from 'react';
-import { AUTO_EXIT_DELAY, type BackupResult, formatSize, runBackup, usePressAnyKey, useRetimer } from './shared';
+import {
+  AUTO_EXIT_DELAY,
+  type BackupResult,
+  formatSize,
+  getBackupTargets,
+  runBackup,
+  type TargetResult,
+  uploadBackup,
+  usePressAnyKey,
+  useRetimer,
+  validatePassphrase,
+} from './shared';
 
-type BackupStatus = 'selecting' | 'pending' | 'backing' | 'compressing' | 'done' | 'error';
+type BackupStatus =
+  | 'selecting'
+  | 'passphrase'
+  | 'confirming-passphrase'
+  | 'pending'
+  | 'backing'
+  | 'compressing'
+  | 'uploading'
+  | 'done'
+  | 'error';
 
 interface BackupAppProps {
   initialFull?: boolean;
+  /** 创建独立备份，不基于已有备份做增量 */
+  standalone?: boolean;
+  /** 使用密码加密备份 */
+  encrypt?: boolean;
+  /** 不上传到已配置的远程目标 */
+  skipUpload?: boolean;
   showReturnHint?: boolean;
   onComplete?: () => void;
 }
 
-export function BackupApp({ initialFull = false, showReturnHint = false, onComplete }: BackupAppProps) {
-  const [status, setStatus] = useState<BackupStatus>(initialFull ? 'pending' : 'selecting');
+export function BackupApp({
+  initialFull = false,
+  standalone = false,
+  encrypt = false,
+  skipUpload = false,
+  showReturnHint = false,
+  onComplete,
+}: BackupAppProps) {
+  const startStatus: BackupStatus = encrypt ? 'passphrase' : 'pending';
+  const [status, setStatus] = useState<BackupStatus>(initialFull ? startStatus : 'selecting');
   const [isFullBackup, setIsFullBackup] = useState(initialFull);
   const [results, setResults] = useState<BackupResult[]>([]);
   const [backupFile, setBackupFile] = useState<string>('');
   const [fileSize, setFileSize] = useState<string>('');
+  const [baseBackup, setBaseBackup] = useState<string | null>(null);
+  const [fileStats, setFileStats] = useState({ total: 0, stored: 0 });
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseError, setPassphraseError] = useState('');
+  // 输入出错时重新挂载输入框以清空内容
+  const [passphraseAttempt, setPassphraseAttempt] = useState(0);
+  const [targets] = useState(() => (skipUpload ? [] : getBackupTargets()));
+  const [uploadResults, setUploadResults] = useState<TargetResult[]>([]);
   const [error, setError] = useState<string>('');
   const retimer = useRetimer();
 
+  const finish = useCallback(
+    (nextStatus: 'done' | 'error') => {
+      setStatus(nextStatus);
+      if (!showReturnHint) {
+        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+      }
+    },
+    [showReturnHint, onComplete, retimer],
+  );
+
   const handleModeSelect = (value: string) => {
     if (value === 'cancel') {
       onComplete?.();
       return;
     }
     setIsFullBackup(value === 'full');
+    setStatus(startStatus);
+  };
+
+  const handlePassphraseSubmit = (value: string) => {
+    const validationError = validatePassphrase(value);
+    if (validationError) {
+      setPassphraseError(validationError);
+      setPassphraseAttempt((n) => n + 1);
+      return;
+    }
+    setPassphrase(value);
+    setPassphraseError('');
+    setStatus('confirming-passphrase');
+  };
+
+  const handleConfirmPassphraseSubmit = (value: string) => {
+    if (value !== passphrase) {
+      setPassphrase('');
+      setPassphraseError('两次输入的密码不一致，请重新输入');
+      setPassphraseAttempt((n) => n + 1);
+      setStatus('passphrase');
+      return;
+    }
     setStatus('pending');
   };
 
@@ -34,29 +109,48 @@ export function BackupApp({ initialFull = false, showReturnHint = false, onCompl
     try {
       setStatus('backing');
 
-      const output = runBackup(isFullBackup, (progressResults) => {
-        setResults(progressResults);
-      });
+      const output = runBackup(
+        isFullBackup,
+        (progressResults) => {
+          setResults(progressResults);
+        },
+        { standalone, passphrase: encrypt ? passphrase : undefined },
+      );
 
       setStatus('compressing');
       // Note: compression is synchronous in runBackup, state update shows progress
 
       setFileSize(formatSize(output.fileSize));
       setBackupFile(output.backupFile);
+      setBaseBackup(output.base);
+      setFileStats({ total: output.totalFiles, stored: output.storedFiles });
       setResults(output.results);
-      setStatus('done');
 
-      if (!showReturnHint) {
-        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+      if (targets.length === 0) {
+        finish('done');
+        return;
       }
+
+      // 上传到远程目标，失败不影响本地备份
+      setStatus('uploading');
+      uploadBackup(output.backupFile, targets)
+        .then(setUploadResults)
+        .catch((err) => {
+          setUploadResults(
+            targets.map((target) => ({
+              target,
+              success: false,
+              uploaded: [],
+              error: err instanceof Error ? err.message : String(err),
+            })),
+          );
+        })
+        .finally(() => finish('done'));
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
-      setStatus('error');
-      if (!showReturnHint) {
-        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
-      }
+      finish('error');
     }
-  }, [isFullBackup, showReturnHint, onComplete, retimer]);
+  }, [isFullBackup, standalone, encrypt, passphrase, targets, finish]);
 
   useEffect(() => {
     if (status === 'pending') {
@@ -95,16 +189,34 @@ export function BackupApp({ initialFull = false, showReturnHint = false, onCompl
             <Text color="yellow" bold>
               {isFullBackup ? '完整备份' : '基础备份'}
             </Text>
+            {encrypt && <Text color="magenta"> [加密]</Text>}
           </Text>
         </Box>
       )}
 
+      {(status === 'passphrase' || status === 'confirming-passphrase') && (
+        <Box flexDirection="column" marginBottom={1}>
+          {passphraseError && <Text color="red">{passphraseError}</Text>}
+          <Text>{status === 'passphrase' ? '输入备份密码:' : '再次输入密码确认:'}</Text>
+          <PasswordInput
+            key={`${status}-${passphraseAttempt}`}
+            onSubmit={status === 'passphrase' ? handlePassphraseSubmit : handleConfirmPassphraseSubmit}
+          />
+        </Box>
+      )}
+
       {(status === 'backing' || status === 'compressing') && (
         <Box marginBottom={1}>
           <Spinner label={status === 'backing' ? '正在备份文件...' : '正在创建压缩包...'} />
         </Box>
       )}
 
+      {status === 'uploading' && (
+        <Box marginBottom={1}>
+          <Spinner label={`正在上传到 ${targets.map((target) => target.label).join('、')}...`} />
+        </Box>
+      )}
+
       {results.length > 0 && (
         <Box flexDirection="column" marginBottom={1}>
           {results.map((result) => (
@@ -132,6 +244,30 @@ export function BackupApp({ initialFull = false, showReturnHint = false, onCompl
           <Text>
             文件大小: <Text color="yellow">{fileSize}</Text>
           </Text>
+          <Text>基础备份: {baseBackup ? <Text color="cyan">{baseBackup}</Text> : <Text dimColor>无（独立备份）</Text>}</Text>
+          <Text>
+            存储文件: <Text color="green">{fileStats.stored}</Text> / {fileStats.total} 个
+            {baseBackup && <Text dimColor> (未变更的文件引用基础备份)</Text>}
+          </Text>
+          {uploadResults.map((result) => (
+            <Text key={result.target.id}>
+              上传到 {result.target.label}:{' '}
+              {result.success ? (
+                <Text color="green">
+                  成功
+                  {result.uploaded.length > 1 && <Text dimColor> (补传 {result.uploaded.length - 1} 个基础备份)</Text>}
+                </Text>
+              ) : (
+                <Text color="red">失败 - {result.error}</Text>
+              )}
+            </Text>
+          ))}
+          {encrypt && (
+            <Text>
+              加密: <Text color="magenta">AES-256-GCM</Text>
+              <Text dimColor> (请妥善保管密码，遗失后无法还原)</Text>
+            </Text>
+          )}
           <Text>
             备份项目: <Text color="green">{successCount}</Text> 个
           </Text>
@@ -1,12 +1,16 @@
-import { ConfirmInput, MultiSelect } from '@inkjs/ui';
+import { ConfirmInput, MultiSelect, Spinner } from '@inkjs/ui';
 import { Box, Text } from 'ink';
 import { useCallback, useEffect, useState } from 'react';
 import {
   AUTO_EXIT_DELAY,
   type BackupInfo,
+  cleanRemoteBackups,
   deleteBackups,
   formatSize,
   getBackupList,
+  getBackupTargets,
+  type RemoteCleanResult,
+  resolveDeletableBackups,
   usePressAnyKey,
   useRetimer,
 } from './shared';
@@ -24,21 +28,50 @@ const AUTO_CONFIRM_DELAY = 500;
 export function CleanApp({ keepCount = null, showReturnHint = false, onComplete }: CleanAppProps) {
   const [backups] = useState<BackupInfo[]>(() => getBackupList());
   const [status, setStatus] = useState<CleanStatus>(keepCount !== null ? 'confirming' : 'selecting');
-  const [selectedPaths, setSelectedPaths] = useState<string[]>(() => {
-    // 如果有 --keep 参数，自动选择要删除的备份
-    if (keepCount !== null && backups.length > keepCount) {
-      return backups.slice(keepCount).map((b) => b.path);
-    }
-    return [];
-  });
+  // 如果有 --keep 参数，自动选择要删除的备份（保留的增量备份依赖的基础备份不删除）
+  const [initialPlan] = useState(() =>
+    keepCount !== null && backups.length > keepCount
+      ? resolveDeletableBackups(
+          backups,
+          backups.slice(keepCount).map((b) => b.path),
+        )
+      : { deletable: [], protected: [] },
+  );
+  const [selectedPaths, setSelectedPaths] = useState<string[]>(initialPlan.deletable);
+  const [protectedPaths, setProtectedPaths] = useState<string[]>(initialPlan.protected);
   const [deletedCount, setDeletedCount] = useState(0);
   const [freedSpace, setFreedSpace] = useState(0);
+  // --keep 同时清理已配置的远程目标
+  const [targets] = useState(() => (keepCount !== null ? getBackupTargets() : []));
+  const [remoteResults, setRemoteResults] = useState<RemoteCleanResult[] | null>(targets.length > 0 ? null : []);
   const retimer = useRetimer();
 
+  useEffect(() => {
+    if (keepCount === null || targets.length === 0) return;
+    let cancelled = false;
+    Promise.all(targets.map((target) => cleanRemoteBackups(target, keepCount))).then((results) => {
+      if (!cancelled) setRemoteResults(results);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [keepCount, targets]);
+
+  const remoteDone = remoteResults !== null;
+
   const handleSubmit = (paths: string[]) => {
-    if (paths.length > 0) {
-      setSelectedPaths(paths);
+    const plan = resolveDeletableBackups(backups, paths);
+    setProtectedPaths(plan.protected);
+    if (plan.deletable.length > 0) {
+      setSelectedPaths(plan.deletable);
       setStatus('confirming');
+    } else if (plan.protected.length > 0) {
+      // 选中的备份都被依赖，无法删除
+      setSelectedPaths([]);
+      setStatus('cancelled');
+      if (!showReturnHint) {
+        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+      }
     } else {
       // 没有选择任何项目，视为取消
       onComplete?.();
@@ -53,10 +86,7 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
     setDeletedCount(result.deletedCount);
     setFreedSpace(result.freedSpace);
     setStatus('done');
-    if (!showReturnHint) {
-      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
-    }
-  }, [selectedPaths, showReturnHint, onComplete, retimer]);
+  }, [selectedPaths]);
 
   const handleCancel = useCallback(() => {
     setStatus('cancelled');
@@ -79,19 +109,55 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
     return () => retimer();
   }, [status, selectedPaths.length, handleConfirm, keepCount, retimer]);
 
-  // 处理无需操作时自动退出
-  const shouldAutoExit = backups.length === 0 || (keepCount !== null && selectedPaths.length === 0);
+  // 处理完成或无需操作时自动退出（等待远程清理结束）
+  const shouldAutoExit = status === 'done' || backups.length === 0 || (keepCount !== null && selectedPaths.length === 0);
   useEffect(() => {
-    if (shouldAutoExit && !showReturnHint) {
-      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
-    }
+    if (!shouldAutoExit || !remoteDone || showReturnHint) return;
+    retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
     return () => retimer();
-  }, [shouldAutoExit, showReturnHint, onComplete, retimer]);
+  }, [shouldAutoExit, remoteDone, showReturnHint, onComplete, retimer]);
+
+  const selectedBackups = backups.filter((b) => selectedPaths.includes(b.path));
+  const protectedBackups = backups.filter((b) => protectedPaths.includes(b.path));
+  const protectedNotice = protectedBackups.length > 0 && (
+    <Box flexDirection="column" marginTop={1}>
+      <Text color="yellow">以下备份被保留的增量备份依赖，已跳过:</Text>
+      {protectedBackups.map((b) => (
+        <Text key={b.path}>
+          <Text color="cyan">{'  '}* </Text>
+          <Text>{b.name}</Text>
+        </Text>
+      ))}
+    </Box>
+  );
+  const totalSize = selectedBackups.reduce((sum, b) => sum + b.size, 0);
+  const remoteSection = targets.length > 0 && (
+    <Box flexDirection="column" marginTop={1}>
+      {remoteResults === null ? (
+        <Spinner label="正在清理远程备份..." />
+      ) : (
+        remoteResults.map((result) => (
+          <Text key={result.target.id}>
+            远程 {result.target.label}:{' '}
+            {result.error ? (
+              <Text color="red">清理失败 - {result.error}</Text>
+            ) : (
+              <Text>
+                删除 <Text color="green">{result.deleted.length}</Text> 个
+                {result.protected.length > 0 && <Text dimColor>，{result.protected.length} 个被依赖的备份已保留</Text>}
+              </Text>
+            )}
+          </Text>
+        ))
+      )}
+    </Box>
+  );
 
   if (backups.length === 0) {
     return (
       <Box flexDirection="column">
         <Text color="yellow">没有找到备份文件</Text>
+        {remoteSection}
         {showReturnHint && (
           <Box marginTop={1}>
             <Text dimColor>按任意键返回主菜单...</Text>
@@ -107,6 +173,8 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
         <Text color="green">
           当前有 {backups.length} 个备份，保留 {keepCount} 个，无需清理
         </Text>
+        {protectedNotice}
+        {remoteSection}
         {showReturnHint && (
           <Box marginTop={1}>
             <Text dimColor>按任意键返回主菜单...</Text>
@@ -116,9 +184,6 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
     );
   }
 
-  const selectedBackups = backups.filter((b) => selectedPaths.includes(b.path));
-  const totalSize = selectedBackups.reduce((sum, b) => sum + b.size, 0);
-
   return (
     <Box flexDirection="column">
       {status === 'selecting' && (
@@ -127,7 +192,7 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
           <Box marginTop={1}>
             <MultiSelect
               options={backups.map((b) => ({
-                label: `${b.name}  ${b.sizeFormatted}  ${b.type === 'full' ? '[完整]' : '[基础]'}`,
+                label: `${b.name}  ${b.sizeFormatted}  ${b.type === 'full' ? '[完整]' : '[基础]'}${b.base ? '  [增量]' : ''}`,
                 value: b.path,
               }))}
               onChange={setSelectedPaths}
@@ -152,6 +217,7 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
               <Text dimColor> ({b.sizeFormatted})</Text>
             </Text>
           ))}
+          {protectedNotice}
           <Box marginTop={1}>
             <Text>
               将释放: <Text color="yellow">{formatSize(totalSize)}</Text>
@@ -185,6 +251,7 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
             已删除 <Text color="green">{deletedCount}</Text> 个备份，释放 <Text color="yellow">{formatSize(freedSpace)}</Text>{' '}
             空间
           </Text>
+          {remoteSection}
           {showReturnHint && (
             <Box marginTop={1}>
               <Text dimColor>按任意键返回主菜单...</Text>
@@ -196,6 +263,7 @@ export function CleanApp({ keepCount = null, showReturnHint = false, onComplete
       {status === 'cancelled' && (
         <Box flexDirection="column">
           <Text color="yellow">已取消</Text>
+          {protectedNotice}
           {showReturnHint && (
             <Box marginTop={1}>
               <Text dimColor>按任意键返回主菜单...</Text>
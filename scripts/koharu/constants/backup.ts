@@ -10,9 +10,24 @@ export const MANIFEST_FILENAME = 'manifest.json';
 /** 备份文件扩展名 */
 export const BACKUP_FILE_EXTENSION = '.tar.gz';
 
+/** 远程存储中与备份同名的 manifest 文件后缀，用于在不下载归档的情况下读取备份链 */
+export const REMOTE_MANIFEST_SUFFIX = '.manifest.json';
+
 /** 临时备份目录前缀 */
 export const TEMP_DIR_PREFIX = '.tmp-backup-';
 
+/** 增量备份格式版本（旧版备份的 manifest 没有 format 字段，文件按原路径存放） */
+export const BACKUP_FORMAT_VERSION = 2;
+
+/** 增量备份中按内容哈希存放文件的目录 */
+export const OBJECTS_DIR = 'objects';
+
+/** 增量链最大长度，超过后创建独立备份，避免还原时依赖过多归档 */
+export const MAX_CHAIN_LENGTH = 10;
+
+/** 加密备份密码最小长度 */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
 /** 备份项配置 */
 export interface BackupItem {
   /** 源路径（相对于项目根目录） */
@@ -1,4 +1,4 @@
-export type GenerateType = 'lqips' | 'similarities' | 'summaries';
+export type GenerateType = 'lqips' | 'similarities' | 'summaries' | 'comics';
 
 export interface GenerateItem {
   id: GenerateType;
@@ -32,6 +32,13 @@ export const GENERATE_ITEMS: GenerateItem[] = [
     script: 'src/scripts/generateSummaries.ts', // TODO: Refactor to root scripts directory
     requiresLlm: true,
   },
+  {
+    id: 'comics',
+    label: '漫画清单',
+    description: '快速 - 生成漫画 manifest，支持 --from 导入 CBZ/ZIP',
+    duration: 'fast',
+    script: 'src/scripts/generateComicManifests.ts', // TODO: Refactor to root scripts directory
+  },
 ];
 
 export const DEFAULT_LLM_MODEL = 'qwen/qwen3-4b-2507';
@@ -0,0 +1,242 @@
+import path from 'node:path';
+import { PasswordInput, Select, Spinner } from '@inkjs/ui';
+import { Box, Text } from 'ink';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AUTO_EXIT_DELAY,
+  type BackupDiff,
+  type BackupInfo,
+  diffBackups,
+  getBackupList,
+  isBackupEncrypted,
+  isDiffEmpty,
+  usePressAnyKey,
+  useRetimer,
+  WORKING_TREE,
+} from './shared';
+
+type DiffStatus = 'selecting' | 'passphrase-from' | 'passphrase-to' | 'pending' | 'comparing' | 'done' | 'error';
+
+interface DiffAppProps {
+  initialFrom?: string;
+  /** 另一个备份文件，默认与当前工作区比较 */
+  initialTo?: string;
+  showReturnHint?: boolean;
+  onComplete?: () => void;
+}
+
+/** 每组变更最多显示的条目数 */
+const MAX_LIST_ITEMS = 20;
+
+function checkEncrypted(backupPath: string): boolean {
+  if (backupPath === WORKING_TREE) return false;
+  try {
+    return isBackupEncrypted(backupPath);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 选定比较对象后的下一步：依次为加密的备份输入密码
+ */
+function nextStatus(from: string, to: string, step: 'from' | 'to'): DiffStatus {
+  if (step === 'from' && checkEncrypted(from)) return 'passphrase-from';
+  if (checkEncrypted(to)) return 'passphrase-to';
+  return 'pending';
+}
+
+function ChangeList({
+  title,
+  added,
+  removed,
+  modified,
+}: {
+  title: string;
+  added: string[];
+  removed: string[];
+  modified: string[];
+}) {
+  const items = [
+    ...added.map((name) => ({ name, mark: '+', color: 'green' })),
+    ...removed.map((name) => ({ name, mark: '-', color: 'red' })),
+    ...modified.map((name) => ({ name, mark: '~', color: 'yellow' })),
+  ];
+  if (items.length === 0) return null;
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text bold>
+        {title}{' '}
+        <Text dimColor>
+          (+{added.length} -{removed.length} ~{modified.length})
+        </Text>
+      </Text>
+      {items.slice(0, MAX_LIST_ITEMS).map((item) => (
+        <Text key={`${item.mark}${item.name}`}>
+          <Text color={item.color}>
+            {'  '}
+            {item.mark}{' '}
+          </Text>
+          <Text>{item.name}</Text>
+        </Text>
+      ))}
+      {items.length > MAX_LIST_ITEMS && (
+        <Text dimColor>
+          {'  '}... 还有 {items.length - MAX_LIST_ITEMS} 项
+        </Text>
+      )}
+    </Box>
+  );
+}
+
+export function DiffApp({ initialFrom, initialTo = WORKING_TREE, showReturnHint = false, onComplete }: DiffAppProps) {
+  const [from, setFrom] = useState<string>(initialFrom || '');
+  const [status, setStatus] = useState<DiffStatus>(() =>
+    initialFrom ? nextStatus(initialFrom, initialTo, 'from') : 'selecting',
+  );
+  const [passphrases, setPassphrases] = useState<{ from?: string; to?: string }>({});
+  const [diff, setDiff] = useState<BackupDiff | null>(null);
+  const [error, setError] = useState<string>('');
+  const [backups] = useState<BackupInfo[]>(() => getBackupList());
+  const retimer = useRetimer();
+
+  const isWorkingTree = initialTo === WORKING_TREE;
+  const toLabel = isWorkingTree ? '当前工作区' : path.basename(initialTo);
+
+  const handleSelect = (value: string) => {
+    if (value === 'cancel') {
+      onComplete?.();
+      return;
+    }
+    setFrom(value);
+    setStatus(nextStatus(value, initialTo, 'from'));
+  };
+
+  const handleFromPassphrase = (value: string) => {
+    setPassphrases((prev) => ({ ...prev, from: value }));
+    setStatus(nextStatus(from, initialTo, 'to'));
+  };
+
+  const handleToPassphrase = (value: string) => {
+    setPassphrases((prev) => ({ ...prev, to: value }));
+    setStatus('pending');
+  };
+
+  const runDiff = useCallback(() => {
+    try {
+      setStatus('comparing');
+      setDiff(diffBackups(from, initialTo, passphrases));
+      setStatus('done');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+    }
+    if (!showReturnHint) {
+      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+    }
+  }, [from, initialTo, passphrases, showReturnHint, onComplete, retimer]);
+
+  useEffect(() => {
+    if (status === 'pending') {
+      runDiff();
+    }
+  }, [status, runDiff]);
+
+  // 监听按键返回主菜单
+  usePressAnyKey((status === 'done' || status === 'error') && showReturnHint, () => {
+    onComplete?.();
+  });
+
+  if (backups.length === 0 && status === 'selecting') {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">没有找到备份文件</Text>
+        <Text dimColor>使用 'pnpm koharu backup' 创建备份</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      {status === 'selecting' && (
+        <Box flexDirection="column">
+          <Text>选择要比较的备份:</Text>
+          <Select
+            options={[
+              ...backups.map((b) => ({ label: `${b.name}  ${b.sizeFormatted}`, value: b.path })),
+              { label: '取消', value: 'cancel' },
+            ]}
+            onChange={handleSelect}
+          />
+        </Box>
+      )}
+
+      {status !== 'selecting' && (
+        <Box marginBottom={1}>
+          <Text>
+            比较: <Text color="cyan">{path.basename(from)}</Text> → <Text color="cyan">{toLabel}</Text>
+          </Text>
+        </Box>
+      )}
+
+      {status === 'passphrase-from' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="cyan">{path.basename(from)}</Text> 已加密，请输入密码:
+          </Text>
+          <PasswordInput key="from" onSubmit={handleFromPassphrase} />
+        </Box>
+      )}
+
+      {status === 'passphrase-to' && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color="cyan">{toLabel}</Text> 已加密，请输入密码:
+          </Text>
+          <PasswordInput key="to" onSubmit={handleToPassphrase} />
+        </Box>
+      )}
+
+      {(status === 'pending' || status === 'comparing') && <Spinner label="正在比较..." />}
+
+      {status === 'done' && diff && (
+        <Box flexDirection="column">
+          {isDiffEmpty(diff) ? (
+            <Text color="green">没有差异</Text>
+          ) : (
+            <>
+              <ChangeList title="文章" {...diff.posts} />
+              {diff.config.map((changes) => (
+                <ChangeList key={changes.file} title={`配置项 ${changes.file}`} {...changes} />
+              ))}
+              <ChangeList title="其他文件" {...diff.other} />
+              {isWorkingTree && (
+                <Text dimColor>+ 仅存在于工作区（还原不会删除） - 仅存在于备份（还原会恢复） ~ 内容不同（还原会覆盖）</Text>
+              )}
+            </>
+          )}
+          {showReturnHint && (
+            <Box marginTop={1}>
+              <Text dimColor>按任意键返回主菜单...</Text>
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {status === 'error' && (
+        <Box flexDirection="column">
+          <Text bold color="red">
+            比较失败
+          </Text>
+          <Text color="red">{error}</Text>
+          {showReturnHint && (
+            <Box marginTop={1}>
+              <Text dimColor>按任意键返回主菜单...</Text>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -13,6 +13,8 @@ interface GenerateAppProps {
   initialType?: GenerateType | 'all';
   initialModel?: string;
   force?: boolean;
+  /** CBZ/ZIP archive to import when generating comics */
+  from?: string;
   showReturnHint?: boolean;
   onComplete?: () => void;
 }
@@ -21,6 +23,7 @@ export function GenerateApp({
   initialType,
   initialModel,
   force = false,
+  from,
   showReturnHint = false,
   onComplete,
 }: GenerateAppProps) {
@@ -99,7 +102,7 @@ export function GenerateApp({
         const item = GENERATE_ITEMS.find((i) => i.id === selectedType);
         setCurrentTask(item?.label || '');
 
-        const result = await runGenerate(selectedType, { model, force });
+        const result = await runGenerate(selectedType, { model, force, from });
 
         // Check if cancelled during execution
         if (isUnmountedRef.current) return;
@@ -125,7 +128,7 @@ export function GenerateApp({
         retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
       }
     }
-  }, [selectedType, model, force, showReturnHint, onComplete, retimer]);
+  }, [selectedType, model, force, from, showReturnHint, onComplete, retimer]);
 
   // Pre-flight check
   useEffect(() => {
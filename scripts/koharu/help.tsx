@@ -30,6 +30,8 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
         <Text> pnpm koharu 交互式主菜单</Text>
         <Text> pnpm koharu new 新建内容</Text>
         <Text> pnpm koharu backup 备份博客内容和配置</Text>
+        <Text> pnpm koharu backup verify {'<file>'} 校验备份完整性</Text>
+        <Text> pnpm koharu backup diff {'<a> [b|working-tree]'} 比较备份与另一个备份或当前文件</Text>
         <Text> pnpm koharu restore 从备份恢复</Text>
         <Text> pnpm koharu generate 生成内容资产</Text>
         <Text> pnpm koharu clean 清理旧备份</Text>
@@ -39,6 +41,9 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
       <Box flexDirection="column" marginBottom={1}>
         <Text bold>备份选项:</Text>
         <Text> --full 完整备份（包含所有图片和资产）</Text>
+        <Text> --standalone 创建独立备份（不基于已有备份做增量）</Text>
+        <Text> --encrypt 使用密码加密备份（加密备份总是独立备份）</Text>
+        <Text> --skip-upload 不上传到已配置的远程存储（S3 / WebDAV）</Text>
       </Box>
 
       <Box flexDirection="column" marginBottom={1}>
@@ -50,7 +55,7 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
 
       <Box flexDirection="column" marginBottom={1}>
         <Text bold>清理选项:</Text>
-        <Text> --keep N 保留最近 N 个备份，删除其余</Text>
+        <Text> --keep N 保留最近 N 个备份，删除其余（同时清理远程存储）</Text>
       </Box>
 
       <Box flexDirection="column" marginBottom={1}>
@@ -58,8 +63,10 @@ export function HelpApp({ showReturnHint = false, onComplete }: HelpAppProps) {
         <Text> pnpm koharu generate lqips 生成 LQIP 占位符</Text>
         <Text> pnpm koharu generate similarities 生成相似度向量</Text>
         <Text> pnpm koharu generate summaries 生成 AI 摘要</Text>
+        <Text> pnpm koharu generate comics 生成漫画 manifest</Text>
         <Text> pnpm koharu generate all 生成全部</Text>
         <Text> --model {'<name>'} 指定 LLM 模型</Text>
+        <Text> --from {'<file.cbz>'} 导入 CBZ/ZIP 漫画压缩包</Text>
         <Text> --force 强制重新生成</Text>
       </Box>
 
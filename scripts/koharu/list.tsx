@@ -1,6 +1,31 @@
+import { Spinner } from '@inkjs/ui';
+import { formatInTimeZone } from 'date-fns-tz';
 import { Box, Text } from 'ink';
 import { useEffect, useState } from 'react';
-import { AUTO_EXIT_DELAY, BACKUP_DIR, type BackupInfo, getBackupList, usePressAnyKey, useRetimer } from './shared';
+import {
+  AUTO_EXIT_DELAY,
+  BACKUP_DIR,
+  type BackupInfo,
+  getBackupList,
+  getBackupTargets,
+  getScheduledPosts,
+  getStalePosts,
+  listRemoteBackups,
+  type RemoteBackupInfo,
+  type ScheduleInfo,
+  type StalePost,
+  usePressAnyKey,
+  useRetimer,
+} from './shared';
+
+/** 单个远程目标的备份列表 */
+interface RemoteListing {
+  id: string;
+  label: string;
+  location: string;
+  backups: RemoteBackupInfo[];
+  error?: string;
+}
 
 interface ListAppProps {
   showReturnHint?: boolean;
@@ -9,20 +34,140 @@ interface ListAppProps {
 
 export function ListApp({ showReturnHint = false, onComplete }: ListAppProps) {
   const [backups] = useState<BackupInfo[]>(() => getBackupList());
+  const [targets] = useState(() => getBackupTargets());
+  const [remoteListings, setRemoteListings] = useState<RemoteListing[] | null>(targets.length > 0 ? null : []);
+  const [schedule, setSchedule] = useState<ScheduleInfo | null>(null);
+  const [stalePosts, setStalePosts] = useState<StalePost[] | null>(null);
   const retimer = useRetimer();
 
+  // 读取定时发布和待更新的文章
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      getScheduledPosts().catch((): ScheduleInfo => ({ posts: [], nextRebuild: null, timezone: '' })),
+      getStalePosts().catch((): StalePost[] => []),
+    ]).then(([info, stale]) => {
+      if (cancelled) return;
+      setSchedule(info);
+      setStalePosts(stale);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 读取远程备份列表
+  useEffect(() => {
+    if (targets.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(
+      targets.map(async (target): Promise<RemoteListing> => {
+        const listing = { id: target.id, label: target.label, location: target.location };
+        try {
+          return { ...listing, backups: await listRemoteBackups(target) };
+        } catch (err) {
+          return { ...listing, backups: [], error: err instanceof Error ? err.message : String(err) };
+        }
+      }),
+    ).then((listings) => {
+      if (!cancelled) setRemoteListings(listings);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [targets]);
+
+  const loaded = remoteListings !== null && schedule !== null && stalePosts !== null;
+
   // 监听按键返回主菜单
   usePressAnyKey(showReturnHint, () => {
     onComplete?.();
   });
 
-  // 如果不显示返回提示，直接退出
+  // 如果不显示返回提示，远程列表和文章信息加载完成后退出
   useEffect(() => {
-    if (!showReturnHint) {
+    if (!showReturnHint && loaded) {
       retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
     }
     return () => retimer();
-  }, [showReturnHint, onComplete, retimer]);
+  }, [showReturnHint, loaded, onComplete, retimer]);
+
+  const localNames = new Set(backups.map((backup) => backup.name));
+  const remoteSection =
+    targets.length > 0 ? (
+      <Box flexDirection="column" marginTop={1}>
+        {remoteListings === null ? (
+          <Spinner label="正在读取远程备份..." />
+        ) : (
+          remoteListings.map((listing) => (
+            <Box key={listing.id} flexDirection="column">
+              <Text>
+                <Text bold>{listing.label}</Text>
+                <Text dimColor> {listing.location}</Text>
+              </Text>
+              {listing.error && (
+                <Text color="red">
+                  {'  '}读取失败: {listing.error}
+                </Text>
+              )}
+              {!listing.error && listing.backups.length === 0 && <Text dimColor>{'  '}没有远程备份</Text>}
+              {listing.backups.map((backup) => (
+                <Box key={backup.name}>
+                  <Text color="blue">{'  '}* </Text>
+                  <Text>{backup.name}</Text>
+                  <Text color="yellow"> {backup.sizeFormatted}</Text>
+                  {!localNames.has(backup.name) && <Text color="magenta"> [仅远程]</Text>}
+                </Box>
+              ))}
+            </Box>
+          ))
+        )}
+      </Box>
+    ) : null;
+
+  const formatScheduleTime = (date: Date) =>
+    schedule?.timezone ? formatInTimeZone(date, schedule.timezone, 'yyyy-MM-dd HH:mm') : date.toISOString();
+  const scheduleSection =
+    schedule && schedule.posts.length > 0 ? (
+      <Box flexDirection="column" marginTop={1}>
+        <Text bold>定时发布</Text>
+        {schedule.posts.map((post) => (
+          <Box key={post.file}>
+            <Text color="blue">{'  '}* </Text>
+            <Text>{post.title}</Text>
+            <Text color="cyan"> [定时]</Text>
+            <Text dimColor> {formatScheduleTime(post.date)}</Text>
+          </Box>
+        ))}
+        {schedule.nextRebuild && (
+          <Text dimColor>
+            下次需要重新构建: {formatScheduleTime(schedule.nextRebuild)} ({schedule.timezone})
+          </Text>
+        )}
+      </Box>
+    ) : null;
+
+  const staleSection =
+    stalePosts && stalePosts.length > 0 ? (
+      <Box flexDirection="column" marginTop={1}>
+        <Text bold>待更新的文章</Text>
+        {stalePosts.map((post) => (
+          <Box key={post.file}>
+            <Text color="blue">{'  '}* </Text>
+            <Text>{post.title}</Text>
+            {post.status === 'expired' ? <Text color="red"> [已过期]</Text> : <Text color="yellow"> [已过时]</Text>}
+            <Text dimColor>
+              {' '}
+              {post.expires
+                ? `${formatScheduleTime(post.expires)} 过期`
+                : `${post.daysSinceUpdate} 天未更新 · 阈值 ${post.outdatedAfterDays} 天`}
+            </Text>
+          </Box>
+        ))}
+      </Box>
+    ) : null;
 
   if (backups.length === 0) {
     return (
@@ -32,6 +177,10 @@ export function ListApp({ showReturnHint = false, onComplete }: ListAppProps) {
           <Text dimColor>备份目录: {BACKUP_DIR}</Text>
         </Box>
         <Text dimColor>使用 'pnpm koharu backup' 创建备份</Text>
+        {remoteSection}
+        {scheduleSection}
+        {staleSection}
+        {staleSection}
         {showReturnHint && (
           <Box marginTop={1}>
             <Text dimColor>按任意键返回主菜单...</Text>
@@ -51,12 +200,18 @@ export function ListApp({ showReturnHint = false, onComplete }: ListAppProps) {
             <Text color="yellow"> {backup.sizeFormatted}</Text>
             {backup.type === 'full' && <Text color="cyan"> [完整]</Text>}
             {backup.type === 'basic' && <Text color="green"> [基础]</Text>}
+            {backup.base && <Text color="magenta"> [增量]</Text>}
+            {backup.encrypted && <Text color="red"> [加密]</Text>}
+            {backup.base && <Text dimColor> ← {backup.base}</Text>}
           </Box>
         ))}
       </Box>
       <Box marginTop={1}>
         <Text dimColor>共 {backups.length} 个备份</Text>
       </Box>
+      {remoteSection}
+      {scheduleSection}
+      {staleSection}
       {showReturnHint && (
         <Box marginTop={1}>
           <Text dimColor>按任意键返回主菜单...</Text>
@@ -1,12 +1,17 @@
 import path from 'node:path';
-import { ConfirmInput, Select, Spinner } from '@inkjs/ui';
+import { ConfirmInput, PasswordInput, Select, Spinner } from '@inkjs/ui';
 import { Box, Text } from 'ink';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   AUTO_EXIT_DELAY,
   type BackupInfo,
+  downloadBackup,
   getBackupList,
+  getBackupTargets,
   getRestorePreview,
+  isBackupEncrypted,
+  listRemoteBackups,
+  type RemoteBackupInfo,
   type RestorePreviewItem,
   restoreBackup,
   tarExtractManifest,
@@ -15,7 +20,10 @@ import {
   validateBackupFilePath,
 } from './shared';
 
-type RestoreStatus = 'selecting' | 'confirming' | 'restoring' | 'done' | 'error' | 'cancelled';
+type RestoreStatus = 'selecting' | 'downloading' | 'confirming' | 'passphrase' | 'restoring' | 'done' | 'error' | 'cancelled';
+
+/** 远程备份选项值前缀: remote:<目标>:<文件名> */
+const REMOTE_PREFIX = 'remote:';
 
 interface RestoreAppProps {
   initialBackupFile?: string;
@@ -36,11 +44,53 @@ export function RestoreApp({
   const [selectedBackup, setSelectedBackup] = useState<string>(initialBackupFile || '');
   const [restoredFiles, setRestoredFiles] = useState<(RestorePreviewItem | string)[]>([]);
   const [error, setError] = useState<string>('');
-  const [manifest, setManifest] = useState<{ type?: string; version?: string; timestamp?: string } | null>(null);
+  const [manifest, setManifest] = useState<{
+    type?: string;
+    version?: string;
+    timestamp?: string;
+    base?: string | null;
+  } | null>(null);
 
   const [backups] = useState<BackupInfo[]>(() => getBackupList());
+  const [remoteBackups, setRemoteBackups] = useState<RemoteBackupInfo[]>([]);
+  const [downloading, setDownloading] = useState<RemoteBackupInfo | null>(null);
   const retimer = useRetimer();
 
+  // 选择备份时一并列出仅存在于远程目标的备份
+  useEffect(() => {
+    if (status !== 'selecting') return;
+    const targets = getBackupTargets();
+    if (targets.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(targets.map((target) => listRemoteBackups(target).catch(() => []))).then((lists) => {
+      if (cancelled) return;
+      const localNames = new Set(backups.map((b) => b.name));
+      const seen = new Set<string>();
+      setRemoteBackups(
+        lists.flat().filter((backup) => {
+          if (localNames.has(backup.name) || seen.has(backup.name)) return false;
+          seen.add(backup.name);
+          return true;
+        }),
+      );
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, backups]);
+
+  // 同步读取，--force 模式下确认前就需要知道是否要输入密码
+  const encrypted = useMemo(() => {
+    if (!selectedBackup) return false;
+    try {
+      return isBackupEncrypted(selectedBackup);
+    } catch {
+      return false;
+    }
+  }, [selectedBackup]);
+
   useEffect(() => {
     if (selectedBackup && !manifest) {
       try {
@@ -72,35 +122,68 @@ export function RestoreApp({
     }
   }, [selectedBackup, showReturnHint, onComplete, retimer]);
 
-  const runRestore = useCallback(() => {
-    try {
-      setStatus('restoring');
-      const restored = restoreBackup(selectedBackup);
-      setRestoredFiles(restored);
-      setStatus('done');
-      if (!showReturnHint) {
-        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : String(err));
-      setStatus('error');
-      if (!showReturnHint) {
-        retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+  const runRestore = useCallback(
+    (passphrase?: string) => {
+      try {
+        setStatus('restoring');
+        const restored = restoreBackup(selectedBackup, passphrase);
+        setRestoredFiles(restored);
+        setStatus('done');
+        if (!showReturnHint) {
+          retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus('error');
+        if (!showReturnHint) {
+          retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+        }
       }
+    },
+    [selectedBackup, showReturnHint, onComplete, retimer],
+  );
+
+  // 加密备份需要先输入密码
+  const startRestore = useCallback(() => {
+    if (encrypted) {
+      setStatus('passphrase');
+    } else {
+      runRestore();
     }
-  }, [selectedBackup, showReturnHint, onComplete, retimer]);
+  }, [encrypted, runRestore]);
 
   useEffect(() => {
     if (force && selectedBackup && status === 'confirming') {
-      runRestore();
+      startRestore();
     }
-  }, [selectedBackup, status, runRestore, force]);
+  }, [selectedBackup, status, startRestore, force]);
 
   function handleSelect(value: string) {
     if (value === 'cancel') {
       onComplete?.();
       return;
     }
+
+    const remote = remoteBackups.find((b) => `${REMOTE_PREFIX}${b.target.id}:${b.name}` === value);
+    if (remote) {
+      // 先下载到本地备份目录（包括缺少的基础备份），再按本地备份还原
+      setDownloading(remote);
+      setStatus('downloading');
+      downloadBackup(remote.target, remote.name)
+        .then((localPath) => {
+          setSelectedBackup(localPath);
+          setStatus('confirming');
+        })
+        .catch((err) => {
+          setError(`下载失败: ${err instanceof Error ? err.message : String(err)}`);
+          setStatus('error');
+          if (!showReturnHint) {
+            retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+          }
+        });
+      return;
+    }
+
     setSelectedBackup(value);
     setStatus('confirming');
   }
@@ -109,7 +192,7 @@ export function RestoreApp({
     if (dryRun) {
       runDryRun();
     } else {
-      runRestore();
+      startRestore();
     }
   }
 
@@ -125,7 +208,7 @@ export function RestoreApp({
     onComplete?.();
   });
 
-  if (backups.length === 0 && status === 'selecting') {
+  if (backups.length === 0 && remoteBackups.length === 0 && status === 'selecting') {
     return (
       <Box flexDirection="column">
         <Text color="yellow">没有找到备份文件</Text>
@@ -142,9 +225,13 @@ export function RestoreApp({
           <Select
             options={[
               ...backups.map((b) => ({
-                label: `${b.name}  ${b.sizeFormatted}  ${b.type === 'full' ? '[完整]' : '[基础]'}`,
+                label: `${b.name}  ${b.sizeFormatted}  ${b.type === 'full' ? '[完整]' : '[基础]'}${b.base ? '  [增量]' : ''}${b.encrypted ? '  [加密]' : ''}`,
                 value: b.path,
               })),
+              ...remoteBackups.map((b) => ({
+                label: `${b.name}  ${b.sizeFormatted}  [远程 ${b.target.label}]`,
+                value: `${REMOTE_PREFIX}${b.target.id}:${b.name}`,
+              })),
               { label: '取消', value: 'cancel' },
             ]}
             onChange={handleSelect}
@@ -168,6 +255,18 @@ export function RestoreApp({
               <Text>
                 备份时间: <Text color="yellow">{manifest.timestamp}</Text>
               </Text>
+              {encrypted && (
+                <Text>
+                  加密: <Text color="magenta">是</Text>
+                  {!dryRun && <Text dimColor> (还原时需要输入密码)</Text>}
+                </Text>
+              )}
+              {manifest.base && (
+                <Text>
+                  基础备份: <Text color="yellow">{manifest.base}</Text>
+                  <Text dimColor> (将沿备份链重建)</Text>
+                </Text>
+              )}
             </>
           )}
           <Box marginTop={1} marginBottom={1}>
@@ -177,6 +276,21 @@ export function RestoreApp({
         </Box>
       )}
 
+      {status === 'downloading' && downloading && (
+        <Box>
+          <Spinner label={`正在从 ${downloading.target.label} 下载 ${downloading.name}...`} />
+        </Box>
+      )}
+
+      {status === 'passphrase' && (
+        <Box flexDirection="column">
+          <Text>
+            备份 <Text color="cyan">{path.basename(selectedBackup)}</Text> 已加密，请输入密码:
+          </Text>
+          <PasswordInput onSubmit={(value) => runRestore(value)} />
+        </Box>
+      )}
+
       {status === 'restoring' && (
         <Box>
           <Spinner label="正在还原..." />
@@ -15,20 +15,49 @@ export { AUTO_EXIT_DELAY, BACKUP_DIR, PROJECT_ROOT } from './constants';
 
 // Hooks
 export { usePressAnyKey, useRetimer } from './hooks';
-export type { BackupInfo, BackupOutput, BackupResult, DeleteResult, ParsedArgs, RestorePreviewItem } from './utils';
+export type {
+  BackupDiff,
+  BackupInfo,
+  BackupOutput,
+  BackupResult,
+  DeleteResult,
+  DeletionPlan,
+  ParsedArgs,
+  RemoteBackupInfo,
+  RemoteCleanResult,
+  RestorePreviewItem,
+  ScheduleInfo,
+  StalePost,
+  TargetResult,
+  VerifyResult,
+} from './utils';
 // Common utilities
 // Backup operations
 // Restore operations
 // Clean operations
 export {
+  cleanRemoteBackups,
   deleteBackups,
+  diffBackups,
+  downloadBackup,
   formatSize,
   getBackupList,
+  getBackupTargets,
   getRestorePreview,
+  getScheduledPosts,
+  getStalePosts,
   getVersion,
+  isBackupEncrypted,
+  isDiffEmpty,
+  listRemoteBackups,
   parseArgs,
+  resolveDeletableBackups,
   restoreBackup,
   runBackup,
   tarExtractManifest,
+  uploadBackup,
   validateBackupFilePath,
+  validatePassphrase,
+  verifyBackup,
+  WORKING_TREE,
 } from './utils';
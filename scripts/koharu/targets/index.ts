@@ -0,0 +1,13 @@
+// Types
+
+// Targets
+export { s3Target } from './s3';
+export type { BackupTarget, BackupTargetDefinition, RemoteFile } from './types';
+export { webdavTarget } from './webdav';
+
+import { s3Target } from './s3';
+// Target registry
+import type { BackupTargetDefinition } from './types';
+import { webdavTarget } from './webdav';
+
+export const BACKUP_TARGETS: BackupTargetDefinition[] = [s3Target, webdavTarget];
@@ -0,0 +1,218 @@
+import crypto from 'node:crypto';
+
+import type { BackupTarget, BackupTargetDefinition, RemoteFile } from './types';
+import { readXmlBlocks, readXmlField } from './xml';
+
+const SERVICE = 's3';
+const DEFAULT_REGION = 'us-east-1';
+const DEFAULT_PREFIX = 'koharu-backups/';
+
+interface S3Config {
+  /** 服务地址，如 https://s3.amazonaws.com 或 http://localhost:9000 */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** 对象键前缀，以 / 结尾或为空 */
+  prefix: string;
+}
+
+/**
+ * 签名所需的请求信息
+ */
+export interface SignableRequest {
+  method: string;
+  host: string;
+  /** 已编码的路径 */
+  path: string;
+  query?: Record<string, string>;
+  /** 需要签名的请求头（不含 host），名称小写 */
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * RFC 3986 编码，SigV4 要求对 !'()* 也进行编码
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 按 SigV4 规则编码并排序查询参数，请求时也使用同样的字符串
+ */
+function toCanonicalQuery(query: Record<string, string>): string {
+  return Object.entries(query)
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * AWS 时间格式: 20130524T000000Z
+ */
+export function toAmzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * 计算 AWS Signature Version 4 的 Authorization 请求头
+ * 请求头中必须包含 x-amz-date
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: { accessKeyId: string; secretAccessKey: string; region: string },
+): string {
+  const amzDate = request.headers['x-amz-date'];
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/${SERVICE}/aws4_request`;
+
+  const headers: Record<string, string> = { ...request.headers, host: request.host };
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+  const signedHeaders = headerNames.join(';');
+  const canonicalQuery = toCanonicalQuery(request.query ?? {});
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = [dateStamp, credentials.region, SERVICE, 'aws4_request'].reduce<Buffer | string>(
+    (key, data) => hmac(key, data),
+    `AWS4${credentials.secretAccessKey}`,
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+/**
+ * 创建 S3 兼容存储目标（路径风格访问，兼容 MinIO 等自建服务）
+ */
+function createS3Target(config: S3Config): BackupTarget {
+  const endpoint = new URL(config.endpoint);
+  const basePath = endpoint.pathname.replace(/\/+$/, '');
+
+  const request = async (
+    method: string,
+    key: string,
+    options: { query?: Record<string, string>; body?: Buffer } = {},
+  ): Promise<Response> => {
+    const path = `${basePath}/${encodeRfc3986(config.bucket)}${key ? `/${key.split('/').map(encodeRfc3986).join('/')}` : ''}`;
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': sha256Hex(options.body ?? ''),
+      'x-amz-date': toAmzDate(new Date()),
+    };
+    const authorization = signRequest(
+      { method, host: endpoint.host, path, query: options.query, headers, payloadHash: headers['x-amz-content-sha256'] },
+      config,
+    );
+
+    const query = toCanonicalQuery(options.query ?? {});
+    const url = `${endpoint.origin}${path}${query ? `?${query}` : ''}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: { ...headers, authorization },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const code = readXmlField(text, 'Code');
+      throw new Error(`S3 ${method} ${key || config.bucket} 失败: ${response.status}${code ? ` ${code}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 's3',
+    label: 'S3',
+    location: `${endpoint.origin}${basePath}/${config.bucket}/${config.prefix}`,
+    put: async (name, data) => {
+      await request('PUT', `${config.prefix}${name}`, { body: data });
+    },
+    get: async (name) => {
+      const response = await request('GET', `${config.prefix}${name}`);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    list: async () => {
+      const files: RemoteFile[] = [];
+      let continuationToken: string | null = null;
+
+      do {
+        const query: Record<string, string> = { 'list-type': '2', prefix: config.prefix };
+        if (continuationToken) query['continuation-token'] = continuationToken;
+
+        const xml = await (await request('GET', '', { query })).text();
+        for (const block of readXmlBlocks(xml, 'Contents')) {
+          const key = readXmlField(block, 'Key') ?? '';
+          const name = key.slice(config.prefix.length);
+          // 只列出前缀下一层的文件
+          if (!name || name.includes('/')) continue;
+          files.push({
+            name,
+            size: Number(readXmlField(block, 'Size') ?? 0),
+            lastModified: readXmlField(block, 'LastModified') ?? '',
+          });
+        }
+
+        continuationToken =
+          readXmlField(xml, 'IsTruncated') === 'true' ? readXmlField(xml, 'NextContinuationToken') || null : null;
+      } while (continuationToken);
+
+      return files;
+    },
+    remove: async (name) => {
+      await request('DELETE', `${config.prefix}${name}`);
+    },
+  };
+}
+
+export const s3Target: BackupTargetDefinition = {
+  id: 's3',
+  label: 'S3 兼容存储',
+  envKeys: [
+    'KOHARU_S3_ENDPOINT',
+    'KOHARU_S3_BUCKET',
+    'KOHARU_S3_ACCESS_KEY_ID',
+    'KOHARU_S3_SECRET_ACCESS_KEY',
+    'KOHARU_S3_REGION',
+    'KOHARU_S3_PREFIX',
+  ],
+  create: (env) => {
+    const endpoint = env.KOHARU_S3_ENDPOINT;
+    const bucket = env.KOHARU_S3_BUCKET;
+    const accessKeyId = env.KOHARU_S3_ACCESS_KEY_ID;
+    const secretAccessKey = env.KOHARU_S3_SECRET_ACCESS_KEY;
+    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) return null;
+
+    const prefix = (env.KOHARU_S3_PREFIX ?? DEFAULT_PREFIX).replace(/^\/+/, '');
+    return createS3Target({
+      endpoint,
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      region: env.KOHARU_S3_REGION || DEFAULT_REGION,
+      prefix: prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix,
+    });
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * 远程存储中的文件
+ */
+export interface RemoteFile {
+  /** 文件名（不含目录前缀） */
+  name: string;
+  size: number;
+  /** ISO 时间字符串，可能为空 */
+  lastModified: string;
+}
+
+/**
+ * 远程备份存储
+ * 实现只需要按文件名读写扁平目录中的文件，备份链、manifest 等逻辑由 remote-operations 处理
+ */
+export interface BackupTarget {
+  /** 目标标识 */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 显示用的存储位置（不含凭据） */
+  location: string;
+  put: (name: string, data: Buffer) => Promise<void>;
+  get: (name: string) => Promise<Buffer>;
+  list: () => Promise<RemoteFile[]>;
+  remove: (name: string) => Promise<void>;
+}
+
+/**
+ * 远程备份存储定义
+ */
+export interface BackupTargetDefinition {
+  /** 目标标识 */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 配置所需的环境变量 */
+  envKeys: string[];
+  /** 根据环境变量创建目标，未配置时返回 null */
+  create: (env: Record<string, string | undefined>) => BackupTarget | null;
+}
@@ -0,0 +1,114 @@
+import type { BackupTarget, BackupTargetDefinition, RemoteFile } from './types';
+import { readXmlBlocks, readXmlField } from './xml';
+
+interface WebDavConfig {
+  /** 备份目录地址，如 https://dav.example.com/remote.php/dav/files/me/backups/ */
+  url: string;
+  username?: string;
+  password?: string;
+}
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop><d:resourcetype/><d:getcontentlength/><d:getlastmodified/></d:prop>
+</d:propfind>`;
+
+/**
+ * 创建 WebDAV 存储目标，备份文件直接存放在配置的目录中
+ */
+function createWebDavTarget(config: WebDavConfig): BackupTarget {
+  const baseUrl = new URL(config.url.endsWith('/') ? config.url : `${config.url}/`);
+  const authorization = config.username
+    ? `Basic ${Buffer.from(`${config.username}:${config.password ?? ''}`).toString('base64')}`
+    : undefined;
+  let collectionReady = false;
+
+  const request = (method: string, name: string, init: { body?: BodyInit; headers?: Record<string, string> } = {}) =>
+    fetch(new URL(encodeURIComponent(name), baseUrl), {
+      method,
+      body: init.body,
+      headers: { ...(authorization && { authorization }), ...init.headers },
+    });
+
+  const fail = (method: string, name: string, response: Response): never => {
+    throw new Error(`WebDAV ${method} ${name || baseUrl.pathname} 失败: ${response.status} ${response.statusText}`);
+  };
+
+  // 首次上传前创建备份目录（已存在时服务端返回 405）
+  const ensureCollection = async () => {
+    if (collectionReady) return;
+    const response = await request('MKCOL', '');
+    if (!response.ok && response.status !== 405) {
+      if (response.status === 409) {
+        throw new Error(`WebDAV 目录 ${baseUrl.pathname} 的上级目录不存在`);
+      }
+      fail('MKCOL', '', response);
+    }
+    collectionReady = true;
+  };
+
+  return {
+    id: 'webdav',
+    label: 'WebDAV',
+    location: `${baseUrl.origin}${baseUrl.pathname}`,
+    put: async (name, data) => {
+      await ensureCollection();
+      const response = await request('PUT', name, {
+        body: new Uint8Array(data),
+        headers: { 'content-type': 'application/octet-stream' },
+      });
+      if (!response.ok) fail('PUT', name, response);
+    },
+    get: async (name) => {
+      const response = await request('GET', name);
+      if (!response.ok) fail('GET', name, response);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    list: async () => {
+      const response = await request('PROPFIND', '', {
+        body: PROPFIND_BODY,
+        headers: { depth: '1', 'content-type': 'application/xml; charset=utf-8' },
+      });
+      // 目录还不存在，视为没有备份
+      if (response.status === 404) return [];
+      if (!response.ok) fail('PROPFIND', '', response);
+
+      const files: RemoteFile[] = [];
+      for (const block of readXmlBlocks(await response.text(), 'response')) {
+        // 跳过目录（包括备份目录本身）
+        if (/<(?:[\w-]+:)?collection\s*\/?>/i.test(block)) continue;
+
+        const href = readXmlField(block, 'href') ?? '';
+        const name = decodeURIComponent(href.replace(/\/+$/, '').split('/').pop() ?? '');
+        if (!name) continue;
+
+        const lastModified = new Date(readXmlField(block, 'getlastmodified') ?? '');
+        files.push({
+          name,
+          size: Number(readXmlField(block, 'getcontentlength') ?? 0),
+          lastModified: Number.isNaN(lastModified.getTime()) ? '' : lastModified.toISOString(),
+        });
+      }
+      return files;
+    },
+    remove: async (name) => {
+      const response = await request('DELETE', name);
+      if (!response.ok && response.status !== 404) fail('DELETE', name, response);
+    },
+  };
+}
+
+export const webdavTarget: BackupTargetDefinition = {
+  id: 'webdav',
+  label: 'WebDAV',
+  envKeys: ['KOHARU_WEBDAV_URL', 'KOHARU_WEBDAV_USERNAME', 'KOHARU_WEBDAV_PASSWORD'],
+  create: (env) => {
+    const url = env.KOHARU_WEBDAV_URL;
+    if (!url) return null;
+    return createWebDavTarget({
+      url,
+      username: env.KOHARU_WEBDAV_USERNAME,
+      password: env.KOHARU_WEBDAV_PASSWORD,
+    });
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * 远程存储响应的简易 XML 读取
+ * S3 和 WebDAV 的响应结构简单，按标签名匹配即可，忽略命名空间前缀（d:href、D:href 等）
+ */
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? Number.parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function tagPattern(tag: string, flags: string): RegExp {
+  return new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, flags);
+}
+
+/**
+ * 读取所有指定标签的内容（未解码，用于继续读取子字段）
+ */
+export function readXmlBlocks(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(tagPattern(tag, 'gi')), (match) => match[1]);
+}
+
+/**
+ * 读取第一个指定标签的文本内容，不存在返回 null
+ */
+export function readXmlField(xml: string, tag: string): string | null {
+  const match = xml.match(tagPattern(tag, 'i'));
+  return match ? decodeXmlText(match[1].trim()) : null;
+}
@@ -1,9 +1,14 @@
 import type { GenerateType } from '../constants/generate';
 import type { CreatorType } from '../creators';
 
+export type BackupAction = 'verify' | 'diff';
+
 export interface ParsedArgs {
   command: string;
   full: boolean;
+  standalone: boolean;
+  encrypt: boolean;
+  skipUpload: boolean;
   latest: boolean;
   list: boolean;
   dryRun: boolean;
@@ -11,9 +16,13 @@ export interface ParsedArgs {
   help: boolean;
   keep: number | null;
   backupFile: string;
+  // Backup subcommand: verify / diff
+  backupAction: BackupAction | null;
+  compareTarget: string;
   // Generate command options
   generateType: GenerateType | 'all' | null;
   model: string | null;
+  from: string | null;
   // Update command options
   check: boolean;
   skipBackup: boolean;
@@ -26,13 +35,17 @@ export interface ParsedArgs {
 /**
  * 解析命令行参数
  */
-const GENERATE_TYPES = ['lqips', 'similarities', 'summaries', 'all'] as const;
+const GENERATE_TYPES = ['lqips', 'similarities', 'summaries', 'comics', 'all'] as const;
 const NEW_TYPES = ['post', 'friend'] as const;
+const BACKUP_ACTIONS = ['verify', 'diff'] as const;
 
 export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
   const args: ParsedArgs = {
     command: '',
     full: false,
+    standalone: false,
+    encrypt: false,
+    skipUpload: false,
     latest: false,
     list: false,
     dryRun: false,
@@ -40,8 +53,11 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
     help: false,
     keep: null,
     backupFile: '',
+    backupAction: null,
+    compareTarget: '',
     generateType: null,
     model: null,
+    from: null,
     check: false,
     skipBackup: false,
     tag: null,
@@ -53,6 +69,12 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
     const arg = argv[i];
     if (arg === '--full') {
       args.full = true;
+    } else if (arg === '--standalone') {
+      args.standalone = true;
+    } else if (arg === '--encrypt') {
+      args.encrypt = true;
+    } else if (arg === '--skip-upload') {
+      args.skipUpload = true;
     } else if (arg === '--latest') {
       args.latest = true;
     } else if (arg === '--list') {
@@ -72,6 +94,9 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
     } else if (arg === '--model' && argv[i + 1]) {
       args.model = argv[i + 1];
       i++;
+    } else if (arg === '--from' && argv[i + 1]) {
+      args.from = argv[i + 1];
+      i++;
     } else if (arg === '--check') {
       args.check = true;
     } else if (arg === '--skip-backup') {
@@ -94,6 +119,15 @@ export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
         if (NEW_TYPES.includes(arg as (typeof NEW_TYPES)[number])) {
           args.newType = arg as CreatorType;
         }
+      } else if (
+        args.command === 'backup' &&
+        !args.backupAction &&
+        BACKUP_ACTIONS.includes(arg as (typeof BACKUP_ACTIONS)[number])
+      ) {
+        // For backup command, second positional arg may be a subcommand
+        args.backupAction = arg as BackupAction;
+      } else if (args.backupAction === 'diff' && args.backupFile && !args.compareTarget) {
+        args.compareTarget = arg;
       } else {
         args.backupFile = arg;
       }
@@ -1,7 +1,19 @@
+import crypto from 'node:crypto';
 import fs from 'node:fs';
 import path from 'node:path';
 
-import { BACKUP_DIR, BACKUP_ITEMS, type BackupItem, MANIFEST_NAME, PROJECT_ROOT } from '../constants';
+import {
+  BACKUP_DIR,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_ITEMS,
+  type BackupItem,
+  MANIFEST_NAME,
+  MAX_CHAIN_LENGTH,
+  OBJECTS_DIR,
+  PROJECT_ROOT,
+} from '../constants';
+import { type BackupManifest, type BackupSnapshotEntry, getBackupChain, getBackupList } from './backup';
+import { createEncryption, deriveObjectHashKey, encryptBuffer, hashEncryptedContent, validatePassphrase } from './encryption';
 import { tarCreate } from './tar';
 import { getVersion } from './version';
 
@@ -22,14 +34,95 @@ export interface BackupOutput {
   backupFile: string;
   fileSize: number;
   timestamp: string;
+  /** 基础备份文件名，独立备份为 null */
+  base: string | null;
+  /** 是否已加密 */
+  encrypted: boolean;
+  /** 快照中的文件总数 */
+  totalFiles: number;
+  /** 本次实际存储的文件数（新增或变更） */
+  storedFiles: number;
+}
+
+/**
+ * 备份选项
+ */
+export interface BackupOptions {
+  /** 不基于已有备份，创建独立备份 */
+  standalone?: boolean;
+  /** 加密密码，设置后所有文件加密存储（加密备份总是独立备份） */
+  passphrase?: string;
+}
+
+/**
+ * 计算数据的 SHA-256
+ */
+export function hashBuffer(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 计算文件内容的 SHA-256
+ */
+export function hashFile(filePath: string): string {
+  return hashBuffer(fs.readFileSync(filePath));
+}
+
+/**
+ * 对象在归档中的路径，按哈希前两位分目录
+ */
+export function getObjectPath(hash: string): string {
+  return path.posix.join(OBJECTS_DIR, hash.slice(0, 2), hash);
+}
+
+/**
+ * 递归列出路径下的所有文件（相对于 srcPath 的 posix 路径，单个文件返回空字符串）
+ */
+export function listFiles(srcPath: string): string[] {
+  const stats = fs.statSync(srcPath);
+  if (stats.isFile()) return [''];
+  if (!stats.isDirectory()) return [];
+
+  return fs
+    .readdirSync(srcPath)
+    .sort()
+    .flatMap((name) => listFiles(path.join(srcPath, name)).map((sub) => (sub ? `${name}/${sub}` : name)));
+}
+
+/**
+ * 查找可作为基础的最新增量备份，增量链过长时返回 null
+ * @returns 基础备份文件名和链上已存储的对象
+ */
+function findBaseBackup(): { base: string; objects: Set<string> } | null {
+  // 加密备份的对象无法被其他备份复用
+  const latest = getBackupList().find((backup) => backup.incremental && !backup.encrypted);
+  if (!latest) return null;
+
+  try {
+    const chain = getBackupChain(latest.path);
+    if (chain.length >= MAX_CHAIN_LENGTH) return null;
+    return {
+      base: latest.name,
+      objects: new Set(chain.flatMap(({ manifest }) => manifest.objects ?? [])),
+    };
+  } catch {
+    // 基础备份链不完整时不能作为基础
+    return null;
+  }
 }
 
 /**
  * 执行备份操作
+ * 文件按内容哈希存储，只存储基础备份链中不存在的文件
  * @param isFullBackup 是否完整备份
  * @param onProgress 进度回调
+ * @param options 备份选项
  */
-export function runBackup(isFullBackup: boolean, onProgress?: (results: BackupResult[]) => void): BackupOutput {
+export function runBackup(
+  isFullBackup: boolean,
+  onProgress?: (results: BackupResult[]) => void,
+  options: BackupOptions = {},
+): BackupOutput {
   // 创建备份目录
   fs.mkdirSync(BACKUP_DIR, { recursive: true });
 
@@ -40,48 +133,83 @@ export function runBackup(isFullBackup: boolean, onProgress?: (results: BackupRe
   const tempDir = path.join(BACKUP_DIR, `.tmp-${backupName}`);
   const backupFilePath = path.join(BACKUP_DIR, `${backupName}.tar.gz`);
 
+  if (options.passphrase !== undefined) {
+    const passphraseError = validatePassphrase(options.passphrase);
+    if (passphraseError) throw new Error(passphraseError);
+  }
+  const encryption = options.passphrase !== undefined ? createEncryption(options.passphrase) : null;
+  const hashKey = encryption && deriveObjectHashKey(encryption.key);
+
   // 清理并创建临时目录
   fs.rmSync(tempDir, { recursive: true, force: true });
   fs.mkdirSync(tempDir, { recursive: true });
 
+  const baseBackup = options.standalone || encryption ? null : findBaseBackup();
+  const storedObjects = new Set<string>();
+  const snapshot: Record<string, BackupSnapshotEntry> = {};
   const results: BackupResult[] = [];
 
   // 过滤要备份的项目
   const itemsToBackup = BACKUP_ITEMS.filter((item) => item.required || isFullBackup);
 
-  // 执行备份
-  for (const item of itemsToBackup) {
-    const srcPath = path.join(PROJECT_ROOT, item.src);
-    const destPath = path.join(tempDir, item.dest);
+  try {
+    // 执行备份
+    for (const item of itemsToBackup) {
+      const srcPath = path.join(PROJECT_ROOT, item.src);
+
+      if (!fs.existsSync(srcPath)) {
+        results.push({ item, success: false, skipped: true });
+        onProgress?.([...results]);
+        continue;
+      }
+
+      for (const relativePath of listFiles(srcPath)) {
+        const filePath = relativePath ? path.join(srcPath, relativePath) : srcPath;
+        const data = fs.readFileSync(filePath);
+        // 加密备份使用带密钥的哈希，manifest 不泄露明文内容的 SHA-256
+        const hash = hashKey ? hashEncryptedContent(data, hashKey) : hashBuffer(data);
+        snapshot[relativePath ? `${item.dest}/${relativePath}` : item.dest] = { hash, size: data.length };
+
+        // 已存在于基础备份链或本次已存储的内容不再重复存储
+        if (baseBackup?.objects.has(hash) || storedObjects.has(hash)) continue;
+
+        const objectPath = path.join(tempDir, getObjectPath(hash));
+        fs.mkdirSync(path.dirname(objectPath), { recursive: true });
+        if (encryption) {
+          fs.writeFileSync(objectPath, encryptBuffer(data, encryption.key));
+        } else {
+          fs.copyFileSync(filePath, objectPath);
+        }
+        storedObjects.add(hash);
+      }
 
-    if (fs.existsSync(srcPath)) {
-      fs.mkdirSync(path.dirname(destPath), { recursive: true });
-      fs.cpSync(srcPath, destPath, { recursive: true });
       results.push({ item, success: true, skipped: false });
-    } else {
-      results.push({ item, success: false, skipped: true });
+      onProgress?.([...results]);
     }
 
-    onProgress?.([...results]);
+    // 生成 manifest.json
+    const manifest: BackupManifest = {
+      name: MANIFEST_NAME,
+      version: getVersion(),
+      type: isFullBackup ? 'full' : 'basic',
+      timestamp,
+      created_at: now.toISOString(),
+      files: Object.fromEntries(results.map((r) => [r.item.dest, r.success])),
+      format: BACKUP_FORMAT_VERSION,
+      base: baseBackup?.base ?? null,
+      snapshot,
+      objects: [...storedObjects],
+      ...(encryption && { encryption: encryption.encryption }),
+    };
+    fs.writeFileSync(path.join(tempDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+    // 创建压缩包
+    tarCreate(backupFilePath, tempDir);
+  } finally {
+    // 清理临时目录
+    fs.rmSync(tempDir, { recursive: true, force: true });
   }
 
-  // 生成 manifest.json
-  const manifest = {
-    name: MANIFEST_NAME,
-    version: getVersion(),
-    type: isFullBackup ? 'full' : 'basic',
-    timestamp,
-    created_at: now.toISOString(),
-    files: Object.fromEntries(results.map((r) => [r.item.dest, r.success])),
-  };
-  fs.writeFileSync(path.join(tempDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
-
-  // 创建压缩包
-  tarCreate(backupFilePath, tempDir);
-
-  // 清理临时目录
-  fs.rmSync(tempDir, { recursive: true, force: true });
-
   // 获取文件大小
   const stats = fs.statSync(backupFilePath);
 
@@ -90,5 +218,9 @@ export function runBackup(isFullBackup: boolean, onProgress?: (results: BackupRe
     backupFile: backupFilePath,
     fileSize: stats.size,
     timestamp,
+    base: baseBackup?.base ?? null,
+    encrypted: !!encryption,
+    totalFiles: Object.keys(snapshot).length,
+    storedFiles: storedObjects.size,
   };
 }
@@ -1,10 +1,60 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
-import { BACKUP_DIR, BACKUP_FILE_EXTENSION } from '../constants';
+import { BACKUP_DIR, BACKUP_FILE_EXTENSION, BACKUP_FORMAT_VERSION, PROJECT_ROOT } from '../constants';
+import { BACKUP_TARGETS, type BackupTarget } from '../targets';
+import type { BackupEncryption } from './encryption';
 import { formatSize } from './format';
 import { tarExtractManifest } from './tar';
 
+/**
+ * 备份快照中的文件记录
+ */
+export interface BackupSnapshotEntry {
+  /** 文件内容 SHA-256 */
+  hash: string;
+  size: number;
+}
+
+/**
+ * 备份 manifest.json
+ */
+export interface BackupManifest {
+  name: string;
+  version: string;
+  type: string;
+  timestamp: string;
+  created_at: string;
+  /** 备份项是否存在（备份路径 -> 是否已备份） */
+  files: Record<string, boolean>;
+  /** 增量备份格式版本，旧版备份没有该字段 */
+  format?: number;
+  /** 基础备份文件名，未设置表示独立备份 */
+  base?: string | null;
+  /** 备份时的完整文件快照（备份路径 -> 哈希） */
+  snapshot?: Record<string, BackupSnapshotEntry>;
+  /** 本归档中实际存储的文件哈希 */
+  objects?: string[];
+  /** 加密信息，未设置表示对象以明文存储 */
+  encryption?: BackupEncryption;
+}
+
+/**
+ * 增量格式的备份 manifest
+ */
+export type IncrementalBackupManifest = BackupManifest & {
+  snapshot: Record<string, BackupSnapshotEntry>;
+  objects: string[];
+};
+
+/**
+ * 备份链中的一个备份
+ */
+export interface BackupChainItem {
+  path: string;
+  manifest: BackupManifest;
+}
+
 /**
  * 备份信息接口
  */
@@ -15,6 +65,12 @@ export interface BackupInfo {
   sizeFormatted: string;
   type: string;
   timestamp: string;
+  /** 基础备份文件名（增量备份） */
+  base: string | null;
+  /** 是否为增量格式备份 */
+  incremental: boolean;
+  /** 是否为加密备份 */
+  encrypted: boolean;
 }
 
 /**
@@ -32,6 +88,62 @@ export function parseBackupManifest(manifest: string): { type: string; timestamp
   }
 }
 
+/**
+ * 读取备份文件中的 manifest，读取失败返回 null
+ */
+export function readBackupManifest(filePath: string): BackupManifest | null {
+  try {
+    const manifest = tarExtractManifest(filePath);
+    return manifest ? JSON.parse(manifest) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 是否为增量格式的 manifest（包含快照和对象列表）
+ */
+export function isIncrementalManifest(manifest: BackupManifest | null): manifest is IncrementalBackupManifest {
+  return manifest?.format === BACKUP_FORMAT_VERSION && !!manifest.snapshot && Array.isArray(manifest.objects);
+}
+
+/**
+ * 获取备份链：从指定备份开始，沿 base 依次找到所有依赖的备份
+ * @param filePath 备份文件路径
+ * @throws Error 如果基础备份缺失或存在循环引用
+ * @returns 备份链，第一项为指定备份本身
+ */
+export function getBackupChain(filePath: string): BackupChainItem[] {
+  const chain: BackupChainItem[] = [];
+  const visited = new Set<string>();
+  let currentPath: string | null = filePath;
+
+  while (currentPath) {
+    const name = path.basename(currentPath);
+    if (visited.has(name)) {
+      throw new Error(`备份链存在循环引用: ${name}`);
+    }
+    visited.add(name);
+
+    const manifest = readBackupManifest(currentPath);
+    if (!manifest) {
+      throw new Error(`无法读取备份 manifest: ${name}`);
+    }
+    chain.push({ path: currentPath, manifest });
+
+    if (!manifest.base) break;
+    if (path.basename(manifest.base) !== manifest.base) {
+      throw new Error(`无效的基础备份名称: ${manifest.base}`);
+    }
+    currentPath = path.join(BACKUP_DIR, manifest.base);
+    if (!fs.existsSync(currentPath)) {
+      throw new Error(`缺少基础备份 ${manifest.base}（被 ${name} 依赖）`);
+    }
+  }
+
+  return chain;
+}
+
 /**
  * 获取备份列表
  */
@@ -49,28 +161,57 @@ export function getBackupList(): BackupInfo[] {
   return files.map((name) => {
     const filePath = path.join(BACKUP_DIR, name);
     const stats = fs.statSync(filePath);
-
-    // 尝试读取 manifest
-    let type = 'unknown';
-    let timestamp = '';
-    try {
-      const manifest = tarExtractManifest(filePath);
-      if (manifest) {
-        const parsed = parseBackupManifest(manifest);
-        type = parsed.type;
-        timestamp = parsed.timestamp;
-      }
-    } catch {
-      // ignore
-    }
+    const manifest = readBackupManifest(filePath);
 
     return {
       name,
       path: filePath,
       size: stats.size,
       sizeFormatted: formatSize(stats.size),
-      type,
-      timestamp,
+      type: manifest?.type || 'unknown',
+      timestamp: manifest?.timestamp || '',
+      base: manifest?.base ?? null,
+      incremental: isIncrementalManifest(manifest),
+      encrypted: !!manifest?.encryption,
     };
   });
 }
+
+/** .env 中的一行：KEY=value，支持 export 前缀、引号和行尾注释 */
+const ENV_LINE = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|[^#\r\n]*)?\s*(?:#.*)?$/;
+
+/**
+ * 解析 .env 文件（与 dotenv 规则一致，不依赖 Node 20.12+ 的 util.parseEnv）
+ * 双引号中的 \n 会转换为换行，单引号内容保持原样
+ */
+function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(ENV_LINE);
+    if (!match) continue;
+
+    const [, key, raw = ''] = match;
+    let value = raw.trim();
+    const quote = value[0];
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length >= 2) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\n/g, '\n');
+    }
+    env[key] = value;
+  }
+
+  return env;
+}
+
+/**
+ * 获取已配置的远程备份目标
+ * 配置来自环境变量，未设置时读取项目根目录的 .env
+ */
+export function getBackupTargets(): BackupTarget[] {
+  const envPath = path.join(PROJECT_ROOT, '.env');
+  const fileEnv = fs.existsSync(envPath) ? parseEnvFile(fs.readFileSync(envPath, 'utf-8')) : {};
+  const env = { ...fileEnv, ...process.env };
+
+  return BACKUP_TARGETS.map((definition) => definition.create(env)).filter((target): target is BackupTarget => target !== null);
+}
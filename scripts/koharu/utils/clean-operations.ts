@@ -1,5 +1,6 @@
 import fs from 'node:fs';
 
+import type { BackupInfo } from './backup';
 import { isValidBackupFile, validatePathInBackupDir } from './validation';
 
 /**
@@ -11,6 +12,55 @@ export interface DeleteResult {
   skippedCount: number;
 }
 
+/**
+ * 待删除备份的筛选结果
+ */
+export interface DeletionPlan {
+  /** 可以删除的备份路径 */
+  deletable: string[];
+  /** 被保留的增量备份依赖，不能删除的备份路径 */
+  protected: string[];
+}
+
+/**
+ * 按备份链依赖筛选可删除的备份
+ * 保留的备份所依赖的基础备份（包括间接依赖）即使被选中也不会删除
+ * @param backups 全部备份
+ * @param selectedPaths 选中要删除的备份路径
+ */
+export function resolveDeletableBackups(
+  backups: Pick<BackupInfo, 'name' | 'path' | 'base'>[],
+  selectedPaths: string[],
+): DeletionPlan {
+  const selected = new Set(selectedPaths);
+  const byName = new Map(backups.map((b) => [b.name, b]));
+  const required = new Set<string>();
+
+  for (const backup of backups) {
+    if (selected.has(backup.path)) continue;
+
+    // 沿 base 标记保留备份的所有依赖
+    let base = backup.base;
+    while (base && !required.has(base)) {
+      required.add(base);
+      base = byName.get(base)?.base ?? null;
+    }
+  }
+
+  const deletable: string[] = [];
+  const protectedPaths: string[] = [];
+  for (const backup of backups) {
+    if (!selected.has(backup.path)) continue;
+    if (required.has(backup.name)) {
+      protectedPaths.push(backup.path);
+    } else {
+      deletable.push(backup.path);
+    }
+  }
+
+  return { deletable, protected: protectedPaths };
+}
+
 /**
  * 删除备份文件
  * @param paths 要删除的文件路径列表
@@ -0,0 +1,208 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import YAML from 'yaml';
+
+import { BACKUP_ITEMS, PROJECT_ROOT } from '../constants';
+import { readBackupManifest } from './backup';
+import { hashFile, listFiles } from './backup-operations';
+import { materializeBackup } from './restore-operations';
+import { validateBackupFilePath } from './validation';
+
+/** 与当前工作区比较时使用的目标名称 */
+export const WORKING_TREE = 'working-tree';
+
+/** 博客文章在备份中的路径前缀 */
+const POSTS_PREFIX = 'content/blog/';
+
+/** 按配置项比较的 YAML 配置文件（备份路径） */
+const CONFIG_FILES = ['config/site.yaml', 'config/cms.yaml'];
+
+/**
+ * 文件变更列表
+ */
+export interface FileChanges {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+/**
+ * 配置文件的配置项变更（点分隔的键路径）
+ */
+export interface ConfigKeyChanges extends FileChanges {
+  file: string;
+}
+
+/**
+ * 备份比较结果
+ */
+export interface BackupDiff {
+  /** 博客文章（相对于 content/blog） */
+  posts: FileChanges;
+  /** 配置项 */
+  config: ConfigKeyChanges[];
+  /** 其他文件（备份路径） */
+  other: FileChanges;
+}
+
+/** 变更列表是否为空 */
+function isChangesEmpty(changes: FileChanges): boolean {
+  return changes.added.length === 0 && changes.removed.length === 0 && changes.modified.length === 0;
+}
+
+/**
+ * 比较的一侧：备份路径 -> 文件绝对路径
+ */
+type DiffSide = Map<string, string>;
+
+/**
+ * 读取备份一侧的文件：还原到临时目录
+ */
+function loadBackupSide(backupPath: string, tempDir: string, passphrase?: string): DiffSide {
+  materializeBackup(backupPath, tempDir, passphrase);
+  return new Map(
+    listFiles(tempDir)
+      .filter((file) => file !== 'manifest.json')
+      .map((file) => [file, path.join(tempDir, file)]),
+  );
+}
+
+/**
+ * 读取工作区一侧的文件
+ * @param dests 只包含这些备份项（备份路径），为空时包含全部
+ */
+function loadWorkingTreeSide(dests: string[]): DiffSide {
+  const side: DiffSide = new Map();
+  for (const item of BACKUP_ITEMS) {
+    if (dests.length > 0 && !dests.includes(item.dest)) continue;
+
+    const srcPath = path.join(PROJECT_ROOT, item.src);
+    if (!fs.existsSync(srcPath)) continue;
+
+    for (const relativePath of listFiles(srcPath)) {
+      side.set(
+        relativePath ? `${item.dest}/${relativePath}` : item.dest,
+        relativePath ? path.join(srcPath, relativePath) : srcPath,
+      );
+    }
+  }
+  return side;
+}
+
+/**
+ * 把 YAML 对象展开为 键路径 -> 值 的映射，数组作为整体比较
+ */
+function flattenConfig(value: unknown, prefix = '', result = new Map<string, string>()): Map<string, string> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, result);
+    }
+  } else if (prefix) {
+    result.set(prefix, JSON.stringify(value));
+  }
+  return result;
+}
+
+/**
+ * 比较两个配置文件的配置项，解析失败返回 null
+ */
+function diffConfigKeys(file: string, fromPath: string, toPath: string): ConfigKeyChanges | null {
+  let fromKeys: Map<string, string>;
+  let toKeys: Map<string, string>;
+  try {
+    fromKeys = flattenConfig(YAML.parse(fs.readFileSync(fromPath, 'utf-8')));
+    toKeys = flattenConfig(YAML.parse(fs.readFileSync(toPath, 'utf-8')));
+  } catch {
+    return null;
+  }
+
+  const changes: ConfigKeyChanges = { file, added: [], removed: [], modified: [] };
+  for (const [key, value] of toKeys) {
+    if (!fromKeys.has(key)) changes.added.push(key);
+    else if (fromKeys.get(key) !== value) changes.modified.push(key);
+  }
+  for (const key of fromKeys.keys()) {
+    if (!toKeys.has(key)) changes.removed.push(key);
+  }
+  return changes;
+}
+
+/**
+ * 比较两侧文件，按文章、配置、其他分类
+ */
+function compareSides(from: DiffSide, to: DiffSide): BackupDiff {
+  const diff: BackupDiff = {
+    posts: { added: [], removed: [], modified: [] },
+    config: [],
+    other: { added: [], removed: [], modified: [] },
+  };
+
+  const isPost = (file: string) => file.startsWith(POSTS_PREFIX) && /\.mdx?$/.test(file);
+  const displayName = (file: string) => (file.startsWith(POSTS_PREFIX) ? file.slice(POSTS_PREFIX.length) : file);
+
+  const files = [...new Set([...from.keys(), ...to.keys()])].sort();
+  for (const file of files) {
+    const fromPath = from.get(file);
+    const toPath = to.get(file);
+    const changes = isPost(file) ? diff.posts : diff.other;
+
+    if (!fromPath && toPath) {
+      changes.added.push(displayName(file));
+    } else if (fromPath && !toPath) {
+      changes.removed.push(displayName(file));
+    } else if (fromPath && toPath && hashFile(fromPath) !== hashFile(toPath)) {
+      const configChanges = CONFIG_FILES.includes(file) ? diffConfigKeys(file, fromPath, toPath) : null;
+      // 只有注释或格式变化时按普通文件处理
+      if (configChanges && !isChangesEmpty(configChanges)) {
+        diff.config.push(configChanges);
+      } else {
+        changes.modified.push(displayName(file));
+      }
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * 比较备份与另一个备份或当前工作区
+ * 与工作区比较时只包含备份中存在的备份项，即还原会覆盖的内容
+ * @param fromPath 备份文件路径
+ * @param to 另一个备份文件路径，或 WORKING_TREE
+ * @param passphrases 加密备份的密码
+ */
+export function diffBackups(fromPath: string, to: string, passphrases: { from?: string; to?: string } = {}): BackupDiff {
+  const validatedFrom = validateBackupFilePath(fromPath);
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'astro-koharu-diff-'));
+
+  try {
+    const fromDir = path.join(tempDir, 'from');
+    fs.mkdirSync(fromDir);
+    const fromSide = loadBackupSide(validatedFrom, fromDir, passphrases.from);
+
+    let toSide: DiffSide;
+    if (to === WORKING_TREE) {
+      const manifest = readBackupManifest(validatedFrom);
+      const dests = Object.entries(manifest?.files ?? {})
+        .filter(([, backedUp]) => backedUp)
+        .map(([dest]) => dest);
+      toSide = loadWorkingTreeSide(dests);
+    } else {
+      const toDir = path.join(tempDir, 'to');
+      fs.mkdirSync(toDir);
+      toSide = loadBackupSide(validateBackupFilePath(to), toDir, passphrases.to);
+    }
+
+    return compareSides(fromSide, toSide);
+  } finally {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 比较结果是否没有任何差异
+ */
+export function isDiffEmpty(diff: BackupDiff): boolean {
+  return isChangesEmpty(diff.posts) && isChangesEmpty(diff.other) && diff.config.length === 0;
+}
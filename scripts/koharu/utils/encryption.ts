@@ -0,0 +1,110 @@
+import crypto from 'node:crypto';
+
+import { MIN_PASSPHRASE_LENGTH } from '../constants';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+/** 用于校验密码的明文，加密后写入 manifest */
+const VERIFIER_PLAINTEXT = 'astro-koharu-backup';
+/** 从加密密钥派生对象哈希密钥时使用的 HKDF info */
+const OBJECT_HASH_INFO = 'astro-koharu-object-hash';
+
+/**
+ * manifest 中记录的加密信息
+ */
+export interface BackupEncryption {
+  algorithm: typeof ALGORITHM;
+  kdf: 'scrypt';
+  /** scrypt 盐（base64） */
+  salt: string;
+  /** 用密钥加密的校验串（base64），用于还原前检查密码 */
+  verifier: string;
+}
+
+/**
+ * 加密数据，输出格式: iv | authTag | ciphertext
+ */
+export function encryptBuffer(data: Buffer, key: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * 解密 encryptBuffer 的输出
+ * @throws Error 如果密钥错误或数据被篡改
+ */
+export function decryptBuffer(data: Buffer, key: Buffer): Buffer {
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * 从加密密钥派生对象哈希密钥（HKDF），每个备份派生一次
+ */
+export function deriveObjectHashKey(key: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', key, Buffer.alloc(0), OBJECT_HASH_INFO, KEY_LENGTH));
+}
+
+/**
+ * 计算加密备份中文件内容的哈希（HMAC-SHA256）
+ * 没有密码时无法用猜测的内容（如 .env）比对快照中的哈希
+ * @param hashKey deriveObjectHashKey 派生的密钥
+ */
+export function hashEncryptedContent(data: Buffer, hashKey: Buffer): string {
+  return crypto.createHmac('sha256', hashKey).update(data).digest('hex');
+}
+
+/**
+ * 检查备份密码是否符合要求，返回错误信息
+ */
+export function validatePassphrase(passphrase: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`;
+  }
+  return null;
+}
+
+/**
+ * 为新备份生成密钥和加密信息
+ * @param passphrase 备份密码
+ */
+export function createEncryption(passphrase: string): { key: Buffer; encryption: BackupEncryption } {
+  const salt = crypto.randomBytes(16);
+  const key = crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+
+  return {
+    key,
+    encryption: {
+      algorithm: ALGORITHM,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      verifier: encryptBuffer(Buffer.from(VERIFIER_PLAINTEXT), key).toString('base64'),
+    },
+  };
+}
+
+/**
+ * 根据密码和 manifest 中的加密信息还原密钥
+ * @throws Error 如果加密方式不受支持或密码错误
+ */
+export function deriveKey(passphrase: string, encryption: BackupEncryption): Buffer {
+  if (encryption.algorithm !== ALGORITHM || encryption.kdf !== 'scrypt') {
+    throw new Error(`不支持的加密方式: ${encryption.algorithm}/${encryption.kdf}`);
+  }
+
+  const key = crypto.scryptSync(passphrase, Buffer.from(encryption.salt, 'base64'), KEY_LENGTH);
+  try {
+    const verifier = decryptBuffer(Buffer.from(encryption.verifier, 'base64'), key);
+    if (verifier.toString() === VERIFIER_PLAINTEXT) return key;
+  } catch {
+    // 认证失败即密码错误
+  }
+  throw new Error('备份密码错误，无法解密');
+}
@@ -11,6 +11,8 @@ export interface RunScriptResult {
 export interface GenerateOptions {
   model?: string;
   force?: boolean;
+  /** CBZ/ZIP archive to import (comics only) */
+  from?: string;
   /** Progress callback for tracking current task */
   onProgress?: (taskLabel: string) => void;
 }
@@ -75,6 +77,13 @@ export async function runGenerate(type: GenerateType, options: GenerateOptions =
     if (options.force) {
       args.push('--force');
     }
+  } else if (type === 'comics') {
+    if (options.from) {
+      args.push('--from', options.from);
+    }
+    if (options.force) {
+      args.push('--force');
+    }
   }
 
   return runScript(item.script, args);
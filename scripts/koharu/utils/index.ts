@@ -1,15 +1,56 @@
 // Args utilities
-export { type ParsedArgs, parseArgs } from './args';
+export { type BackupAction, type ParsedArgs, parseArgs } from './args';
 
 // Backup utilities
-export { type BackupInfo, getBackupList, parseBackupManifest } from './backup';
+export {
+  type BackupChainItem,
+  type BackupInfo,
+  type BackupManifest,
+  type BackupSnapshotEntry,
+  getBackupChain,
+  getBackupList,
+  getBackupTargets,
+  type IncrementalBackupManifest,
+  isIncrementalManifest,
+  parseBackupManifest,
+  readBackupManifest,
+} from './backup';
 
 // Backup operations
-export { type BackupOutput, type BackupResult, runBackup } from './backup-operations';
+export {
+  type BackupOptions,
+  type BackupOutput,
+  type BackupResult,
+  getObjectPath,
+  hashBuffer,
+  hashFile,
+  listFiles,
+  runBackup,
+} from './backup-operations';
 
 // Clean operations
-export { type DeleteResult, deleteBackups } from './clean-operations';
+export { type DeleteResult, type DeletionPlan, deleteBackups, resolveDeletableBackups } from './clean-operations';
 
+// Diff operations
+export {
+  type BackupDiff,
+  type ConfigKeyChanges,
+  diffBackups,
+  type FileChanges,
+  isDiffEmpty,
+  WORKING_TREE,
+} from './diff-operations';
+// Encryption utilities
+export {
+  type BackupEncryption,
+  createEncryption,
+  decryptBuffer,
+  deriveKey,
+  deriveObjectHashKey,
+  encryptBuffer,
+  hashEncryptedContent,
+  validatePassphrase,
+} from './encryption';
 // Format utilities
 export { formatSize } from './format';
 
@@ -35,8 +76,35 @@ export {
   loadSiteConfig,
   postExists,
 } from './new-operations';
+// Remote operations
+export {
+  cleanRemoteBackups,
+  downloadBackup,
+  listRemoteBackups,
+  type RemoteBackupInfo,
+  type RemoteCleanResult,
+  type TargetResult,
+  uploadBackup,
+} from './remote-operations';
 // Restore operations
-export { getRestorePreview, type RestorePreviewItem, restoreBackup } from './restore-operations';
+export {
+  extractChainObjects,
+  getBackupKey,
+  getRestorePreview,
+  isBackupEncrypted,
+  isValidObjectHash,
+  materializeBackup,
+  type RestorePreviewItem,
+  restoreBackup,
+} from './restore-operations';
+// Schedule operations
+export {
+  getScheduledPosts,
+  getStalePosts,
+  type ScheduledPost,
+  type ScheduleInfo,
+  type StalePost,
+} from './schedule-operations';
 // Tar utilities
 export { tarCreate, tarExtract, tarExtractManifest, tarList } from './tar';
 // Update state machine
@@ -62,5 +130,7 @@ export {
   validateBackupFilePath,
   validatePathInBackupDir,
 } from './validation';
+// Verify operations
+export { type VerifyResult, verifyBackup } from './verify-operations';
 // Version utilities
 export { getVersion } from './version';
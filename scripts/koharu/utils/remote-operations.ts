@@ -0,0 +1,186 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { BACKUP_DIR, BACKUP_FILE_EXTENSION, REMOTE_MANIFEST_SUFFIX } from '../constants';
+import type { BackupTarget } from '../targets';
+import { getBackupChain, getBackupTargets, isIncrementalManifest, readBackupManifest } from './backup';
+import { resolveDeletableBackups } from './clean-operations';
+import { formatSize } from './format';
+import { validateBackupFilePath } from './validation';
+
+/**
+ * 远程备份信息
+ */
+export interface RemoteBackupInfo {
+  name: string;
+  size: number;
+  sizeFormatted: string;
+  lastModified: string;
+  target: BackupTarget;
+}
+
+/**
+ * 单个远程目标的操作结果
+ */
+export interface TargetResult {
+  target: BackupTarget;
+  success: boolean;
+  /** 本次上传的备份文件名（包括补传的基础备份） */
+  uploaded: string[];
+  error?: string;
+}
+
+/**
+ * 远程清理结果
+ */
+export interface RemoteCleanResult {
+  target: BackupTarget;
+  deleted: string[];
+  /** 被保留的增量备份依赖，未删除 */
+  protected: string[];
+  error?: string;
+}
+
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * 检查远程文件名，防止下载时写出备份目录
+ */
+function assertBackupName(name: string): void {
+  if (path.basename(name) !== name || !name.endsWith(BACKUP_FILE_EXTENSION)) {
+    throw new Error(`无效的远程备份文件名: ${name}`);
+  }
+}
+
+/**
+ * 上传备份到远程目标
+ * 增量备份会同时补传远程缺少的基础备份，保证远程备份链完整
+ * @param backupPath 备份文件路径
+ * @param targets 远程目标，默认为全部已配置的目标
+ */
+export async function uploadBackup(backupPath: string, targets: BackupTarget[] = getBackupTargets()): Promise<TargetResult[]> {
+  const validatedPath = validateBackupFilePath(backupPath);
+  const chain = getBackupChain(validatedPath);
+
+  return Promise.all(
+    targets.map(async (target): Promise<TargetResult> => {
+      const uploaded: string[] = [];
+      try {
+        const existing = new Set((await target.list()).map((file) => file.name));
+
+        for (const [index, item] of chain.entries()) {
+          const name = path.basename(item.path);
+          // 备份本身总是上传，基础备份只补传缺少的
+          if (index > 0 && existing.has(name)) break;
+
+          await target.put(name, fs.readFileSync(item.path));
+          await target.put(`${name}${REMOTE_MANIFEST_SUFFIX}`, Buffer.from(JSON.stringify(item.manifest)));
+          uploaded.push(name);
+
+          if (!isIncrementalManifest(item.manifest)) break;
+        }
+
+        return { target, success: true, uploaded };
+      } catch (err) {
+        return { target, success: false, uploaded, error: getErrorMessage(err) };
+      }
+    }),
+  );
+}
+
+/**
+ * 列出远程目标中的备份，按时间倒序
+ */
+export async function listRemoteBackups(target: BackupTarget): Promise<RemoteBackupInfo[]> {
+  const files = await target.list();
+  return files
+    .filter((file) => file.name.endsWith(BACKUP_FILE_EXTENSION))
+    .sort((a, b) => b.name.localeCompare(a.name))
+    .map((file) => ({
+      name: file.name,
+      size: file.size,
+      sizeFormatted: formatSize(file.size),
+      lastModified: file.lastModified,
+      target,
+    }));
+}
+
+/**
+ * 从远程目标下载备份到本地备份目录
+ * 增量备份会沿备份链继续下载本地缺少的基础备份
+ * @returns 本地备份文件路径
+ */
+export async function downloadBackup(target: BackupTarget, name: string): Promise<string> {
+  assertBackupName(name);
+  fs.mkdirSync(BACKUP_DIR, { recursive: true });
+
+  const visited = new Set<string>();
+  let current: string | null = name;
+
+  while (current && !visited.has(current)) {
+    assertBackupName(current);
+    visited.add(current);
+
+    const localPath = path.join(BACKUP_DIR, current);
+    if (!fs.existsSync(localPath)) {
+      // 先写临时文件，避免下载中断留下不完整的备份
+      const tempPath = path.join(BACKUP_DIR, `.download-${current}.part`);
+      fs.writeFileSync(tempPath, await target.get(current));
+      fs.renameSync(tempPath, localPath);
+    }
+
+    current = readBackupManifest(localPath)?.base ?? null;
+  }
+
+  return path.join(BACKUP_DIR, name);
+}
+
+/**
+ * 读取远程备份的基础备份名称（来自同名 manifest 文件）
+ * 读取失败时抛出错误：无法确认依赖关系时不能把备份当作独立备份清理
+ */
+async function readRemoteBase(target: BackupTarget, name: string): Promise<string | null> {
+  try {
+    const manifest = JSON.parse((await target.get(`${name}${REMOTE_MANIFEST_SUFFIX}`)).toString('utf-8'));
+    return typeof manifest.base === 'string' ? manifest.base : null;
+  } catch (err) {
+    throw new Error(`无法读取远程备份 ${name} 的 manifest，已取消清理: ${getErrorMessage(err)}`);
+  }
+}
+
+/**
+ * 清理远程目标中的旧备份，保留最近 keepCount 个及其依赖的基础备份
+ */
+export async function cleanRemoteBackups(target: BackupTarget, keepCount: number): Promise<RemoteCleanResult> {
+  const deleted: string[] = [];
+  try {
+    const backups = await listRemoteBackups(target);
+    if (backups.length <= keepCount) {
+      return { target, deleted, protected: [] };
+    }
+
+    const chainInfo = await Promise.all(
+      backups.map(async (backup) => ({
+        name: backup.name,
+        path: backup.name,
+        base: await readRemoteBase(target, backup.name),
+      })),
+    );
+    const plan = resolveDeletableBackups(
+      chainInfo,
+      backups.slice(keepCount).map((backup) => backup.name),
+    );
+
+    for (const name of plan.deletable) {
+      await target.remove(name);
+      await target.remove(`${name}${REMOTE_MANIFEST_SUFFIX}`).catch(() => {});
+      deleted.push(name);
+    }
+
+    return { target, deleted, protected: plan.protected };
+  } catch (err) {
+    return { target, deleted, protected: [], error: getErrorMessage(err) };
+  }
+}
@@ -3,8 +3,13 @@ import os from 'node:os';
 import path from 'node:path';
 
 import { PROJECT_ROOT, RESTORE_MAP } from '../constants';
+import { type BackupChainItem, type BackupManifest, getBackupChain, isIncrementalManifest, readBackupManifest } from './backup';
+import { getObjectPath } from './backup-operations';
+import { decryptBuffer, deriveKey } from './encryption';
 import { tarExtract, tarList } from './tar';
-import { validateBackupFilePath } from './validation';
+import { isPathWithinDir, validateBackupFilePath } from './validation';
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
 
 /** 还原预览项 */
 export interface RestorePreviewItem {
@@ -14,6 +19,20 @@ export interface RestorePreviewItem {
   fileCount: number;
 }
 
+/**
+ * 列出备份中的文件（备份路径），增量备份从快照读取
+ */
+function listBackupFiles(backupPath: string): string[] {
+  const [{ manifest }] = getBackupChain(backupPath);
+  if (isIncrementalManifest(manifest)) {
+    return Object.keys(manifest.snapshot);
+  }
+
+  const rawFiles = tarList(backupPath);
+  // 清理路径：移除 ./ 前缀和尾部斜杠
+  return rawFiles.map((f) => f.replace(/^\.\//, '').replace(/\/$/, '')).filter((f) => f && f !== 'manifest.json');
+}
+
 /**
  * 获取还原预览（不修改文件）
  * @param backupPath 备份文件路径
@@ -23,9 +42,7 @@ export function getRestorePreview(backupPath: string): RestorePreviewItem[] {
   // 验证备份文件
   const validatedPath = validateBackupFilePath(backupPath);
 
-  const rawFiles = tarList(validatedPath);
-  // 清理路径：移除 ./ 前缀和尾部斜杠
-  const files = rawFiles.map((f) => f.replace(/^\.\//, '').replace(/\/$/, '')).filter((f) => f && f !== 'manifest.json');
+  const files = listBackupFiles(validatedPath);
 
   const previewItems: RestorePreviewItem[] = [];
 
@@ -43,12 +60,103 @@ export function getRestorePreview(backupPath: string): RestorePreviewItem[] {
   return previewItems;
 }
 
+/**
+ * 备份是否已加密
+ */
+export function isBackupEncrypted(backupPath: string): boolean {
+  return !!readBackupManifest(validateBackupFilePath(backupPath))?.encryption;
+}
+
+/**
+ * 是否为有效的对象哈希（SHA-256 十六进制）
+ */
+export function isValidObjectHash(hash: string): boolean {
+  return HASH_PATTERN.test(hash);
+}
+
+/**
+ * 获取备份的解密密钥，未加密的备份返回 null
+ * @throws Error 如果备份已加密但未提供密码，或密码错误
+ */
+export function getBackupKey(manifest: BackupManifest, passphrase?: string): Buffer | null {
+  if (!manifest.encryption) return null;
+  if (passphrase === undefined) {
+    throw new Error('备份已加密，请提供密码');
+  }
+  return deriveKey(passphrase, manifest.encryption);
+}
+
+/**
+ * 解压备份链上所有增量归档中的对象（对象按哈希命名，可以解压到同一目录）
+ */
+export function extractChainObjects(chain: BackupChainItem[], destDir: string): void {
+  for (const item of chain) {
+    if (isIncrementalManifest(item.manifest)) {
+      tarExtract(item.path, destDir);
+    }
+  }
+}
+
+/**
+ * 按快照重建增量备份的文件树
+ * 解压备份链上的所有归档，再把对象复制到快照路径
+ * @param backupPath 备份文件路径
+ * @param destDir 输出目录
+ * @param passphrase 加密备份的密码
+ * @throws Error 如果备份已加密但未提供密码，或密码错误
+ */
+export function materializeBackup(backupPath: string, destDir: string, passphrase?: string): void {
+  const chain = getBackupChain(backupPath);
+  const manifest = chain[0].manifest;
+
+  if (!isIncrementalManifest(manifest)) {
+    tarExtract(backupPath, destDir);
+    return;
+  }
+
+  // 先校验密码，避免解压后才发现密码错误
+  const key = getBackupKey(manifest, passphrase);
+
+  const objectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'astro-koharu-objects-'));
+  try {
+    extractChainObjects(chain, objectsDir);
+
+    for (const [filePath, entry] of Object.entries(manifest.snapshot)) {
+      const targetPath = path.join(destDir, filePath);
+      // manifest 来自归档，防止路径遍历
+      if (!isValidObjectHash(entry.hash) || !isPathWithinDir(targetPath, destDir)) {
+        throw new Error(`备份快照中存在无效条目: ${filePath}`);
+      }
+
+      const objectPath = path.join(objectsDir, getObjectPath(entry.hash));
+      if (!fs.existsSync(objectPath)) {
+        throw new Error(`备份链中缺少文件 ${filePath} (${entry.hash.slice(0, 12)})`);
+      }
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      if (key) {
+        let data: Buffer;
+        try {
+          data = decryptBuffer(fs.readFileSync(objectPath), key);
+        } catch {
+          throw new Error(`文件 ${filePath} 解密失败，备份可能已损坏`);
+        }
+        fs.writeFileSync(targetPath, data);
+      } else {
+        fs.copyFileSync(objectPath, targetPath);
+      }
+    }
+  } finally {
+    fs.rmSync(objectsDir, { recursive: true, force: true });
+  }
+}
+
 /**
  * 执行还原操作
  * @param backupPath 备份文件路径
+ * @param passphrase 加密备份的密码
  * @returns 已还原的文件列表（目标路径）
  */
-export function restoreBackup(backupPath: string): string[] {
+export function restoreBackup(backupPath: string, passphrase?: string): string[] {
   // 验证备份文件
   const validatedPath = validateBackupFilePath(backupPath);
 
@@ -56,8 +164,8 @@ export function restoreBackup(backupPath: string): string[] {
   const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'astro-koharu-restore-'));
 
   try {
-    // 解压到临时目录
-    tarExtract(validatedPath, tempDir);
+    // 解压到临时目录（增量备份会沿备份链重建完整文件树）
+    materializeBackup(validatedPath, tempDir, passphrase);
 
     const restored: string[] = [];
 
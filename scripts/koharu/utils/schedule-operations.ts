@@ -0,0 +1,164 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { toDate } from 'date-fns-tz';
+import YAML from 'yaml';
+import { BLOG_CONTENT_PATH } from '../constants/paths';
+import { loadSiteConfig } from './new-operations';
+
+/** 默认时区，与站点配置的默认值保持一致 */
+const DEFAULT_TIMEZONE = 'Asia/Shanghai';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 定时发布的文章 */
+export interface ScheduledPost {
+  /** 相对于内容目录的文件路径 */
+  file: string;
+  title: string;
+  /** 发布时间（按站点时区解析） */
+  date: Date;
+}
+
+/** 定时发布概览 */
+export interface ScheduleInfo {
+  /** 按发布时间升序排列 */
+  posts: ScheduledPost[];
+  /** 下一次需要重新构建的时间，没有定时文章时为 null */
+  nextRebuild: Date | null;
+  timezone: string;
+}
+
+/**
+ * 已过期或过时的文章（frontmatter 中的 expires / outdatedAfterDays）
+ */
+export interface StalePost {
+  /** 相对于内容目录的文件路径 */
+  file: string;
+  title: string;
+  status: 'expired' | 'outdated';
+  /** 距最后更新（updated，没有时为 date）的天数 */
+  daysSinceUpdate: number;
+  /** 过期时间，仅 status 为 expired 时存在 */
+  expires?: Date;
+  outdatedAfterDays?: number;
+}
+
+/**
+ * 递归列出内容目录下的 Markdown 文件
+ */
+function listPostFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listPostFiles(fullPath));
+    } else if (/\.mdx?$/.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * 读取文件的 frontmatter，没有或解析失败时返回 null
+ */
+function readFrontmatter(filePath: string): Record<string, unknown> | null {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!match) return null;
+  try {
+    const data = YAML.parse(match[1]);
+    return data && typeof data === 'object' ? (data as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取站点时区（site.timezone）
+ */
+async function getSiteTimezone(): Promise<string> {
+  try {
+    const config = await loadSiteConfig();
+    const site = config.site as { timezone?: unknown } | undefined;
+    return typeof site?.timezone === 'string' && site.timezone ? site.timezone : DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * 按站点时区解析 frontmatter 中的日期，无效时返回 null
+ */
+function parseFrontmatterDate(value: unknown, timezone: string): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : toDate(String(value), { timeZone: timezone });
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * 查找日期晚于当前时间的非草稿文章
+ * 与站点构建的判断一致：不带时区的日期按站点时区解析
+ */
+export async function getScheduledPosts(now: Date = new Date()): Promise<ScheduleInfo> {
+  const timezone = await getSiteTimezone();
+  const posts: ScheduledPost[] = [];
+
+  for (const filePath of listPostFiles(BLOG_CONTENT_PATH)) {
+    const data = readFrontmatter(filePath);
+    if (!data || data.draft === true || !data.date) continue;
+
+    const date = parseFrontmatterDate(data.date, timezone);
+    if (!date || date.getTime() <= now.getTime()) continue;
+
+    const file = path.relative(BLOG_CONTENT_PATH, filePath);
+    posts.push({ file, title: typeof data.title === 'string' ? data.title : file, date });
+  }
+
+  posts.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return { posts, nextRebuild: posts[0]?.date ?? null, timezone };
+}
+
+/**
+ * 查找已过期或过时的已发布文章，按距最后更新的天数降序排列
+ * 规则与文章页的时效提示（src/lib/content/freshness.ts）一致，expired 优先
+ */
+export async function getStalePosts(now: Date = new Date()): Promise<StalePost[]> {
+  const timezone = await getSiteTimezone();
+  const posts: StalePost[] = [];
+
+  for (const filePath of listPostFiles(BLOG_CONTENT_PATH)) {
+    const data = readFrontmatter(filePath);
+    if (!data || data.draft === true) continue;
+
+    const date = parseFrontmatterDate(data.date, timezone);
+    // 定时发布的文章尚未发布
+    if (!date || date.getTime() > now.getTime()) continue;
+
+    const expires = parseFrontmatterDate(data.expires, timezone) ?? undefined;
+    const outdatedAfterDays = typeof data.outdatedAfterDays === 'number' ? data.outdatedAfterDays : undefined;
+    const lastUpdated = parseFrontmatterDate(data.updated, timezone) ?? date;
+    const daysSinceUpdate = Math.floor((now.getTime() - lastUpdated.getTime()) / DAY_MS);
+
+    let status: StalePost['status'] | null = null;
+    if (expires && expires.getTime() <= now.getTime()) {
+      status = 'expired';
+    } else if (outdatedAfterDays !== undefined && daysSinceUpdate > outdatedAfterDays) {
+      status = 'outdated';
+    }
+    if (!status) continue;
+
+    const file = path.relative(BLOG_CONTENT_PATH, filePath);
+    posts.push({
+      file,
+      title: typeof data.title === 'string' ? data.title : file,
+      status,
+      daysSinceUpdate,
+      ...(status === 'expired' && { expires }),
+      outdatedAfterDays,
+    });
+  }
+
+  return posts.sort((a, b) => b.daysSinceUpdate - a.daysSinceUpdate);
+}
@@ -0,0 +1,186 @@
+import path from 'node:path';
+import { PasswordInput, Select, Spinner } from '@inkjs/ui';
+import { Box, Text } from 'ink';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AUTO_EXIT_DELAY,
+  type BackupInfo,
+  getBackupList,
+  isBackupEncrypted,
+  usePressAnyKey,
+  useRetimer,
+  type VerifyResult,
+  verifyBackup,
+} from './shared';
+
+type VerifyStatus = 'selecting' | 'passphrase' | 'pending' | 'verifying' | 'done' | 'error';
+
+interface VerifyAppProps {
+  initialBackupFile?: string;
+  showReturnHint?: boolean;
+  onComplete?: () => void;
+}
+
+export function VerifyApp({ initialBackupFile, showReturnHint = false, onComplete }: VerifyAppProps) {
+  const [selectedBackup, setSelectedBackup] = useState<string>(initialBackupFile || '');
+  const [status, setStatus] = useState<VerifyStatus>(() => {
+    if (!initialBackupFile) return 'selecting';
+    try {
+      return isBackupEncrypted(initialBackupFile) ? 'passphrase' : 'pending';
+    } catch {
+      return 'pending';
+    }
+  });
+  const [passphrase, setPassphrase] = useState<string | undefined>(undefined);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const [backups] = useState<BackupInfo[]>(() => getBackupList());
+  const retimer = useRetimer();
+
+  const handleSelect = (value: string) => {
+    if (value === 'cancel') {
+      onComplete?.();
+      return;
+    }
+    setSelectedBackup(value);
+    setStatus(backups.find((b) => b.path === value)?.encrypted ? 'passphrase' : 'pending');
+  };
+
+  const handlePassphraseSubmit = (value: string) => {
+    setPassphrase(value);
+    setStatus('pending');
+  };
+
+  const runVerify = useCallback(() => {
+    try {
+      setStatus('verifying');
+      const output = verifyBackup(selectedBackup, passphrase);
+      setResult(output);
+      setStatus('done');
+      if (output.missing.length > 0 || output.corrupted.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus('error');
+      process.exitCode = 1;
+    }
+    if (!showReturnHint) {
+      retimer(setTimeout(() => onComplete?.(), AUTO_EXIT_DELAY));
+    }
+  }, [selectedBackup, passphrase, showReturnHint, onComplete, retimer]);
+
+  useEffect(() => {
+    if (status === 'pending') {
+      runVerify();
+    }
+  }, [status, runVerify]);
+
+  // 监听按键返回主菜单
+  usePressAnyKey((status === 'done' || status === 'error') && showReturnHint, () => {
+    onComplete?.();
+  });
+
+  if (backups.length === 0 && status === 'selecting') {
+    return (
+      <Box flexDirection="column">
+        <Text color="yellow">没有找到备份文件</Text>
+        <Text dimColor>使用 'pnpm koharu backup' 创建备份</Text>
+      </Box>
+    );
+  }
+
+  const failed = result ? result.missing.length + result.corrupted.length : 0;
+
+  return (
+    <Box flexDirection="column">
+      {status === 'selecting' && (
+        <Box flexDirection="column">
+          <Text>选择要校验的备份:</Text>
+          <Select
+            options={[
+              ...backups.map((b) => ({ label: `${b.name}  ${b.sizeFormatted}`, value: b.path })),
+              { label: '取消', value: 'cancel' },
+            ]}
+            onChange={handleSelect}
+          />
+        </Box>
+      )}
+
+      {status !== 'selecting' && (
+        <Box marginBottom={1}>
+          <Text>
+            备份文件: <Text color="cyan">{path.basename(selectedBackup)}</Text>
+          </Text>
+        </Box>
+      )}
+
+      {status === 'passphrase' && (
+        <Box flexDirection="column">
+          <Text>备份已加密，请输入密码:</Text>
+          <PasswordInput onSubmit={handlePassphraseSubmit} />
+        </Box>
+      )}
+
+      {(status === 'pending' || status === 'verifying') && <Spinner label="正在校验..." />}
+
+      {status === 'done' && result && (
+        <Box flexDirection="column">
+          {result.chain.length > 1 && (
+            <Text>
+              备份链: <Text dimColor>{result.chain.join(' → ')}</Text>
+            </Text>
+          )}
+          {result.legacy && <Text color="yellow">旧版备份没有文件校验和，仅检查了归档完整性</Text>}
+          <Text>
+            已检查: <Text color="green">{result.checkedCount}</Text> 个文件
+          </Text>
+          {result.missing.map((file) => (
+            <Text key={`missing-${file}`}>
+              <Text color="red">{'  '}? </Text>
+              <Text>{file}</Text>
+              <Text dimColor> (缺失)</Text>
+            </Text>
+          ))}
+          {result.corrupted.map((file) => (
+            <Text key={`corrupted-${file}`}>
+              <Text color="red">{'  '}x </Text>
+              <Text>{file}</Text>
+              <Text dimColor> (校验和不匹配)</Text>
+            </Text>
+          ))}
+          <Box marginTop={1}>
+            {failed === 0 ? (
+              <Text bold color="green">
+                校验通过
+              </Text>
+            ) : (
+              <Text bold color="red">
+                校验失败: {failed} 个文件有问题
+              </Text>
+            )}
+          </Box>
+          {showReturnHint && (
+            <Box marginTop={1}>
+              <Text dimColor>按任意键返回主菜单...</Text>
+            </Box>
+          )}
+        </Box>
+      )}
+
+      {status === 'error' && (
+        <Box flexDirection="column">
+          <Text bold color="red">
+            校验失败
+          </Text>
+          <Text color="red">{error}</Text>
+          {showReturnHint && (
+            <Box marginTop={1}>
+              <Text dimColor>按任意键返回主菜单...</Text>
+            </Box>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
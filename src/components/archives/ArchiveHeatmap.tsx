@@ -0,0 +1,107 @@
+/**
+ * ArchiveHeatmap Component
+ *
+ * GitHub-style posting activity grid for one year. Clicking a day with posts
+ * filters the archive to that day.
+ */
+
+import { buildHeatmapYear } from '@lib/archive/heatmap';
+import { getLocaleConfig, getTranslator } from '@lib/i18n';
+import { cn } from '@lib/utils';
+import { useMemo } from 'react';
+
+/** 各等级的颜色（HEATMAP_LEVELS 个），0 为没有文章 */
+const LEVEL_CLASSES = ['bg-black/5 dark:bg-white/10', 'bg-primary/30', 'bg-primary/55', 'bg-primary/80', 'bg-primary'];
+
+interface ArchiveHeatmapProps {
+  /** 有文章的年份（降序） */
+  years: number[];
+  year: number;
+  onYearChange: (year: number) => void;
+  /** 每天的文章数（已应用分类和标签筛选） */
+  counts: Map<string, number>;
+  selectedDay?: string;
+  onSelectDay: (day?: string) => void;
+  locale?: string;
+}
+
+export function ArchiveHeatmap({ years, year, onYearChange, counts, selectedDay, onSelectDay, locale }: ArchiveHeatmapProps) {
+  const t = getTranslator(locale);
+  const heatmap = useMemo(() => buildHeatmapYear(year, counts), [year, counts]);
+  const monthFormatter = useMemo(
+    () => new Intl.DateTimeFormat(getLocaleConfig(locale).code, { month: 'short', timeZone: 'UTC' }),
+    [locale],
+  );
+
+  return (
+    <div className="mb-6 flex flex-col gap-2 rounded-lg bg-black/3 p-3 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-muted-foreground text-sm">{t('archives.heatmapTotal', { year, count: heatmap.total })}</span>
+        <div className="flex flex-wrap gap-1.5">
+          {years.map((item) => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => onYearChange(item)}
+              aria-pressed={item === year}
+              className={cn(
+                'rounded-full px-2.5 py-0.5 text-xs transition-colors duration-300',
+                item === year ? 'bg-primary text-white' : 'bg-black/5 hover:bg-primary/20 dark:bg-white/10',
+              )}
+            >
+              {item}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-1">
+        <div className="inline-flex flex-col gap-1">
+          {/* 月份标签 */}
+          <div className="relative h-4 text-muted-foreground text-xs">
+            {heatmap.months.map(({ week, month }) => (
+              <span key={month} className="absolute" style={{ left: `${week * 14}px` }}>
+                {monthFormatter.format(new Date(Date.UTC(year, month - 1, 1)))}
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-[3px]">
+            {heatmap.weeks.map((week) => (
+              <div key={week.find(Boolean)?.day} className="flex flex-col gap-[3px]">
+                {week.map((cell, index) =>
+                  cell ? (
+                    <button
+                      key={cell.day}
+                      type="button"
+                      title={t('archives.heatmapDay', { day: cell.day, count: cell.count })}
+                      aria-label={t('archives.heatmapDay', { day: cell.day, count: cell.count })}
+                      aria-pressed={cell.day === selectedDay}
+                      disabled={cell.count === 0 && cell.day !== selectedDay}
+                      onClick={() => onSelectDay(cell.day === selectedDay ? undefined : cell.day)}
+                      className={cn(
+                        'h-[11px] w-[11px] rounded-[2px] transition-transform enabled:hover:scale-125',
+                        LEVEL_CLASSES[cell.level],
+                        cell.day === selectedDay && 'ring-2 ring-blue ring-offset-1',
+                      )}
+                    />
+                  ) : (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: 空白格子没有日期，位置固定
+                    <span key={index} className="h-[11px] w-[11px]" />
+                  ),
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-1 text-muted-foreground text-xs">
+        <span className="mr-1">{t('archives.heatmapLess')}</span>
+        {LEVEL_CLASSES.map((levelClass) => (
+          <span key={levelClass} className={cn('h-[11px] w-[11px] rounded-[2px]', levelClass)} />
+        ))}
+        <span className="ml-1">{t('archives.heatmapMore')}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * ArchiveTimeline Component
+ *
+ * Archive page body: posting heatmap, category and tag filters, and the post
+ * list grouped by year and month. Filtering happens on the client and is
+ * mirrored to the URL query so a filtered archive can be shared.
+ */
+
+import {
+  applyArchiveParams,
+  EMPTY_ARCHIVE_FILTERS,
+  hasActiveArchiveFilters,
+  matchesArchiveFilters,
+  parseArchiveParams,
+  toggleArchiveFilter,
+} from '@lib/archive/filters';
+import { countByDay } from '@lib/archive/heatmap';
+import type { ArchiveData, ArchiveFilterState, ArchivePost } from '@lib/archive/types';
+import { getLocaleConfig, getTranslator } from '@lib/i18n';
+import type { SearchFacetOption } from '@lib/search/types';
+import { cn } from '@lib/utils';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArchiveHeatmap } from './ArchiveHeatmap';
+
+/** 标签默认展示数量，超出部分折叠 */
+const COLLAPSED_TAG_COUNT = 16;
+
+interface ArchiveTimelineProps {
+  data: ArchiveData;
+  locale?: string;
+}
+
+interface MonthGroup {
+  month: number;
+  posts: ArchivePost[];
+}
+
+interface YearGroup {
+  year: number;
+  count: number;
+  months: MonthGroup[];
+}
+
+/**
+ * 按年、月分组（文章已按日期倒序）
+ */
+function groupPosts(posts: ArchivePost[]): YearGroup[] {
+  const groups: YearGroup[] = [];
+  for (const post of posts) {
+    const year = Number(post.day.slice(0, 4));
+    const month = Number(post.day.slice(5, 7));
+
+    let yearGroup = groups.at(-1);
+    if (yearGroup?.year !== year) {
+      yearGroup = { year, count: 0, months: [] };
+      groups.push(yearGroup);
+    }
+    let monthGroup = yearGroup.months.at(-1);
+    if (monthGroup?.month !== month) {
+      monthGroup = { month, posts: [] };
+      yearGroup.months.push(monthGroup);
+    }
+
+    monthGroup.posts.push(post);
+    yearGroup.count++;
+  }
+  return groups;
+}
+
+function FilterRow({
+  label,
+  options,
+  selected,
+  onToggle,
+  footer,
+}: {
+  label: string;
+  options: SearchFacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  footer?: React.ReactNode;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex gap-3">
+      <span className="w-8 shrink-0 pt-0.5 text-xs opacity-60">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onToggle(option.value)}
+              aria-pressed={isSelected}
+              className={cn(
+                'flex shrink-0 items-center rounded-full px-2.5 py-0.5 text-xs transition-colors duration-300',
+                isSelected ? 'bg-primary text-white' : 'bg-black/5 hover:bg-primary/20 dark:bg-white/10',
+              )}
+            >
+              {option.label}
+              <span className="ml-1 opacity-60">{option.count}</span>
+            </button>
+          );
+        })}
+        {footer}
+      </div>
+    </div>
+  );
+}
+
+export function ArchiveTimeline({ data, locale }: ArchiveTimelineProps) {
+  const t = getTranslator(locale);
+  const [filters, setFilters] = useState<ArchiveFilterState>(EMPTY_ARCHIVE_FILTERS);
+  const [heatmapYear, setHeatmapYear] = useState(() => data.years[0]?.year ?? new Date().getFullYear());
+  const [showAllTags, setShowAllTags] = useState(false);
+  const restored = useRef(false);
+
+  // 同步筛选条件到 URL（恢复完成前跳过，避免清掉 URL 中的参数）
+  useEffect(() => {
+    if (!restored.current) return;
+    const next = applyArchiveParams(new URL(window.location.href), filters);
+    window.history.replaceState(window.history.state, '', next);
+  }, [filters]);
+
+  // 首次加载时从 URL 恢复筛选条件（服务端渲染始终是未筛选的完整列表）
+  useEffect(() => {
+    const initial = parseArchiveParams(new URLSearchParams(window.location.search));
+    if (hasActiveArchiveFilters(initial)) {
+      setFilters(initial);
+      if (initial.day) setHeatmapYear(Number(initial.day.slice(0, 4)));
+    }
+    restored.current = true;
+  }, []);
+
+  // 热力图只应用分类和标签筛选，选中的日期不影响其他格子
+  const dayCounts = useMemo(
+    () =>
+      countByDay(
+        data.posts.filter((post) => matchesArchiveFilters(post, { ...filters, day: undefined })).map((post) => post.day),
+      ),
+    [data.posts, filters],
+  );
+  const filteredPosts = useMemo(() => data.posts.filter((post) => matchesArchiveFilters(post, filters)), [data.posts, filters]);
+  const groups = useMemo(() => groupPosts(filteredPosts), [filteredPosts]);
+  const yearStats = useMemo(() => new Map(data.years.map((stats) => [stats.year, stats])), [data.years]);
+  const monthFormatter = useMemo(
+    () => new Intl.DateTimeFormat(getLocaleConfig(locale).code, { month: 'long', timeZone: 'UTC' }),
+    [locale],
+  );
+
+  const isFiltered = hasActiveArchiveFilters(filters);
+  const toggle = (key: 'categories' | 'tags') => (value: string) => setFilters(toggleArchiveFilter(filters, key, value));
+
+  // 折叠时仍然展示已选中的标签
+  const visibleTags = showAllTags
+    ? data.tags
+    : data.tags.filter((tag, index) => index < COLLAPSED_TAG_COUNT || filters.tags.includes(tag.value));
+  const hiddenTagCount = data.tags.length - visibleTags.length;
+
+  return (
+    <div className="flex flex-col">
+      <ArchiveHeatmap
+        years={data.years.map((stats) => stats.year)}
+        year={heatmapYear}
+        onYearChange={setHeatmapYear}
+        counts={dayCounts}
+        selectedDay={filters.day}
+        onSelectDay={(day) => setFilters({ ...filters, day })}
+        locale={locale}
+      />
+
+      <div className="mb-6 flex flex-col gap-2 rounded-lg bg-black/3 p-3 dark:bg-white/5">
+        <FilterRow
+          label={t('archives.filterCategories')}
+          options={data.categories}
+          selected={filters.categories}
+          onToggle={toggle('categories')}
+        />
+        <FilterRow
+          label={t('archives.filterTags')}
+          options={visibleTags}
+          selected={filters.tags}
+          onToggle={toggle('tags')}
+          footer={
+            (hiddenTagCount > 0 || showAllTags) && (
+              <button
+                type="button"
+                onClick={() => setShowAllTags((show) => !show)}
+                className="px-1.5 text-primary text-xs hover:underline"
+              >
+                {showAllTags ? t('archives.lessTags') : t('archives.moreTags', { count: hiddenTagCount })}
+              </button>
+            )
+          }
+        />
+        {isFiltered && (
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground text-xs">{t('archives.filtered', { count: filteredPosts.length })}</span>
+            <button
+              type="button"
+              onClick={() => setFilters(EMPTY_ARCHIVE_FILTERS)}
+              className="text-primary text-xs hover:underline"
+            >
+              {t('archives.clearFilters')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {groups.length === 0 && <p className="py-8 text-center text-muted-foreground text-sm">{t('archives.empty')}</p>}
+
+      <div className="flex flex-col gap-4 md:gap-5">
+        {groups.map((group) => {
+          const stats = yearStats.get(group.year);
+          return (
+            <div key={group.year}>
+              <h3 className="font-bold text-xl md:text-base">
+                {group.year}
+                <span className="ml-2 text-base text-muted-foreground md:text-sm">
+                  {t('archives.yearCount', { count: isFiltered ? `${group.count} / ${stats?.postCount}` : group.count })}
+                  {stats && <> · {t('archives.yearWords', { words: stats.formattedWords })}</>}
+                </span>
+              </h3>
+              {group.months.map((monthGroup) => (
+                <div key={monthGroup.month} className="mt-2">
+                  <h4 className="px-6 text-muted-foreground text-sm">
+                    {monthFormatter.format(new Date(Date.UTC(group.year, monthGroup.month - 1, 1)))}
+                    <span className="ml-2 text-xs opacity-75">
+                      {t('archives.monthCount', { count: monthGroup.posts.length })}
+                    </span>
+                  </h4>
+                  {monthGroup.posts.map((post) => (
+                    <p
+                      key={post.slug}
+                      className="shoka-decoration-circle group relative px-6 py-2 text-base/9 text-primary hover:text-blue md:flex md:flex-col md:items-stretch md:text-sm/9"
+                    >
+                      <span className="mr-2 text-muted-foreground text-xs">{post.day}</span>
+                      <a href={post.url} className="dashed-border truncate text-primary transition-colors hover:text-blue">
+                        {post.title}
+                      </a>
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * ContinueReadingShelf Component
+ *
+ * "Continue reading" list for the home sider, built from the comic reading history.
+ * Each comic links back to the post it was opened from. Also offers export/import of the history as JSON to move it between devices.
+ */
+
+import { useIsMounted } from '@hooks/useIsMounted';
+import { Icon } from '@iconify/react';
+import { getTranslator } from '@lib/i18n';
+import { cn } from '@lib/utils';
+import { useStore } from '@nanostores/react';
+import {
+  continueReadingComics,
+  exportComicHistory,
+  importComicHistory,
+  initComicHistory,
+  removeComicHistory,
+  sortedComicHistory,
+} from '@store/comic-history';
+import { type ChangeEvent, useEffect, useMemo, useRef } from 'react';
+import { toast } from 'sonner';
+import type { ComicHistoryEntry } from '@/types/comic';
+
+/** 最多显示的漫画数 */
+const MAX_SHELF_ITEMS = 5;
+
+interface ContinueReadingShelfProps {
+  className?: string;
+  locale?: string;
+}
+
+function openComic({ id, name, src, author, cover }: ComicHistoryEntry) {
+  window.dispatchEvent(new CustomEvent('open-comic-reader', { detail: { id, name, src, author, cover } }));
+}
+
+function downloadHistory() {
+  const blob = new Blob([exportComicHistory()], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `comic-reading-history-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ContinueReadingShelf({ className, locale }: ContinueReadingShelfProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const isMounted = useIsMounted();
+  const comics = useStore(continueReadingComics);
+  const history = useStore(sortedComicHistory);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    initComicHistory();
+  }, []);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = importComicHistory(await file.text());
+      toast.success(count > 0 ? t('comicHistory.imported', { count }) : t('comicHistory.importUpToDate'));
+    } catch (error) {
+      toast.error(
+        t('comicHistory.importFailed', { error: error instanceof Error ? error.message : t('comicHistory.unknownError') }),
+      );
+    }
+  };
+
+  if (!isMounted) return null;
+
+  return (
+    <section className={cn('w-full', className)} aria-label={t('comicHistory.title')}>
+      <div className="mb-2 flex items-center justify-between text-muted-foreground text-sm">
+        <span className="flex items-center gap-1.5">
+          <Icon icon="ri:book-open-line" className="size-4" />
+          {t('comicHistory.title')}
+        </span>
+        <span className="flex items-center gap-1">
+          <button
+            type="button"
+            className="cursor-pointer p-1 transition-colors hover:text-blue disabled:cursor-not-allowed disabled:opacity-40"
+            onClick={downloadHistory}
+            disabled={history.length === 0}
+            title={t('comicHistory.export')}
+            aria-label={t('comicHistory.export')}
+          >
+            <Icon icon="ri:download-2-line" className="size-4" />
+          </button>
+          <button
+            type="button"
+            className="cursor-pointer p-1 transition-colors hover:text-blue"
+            onClick={() => fileInputRef.current?.click()}
+            title={t('comicHistory.import')}
+            aria-label={t('comicHistory.import')}
+          >
+            <Icon icon="ri:upload-2-line" className="size-4" />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </span>
+      </div>
+
+      {comics.length === 0 ? (
+        <p className="text-center text-muted-foreground/70 text-xs">{t('comicHistory.empty')}</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {comics.slice(0, MAX_SHELF_ITEMS).map((comic) => {
+            const percent = Math.round(((comic.page + 1) / comic.totalPages) * 100);
+            return (
+              <li
+                key={comic.id}
+                className="group relative flex rounded-lg bg-foreground/5 transition-colors hover:bg-foreground/10"
+              >
+                <button
+                  type="button"
+                  className="flex min-w-0 flex-1 cursor-pointer items-center gap-2 p-2 text-left"
+                  onClick={() => openComic(comic)}
+                  title={t('comicHistory.continue', { name: comic.name })}
+                >
+                  {comic.cover ? (
+                    <img src={comic.cover} alt="" className="h-12 w-9 shrink-0 rounded object-cover" loading="lazy" />
+                  ) : (
+                    <span className="flex h-12 w-9 shrink-0 items-center justify-center rounded bg-foreground/10">
+                      <Icon icon="ri:image-line" className="size-4 text-muted-foreground" />
+                    </span>
+                  )}
+                  <span className="flex min-w-0 flex-1 flex-col gap-1">
+                    <span className="truncate text-sm">{comic.name}</span>
+                    <span className="text-muted-foreground text-xs">
+                      {t('comicHistory.progress', { page: comic.page + 1, total: comic.totalPages })}
+                    </span>
+                    <span className="h-1 overflow-hidden rounded-full bg-foreground/10">
+                      <span className="block h-full rounded-full bg-primary" style={{ width: `${percent}%` }} />
+                    </span>
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className="absolute top-1 right-1 cursor-pointer p-0.5 text-muted-foreground opacity-0 transition-opacity hover:text-destructive focus-visible:opacity-100 group-hover:opacity-100"
+                  onClick={() => removeComicHistory(comic.id)}
+                  aria-label={t('comicHistory.remove', { name: comic.name })}
+                >
+                  <Icon icon="ri:close-line" className="size-3.5" />
+                </button>
+                <a
+                  href={comic.pageUrl}
+                  className="absolute right-1 bottom-1 p-0.5 text-muted-foreground opacity-0 transition-opacity hover:text-blue focus-visible:opacity-100 group-hover:opacity-100"
+                  title={t('comicHistory.viewPost', { name: comic.name })}
+                  aria-label={t('comicHistory.viewPost', { name: comic.name })}
+                >
+                  <Icon icon="ri:article-line" className="size-3.5" />
+                </a>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
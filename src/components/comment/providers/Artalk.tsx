@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { commentConfig } from '@/constants/site-config';
+import { useIsDarkTheme } from '@/hooks/useIsDarkTheme';
+import { type ArtalkInstance, getArtalkServer, loadArtalk } from '@/lib/comment-clients';
+
+// Config is module-level static data parsed from YAML at build time - won't change at runtime
+const config = commentConfig.artalk;
+
+export default function Artalk() {
+  const isDark = useIsDarkTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const artalkInstanceRef = useRef<ArtalkInstance | null>(null);
+  const isDarkRef = useRef(isDark);
+  isDarkRef.current = isDark;
+
+  useEffect(() => {
+    if (!config?.server || !config.site || !containerRef.current) return;
+
+    const el = containerRef.current;
+    let cancelled = false;
+    let currentPath = window.location.pathname;
+
+    // Initialize Artalk after its client is loaded from the server
+    loadArtalk()
+      .then((client) => {
+        if (cancelled) return;
+        artalkInstanceRef.current = client.init({
+          el,
+          server: getArtalkServer(),
+          site: config.site,
+          pageKey: window.location.pathname,
+          pageTitle: document.title,
+          darkMode: isDarkRef.current,
+          locale: config.locale ?? 'zh-CN',
+        });
+      })
+      .catch((error) => {
+        console.error('[Artalk] Failed to initialize:', error);
+      });
+
+    // Handle Astro page transitions - update page key when navigating
+    const handlePageLoad = () => {
+      if (window.location.pathname === currentPath) return;
+      currentPath = window.location.pathname;
+      artalkInstanceRef.current?.update({ pageKey: currentPath, pageTitle: document.title });
+      artalkInstanceRef.current?.reload();
+    };
+    document.addEventListener('astro:page-load', handlePageLoad);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('astro:page-load', handlePageLoad);
+      artalkInstanceRef.current?.destroy();
+      artalkInstanceRef.current = null;
+    };
+  }, []);
+
+  // Sync dark mode with the site theme toggle
+  useEffect(() => {
+    artalkInstanceRef.current?.setDarkMode(isDark);
+  }, [isDark]);
+
+  if (!config) return null;
+
+  return <div ref={containerRef} />;
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef } from 'react';
+import { commentConfig } from '@/constants/site-config';
+import { useIsDarkTheme } from '@/hooks/useIsDarkTheme';
+import { normalizeUrl } from '@/lib/utils';
+
+type Remark42Theme = 'light' | 'dark';
+
+interface Remark42Options {
+  host: string;
+  site_id: string;
+  url: string;
+  components: string[];
+  max_shown_comments: number;
+  theme: Remark42Theme;
+  locale: string;
+  show_email_subscription: boolean;
+  simple_view: boolean;
+}
+
+interface Remark42Instance {
+  destroy: () => void;
+}
+
+declare global {
+  interface Window {
+    remark_config?: Remark42Options;
+    REMARK42?: {
+      createInstance: (config: Remark42Options & { node: HTMLElement }) => Remark42Instance;
+      changeTheme?: (theme: Remark42Theme) => void;
+      destroy?: () => void;
+    };
+  }
+}
+
+// Config is module-level static data parsed from YAML at build time - won't change at runtime
+const config = commentConfig.remark42;
+// Normalize URL to remove trailing slashes (prevents double-slash in script paths)
+const host = normalizeUrl(config?.host ?? '');
+
+/** Remark42 挂载节点 ID，embed 脚本首次加载时会自动在该节点创建实例 */
+const ROOT_ID = 'remark42';
+
+let scriptPromise: Promise<void> | null = null;
+
+/**
+ * 加载 Remark42 embed 脚本（全站只加载一次）
+ */
+function loadRemark42(): Promise<void> {
+  if (window.REMARK42) return Promise.resolve();
+
+  scriptPromise ??= new Promise((resolve) => {
+    window.addEventListener('REMARK42::ready', () => resolve(), { once: true });
+
+    const script = document.createElement('script');
+    script.type = 'module';
+    script.src = `${host}/web/embed.mjs`;
+    (document.head || document.body).appendChild(script);
+  });
+
+  return scriptPromise;
+}
+
+function buildOptions(theme: Remark42Theme): Remark42Options {
+  return {
+    host,
+    site_id: config?.siteId ?? '',
+    url: `${window.location.origin}${window.location.pathname}`,
+    components: ['embed'],
+    max_shown_comments: 100,
+    theme,
+    locale: config?.locale ?? 'en',
+    show_email_subscription: false,
+    simple_view: true,
+  };
+}
+
+export default function Remark42() {
+  const isDark = useIsDarkTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const themeRef = useRef<Remark42Theme>(isDark ? 'dark' : 'light');
+  themeRef.current = isDark ? 'dark' : 'light';
+
+  // Create the instance on mount, re-create it when View Transitions change the page URL
+  useEffect(() => {
+    if (!config?.host || !containerRef.current) return;
+
+    let cancelled = false;
+    let instance: Remark42Instance | null = null;
+    let currentPath = window.location.pathname;
+
+    const createInstance = () => {
+      const node = containerRef.current;
+      if (!node || !window.REMARK42) return;
+      instance?.destroy();
+      instance = window.REMARK42.createInstance({ node, ...buildOptions(themeRef.current) });
+    };
+
+    // The first script load creates an instance in #remark42 from window.remark_config by itself
+    const isFirstLoad = !window.REMARK42 && !scriptPromise;
+    window.remark_config = buildOptions(themeRef.current);
+
+    loadRemark42().then(() => {
+      if (cancelled) return;
+      if (!isFirstLoad) createInstance();
+    });
+
+    const handlePageLoad = () => {
+      if (window.location.pathname === currentPath) return;
+      currentPath = window.location.pathname;
+      createInstance();
+    };
+    document.addEventListener('astro:page-load', handlePageLoad);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('astro:page-load', handlePageLoad);
+      if (instance) {
+        instance.destroy();
+      } else {
+        window.REMARK42?.destroy?.();
+      }
+    };
+  }, []);
+
+  // Sync theme with the site theme toggle
+  useEffect(() => {
+    window.REMARK42?.changeTheme?.(isDark ? 'dark' : 'light');
+  }, [isDark]);
+
+  if (!config?.host) return null;
+
+  return <div id={ROOT_ID} ref={containerRef} className="mx-auto" />;
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { commentConfig } from '@/constants/site-config';
+import { useIsDarkTheme } from '@/hooks/useIsDarkTheme';
+import { loadTwikoo } from '@/lib/comment-clients';
+
+// Config is module-level static data parsed from YAML at build time - won't change at runtime
+const config = commentConfig.twikoo;
+
+export default function Twikoo() {
+  const isDark = useIsDarkTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!config?.envId || !containerRef.current) return;
+
+    const container = containerRef.current;
+    let cancelled = false;
+    let currentPath = window.location.pathname;
+
+    // Twikoo has no destroy API, render into a fresh element each time
+    const render = async () => {
+      try {
+        const twikoo = await loadTwikoo();
+        if (cancelled) return;
+
+        const el = document.createElement('div');
+        container.replaceChildren(el);
+        await twikoo.init({
+          envId: config.envId,
+          region: config.region,
+          lang: config.lang ?? 'zh-CN',
+          path: window.location.pathname,
+          el,
+        });
+      } catch (error) {
+        console.error('[Twikoo] Failed to initialize:', error);
+      }
+    };
+
+    render();
+
+    // Handle Astro page transitions - re-render when the path changes
+    const handlePageLoad = () => {
+      if (window.location.pathname === currentPath) return;
+      currentPath = window.location.pathname;
+      render();
+    };
+    document.addEventListener('astro:page-load', handlePageLoad);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('astro:page-load', handlePageLoad);
+      container.replaceChildren();
+    };
+  }, []);
+
+  if (!config) return null;
+
+  // Twikoo styles inherit the text color, color-scheme keeps its inputs and scrollbars in sync with the theme
+  return <div ref={containerRef} style={{ colorScheme: isDark ? 'dark' : 'light' }} />;
+}
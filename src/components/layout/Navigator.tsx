@@ -10,6 +10,7 @@ import { RESERVED_ROUTES, routers } from '@constants/router';
 import { configuredSeriesSlugs, enabledSeriesSlugs } from '@constants/site-config';
 import { useScrollTrigger } from '@hooks/useScrollTrigger';
 import { Icon } from '@iconify/react';
+import { getLocaleFromPath, stripLocalePrefix } from '@lib/i18n';
 import { cn, filterNavItems } from '@lib/utils';
 import { useEffect, useRef, useState } from 'react';
 import DropdownNav from './DropdownNav';
@@ -67,7 +68,7 @@ export default function Navigator({ currentPath }: NavigatorProps) {
   useEffect(() => {
     const checkPostPageMobile = () => {
       const isMobile = window.innerWidth <= 992;
-      const isPostPage = window.location.pathname.startsWith('/post/');
+      const isPostPage = stripLocalePrefix(window.location.pathname).startsWith('/post/');
       setIsPostPageMobile(isMobile && isPostPage);
     };
 
@@ -154,7 +155,7 @@ export default function Navigator({ currentPath }: NavigatorProps) {
       </div>
 
       <div className="ml-auto flex items-center gap-2">
-        <SearchTrigger />
+        <SearchTrigger locale={getLocaleFromPath(currentPath)} />
         <ThemeToggle />
       </div>
     </div>
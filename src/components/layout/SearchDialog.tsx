@@ -2,17 +2,26 @@
  * SearchDialog Component
  *
  * A search dialog with keyboard navigation for searching blog posts.
- * Integrates with Pagefind for static site search.
+ * Integrates with Pagefind for static site search, and falls back to the
+ * client-side search index (SearchFallback) in dev, when Pagefind is missing,
+ * or when facet filters are active. Query and facets are mirrored to the URL
+ * (?q=&category=&tag=&series=&from=&to=) so a filtered search is shareable.
  */
 
 import { Dialog, DialogPortal } from '@components/ui/dialog';
 import { useIsMounted } from '@hooks/useIsMounted';
 import { useEscapeKey, useKeyboardShortcut } from '@hooks/useKeyboardShortcut';
+import { getTranslator } from '@lib/i18n';
+import { detectSearchMode, loadSearchIndex } from '@lib/search/client';
+import { applySearchParams, EMPTY_FACETS, hasActiveFacets, parseSearchParams } from '@lib/search/facets';
+import type { SearchFacetOptions, SearchFacetState, SearchMode } from '@lib/search/types';
 import { cn } from '@lib/utils';
 import { useStore } from '@nanostores/react';
 import { $isSearchOpen, closeModal, openModal } from '@store/modal';
 import { AnimatePresence, motion } from 'motion/react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import SearchFacets from './SearchFacets';
+import SearchFallback from './SearchFallback';
 
 // Icons
 function SearchIcon({ className }: { className?: string }) {
@@ -24,6 +33,15 @@ function SearchIcon({ className }: { className?: string }) {
   );
 }
 
+function FilterIcon({ className }: { className?: string }) {
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className={className}>
+      <title>Filter</title>
+      <path d="M21 4V6H20L15 13.5V22H9V13.5L4 6H3V4H21ZM6.4037 6L11 12.8944V20H13V12.8944L17.5963 6H6.4037Z" />
+    </svg>
+  );
+}
+
 function CloseIcon({ className }: { className?: string }) {
   return (
     <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className={className}>
@@ -33,12 +51,79 @@ function CloseIcon({ className }: { className?: string }) {
   );
 }
 
-export default function SearchDialog() {
+interface SearchDialogProps {
+  /** 界面语言，默认为站点默认语言 */
+  locale?: string;
+}
+
+export default function SearchDialog({ locale }: SearchDialogProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  // 文案中的 {key} 处显示按键
+  const [escHintBefore, escHintAfter] = t('search.escHint').split('{key}');
   const isOpen = useStore($isSearchOpen);
   const [selectedIndex, setSelectedIndex] = useState(-1);
+  const [searchMode, setSearchMode] = useState<SearchMode>('pending');
+  const [query, setQuery] = useState('');
+  const [facets, setFacets] = useState<SearchFacetState>(EMPTY_FACETS);
+  const [showFacets, setShowFacets] = useState(false);
+  const [facetOptions, setFacetOptions] = useState<SearchFacetOptions | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const resultsObserverRef = useRef<MutationObserver | null>(null);
 
+  const facetsActive = hasActiveFacets(facets);
+  // Pagefind 无法叠加筛选条件，有筛选时改用客户端索引
+  const useIndexSearch = searchMode === 'fallback' || (searchMode === 'pagefind' && facetsActive);
+
+  // Detect Pagefind availability once
+  useEffect(() => {
+    detectSearchMode().then(setSearchMode);
+  }, []);
+
+  // Restore shared search from URL (?q=...&category=...)
+  useEffect(() => {
+    const { query: initialQuery, facets: initialFacets } = parseSearchParams(new URLSearchParams(window.location.search));
+    if (!initialQuery && !hasActiveFacets(initialFacets)) return;
+
+    setQuery(initialQuery);
+    setFacets(initialFacets);
+    setShowFacets(hasActiveFacets(initialFacets));
+    openModal('search');
+  }, []);
+
+  // Mirror search state to URL while open, clear it on close
+  useEffect(() => {
+    const current = new URL(window.location.href);
+    const next = applySearchParams(current, isOpen ? { query, facets } : null);
+    if (next.href !== current.href) {
+      window.history.replaceState(window.history.state, '', next);
+    }
+  }, [isOpen, query, facets]);
+
+  // Load facet options when the filter panel is shown
+  useEffect(() => {
+    if (!isOpen || !showFacets || facetOptions) return;
+    loadSearchIndex(locale)
+      .then(({ facets: options }) => setFacetOptions(options))
+      .catch((error) => console.error('[SearchDialog] Failed to load facet options:', error));
+  }, [isOpen, showFacets, facetOptions, locale]);
+
+  // Track Pagefind query so it survives switching to index search and is reflected in the URL
+  useEffect(() => {
+    if (!isOpen || useIndexSearch) return;
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleInput = (e: Event) => {
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.classList.contains('pagefind-ui__search-input')) {
+        setQuery(target.value);
+      }
+    };
+
+    container.addEventListener('input', handleInput);
+    return () => container.removeEventListener('input', handleInput);
+  }, [isOpen, useIndexSearch]);
+
   // Cmd/Ctrl + K to open
   useKeyboardShortcut({
     key: 'k',
@@ -53,8 +138,11 @@ export default function SearchDialog() {
 
   // Get selectable items (results + load more button)
   const getSelectableItems = useCallback((): HTMLElement[] => {
-    const results = Array.from(document.querySelectorAll('.pagefind-ui__result')) as HTMLElement[];
-    const loadMoreBtn = document.querySelector('.pagefind-ui__button') as HTMLElement | null;
+    // Scope to the dialog so hidden Pagefind results left in the portal are ignored
+    const container = document.getElementById('search-dialog-container');
+    if (!container) return [];
+    const results = Array.from(container.querySelectorAll('.pagefind-ui__result')) as HTMLElement[];
+    const loadMoreBtn = container.querySelector('.pagefind-ui__button') as HTMLElement | null;
     if (loadMoreBtn && loadMoreBtn.offsetParent !== null) {
       return [...results, loadMoreBtn];
     }
@@ -92,7 +180,7 @@ export default function SearchDialog() {
         items[newIndex].setAttribute('data-selected', 'true');
         items[newIndex].scrollIntoView({ block: 'nearest', behavior: 'smooth' });
       } else {
-        const searchInput = document.querySelector('.pagefind-ui__search-input') as HTMLInputElement;
+        const searchInput = document.querySelector('#search-dialog-container .pagefind-ui__search-input') as HTMLInputElement;
         searchInput?.focus();
       }
     },
@@ -166,19 +254,30 @@ export default function SearchDialog() {
     };
   }, [isOpen, clearSelection]);
 
-  // Dispatch events for search component portal
+  // Dispatch events for search component portal (Pagefind mode only)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: query is only read to prefill Pagefind when switching modes
   useEffect(() => {
-    if (isOpen) {
+    if (searchMode === 'pending') return;
+    if (isOpen && !useIndexSearch) {
       window.dispatchEvent(new CustomEvent('search-dialog-open'));
-      // Focus search input after animation
-      setTimeout(() => {
-        const searchInput = document.querySelector('.pagefind-ui__search-input') as HTMLInputElement;
-        searchInput?.focus();
-      }, 150);
     } else {
       window.dispatchEvent(new CustomEvent('search-dialog-close'));
     }
-  }, [isOpen]);
+    if (!isOpen) return;
+
+    // Focus search input after animation
+    const timer = setTimeout(() => {
+      const searchInput = document.querySelector('#search-dialog-container .pagefind-ui__search-input') as HTMLInputElement;
+      if (!searchInput) return;
+      // Carry the query over into Pagefind (shared link or switching back from index search)
+      if (!useIndexSearch && query && searchInput.value !== query) {
+        searchInput.value = query;
+        searchInput.dispatchEvent(new Event('input', { bubbles: true }));
+      }
+      searchInput.focus();
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [isOpen, searchMode, useIndexSearch]);
 
   // Close before page navigation
   useEffect(() => {
@@ -242,13 +341,28 @@ export default function SearchDialog() {
                       <div className="relative mb-4 flex items-center justify-between">
                         <h2 className="flex items-center gap-2 font-semibold text-lg md:text-base">
                           <SearchIcon className="size-5 md:size-4" />
-                          搜索文章
+                          {t('search.title')}
                         </h2>
+                        <button
+                          type="button"
+                          onClick={() => setShowFacets((show) => !show)}
+                          className={cn(
+                            'mr-2 ml-auto flex h-8 items-center gap-1 rounded-full px-3 text-sm transition-colors duration-300 md:h-7 md:text-xs',
+                            showFacets || facetsActive
+                              ? 'bg-primary/20 text-primary'
+                              : 'bg-black/5 hover:bg-black/10 dark:bg-white/10 dark:hover:bg-white/20',
+                          )}
+                          aria-expanded={showFacets}
+                          aria-label={t('search.filter')}
+                        >
+                          <FilterIcon className="size-4" />
+                          {t('search.filter')}
+                        </button>
                         <button
                           type="button"
                           onClick={handleClose}
                           className="flex size-8 items-center justify-center rounded-full bg-black/5 transition-colors duration-300 hover:bg-black/10 md:size-7 dark:bg-white/10 dark:hover:bg-white/20"
-                          aria-label="关闭搜索"
+                          aria-label={t('search.close')}
                         >
                           <CloseIcon className="size-5 md:size-4" />
                         </button>
@@ -257,30 +371,42 @@ export default function SearchDialog() {
                       {/* Empty hint */}
                       <div
                         id="search-empty-hint"
-                        className="search-empty-hint absolute inset-x-0 top-32 text-center text-sm opacity-60 md:top-28"
+                        className={cn(
+                          'search-empty-hint absolute inset-x-0 top-32 text-center text-sm opacity-60 md:top-28',
+                          showFacets && 'hidden',
+                        )}
                       >
-                        <p>输入关键词搜索博客文章</p>
+                        <p>{t('search.emptyHint')}</p>
                         <p className="mt-1 text-xs">
-                          按 <kbd className="rounded bg-black/10 px-1.5 py-0.5 font-mono dark:bg-white/10">ESC</kbd> 关闭
+                          {escHintBefore}
+                          <kbd className="rounded bg-black/10 px-1.5 py-0.5 font-mono dark:bg-white/10">ESC</kbd>
+                          {escHintAfter}
                         </p>
                       </div>
 
                       {/* Search Content Area */}
                       <div className="vertical-scrollbar scroll-feather-mask -mx-6 h-[calc(80dvh-140px)] overflow-auto scroll-smooth px-6 pb-8 after:bottom-10 md:-mx-3 md:h-[calc(80dvh-120px)] md:px-3">
-                        <div id="search-dialog-container" ref={containerRef} />
+                        {showFacets && (
+                          <SearchFacets options={facetOptions} value={facets} onChange={setFacets} locale={locale} />
+                        )}
+                        <div id="search-dialog-container" ref={containerRef}>
+                          {useIndexSearch && (
+                            <SearchFallback query={query} onQueryChange={setQuery} facets={facets} locale={locale} />
+                          )}
+                        </div>
                       </div>
                     </div>
 
                     {/* Keyboard hints */}
                     <div className="absolute inset-x-0 bottom-0 z-10 flex items-center justify-center gap-4 bg-gradient-start px-4 pt-1 pb-4 text-black/50 text-xs dark:border-white/10 dark:text-white/50">
                       <span>
-                        <kbd className="kbd">↑↓</kbd> 选择
+                        <kbd className="kbd">↑↓</kbd> {t('search.keySelect')}
                       </span>
                       <span>
-                        <kbd className="kbd">Enter</kbd> 打开
+                        <kbd className="kbd">Enter</kbd> {t('search.keyOpen')}
                       </span>
                       <span>
-                        <kbd className="kbd">ESC</kbd> 关闭
+                        <kbd className="kbd">ESC</kbd> {t('search.keyClose')}
                       </span>
                     </div>
                   </div>
@@ -297,8 +423,9 @@ export default function SearchDialog() {
 /**
  * Search trigger button component
  */
-export function SearchTrigger({ className }: { className?: string }) {
+export function SearchTrigger({ className, locale }: { className?: string; locale?: string }) {
   const isMounted = useIsMounted();
+  const t = useMemo(() => getTranslator(locale), [locale]);
 
   // Only compute platform-specific shortcut after mount to avoid hydration mismatch
   const title = useMemo(() => {
@@ -306,8 +433,8 @@ export function SearchTrigger({ className }: { className?: string }) {
     // @ts-expect-error - userAgentData is not yet in TypeScript's lib.dom.d.ts
     const platform = navigator.userAgentData?.platform || navigator.userAgent;
     const isMac = /mac/i.test(platform);
-    return `搜索 (${isMac ? '⌘K' : 'Ctrl+K'})`;
-  }, [isMounted]);
+    return t('search.triggerShortcut', { shortcut: isMac ? '⌘K' : 'Ctrl+K' });
+  }, [isMounted, t]);
 
   const handleClick = () => {
     openModal('search');
@@ -318,7 +445,7 @@ export function SearchTrigger({ className }: { className?: string }) {
       type="button"
       onClick={handleClick}
       className={cn('cursor-pointer transition duration-300 hover:scale-110', className)}
-      aria-label="搜索"
+      aria-label={t('search.trigger')}
       title={title}
     >
       <SearchIcon className="size-5" />
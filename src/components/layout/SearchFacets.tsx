@@ -0,0 +1,179 @@
+/**
+ * SearchFacets Component
+ *
+ * Facet chips (category, tag, series) and a year range shown above the
+ * search results in SearchDialog. Options come from search-index.json.
+ */
+
+import { getTranslator } from '@lib/i18n';
+import { EMPTY_FACETS, hasActiveFacets, toggleFacetValue } from '@lib/search/facets';
+import type { SearchFacetOption, SearchFacetOptions, SearchFacetState } from '@lib/search/types';
+import { cn } from '@lib/utils';
+import { useMemo, useState } from 'react';
+
+/** 标签默认展示数量，超出部分折叠 */
+const COLLAPSED_TAG_COUNT = 16;
+
+type FacetKey = 'categories' | 'tags' | 'series';
+
+interface SearchFacetsProps {
+  options: SearchFacetOptions | null;
+  value: SearchFacetState;
+  onChange: (value: SearchFacetState) => void;
+  /** 界面语言，默认为站点默认语言 */
+  locale?: string;
+}
+
+function FacetChip({ option, selected, onClick }: { option: SearchFacetOption; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={cn(
+        'flex shrink-0 items-center rounded-full px-2.5 py-0.5 text-xs transition-colors duration-300',
+        selected ? 'bg-primary text-white' : 'bg-black/5 hover:bg-primary/20 dark:bg-white/10',
+      )}
+    >
+      {option.label}
+      <span className="ml-1 opacity-60">{option.count}</span>
+    </button>
+  );
+}
+
+function FacetRow({
+  label,
+  options,
+  selected,
+  onToggle,
+  footer,
+}: {
+  label: string;
+  options: SearchFacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  footer?: React.ReactNode;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="flex gap-3">
+      <span className="w-8 shrink-0 pt-0.5 text-xs opacity-60">{label}</span>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((option) => (
+          <FacetChip
+            key={option.value}
+            option={option}
+            selected={selected.includes(option.value)}
+            onClick={() => onToggle(option.value)}
+          />
+        ))}
+        {footer}
+      </div>
+    </div>
+  );
+}
+
+function YearSelect({
+  label,
+  years,
+  value,
+  onChange,
+}: {
+  label: string;
+  years: number[];
+  value?: number;
+  onChange: (value?: number) => void;
+}) {
+  return (
+    <select
+      aria-label={label}
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : undefined)}
+      className="rounded-md bg-black/5 px-2 py-0.5 text-xs dark:bg-white/10"
+    >
+      <option value="">{label}</option>
+      {years.map((year) => (
+        <option key={year} value={year}>
+          {year}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function SearchFacets({ options, value, onChange, locale }: SearchFacetsProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const [showAllTags, setShowAllTags] = useState(false);
+
+  if (!options) {
+    return <p className="py-2 text-center text-xs opacity-60">{t('search.facets.loading')}</p>;
+  }
+
+  const toggle = (key: FacetKey) => (facetValue: string) => onChange(toggleFacetValue(value, key, facetValue));
+
+  // 折叠时仍然展示已选中的标签
+  const visibleTags = showAllTags
+    ? options.tags
+    : options.tags.filter((tag, index) => index < COLLAPSED_TAG_COUNT || value.tags.includes(tag.value));
+  const hiddenTagCount = options.tags.length - visibleTags.length;
+
+  return (
+    <div className="mb-4 flex flex-col gap-2 rounded-lg bg-black/3 p-3 dark:bg-white/5">
+      <FacetRow
+        label={t('search.facets.categories')}
+        options={options.categories}
+        selected={value.categories}
+        onToggle={toggle('categories')}
+      />
+      <FacetRow
+        label={t('search.facets.tags')}
+        options={visibleTags}
+        selected={value.tags}
+        onToggle={toggle('tags')}
+        footer={
+          (hiddenTagCount > 0 || showAllTags) && (
+            <button
+              type="button"
+              onClick={() => setShowAllTags((show) => !show)}
+              className="px-1.5 text-primary text-xs hover:underline"
+            >
+              {showAllTags ? t('search.facets.lessTags') : t('search.facets.moreTags', { count: hiddenTagCount })}
+            </button>
+          )
+        }
+      />
+      <FacetRow
+        label={t('search.facets.series')}
+        options={options.series}
+        selected={value.series}
+        onToggle={toggle('series')}
+      />
+      {options.years.length > 0 && (
+        <div className="flex items-center gap-3">
+          <span className="w-8 shrink-0 text-xs opacity-60">{t('search.facets.years')}</span>
+          <div className="flex items-center gap-1.5">
+            <YearSelect
+              label={t('search.facets.yearFrom')}
+              years={options.years}
+              value={value.yearFrom}
+              onChange={(yearFrom) => onChange({ ...value, yearFrom })}
+            />
+            <span className="text-xs opacity-60">—</span>
+            <YearSelect
+              label={t('search.facets.yearTo')}
+              years={options.years}
+              value={value.yearTo}
+              onChange={(yearTo) => onChange({ ...value, yearTo })}
+            />
+          </div>
+        </div>
+      )}
+      {hasActiveFacets(value) && (
+        <button type="button" onClick={() => onChange(EMPTY_FACETS)} className="self-end text-primary text-xs hover:underline">
+          {t('search.facets.clear')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * SearchFallback Component
+ *
+ * Client-side search UI backed by the locale's search-index.json, rendered inside
+ * SearchDialog when Pagefind is unavailable or facet filters are active.
+ * Reuses Pagefind's class names so the dialog's keyboard navigation and
+ * pagefind.css styles apply as-is.
+ */
+
+import { getTranslator } from '@lib/i18n';
+import { loadSearchIndex } from '@lib/search/client';
+import { createSearchEngine, type SearchEngine } from '@lib/search/engine';
+import { hasActiveFacets, matchesFacets } from '@lib/search/facets';
+import type { SearchFacetState, SearchIndexEntry, SearchResult } from '@lib/search/types';
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+
+const PAGE_SIZE = 10;
+
+interface SearchFallbackProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  facets: SearchFacetState;
+  /** 界面语言，默认为站点默认语言 */
+  locale?: string;
+}
+
+function ResultItem({ result }: { result: SearchResult }) {
+  const { entry, excerpt } = result;
+
+  return (
+    <li className="pagefind-ui__result">
+      <div className="pagefind-ui__result-inner">
+        <p className="pagefind-ui__result-title font-semibold">
+          <a className="pagefind-ui__result-link" href={entry.url}>
+            {entry.title}
+          </a>
+        </p>
+        <p className="pagefind-ui__result-excerpt mt-1 text-sm opacity-80">
+          {excerpt.map((segment, index) =>
+            // biome-ignore lint/suspicious/noArrayIndexKey: excerpt segments are static per render
+            segment.match ? <mark key={index}>{segment.text}</mark> : <span key={index}>{segment.text}</span>,
+          )}
+        </p>
+      </div>
+    </li>
+  );
+}
+
+export default function SearchFallback({ query, onQueryChange, facets, locale }: SearchFallbackProps) {
+  const t = useMemo(() => getTranslator(locale), [locale]);
+  const [engine, setEngine] = useState<SearchEngine | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then(({ engine: loaded }) => {
+        if (!cancelled) setEngine(loaded);
+      })
+      .catch((error) => {
+        console.error('[SearchFallback] Failed to load search index:', error);
+        if (!cancelled) {
+          setLoadError(true);
+          setEngine(createSearchEngine([]));
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  // 查询或筛选条件变化时重置分页
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reset only when the query or facets change
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [deferredQuery, facets]);
+
+  const facetsActive = hasActiveFacets(facets);
+
+  const results = useMemo(() => {
+    if (!engine) return null;
+    const filter = facetsActive ? (entry: SearchIndexEntry) => matchesFacets(entry, facets) : undefined;
+    if (deferredQuery.trim()) return engine.search(deferredQuery, { filter });
+    // 无关键词但有筛选条件时，按日期列出符合条件的文章
+    return facetsActive ? engine.list({ filter }) : null;
+  }, [engine, deferredQuery, facets, facetsActive]);
+
+  const hasQuery = query.trim().length > 0;
+
+  let message = '';
+  if (loadError) message = t('search.loadError');
+  else if ((hasQuery || facetsActive) && !results) message = hasQuery ? t('search.searching', { query }) : t('search.loading');
+  else if (results) message = results.length === 0 ? t('search.noResults') : t('search.resultCount', { count: results.length });
+
+  return (
+    <div className="pagefind-ui">
+      <form className="pagefind-ui__form relative" onSubmit={(e) => e.preventDefault()}>
+        <input
+          className="pagefind-ui__search-input border border-(--pagefind-ui-border) bg-(--pagefind-ui-background)"
+          type="text"
+          placeholder={t('search.placeholder')}
+          aria-label={t('search.label')}
+          autoComplete="off"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+        />
+        {hasQuery && (
+          <button type="button" className="pagefind-ui__search-clear !mt-0 absolute right-0" onClick={() => onQueryChange('')}>
+            {t('search.clear')}
+          </button>
+        )}
+      </form>
+
+      {message && (
+        <div className="pagefind-ui__drawer mt-4">
+          <p className="pagefind-ui__message flex text-sm opacity-80">{message}</p>
+          {results && results.length > 0 && (
+            <ol className="pagefind-ui__results mt-2">
+              {results.slice(0, visibleCount).map((result) => (
+                <ResultItem key={result.entry.slug} result={result} />
+              ))}
+            </ol>
+          )}
+          {results && results.length > visibleCount && (
+            <button
+              type="button"
+              className="pagefind-ui__button w-full rounded-lg bg-accent py-2 text-sm transition-colors duration-300"
+              onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+            >
+              {t('search.loadMore')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
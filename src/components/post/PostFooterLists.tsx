@@ -1,3 +1,5 @@
+import { Routes } from '@constants/router';
+import { routeBuilder } from '@lib/route';
 import { cn, shuffleArray } from '@lib/utils';
 import { useMemo } from 'react';
 import type { RandomPostItem } from './RandomPostList';
@@ -43,7 +45,7 @@ export default function PostFooterLists({ allPosts, relatedPosts, leftCount, rig
           {leftPosts.map((post, index) => (
             <a
               key={post.slug}
-              href={`/post/${encodeURIComponent(post.link ?? post.slug)}`}
+              href={routeBuilder(Routes.Post, post)}
               className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
             >
               <span className="shrink-0 font-mono text-foreground/30">{index + 1}</span>
@@ -64,7 +66,7 @@ export default function PostFooterLists({ allPosts, relatedPosts, leftCount, rig
             {rightPosts.map((post, index) => (
               <a
                 key={post.slug}
-                href={`/post/${encodeURIComponent(post.link ?? post.slug)}`}
+                href={routeBuilder(Routes.Post, post)}
                 className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
               >
                 <span className="shrink-0 font-mono text-foreground/30">{index + (hasRelatedPosts ? 1 : leftCount + 1)}</span>
@@ -1,3 +1,5 @@
+import { Routes } from '@constants/router';
+import { routeBuilder } from '@lib/route';
 import { shuffleArray } from '@lib/utils';
 import { useMemo } from 'react';
 
@@ -5,6 +7,7 @@ export interface RandomPostItem {
   slug: string;
   link?: string;
   title: string;
+  lang?: string;
   categoryName?: string;
 }
 
@@ -28,7 +31,7 @@ export default function RandomPostList({ postsPool, count }: Props) {
         {posts.map((post, index) => (
           <a
             key={post.slug}
-            href={`/post/${encodeURIComponent(post.link ?? post.slug)}`}
+            href={routeBuilder(Routes.Post, post)}
             className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
           >
             <span className="shrink-0 font-mono text-foreground/30">{index + 1}</span>
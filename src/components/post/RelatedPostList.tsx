@@ -1,3 +1,5 @@
+import { Routes } from '@constants/router';
+import { routeBuilder } from '@lib/route';
 import { useMemo } from 'react';
 import { cn, shuffleArray } from '@/lib/utils';
 import type { RandomPostItem } from './RandomPostList';
@@ -34,7 +36,7 @@ export default function RelatedPostList({ posts, fallbackPool, fallbackCount, st
         {displayPosts.map((post, index) => (
           <a
             key={post.slug}
-            href={`/post/${encodeURIComponent(post.link ?? post.slug)}`}
+            href={routeBuilder(Routes.Post, post)}
             className="group flex gap-3 rounded-md p-2 text-sm transition-colors duration-300 hover:bg-foreground/5 hover:text-primary"
           >
             <span className="shrink-0 font-mono text-foreground/30">{index + (hasRelatedPosts ? 1 : startIndex)}</span>
@@ -2,6 +2,7 @@
  * SeriesNavigation - 系列文章上一篇/下一篇导航
  */
 import { Routes } from '@constants/router';
+import { getTranslator } from '@lib/i18n';
 import { routeBuilder } from '@lib/route';
 import { cn } from '@lib/utils';
 import { RiArrowDownSLine, RiArrowLeftSLine, RiArrowRightSLine, RiArrowUpSLine } from 'react-icons/ri';
@@ -11,13 +12,16 @@ interface SeriesNavigationProps {
   prevPost?: BlogPost | null;
   nextPost?: BlogPost | null;
   className?: string;
+  /** 界面语言，默认为站点默认语言 */
+  locale?: string;
 }
 
-export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNavigationProps) {
+export function SeriesNavigation({ prevPost, nextPost, className, locale }: SeriesNavigationProps) {
   if (!prevPost && !nextPost) {
     return null;
   }
 
+  const t = getTranslator(locale);
   const scrollBehavior: ScrollBehavior = 'smooth';
 
   return (
@@ -72,12 +76,12 @@ export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNaviga
             'flex items-center justify-center gap-1.5 rounded-md px-3 py-1.5 transition-colors',
             'text-muted-foreground text-xs hover:bg-accent hover:text-primary',
           )}
-          title="回到顶部"
-          aria-label="回到顶部"
+          title={t('series.backToTop')}
+          aria-label={t('series.backToTop')}
           suppressHydrationWarning
         >
           <RiArrowUpSLine className="h-4 w-4" />
-          回到顶部
+          {t('series.backToTop')}
         </button>
         <button
           type="button"
@@ -86,12 +90,12 @@ export function SeriesNavigation({ prevPost, nextPost, className }: SeriesNaviga
             'flex items-center justify-center gap-1.5 rounded-md px-3 py-1.5 transition-colors',
             'text-muted-foreground text-xs hover:bg-accent hover:text-primary',
           )}
-          title="滚到底部"
-          aria-label="滚到底部"
+          title={t('series.scrollToBottom')}
+          aria-label={t('series.scrollToBottom')}
           suppressHydrationWarning
         >
           <RiArrowDownSLine className="h-4 w-4" />
-          滚到底部
+          {t('series.scrollToBottom')}
         </button>
       </div>
     </div>
@@ -6,6 +6,7 @@ interface TagData {
   tag: string;
   count: number;
   colorIndex: number;
+  locale?: string;
 }
 
 interface CollapsibleTagsProps {
@@ -1,4 +1,5 @@
 import { buildTagPath } from '@lib/content/tags';
+import { getTranslator } from '@lib/i18n';
 
 const TAG_COLORS = [
   'from-blue-400/10 to-indigo-300/10 hover:from-blue-400/80 hover:to-indigo-300/80 text-blue-400/70 hover:text-blue-50',
@@ -11,13 +12,14 @@ interface TagItemProps {
   tag: string;
   count: number;
   colorIndex: number;
+  locale?: string;
 }
 
-export function TagItem({ tag, count, colorIndex }: TagItemProps) {
+export function TagItem({ tag, count, colorIndex, locale }: TagItemProps) {
   return (
     <a
-      href={buildTagPath(tag)}
-      aria-label={`查看标签「${tag}」的 ${count} 篇文章`}
+      href={buildTagPath(tag, locale)}
+      aria-label={getTranslator(locale)('tags.itemLabel', { tag, count })}
       className={`relative flex items-center rounded-lg bg-linear-to-r px-3 py-1.5 text-sm transition-all duration-300 hover:-translate-y-0.5 hover:shadow-lg ${TAG_COLORS[colorIndex]}`}
     >
       <span className="font-medium">{tag}</span>
@@ -14,6 +14,8 @@ export enum Routes {
   Friends = '/friends',
   Post = '/post',
   Archives = '/archives',
+  Artist = '/artist',
+  Stats = '/stats',
 }
 
 // Reserved routes that cannot be used as series slugs
@@ -27,11 +29,16 @@ export const RESERVED_ROUTES = new Set([
   'post',
   'posts',
   'archives',
+  'artist',
+  'stats',
   '404',
   // Special files
   'rss.xml',
   'sitemap.xml',
   'robots.txt',
+  'search-index.json',
+  'schedule.json',
+  'stale-posts.json',
   'favicon.ico',
   // Astro internals (prevent potential conflicts)
   '_astro',
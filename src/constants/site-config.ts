@@ -1,6 +1,6 @@
 // Import YAML config directly - processed by @rollup/plugin-yaml
 
-import type { ArtistInfo, CommentConfig, DevConfig, FeaturedSeriesItem } from '@lib/config/types';
+import type { ArtistInfo, CommentConfig, DevConfig, FeaturedSeriesItem, I18nConfig, LocaleConfig } from '@lib/config/types';
 import { DEFAULT_TIMEZONE, isValidTimezone } from '@lib/timezone';
 import artistsYaml from '../../config/artists.yaml';
 import yamlConfig from '../../config/site.yaml';
@@ -61,6 +61,10 @@ function isFeaturedSeriesItem(value: unknown): value is FeaturedSeriesItem {
     return false;
   }
 
+  if (item.total !== undefined && (!Number.isInteger(item.total) || (item.total as number) < 1)) {
+    return false;
+  }
+
   return true;
 }
 
@@ -301,6 +305,70 @@ export const enabledSeriesSlugs = new Set(
   siteConfig.featuredSeries.filter((series) => series.enabled !== false).map((series) => series.slug.toLowerCase()),
 );
 
+// =============================================================================
+// Internationalization
+// =============================================================================
+
+/** Locale with resolved URL prefix ('' for the default locale) */
+export type ResolvedLocale = LocaleConfig & { path: string };
+
+/**
+ * Normalize i18n config
+ * Without an `i18n` section the site is single-language (zh-CN)
+ * Validates locale codes and URL prefixes at build time
+ */
+function normalizeI18nConfig(config?: I18nConfig): { defaultLocale: string; locales: ResolvedLocale[] } {
+  const defaultLocale = config?.defaultLocale ?? 'zh-CN';
+  const items = config?.locales?.length ? config.locales : [{ code: defaultLocale, label: defaultLocale }];
+
+  if (!items.some((item) => item.code === defaultLocale)) {
+    throw new Error(
+      `i18n configuration error: defaultLocale "${defaultLocale}" is not listed in locales. ` +
+        `Configured locales are: ${items.map((item) => item.code).join(', ')}.`,
+    );
+  }
+
+  const codeSet = new Set<string>();
+  const pathSet = new Set<string>();
+  const locales: ResolvedLocale[] = [];
+
+  for (const item of items) {
+    if (codeSet.has(item.code)) {
+      throw new Error(`i18n configuration error: Duplicate locale code "${item.code}".`);
+    }
+    codeSet.add(item.code);
+
+    if (item.code === defaultLocale) {
+      locales.push({ ...item, path: '' });
+      continue;
+    }
+
+    const path = (item.path ?? item.code).trim().toLowerCase();
+    if (!/^[a-z0-9-_]+$/.test(path)) {
+      throw new Error(
+        `i18n configuration error: Invalid path "${path}" for locale "${item.code}". ` +
+          `Paths must contain only alphanumeric characters, hyphens, and underscores.`,
+      );
+    }
+    if (isReservedSlug(path) || configuredSeriesSlugs.has(path)) {
+      throw new Error(
+        `i18n configuration error: Path "${path}" for locale "${item.code}" conflicts with a reserved route or series slug. ` +
+          `Please choose a different path.`,
+      );
+    }
+    if (pathSet.has(path)) {
+      throw new Error(`i18n configuration error: Duplicate path "${path}". Each locale must have a unique path.`);
+    }
+    pathSet.add(path);
+    locales.push({ ...item, path });
+  }
+
+  return { defaultLocale, locales };
+}
+
+/** Normalized i18n config, the default locale comes with an empty path */
+export const i18nConfig = normalizeI18nConfig(yamlConfig.i18n);
+
 // =============================================================================
 // Artists Configuration
 // =============================================================================
@@ -1,5 +1,7 @@
 import { defineCollection, z } from 'astro:content';
+import { artistsConfig, getArtistById } from '@constants/site-config';
 import { parseDateInSiteTimezone, reinterpretUtcAsTimezone } from '@lib/date';
+import { isSupportedLocale, locales } from '@lib/i18n';
 import type { BlogSchema, BlogSchemaInput } from 'types/blog';
 
 /**
@@ -24,6 +26,13 @@ const dateInSiteTimezone = z
     return parseDateInSiteTimezone(val);
   });
 
+/**
+ * Artist ID that must exist in config/artists.yaml
+ */
+const artistId = z.string().refine((id) => getArtistById(id) !== null, {
+  message: `artist must be one of the ids in config/artists.yaml: ${artistsConfig.map((artist) => artist.id).join(', ')}`,
+});
+
 const blogCollection = defineCollection({
   schema: z.object({
     title: z.string(),
@@ -46,8 +55,21 @@ const blogCollection = defineCollection({
     tocNumbering: z.boolean().optional().default(true),
     // 排除 AI 摘要生成
     excludeFromSummary: z.boolean().optional(),
-    // 画师 ID，关联 config/artists.yaml
-    artist: z.string().optional(),
+    // 画师 ID，关联 config/artists.yaml，多位画师可写成数组
+    artist: artistId.or(z.array(artistId)).optional(),
+    // 文章语言，需在 config/site.yaml 的 i18n.locales 中配置，缺省为默认语言
+    lang: z
+      .string()
+      .refine(isSupportedLocale, {
+        message: `lang must be one of: ${locales.map((locale) => locale.code).join(', ')}`,
+      })
+      .optional(),
+    // 翻译分组，相同 translationKey 的文章互为翻译
+    translationKey: z.string().optional(),
+    // 过期时间，之后文章顶部显示内容已过期的提示
+    expires: dateInSiteTimezone.optional(),
+    // 距最后更新（updated 或 date）超过该天数后显示内容可能过时的提示
+    outdatedAfterDays: z.number().int().positive().optional(),
   }) satisfies z.ZodType<BlogSchema, z.ZodTypeDef, BlogSchemaInput>,
 });
 
@@ -0,0 +1,68 @@
+/**
+ * Build-time archive data generation
+ *
+ * Server-only: imports astro:content through the content utilities.
+ */
+
+import { Routes } from '@constants/router';
+import { getAllTags, getCategoryArr } from '@lib/content';
+import { displayDate } from '@lib/date';
+import { localizeCategoryName } from '@lib/i18n';
+import { routeBuilder } from '@lib/route';
+import { getSiteStats } from '@lib/stats';
+import type { BlogPost } from 'types/blog';
+import type { ArchiveData, ArchivePost, ArchiveYearStats } from './types';
+
+function toArchivePost(post: BlogPost): ArchivePost {
+  return {
+    slug: post.data.link ?? post.slug,
+    url: routeBuilder(Routes.Post, post),
+    title: post.data.title,
+    day: displayDate.date(post.data.date),
+    categories: getCategoryArr(post.data.categories?.[0]),
+    tags: Object.keys(getAllTags([post])),
+  };
+}
+
+/**
+ * 构建归档页数据：文章列表、按年统计以及分类和标签筛选项
+ * @param posts 已排序的文章（getSortedPosts）
+ * @param locale 页面语言，用于分类名称
+ */
+export async function buildArchiveData(posts: BlogPost[], locale?: string): Promise<ArchiveData> {
+  const archivePosts = posts.map(toArchivePost);
+
+  const postsByYear = new Map<number, BlogPost[]>();
+  archivePosts.forEach((item, index) => {
+    const year = Number(item.day.slice(0, 4));
+    postsByYear.set(year, [...(postsByYear.get(year) ?? []), posts[index]]);
+  });
+
+  const years: ArchiveYearStats[] = await Promise.all(
+    Array.from(postsByYear.keys())
+      .sort((a, b) => b - a)
+      .map(async (year) => {
+        const stats = await getSiteStats(postsByYear.get(year));
+        return { year, postCount: stats.postCount, totalWords: stats.totalWords, formattedWords: stats.formattedWords };
+      }),
+  );
+
+  // 分类按文章数排序，父分类和子分类都可以筛选
+  const categoryCounts = new Map<string, number>();
+  for (const item of archivePosts) {
+    for (const name of item.categories) {
+      categoryCounts.set(name, (categoryCounts.get(name) ?? 0) + 1);
+    }
+  }
+  const categories = Array.from(categoryCounts, ([name, count]) => ({
+    value: name,
+    label: localizeCategoryName(name, locale),
+    count,
+  })).sort((a, b) => b.count - a.count);
+
+  const tags = Object.entries(getAllTags(posts))
+    .map(([tag, count]) => ({ value: tag, label: tag, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return { posts: archivePosts, years, categories, tags };
+}
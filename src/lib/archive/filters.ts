@@ -0,0 +1,90 @@
+/**
+ * Archive filter utilities
+ *
+ * Matching archive posts against the selected categories, tags and heatmap
+ * day, and syncing the filters to URL query parameters so a filtered
+ * archive can be shared.
+ */
+
+import { normalizeTag } from '@lib/content/tags';
+import type { ArchiveFilterState, ArchivePost } from './types';
+
+/** URL 查询参数名 */
+const ArchiveParams = {
+  CATEGORY: 'category',
+  TAG: 'tag',
+  DAY: 'day',
+} as const;
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMPTY_ARCHIVE_FILTERS: ArchiveFilterState = {
+  categories: [],
+  tags: [],
+};
+
+/**
+ * 是否选中了任意筛选条件
+ */
+export function hasActiveArchiveFilters(filters: ArchiveFilterState): boolean {
+  return filters.categories.length > 0 || filters.tags.length > 0 || filters.day !== undefined;
+}
+
+/**
+ * 判断文章是否满足筛选条件
+ * 分类和标签分别为"任一匹配"，不同维度之间为"同时满足"
+ */
+export function matchesArchiveFilters(post: ArchivePost, filters: ArchiveFilterState): boolean {
+  const { categories, tags, day } = filters;
+
+  if (categories.length && !categories.some((name) => post.categories.includes(name))) return false;
+  if (tags.length && !tags.some((tag) => post.tags.includes(normalizeTag(tag)))) return false;
+  if (day !== undefined && post.day !== day) return false;
+
+  return true;
+}
+
+/**
+ * 切换分类或标签（已选中则移除，否则添加）
+ */
+export function toggleArchiveFilter(
+  filters: ArchiveFilterState,
+  key: 'categories' | 'tags',
+  value: string,
+): ArchiveFilterState {
+  const values = filters[key];
+  return {
+    ...filters,
+    [key]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+  };
+}
+
+/**
+ * 从 URL 查询参数中读取筛选条件
+ * @example ?category=笔记&tag=astro&day=2025-01-03
+ */
+export function parseArchiveParams(params: URLSearchParams): ArchiveFilterState {
+  const day = params.get(ArchiveParams.DAY);
+  return {
+    categories: params.getAll(ArchiveParams.CATEGORY),
+    tags: params.getAll(ArchiveParams.TAG).map(normalizeTag),
+    day: day && DAY_PATTERN.test(day) ? day : undefined,
+  };
+}
+
+/**
+ * 将筛选条件写入 URL 查询参数
+ * @returns 新的 URL，不修改传入的对象
+ */
+export function applyArchiveParams(url: URL, filters: ArchiveFilterState): URL {
+  const next = new URL(url);
+  for (const key of Object.values(ArchiveParams)) {
+    next.searchParams.delete(key);
+  }
+
+  for (const name of filters.categories) next.searchParams.append(ArchiveParams.CATEGORY, name);
+  for (const tag of filters.tags) next.searchParams.append(ArchiveParams.TAG, tag);
+  if (filters.day) next.searchParams.set(ArchiveParams.DAY, filters.day);
+
+  return next;
+}
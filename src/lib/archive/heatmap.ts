@@ -0,0 +1,85 @@
+/**
+ * Archive heatmap utilities
+ *
+ * Lays out one year of posting activity as a GitHub-style grid: one column
+ * per week, one row per weekday (Sunday first). Dates are plain yyyy-MM-dd
+ * strings in the site timezone, so all calculations here use UTC.
+ */
+
+/** 热力图颜色等级数（0 为没有文章） */
+export const HEATMAP_LEVELS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface HeatmapCell {
+  /** yyyy-MM-dd */
+  day: string;
+  count: number;
+  /** 0 ~ HEATMAP_LEVELS - 1 */
+  level: number;
+}
+
+export interface HeatmapYear {
+  /** 每周 7 格，年初和年末不属于该年的格子为 null */
+  weeks: (HeatmapCell | null)[][];
+  /** 月份标签所在的周（该周包含当月 1 日） */
+  months: { week: number; month: number }[];
+  total: number;
+}
+
+/**
+ * 文章数对应的颜色等级，博客文章较少，按篇数直接分级
+ */
+function toLevel(count: number): number {
+  return Math.min(count, HEATMAP_LEVELS - 1);
+}
+
+/**
+ * 统计每天的文章数
+ */
+export function countByDay(days: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const day of days) {
+    counts.set(day, (counts.get(day) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * 生成指定年份的热力图网格
+ * @param year 年份
+ * @param counts 每天的文章数（countByDay）
+ */
+export function buildHeatmapYear(year: number, counts: Map<string, number>): HeatmapYear {
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const weeks: (HeatmapCell | null)[][] = [];
+  const months: HeatmapYear['months'] = [];
+  let total = 0;
+
+  // 第一周用 null 补齐到周日
+  let week: (HeatmapCell | null)[] = Array(new Date(start).getUTCDay()).fill(null);
+
+  for (let time = start; time < end; time += DAY_MS) {
+    const date = new Date(time);
+    if (date.getUTCDate() === 1) {
+      months.push({ week: weeks.length, month: date.getUTCMonth() + 1 });
+    }
+
+    const day = date.toISOString().slice(0, 10);
+    const count = counts.get(day) ?? 0;
+    total += count;
+    week.push({ day, count, level: toLevel(count) });
+
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+
+  if (week.length > 0) {
+    weeks.push([...week, ...Array(7 - week.length).fill(null)]);
+  }
+
+  return { weeks, months, total };
+}
@@ -0,0 +1,56 @@
+/**
+ * Archive page type definitions
+ *
+ * Shared between the build-time archive data (archives.astro) and the
+ * client-side ArchiveTimeline island.
+ */
+
+import type { SearchFacetOption } from '@lib/search/types';
+
+/**
+ * 归档中的单篇文章
+ */
+export interface ArchivePost {
+  /** 文章 slug（post.data.link ?? post.slug） */
+  slug: string;
+  url: string;
+  title: string;
+  /** 发布日期（站点时区），如 2025-01-03 */
+  day: string;
+  /** 分类路径，如 ['笔记', '前端'] */
+  categories: string[];
+  /** 小写标签 */
+  tags: string[];
+}
+
+/**
+ * 单个年份的统计（来自 getSiteStats）
+ */
+export interface ArchiveYearStats {
+  year: number;
+  postCount: number;
+  totalWords: number;
+  formattedWords: string;
+}
+
+/**
+ * 归档页数据
+ */
+export interface ArchiveData {
+  /** 按日期倒序 */
+  posts: ArchivePost[];
+  /** 按年份倒序 */
+  years: ArchiveYearStats[];
+  categories: SearchFacetOption[];
+  tags: SearchFacetOption[];
+}
+
+/**
+ * 当前选中的筛选条件
+ */
+export interface ArchiveFilterState {
+  categories: string[];
+  tags: string[];
+  /** 热力图中选中的日期 */
+  day?: string;
+}
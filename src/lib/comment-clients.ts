@@ -0,0 +1,113 @@
+/**
+ * Comment client loaders
+ * Twikoo and Artalk are not bundled: their browser clients are loaded on demand,
+ * Twikoo from a CDN and Artalk from its own server (/dist/Artalk.js).
+ * Shared by the comment providers and the comment count API.
+ */
+
+import { commentConfig } from '@constants/site-config';
+
+/** Twikoo 客户端默认地址，可通过 comment.twikoo.cdn 覆盖 */
+export const DEFAULT_TWIKOO_CDN = 'https://cdn.jsdelivr.net/npm/twikoo@1/dist/twikoo.all.min.js';
+
+interface TwikooOptions {
+  envId: string;
+  region?: string;
+  lang?: string;
+}
+
+export interface TwikooClient {
+  init: (options: TwikooOptions & { el: string | HTMLElement; path?: string }) => Promise<void>;
+  getCommentsCount: (
+    options: TwikooOptions & { urls: string[]; includeReply?: boolean },
+  ) => Promise<{ url: string; count: number }[]>;
+}
+
+export interface ArtalkInstance {
+  setDarkMode: (dark: boolean) => void;
+  update: (options: { pageKey?: string; pageTitle?: string }) => void;
+  reload: () => void;
+  destroy: () => void;
+}
+
+export interface ArtalkClient {
+  init: (options: {
+    el: HTMLElement;
+    server: string;
+    site: string;
+    pageKey?: string;
+    pageTitle?: string;
+    darkMode?: boolean | 'auto';
+    locale?: string;
+  }) => ArtalkInstance;
+}
+
+declare global {
+  interface Window {
+    twikoo?: TwikooClient;
+    Artalk?: ArtalkClient;
+  }
+}
+
+const scriptPromises = new Map<string, Promise<void>>();
+
+/**
+ * 加载外部脚本，同一地址只加载一次
+ */
+function loadScript(src: string): Promise<void> {
+  let promise = scriptPromises.get(src);
+  if (!promise) {
+    promise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        scriptPromises.delete(src);
+        script.remove();
+        reject(new Error(`Failed to load script: ${src}`));
+      };
+      document.head.appendChild(script);
+    });
+    scriptPromises.set(src, promise);
+  }
+  return promise;
+}
+
+/**
+ * 加载外部样式表，同一地址只加载一次
+ */
+function loadStylesheet(href: string): void {
+  if (document.querySelector(`link[rel="stylesheet"][href="${href}"]`)) return;
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = href;
+  document.head.appendChild(link);
+}
+
+/**
+ * 加载 Twikoo 客户端
+ */
+export async function loadTwikoo(): Promise<TwikooClient> {
+  await loadScript(commentConfig.twikoo?.cdn ?? DEFAULT_TWIKOO_CDN);
+  if (!window.twikoo) throw new Error('Twikoo client is not available');
+  return window.twikoo;
+}
+
+/**
+ * Artalk 服务端地址，去掉末尾斜杠（服务端可能部署在子路径下，不能只保留 origin）
+ */
+export function getArtalkServer(): string {
+  return (commentConfig.artalk?.server ?? '').replace(/\/+$/, '');
+}
+
+/**
+ * 从 Artalk 服务端加载客户端脚本和样式
+ */
+export async function loadArtalk(): Promise<ArtalkClient> {
+  const server = getArtalkServer();
+  loadStylesheet(`${server}/dist/Artalk.css`);
+  await loadScript(`${server}/dist/Artalk.js`);
+  if (!window.Artalk) throw new Error('Artalk client is not available');
+  return window.Artalk;
+}
@@ -0,0 +1,162 @@
+/**
+ * Comment count API
+ * Fetches comment counts of pages from the configured comment provider,
+ * used by post cards to show how many comments a post has.
+ */
+
+import { commentConfig } from '@constants/site-config';
+import { getArtalkServer, loadTwikoo } from '@lib/comment-clients';
+import type { CommentProvider } from '@lib/config/types';
+import { normalizeUrl } from '@lib/utils';
+
+/** 按页面 pathname 批量获取评论数，返回与 paths 同序的数组，无法获取的页面为 undefined */
+type CommentCountFetcher = (paths: string[]) => Promise<(number | undefined)[]>;
+
+/**
+ * Remark42: POST /api/v1/counts，以完整页面 URL 作为 key
+ */
+const fetchRemark42Counts: CommentCountFetcher = async (paths) => {
+  const config = commentConfig.remark42;
+  if (!config?.host) return [];
+
+  const urls = paths.map((path) => `${window.location.origin}${path}`);
+  const response = await fetch(`${normalizeUrl(config.host)}/api/v1/counts?site=${encodeURIComponent(config.siteId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(urls),
+  });
+  if (!response.ok) throw new Error(`Remark42 counts request failed: ${response.status}`);
+
+  const data: { url: string; count: number }[] = await response.json();
+  const counts = new Map(data.map((item) => [item.url, item.count]));
+  return urls.map((url) => counts.get(url) ?? 0);
+};
+
+/**
+ * Waline: GET /api/comment?type=count，多个 path 用逗号分隔
+ */
+const fetchWalineCounts: CommentCountFetcher = async (paths) => {
+  const config = commentConfig.waline;
+  if (!config?.serverURL || config.comment === false) return [];
+
+  const url = `${normalizeUrl(config.serverURL)}/api/comment?type=count&url=${encodeURIComponent(paths.join(','))}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Waline counts request failed: ${response.status}`);
+
+  const { errno, errmsg, data }: { errno: number; errmsg: string; data: number | number[] } = await response.json();
+  if (errno !== 0) throw new Error(`Waline counts request failed: ${errmsg}`);
+  return Array.isArray(data) ? data : [data];
+};
+
+/**
+ * 与 giscus 客户端生成 term 的规则一致
+ */
+function getGiscusTerm(path: string, mapping: 'pathname' | 'url'): string {
+  if (mapping === 'url') return `${window.location.origin}${path}`;
+  return path.length < 2 ? 'index' : path.slice(1).replace(/\.\w+$/, '');
+}
+
+/**
+ * Giscus: 每个页面请求一次 /api/discussions，仅支持 pathname 和 url 映射
+ * 没有对应 Discussion 的页面返回 404，视为 0 条评论
+ */
+const fetchGiscusCounts: CommentCountFetcher = async (paths) => {
+  const config = commentConfig.giscus;
+  const mapping = config?.mapping ?? 'pathname';
+  if (!config?.repo || (mapping !== 'pathname' && mapping !== 'url')) return [];
+
+  const host = normalizeUrl(config.host ?? 'https://giscus.app');
+
+  return Promise.all(
+    paths.map(async (path) => {
+      const term = getGiscusTerm(path, mapping);
+      const params = new URLSearchParams({ repo: config.repo, term, number: '0', strict: config.strict ?? '0', first: '1' });
+      if (config.category) params.set('category', config.category);
+
+      const response = await fetch(`${host}/api/discussions?${params}`);
+      if (response.status === 404) return 0;
+      if (!response.ok) return undefined;
+
+      const { discussion }: { discussion: { totalCommentCount: number; totalReplyCount: number } } = await response.json();
+      return discussion.totalCommentCount + discussion.totalReplyCount;
+    }),
+  );
+};
+
+/**
+ * Twikoo: 通过客户端 SDK 的 getCommentsCount 获取，包含回复数
+ */
+const fetchTwikooCounts: CommentCountFetcher = async (paths) => {
+  const config = commentConfig.twikoo;
+  if (!config?.envId) return [];
+
+  const twikoo = await loadTwikoo();
+  const data = await twikoo.getCommentsCount({
+    envId: config.envId,
+    region: config.region,
+    urls: paths,
+    includeReply: true,
+  });
+  const counts = new Map(data.map((item) => [item.url, item.count]));
+  return paths.map((path) => counts.get(path) ?? 0);
+};
+
+/**
+ * Artalk: GET /api/v2/stats/page_comment，以 pathname 作为 page key
+ */
+const fetchArtalkCounts: CommentCountFetcher = async (paths) => {
+  const config = commentConfig.artalk;
+  if (!config?.server || !config.site) return [];
+
+  const params = new URLSearchParams({ site_name: config.site, page_keys: paths.join(',') });
+  const response = await fetch(`${getArtalkServer()}/api/v2/stats/page_comment?${params}`);
+  if (!response.ok) throw new Error(`Artalk counts request failed: ${response.status}`);
+
+  const { data }: { data: Record<string, number> } = await response.json();
+  return paths.map((path) => data[path] ?? 0);
+};
+
+const fetchers: Partial<Record<CommentProvider, CommentCountFetcher>> = {
+  remark42: fetchRemark42Counts,
+  waline: fetchWalineCounts,
+  giscus: fetchGiscusCounts,
+  twikoo: fetchTwikooCounts,
+  artalk: fetchArtalkCounts,
+};
+
+/** 已获取的评论数，View Transitions 切换页面时复用 */
+const countCache = new Map<string, number>();
+
+/**
+ * 当前评论系统是否支持获取评论数
+ */
+export function isCommentCountEnabled(): boolean {
+  const provider = commentConfig.provider ?? 'none';
+  return commentConfig.showCount !== false && provider in fetchers;
+}
+
+/**
+ * 批量获取页面评论数
+ * @param paths 页面 pathname，如 ['/post/hello']
+ * @returns pathname -> 评论数，获取失败的页面不包含在结果中
+ */
+export async function fetchCommentCounts(paths: string[]): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  const fetcher = fetchers[commentConfig.provider ?? 'none'];
+  if (!fetcher || !isCommentCountEnabled()) return result;
+
+  const missing = [...new Set(paths)].filter((path) => !countCache.has(path));
+  if (missing.length > 0) {
+    const counts = await fetcher(missing);
+    missing.forEach((path, index) => {
+      const count = counts[index];
+      if (typeof count === 'number') countCache.set(path, count);
+    });
+  }
+
+  for (const path of paths) {
+    const count = countCache.get(path);
+    if (count !== undefined) result.set(path, count);
+  }
+  return result;
+}
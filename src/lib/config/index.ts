@@ -17,6 +17,8 @@ export type {
   FriendLink,
   FriendsConfig,
   FriendsIntro,
+  I18nConfig,
+  LocaleConfig,
   RouterItem,
   SiteBasicConfig,
   SiteYamlConfig,
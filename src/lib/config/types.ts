@@ -27,6 +27,27 @@ export interface SiteBasicConfig {
   timezone?: string;
 }
 
+// =============================================================================
+// Internationalization
+// =============================================================================
+
+export interface LocaleConfig {
+  /** 语言代码 (BCP 47)，对应文章 frontmatter 的 `lang` 字段，如 'zh-CN'、'en' */
+  code: string;
+  /** 语言名称，用于语言切换 */
+  label: string;
+  /** URL 前缀 @default code.toLowerCase()，默认语言不使用前缀 */
+  path?: string;
+  /** 分类名称翻译，键为 categoryMap 中的分类名 */
+  categoryNames?: Record<string, string>;
+}
+
+export interface I18nConfig {
+  /** 默认语言代码，未设置 lang 的文章视为默认语言 */
+  defaultLocale: string;
+  locales: LocaleConfig[];
+}
+
 // =============================================================================
 // Featured Content
 // =============================================================================
@@ -71,6 +92,8 @@ export interface FeaturedSeriesItem {
   icon?: string;
   /** Whether to highlight latest post on home page */
   highlightOnHome?: boolean;
+  /** Planned number of posts, shown as completion on the /stats page */
+  total?: number;
   /** Related links */
   links?: FeaturedSeriesLinks;
 }
@@ -195,11 +218,12 @@ export interface RouterItem {
 // Comment Configuration
 // =============================================================================
 
-export type CommentProvider = 'remark42' | 'giscus' | 'waline' | 'none';
+export type CommentProvider = 'remark42' | 'giscus' | 'waline' | 'twikoo' | 'artalk' | 'none';
 
 export interface Remark42Config {
   host: string;
   siteId: string;
+  locale?: string; // UI language, e.g. 'zh' | 'en' (default: 'en')
 }
 
 export type GiscusBooleanString = '0' | '1';
@@ -403,11 +427,64 @@ export interface WalineConfig {
   locale?: Record<string, string>;
 }
 
+export interface TwikooConfig {
+  /**
+   * 腾讯云环境 ID，或私有部署的 Twikoo 服务端地址 (必填)
+   * Tencent CloudBase env id, or the URL of a self-hosted Twikoo server (required)
+   */
+  envId: string;
+
+  /**
+   * 腾讯云环境地域，如 'ap-guangzhou'
+   * CloudBase region, only needed for Tencent CloudBase
+   * @default 'ap-shanghai'
+   */
+  region?: string;
+
+  /**
+   * 显示语言
+   * Display language
+   * @default 'zh-CN'
+   */
+  lang?: string;
+
+  /**
+   * Twikoo 客户端脚本地址
+   * Twikoo client script URL
+   * @default 'https://cdn.jsdelivr.net/npm/twikoo@1/dist/twikoo.all.min.js'
+   */
+  cdn?: string;
+}
+
+export interface ArtalkConfig {
+  /**
+   * Artalk 服务端地址 (必填)，客户端脚本和样式也从这里加载
+   * Artalk server address (required), the client is loaded from it as well
+   */
+  server: string;
+
+  /**
+   * 站点名称 (必填)，需与 Artalk 后台中的站点一致
+   * Site name configured in the Artalk dashboard (required)
+   */
+  site: string;
+
+  /**
+   * 显示语言，如 'zh-CN' | 'en' | 'auto'
+   * Display language
+   * @default 'zh-CN'
+   */
+  locale?: string;
+}
+
 export interface CommentConfig {
   provider?: CommentProvider;
+  showCount?: boolean; // Show comment counts on post cards (default: true)
   remark42?: Remark42Config;
   giscus?: GiscusConfig;
   waline?: WalineConfig;
+  twikoo?: TwikooConfig;
+  artalk?: ArtalkConfig;
 }
 
 // =============================================================================
@@ -490,6 +567,20 @@ export interface DevEditorConfig {
   urlTemplate: string;
 }
 
+/**
+ * Where the CMS stores images pasted or dropped into the editor
+ */
+export interface DevUploadConfig {
+  /** 'public': under publicDir, 'post': next to the post file (default: 'public') */
+  target?: 'public' | 'post';
+  /** Directory inside public/, {slug} is the post path without extension (default: 'public/img/{slug}') */
+  publicDir?: string;
+  /** Convert PNG/JPEG uploads to WebP (default: true) */
+  webp?: boolean;
+  /** WebP quality 1-100 (default: 80) */
+  quality?: number;
+}
+
 /**
  * Development tools configuration from site.yaml
  */
@@ -500,6 +591,8 @@ export interface DevConfig {
   contentRelativePath: string;
   /** List of configured editors */
   editors: DevEditorConfig[];
+  /** CMS image upload settings */
+  upload?: DevUploadConfig;
 }
 
 // =============================================================================
@@ -524,7 +617,10 @@ export interface SiteYamlConfig {
   analytics?: AnalyticsConfig;
   /** SEO configuration for robots.txt and meta tags */
   seo?: SeoConfig;
-  categoryMap?: Record<string, string>; // TODO: i18n, now use eg: { '随笔': 'life' }
+  /** 分类名到 URL slug 的映射，所有语言共用，eg: { '随笔': 'life' }；显示名称的翻译见 i18n.locales[].categoryNames */
+  categoryMap?: Record<string, string>;
+  /** Multi-language configuration */
+  i18n?: I18nConfig;
   christmas?: ChristmasConfig;
   /** Development tools configuration (dev only) */
   dev?: DevConfig;
@@ -5,6 +5,21 @@
  * This maintains backward compatibility while organizing code better.
  */
 
+// =============================================================================
+// Types
+// =============================================================================
+export type { ArtistComic, ArtistWithPosts } from './content/artists';
+// =============================================================================
+// Artist Utilities
+// =============================================================================
+export {
+  buildArtistPath,
+  getArtistComics,
+  getArtistList,
+  getPostArtistIds,
+  getPostsByArtist,
+  getPostsSharingArtists,
+} from './content/artists';
 // =============================================================================
 // Category Utilities
 // =============================================================================
@@ -18,7 +33,11 @@ export {
   getCategoryNameByLink,
   getParentCategory,
 } from './content/categories';
-
+// =============================================================================
+// Freshness Utilities
+// =============================================================================
+export type { PostFreshness, PostFreshnessStatus, StalePost } from './content/freshness';
+export { getPostFreshness, getStalePosts } from './content/freshness';
 // =============================================================================
 // Post Utilities
 // =============================================================================
@@ -47,20 +66,17 @@ export {
   getPostsByCategory,
   getPostsBySeriesSlug,
   getPostsBySticky,
+  getPostTranslations,
   getRandomPosts,
+  getScheduledPosts,
   getSeriesBySlug,
   getSeriesPosts,
   getSortedPosts,
   /** @deprecated Use getPostsBySeriesSlug('weekly') instead */
   getWeeklyPosts,
 } from './content/posts';
-
 // =============================================================================
 // Tag Utilities
 // =============================================================================
 export { buildTagPath, getAllTags, normalizeTag, tagToSlug } from './content/tags';
-
-// =============================================================================
-// Types
-// =============================================================================
 export type { Category, CategoryListResult } from './content/types';
@@ -0,0 +1,141 @@
+/**
+ * Artist-related utility functions
+ *
+ * Artists are configured in config/artists.yaml and referenced from
+ * post frontmatter via `artist: <id>` (or a list of ids), and from
+ * ::comic{} directives via `artist="<id>,<id>"`.
+ */
+
+import { Routes } from '@constants/router';
+import { artistsConfig, getArtistById } from '@constants/site-config';
+import type { ArtistInfo } from '@lib/config/types';
+import { type ComicDirectiveInfo, extractComicDirectives } from '@lib/markdown/remark-comic';
+import type { BlogPost } from 'types/blog';
+import { getSortedPosts } from './posts';
+
+/** 画师及其关联文章 */
+export interface ArtistWithPosts extends ArtistInfo {
+  posts: BlogPost[];
+}
+
+/** 漫画及其所在文章 */
+export interface ArtistComic extends ComicDirectiveInfo {
+  post: BlogPost;
+}
+
+/**
+ * Build artist profile URL path
+ * @param id Artist ID
+ * @returns URL path like "/artist/mankaikaika"
+ */
+export const buildArtistPath = (id: string) => `${Routes.Artist}/${encodeURIComponent(id)}`;
+
+/** 文章中解析出的漫画，按文章对象缓存，避免重复解析 Markdown */
+const postComicsCache = new WeakMap<BlogPost, ComicDirectiveInfo[]>();
+
+/**
+ * 获取文章中的 ::comic{} 漫画，未配置的画师 ID 会被忽略并给出警告
+ */
+function getPostComics(post: BlogPost): ComicDirectiveInfo[] {
+  const cached = postComicsCache.get(post);
+  if (cached) return cached;
+
+  const comics = extractComicDirectives(post.body).map((comic) => {
+    if (!comic.artists) return comic;
+    const unknown = comic.artists.filter((id) => !getArtistById(id));
+    if (!unknown.length) return comic;
+    console.warn(`[artists] Unknown artist id(s) in ::comic{id="${comic.id}"} of ${post.id}: ${unknown.join(', ')}`);
+    const artists = comic.artists.filter((id) => !unknown.includes(id));
+    return { ...comic, artists: artists.length ? artists : undefined };
+  });
+
+  postComicsCache.set(post, comics);
+  return comics;
+}
+
+/**
+ * 获取文章 frontmatter 中的画师 ID 列表
+ */
+function getFrontmatterArtistIds(post: BlogPost): string[] {
+  const { artist } = post.data;
+  if (!artist) return [];
+  return Array.isArray(artist) ? artist : [artist];
+}
+
+/**
+ * 获取文章关联的画师 ID 列表：frontmatter 中的画师在前，其后是漫画 artist 属性中的画师
+ */
+export function getPostArtistIds(post: BlogPost): string[] {
+  const ids = new Set(getFrontmatterArtistIds(post));
+  for (const comic of getPostComics(post)) {
+    comic.artists?.forEach((id) => {
+      ids.add(id);
+    });
+  }
+  return [...ids];
+}
+
+/**
+ * 获取关联某位画师的所有文章（默认语言，按日期倒序）
+ * @param id 画师 ID
+ */
+export async function getPostsByArtist(id: string): Promise<BlogPost[]> {
+  const posts = await getSortedPosts();
+  return posts.filter((post) => getPostArtistIds(post).includes(id));
+}
+
+/**
+ * 获取 artists.yaml 中的全部画师及其文章，保持配置文件中的顺序
+ */
+export async function getArtistList(): Promise<ArtistWithPosts[]> {
+  const posts = await getSortedPosts();
+  return artistsConfig.map((artist) => ({
+    ...artist,
+    posts: posts.filter((post) => getPostArtistIds(post).includes(artist.id)),
+  }));
+}
+
+/**
+ * 收集某位画师的漫画，按 id 去重
+ * 带 artist 属性的漫画按属性归属，未标注的漫画归属于文章 frontmatter 中的画师
+ * @param id 画师 ID
+ * @param posts 画师的文章列表
+ */
+export function getArtistComics(id: string, posts: BlogPost[]): ArtistComic[] {
+  const seen = new Set<string>();
+  const comics: ArtistComic[] = [];
+
+  for (const post of posts) {
+    const postArtistIds = getFrontmatterArtistIds(post);
+    for (const comic of getPostComics(post)) {
+      const artistIds = comic.artists ?? postArtistIds;
+      if (!artistIds.includes(id) || seen.has(comic.id)) continue;
+      seen.add(comic.id);
+      comics.push({ ...comic, post });
+    }
+  }
+
+  return comics;
+}
+
+/**
+ * 获取与当前文章有共同画师的文章，共同画师越多越靠前，其次按日期倒序
+ * @param post 当前文章
+ * @param posts 候选文章（已按日期排序）
+ * @param count 最多返回的数量
+ */
+export function getPostsSharingArtists(post: BlogPost, posts: BlogPost[], count: number = 5): BlogPost[] {
+  const artistIds = getPostArtistIds(post);
+  if (!artistIds.length) return [];
+
+  return posts
+    .filter((item) => item.id !== post.id)
+    .map((item) => ({
+      item,
+      shared: getPostArtistIds(item).filter((id) => artistIds.includes(id)).length,
+    }))
+    .filter(({ shared }) => shared > 0)
+    .sort((a, b) => b.shared - a.shared)
+    .slice(0, count)
+    .map(({ item }) => item);
+}
@@ -2,19 +2,18 @@
  * Category-related utility functions
  */
 
-import { getCollection } from 'astro:content';
 import { categoryMap } from '@constants/category';
+import { localizePath } from '@lib/i18n';
 import { encodeSlug } from '../route';
+import { getSortedPosts } from './posts';
 import type { Category, CategoryListResult } from './types';
 
 /**
  * Get hierarchical category list with counts (excluding drafts in production)
+ * @param locale Only count posts in this locale, defaults to the site default locale
  */
-export async function getCategoryList(): Promise<CategoryListResult> {
-  const allBlogPosts = await getCollection('blog', ({ data }) => {
-    // 在生产环境中，过滤掉草稿
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
+export async function getCategoryList(locale?: string): Promise<CategoryListResult> {
+  const allBlogPosts = await getSortedPosts(locale);
   const countMap: { [key: string]: number } = {}; // TODO: 需要优化，应该以分类路径为键名而不是 name 如数据结构既是根分类也是笔记-后端-数据结构。
   const resCategories: Category[] = [];
 
@@ -167,16 +166,17 @@ export function getParentCategory(category: Category | null, categories: Categor
 /**
  * Build category path from category names
  * @param categoryNames Array of category names or single category name
+ * @param locale Locale of the page, non-default locales get a prefix like "/en"
  * @returns Category path like "/categories/note/front-end"
  */
-export function buildCategoryPath(categoryNames: string | string[]): string {
+export function buildCategoryPath(categoryNames: string | string[], locale?: string): string {
   if (!categoryNames) return '';
 
   const names = Array.isArray(categoryNames) ? categoryNames : [categoryNames];
   if (names.length === 0) return '';
 
   const slugs = names.map((name) => encodeSlug(categoryMap[name]));
-  return `/categories/${slugs.join('/')}`;
+  return localizePath(`/categories/${slugs.join('/')}`, locale);
 }
 
 /**
@@ -0,0 +1,68 @@
+/**
+ * Post freshness utilities
+ *
+ * Posts can opt into outdated notices through frontmatter:
+ * - `expires`: the content no longer applies after this date
+ * - `outdatedAfterDays`: the content may be stale once this many days have
+ *   passed since `updated` (or `date` when never updated)
+ *
+ * Everything is evaluated against the build time, like scheduled posts.
+ */
+
+import { locales } from '@lib/i18n';
+import { BUILD_TIME } from '@lib/schedule';
+import type { BlogPost } from 'types/blog';
+import { getSortedPosts } from './posts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 文章时效状态 */
+export type PostFreshnessStatus = 'expired' | 'outdated';
+
+export interface PostFreshness {
+  status: PostFreshnessStatus;
+  /** 最后更新时间（updated，没有时为 date） */
+  lastUpdated: Date;
+  /** 距最后更新的天数 */
+  daysSinceUpdate: number;
+  /** 过期时间，仅 status 为 expired 时存在 */
+  expires?: Date;
+}
+
+/** 时效检查结果及对应文章，用于构建报告 */
+export interface StalePost extends PostFreshness {
+  post: BlogPost;
+}
+
+/**
+ * 检查文章是否已过期或过时
+ * @param post 文章
+ * @param now 比较的时间，默认为构建时间
+ * @returns 未设置相关字段或仍在有效期内时返回 null；同时满足时 expired 优先
+ */
+export function getPostFreshness(post: BlogPost, now: Date = BUILD_TIME): PostFreshness | null {
+  const { expires, outdatedAfterDays, updated, date } = post.data;
+  const lastUpdated = updated ?? date;
+  const daysSinceUpdate = Math.floor((now.getTime() - lastUpdated.getTime()) / DAY_MS);
+
+  if (expires && expires.getTime() <= now.getTime()) {
+    return { status: 'expired', lastUpdated, daysSinceUpdate, expires };
+  }
+  if (outdatedAfterDays !== undefined && daysSinceUpdate > outdatedAfterDays) {
+    return { status: 'outdated', lastUpdated, daysSinceUpdate };
+  }
+  return null;
+}
+
+/**
+ * 获取所有语言中已过期或过时的文章，按距最后更新的天数降序排列
+ */
+export async function getStalePosts(now: Date = BUILD_TIME): Promise<StalePost[]> {
+  const posts = (await Promise.all(locales.map(({ code }) => getSortedPosts(code)))).flat();
+  const stale: StalePost[] = [];
+  for (const post of posts) {
+    const freshness = getPostFreshness(post, now);
+    if (freshness) stale.push({ ...freshness, post });
+  }
+  return stale.sort((a, b) => b.daysSinceUpdate - a.daysSinceUpdate);
+}
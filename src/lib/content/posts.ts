@@ -7,6 +7,8 @@ import { type CollectionEntry, getCollection } from 'astro:content';
 import summaries from '@assets/summaries.json';
 import { siteConfig } from '@constants/site-config';
 import type { FeaturedSeriesItem } from '@lib/config/types';
+import { defaultLocale, getPostLocale } from '@lib/i18n';
+import { isScheduled } from '@lib/schedule';
 import type { BlogPost } from 'types/blog';
 import { extractTextFromMarkdown } from '../sanitize';
 import { buildCategoryPath } from './categories';
@@ -63,14 +65,31 @@ export function getPostDescriptionWithSummary(post: BlogPost, maxLength: number
 }
 
 /**
- * Get all posts sorted by date (newest first)
- * In production, draft posts are filtered out
+ * Get all published posts in every locale (drafts and scheduled posts excluded in production)
  */
-export async function getSortedPosts(): Promise<CollectionEntry<'blog'>[]> {
-  const posts = await getCollection('blog', ({ data }) => {
-    // 在生产环境中，过滤掉草稿
-    return import.meta.env.PROD ? data.draft !== true : true;
+async function getPublishedPosts(): Promise<CollectionEntry<'blog'>[]> {
+  return await getCollection('blog', ({ data }) => {
+    // 在生产环境中，过滤掉草稿和日期晚于构建时间的定时文章
+    return import.meta.env.PROD ? data.draft !== true && !isScheduled(data.date) : true;
   });
+}
+
+/**
+ * Get scheduled posts in every locale: not drafts, dated after the build time
+ * Sorted by date (earliest first)
+ */
+export async function getScheduledPosts(): Promise<CollectionEntry<'blog'>[]> {
+  const posts = await getCollection('blog', ({ data }) => data.draft !== true && isScheduled(data.date));
+  return posts.sort((a, b) => a.data.date.getTime() - b.data.date.getTime());
+}
+
+/**
+ * Get all posts sorted by date (newest first)
+ * In production, draft and scheduled posts are filtered out
+ * @param locale Only include posts in this locale, defaults to the site default locale
+ */
+export async function getSortedPosts(locale: string = defaultLocale): Promise<CollectionEntry<'blog'>[]> {
+  const posts = (await getPublishedPosts()).filter((post) => getPostLocale(post) === locale);
 
   // 按日期排序
   const sortedPosts = posts.sort((a: BlogPost, b: BlogPost) => {
@@ -80,6 +99,19 @@ export async function getSortedPosts(): Promise<CollectionEntry<'blog'>[]> {
   return sortedPosts;
 }
 
+/**
+ * 获取文章的其他语言版本（相同 translationKey）
+ * @param post 当前文章
+ * @returns 其他语言的文章列表，未设置 translationKey 时为空
+ */
+export async function getPostTranslations(post: BlogPost): Promise<BlogPost[]> {
+  const { translationKey } = post.data;
+  if (!translationKey) return [];
+
+  const posts = await getPublishedPosts();
+  return posts.filter((item) => item.data.translationKey === translationKey && item.id !== post.id);
+}
+
 /**
  * Get posts separated by sticky status
  * @returns Object containing sticky and non-sticky posts, both sorted by date (newest first)
@@ -106,22 +138,21 @@ export async function getPostsBySticky(): Promise<{
 
 /**
  * Get post count (excluding drafts in production)
+ * @param locale 语言，默认为站点默认语言
  */
-export async function getPostCount() {
-  const posts = await getCollection('blog', ({ data }) => {
-    // 在生产环境中，过滤掉草稿
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
+export async function getPostCount(locale: string = defaultLocale) {
+  const posts = await getSortedPosts(locale);
   return posts?.length ?? 0;
 }
 
 /**
  * 获取分类下的所有文章
  * @param categoryName 分类名
+ * @param locale 语言，默认为站点默认语言
  * @returns 文章列表
  */
-export async function getPostsByCategory(categoryName: string): Promise<BlogPost[]> {
-  const posts = await getSortedPosts();
+export async function getPostsByCategory(categoryName: string, locale: string = defaultLocale): Promise<BlogPost[]> {
+  const posts = await getSortedPosts(locale);
   return posts.filter((post) => {
     const { categories } = post.data;
     if (!categories?.length) return false;
@@ -150,12 +181,12 @@ export function getPostLastCategory(post: BlogPost): { link: string; name: strin
   if (Array.isArray(firstCategory)) {
     if (!firstCategory.length) return { link: '', name: '' };
     return {
-      link: buildCategoryPath(firstCategory),
+      link: buildCategoryPath(firstCategory, getPostLocale(post)),
       name: firstCategory[firstCategory.length - 1],
     };
   } else if (typeof firstCategory === 'string') {
     return {
-      link: buildCategoryPath(firstCategory),
+      link: buildCategoryPath(firstCategory, getPostLocale(post)),
       name: firstCategory,
     };
   }
@@ -196,7 +227,7 @@ export async function getSeriesPosts(post: BlogPost): Promise<BlogPost[]> {
   const lastCategory = getPostLastCategory(post);
   if (!lastCategory.name) return [];
 
-  return await getPostsByCategory(lastCategory.name);
+  return await getPostsByCategory(lastCategory.name, getPostLocale(post));
 }
 
 /**
@@ -2,6 +2,7 @@
  * Tag-related utility functions
  */
 
+import { localizePath } from '@lib/i18n';
 import type { BlogPost } from 'types/blog';
 import { encodeSlug } from '../route';
 
@@ -19,9 +20,10 @@ export const tagToSlug = (tag: string) => encodeSlug(normalizeTag(tag).replace(/
 /**
  * Build tag URL path, eg. C# -> /tags/c%23
  * @param tag Tag name
+ * @param locale Locale of the page, non-default locales get a prefix like "/en"
  * @returns URL path like "/tags/c%23"
  */
-export const buildTagPath = (tag: string) => `/tags/${tagToSlug(tag)}`;
+export const buildTagPath = (tag: string, locale?: string) => localizePath(`/tags/${tagToSlug(tag)}`, locale);
 
 /**
  * Get all tags with their counts (case-insensitive)
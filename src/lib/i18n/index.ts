@@ -0,0 +1,127 @@
+/**
+ * i18n utilities
+ *
+ * Locale resolution, locale-prefixed URLs and UI string lookup.
+ * The default locale is served without a prefix (/post/foo), other
+ * locales under their configured path (/en/post/foo).
+ * Safe to import from client components.
+ */
+
+import { i18nConfig, type ResolvedLocale } from '@constants/site-config';
+import type { BlogPost } from 'types/blog';
+import { en } from './ui/en';
+import { type UIStringKey, zhCN } from './ui/zh-CN';
+
+export type { UIStringKey } from './ui/zh-CN';
+
+/** 默认语言代码 */
+export const defaultLocale = i18nConfig.defaultLocale;
+
+/** 所有语言（默认语言在 path 为空） */
+export const locales: ResolvedLocale[] = i18nConfig.locales;
+
+/** UI 文案表，按语言代码或主语言（如 en-US → en）查找 */
+const catalogs: Record<string, Partial<Record<UIStringKey, string>>> = {
+  'zh-CN': zhCN,
+  en,
+};
+
+/**
+ * 获取语言配置，未配置的语言返回默认语言
+ */
+export function getLocaleConfig(locale?: string): ResolvedLocale {
+  return (
+    locales.find((item) => item.code === locale) ?? (locales.find((item) => item.code === defaultLocale) as ResolvedLocale)
+  );
+}
+
+/**
+ * 是否为已配置的语言代码
+ */
+export function isSupportedLocale(locale: string): boolean {
+  return locales.some((item) => item.code === locale);
+}
+
+/**
+ * 获取文章语言，未设置 lang 的文章视为默认语言
+ */
+export function getPostLocale(post: Pick<BlogPost, 'data'>): string {
+  return post.data.lang ?? defaultLocale;
+}
+
+/**
+ * 为路径添加语言前缀，默认语言不添加
+ * 首页暂无多语言版本，始终返回 '/'
+ * @example localizePath('/tags', 'en') // '/en/tags'
+ * @example localizePath('/', 'en') // '/'
+ */
+export function localizePath(path: string, locale?: string): string {
+  const prefix = getLocaleConfig(locale).path;
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+  if (!prefix || normalized === '/') return normalized;
+  return `/${prefix}${normalized}`;
+}
+
+/**
+ * 根据 pathname 判断当前页面语言
+ * @example getLocaleFromPath('/en/post/hello') // 'en'
+ */
+export function getLocaleFromPath(pathname: string): string {
+  const segment = pathname.split('/').find(Boolean)?.toLowerCase();
+  if (!segment) return defaultLocale;
+  return locales.find((item) => item.path && item.path === segment)?.code ?? defaultLocale;
+}
+
+/**
+ * 去掉 pathname 中的语言前缀
+ * @example stripLocalePrefix('/en/post/hello') // '/post/hello'
+ */
+export function stripLocalePrefix(pathname: string): string {
+  const prefix = getLocaleConfig(getLocaleFromPath(pathname)).path;
+  if (!prefix) return pathname;
+  return pathname.replace(new RegExp(`^/${prefix}(?=/|$)`, 'i'), '') || '/';
+}
+
+/**
+ * 用于 `[...locale]` 动态路由的 getStaticPaths 参数
+ * 默认语言的 locale 参数为 undefined，即不带前缀
+ */
+export function getLocaleStaticParams(): { params: { locale: string | undefined }; locale: string }[] {
+  return locales.map((item) => ({
+    params: { locale: item.path || undefined },
+    locale: item.code,
+  }));
+}
+
+/**
+ * 分类显示名称（i18n.locales[].categoryNames），未翻译时返回原名
+ */
+export function localizeCategoryName(name: string, locale?: string): string {
+  return getLocaleConfig(locale).categoryNames?.[name] ?? name;
+}
+
+function interpolate(template: string, params?: Record<string, string | number>): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+}
+
+/**
+ * 获取指定语言的文案函数，缺失的文案回退到 zh-CN
+ * @example
+ * const t = getTranslator('en');
+ * t('tags.total', { count: 12 }); // '12 tags'
+ */
+export function getTranslator(locale?: string) {
+  const code = getLocaleConfig(locale).code;
+  const catalog = catalogs[code] ?? catalogs[code.split('-')[0]] ?? {};
+
+  return (key: UIStringKey, params?: Record<string, string | number>): string => interpolate(catalog[key] ?? zhCN[key], params);
+}
+
+/**
+ * 同一页面在所有语言下的地址，用于 hreflang
+ * @param path 不带语言前缀的路径，如 '/tags'
+ */
+export function getLocaleAlternates(path: string): { locale: string; href: string }[] {
+  return locales.map((item) => ({ locale: item.code, href: localizePath(path, item.code) }));
+}
@@ -0,0 +1,116 @@
+/**
+ * English UI strings
+ */
+
+import type { UIStringKey } from './zh-CN';
+
+export const en: Partial<Record<UIStringKey, string>> = {
+  'breadcrumb.home': 'Home',
+  'breadcrumb.backTo': 'Back to {name}',
+  'breadcrumb.toCategory': 'Go to category {name}',
+
+  'paginator.prev': 'Previous page',
+  'paginator.next': 'Next page',
+  'paginator.page': 'Page {page}',
+  'paginator.current': 'Page {page}, current page',
+
+  'series.backToTop': 'Back to top',
+  'series.scrollToBottom': 'Scroll to bottom',
+
+  'search.title': 'Search Posts',
+  'search.trigger': 'Search',
+  'search.triggerShortcut': 'Search ({shortcut})',
+  'search.filter': 'Filter',
+  'search.close': 'Close search',
+  'search.emptyHint': 'Type keywords to search the blog',
+  'search.escHint': 'Press {key} to close',
+  'search.keySelect': 'Select',
+  'search.keyOpen': 'Open',
+  'search.keyClose': 'Close',
+  'search.facets.loading': 'Loading filters...',
+  'search.facets.categories': 'Category',
+  'search.facets.tags': 'Tags',
+  'search.facets.series': 'Series',
+  'search.facets.years': 'Year',
+  'search.facets.yearFrom': 'From',
+  'search.facets.yearTo': 'To',
+  'search.facets.moreTags': 'More ({count})',
+  'search.facets.lessTags': 'Less',
+  'search.facets.clear': 'Clear filters',
+  'search.label': 'Search this site',
+  'search.placeholder': 'Type to search',
+  'search.clear': 'Clear',
+  'search.searching': 'Searching for {query}...',
+  'search.loading': 'Loading...',
+  'search.loadError': 'Failed to load the search index',
+  'search.noResults': 'No results found',
+  'search.resultCount': '{count} results',
+  'search.loadMore': 'Load more results',
+
+  'post.translations': 'Also available in',
+  'post.outdated.title': 'This post may be outdated',
+  'post.outdated.body': 'Last updated {days} days ago ({date}). Some information may no longer be accurate.',
+  'post.expired.title': 'This post has expired',
+  'post.expired.body': 'This post expired on {date} and is kept for reference only.',
+
+  'tags.title': 'Tags',
+  'tags.allTitle': 'All Tags',
+  'tags.description': 'All post tags',
+  'tags.total': '{count} tags',
+  'tags.all': 'All',
+  'tags.pageTitle': 'Tag: {tag}',
+  'tags.pageDescription': 'All posts tagged {tag}',
+  'tags.postCount': '({count} posts)',
+  'tags.itemLabel': 'View {count} posts tagged {tag}',
+
+  'categories.allTitle': 'All Categories',
+  'categories.total': '{count} categories',
+  'categories.pageTitle': 'Category - {name}',
+  'categories.suffix': '',
+
+  'archives.title': 'Archives',
+  'archives.description': 'Post archives',
+  'archives.total': '{count} posts',
+  'archives.yearCount': '{count} posts',
+  'archives.yearWords': '{words} words',
+  'archives.monthCount': '{count}',
+  'archives.filtered': '{count} matching posts',
+  'archives.empty': 'No posts match the selected filters',
+  'archives.filterCategories': 'Category',
+  'archives.filterTags': 'Tags',
+  'archives.moreTags': 'More ({count})',
+  'archives.lessTags': 'Less',
+  'archives.clearFilters': 'Clear filters',
+  'archives.heatmapTotal': '{count} posts in {year}',
+  'archives.heatmapDay': '{day}: {count} posts',
+  'archives.heatmapLess': 'Less',
+  'archives.heatmapMore': 'More',
+
+  'friends.apply': 'Apply for a Link',
+  'friends.site': 'Site Name',
+  'friends.sitePlaceholder': 'My Blog',
+  'friends.owner': 'Nickname',
+  'friends.ownerPlaceholder': 'Your nickname',
+  'friends.url': 'Site URL',
+  'friends.desc': 'Description',
+  'friends.descPlaceholder': 'One line about your site...',
+  'friends.image': 'Avatar URL',
+  'friends.color': 'Theme Color',
+  'friends.preview': 'Preview',
+  'friends.copy': 'Copy',
+  'friends.copied': 'Copied!',
+  'friends.notice': 'Note: comments are not open yet, link requests are not accepted for now.',
+
+  'comicHistory.title': 'Continue Reading',
+  'comicHistory.export': 'Export reading history',
+  'comicHistory.import': 'Import reading history',
+  'comicHistory.imported': 'Imported {count} reading records',
+  'comicHistory.importUpToDate': 'Reading history is already up to date',
+  'comicHistory.importFailed': 'Import failed: {error}',
+  'comicHistory.unknownError': 'Unknown error',
+  'comicHistory.empty': 'No unfinished comics yet',
+  'comicHistory.continue': 'Continue reading: {name}',
+  'comicHistory.progress': 'Page {page} of {total}',
+  'comicHistory.remove': 'Remove from reading history: {name}',
+  'comicHistory.viewPost': 'View post: {name}',
+};
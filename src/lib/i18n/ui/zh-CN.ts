@@ -0,0 +1,129 @@
+/**
+ * 简体中文 UI 文案（默认语言，其他语言缺失的键回退到这里）
+ */
+
+export const zhCN = {
+  // 面包屑
+  'breadcrumb.home': '首页',
+  'breadcrumb.backTo': '返回{name}',
+  'breadcrumb.toCategory': '前往{name}分类',
+
+  // 分页
+  'paginator.prev': '上一页',
+  'paginator.next': '下一页',
+  'paginator.page': '第 {page} 页',
+  'paginator.current': '第 {page} 页，当前页',
+
+  // 系列导航
+  'series.backToTop': '回到顶部',
+  'series.scrollToBottom': '滚到底部',
+
+  // 搜索
+  'search.title': '搜索文章',
+  'search.trigger': '搜索',
+  'search.triggerShortcut': '搜索 ({shortcut})',
+  'search.filter': '筛选',
+  'search.close': '关闭搜索',
+  'search.emptyHint': '输入关键词搜索博客文章',
+  'search.escHint': '按 {key} 关闭',
+  'search.keySelect': '选择',
+  'search.keyOpen': '打开',
+  'search.keyClose': '关闭',
+  'search.facets.loading': '加载筛选项...',
+  'search.facets.categories': '分类',
+  'search.facets.tags': '标签',
+  'search.facets.series': '系列',
+  'search.facets.years': '年份',
+  'search.facets.yearFrom': '起始',
+  'search.facets.yearTo': '结束',
+  'search.facets.moreTags': '更多 ({count})',
+  'search.facets.lessTags': '收起',
+  'search.facets.clear': '清除筛选',
+  'search.label': '搜索本站',
+  'search.placeholder': '请输入关键词搜索',
+  'search.clear': '清空',
+  'search.searching': '搜索 {query}...',
+  'search.loading': '加载中...',
+  'search.loadError': '搜索索引加载失败',
+  'search.noResults': '没有找到结果',
+  'search.resultCount': '{count} 个结果',
+  'search.loadMore': '加载更多结果',
+
+  // 文章
+  'post.translations': '其他语言',
+  'post.outdated.title': '内容可能已过时',
+  'post.outdated.body': '本文最后更新于 {days} 天前（{date}），其中的信息可能已经不再准确。',
+  'post.expired.title': '内容已过期',
+  'post.expired.body': '本文内容已于 {date} 过期，仅供参考。',
+
+  // 标签
+  'tags.title': '标签',
+  'tags.allTitle': '全部标签',
+  'tags.description': '所有文章标签',
+  'tags.total': '共 {count} 个标签',
+  'tags.all': '全部',
+  'tags.pageTitle': '标签:{tag}',
+  'tags.pageDescription': '标签 {tag} 下的所有文章',
+  'tags.postCount': '({count} 篇文章)',
+  'tags.itemLabel': '查看标签「{tag}」的 {count} 篇文章',
+
+  // 分类
+  'categories.allTitle': '全部分类',
+  'categories.total': '共 {count} 个分类',
+  'categories.pageTitle': '分类 - {name}',
+  'categories.suffix': '分类',
+
+  // 归档
+  'archives.title': '归档',
+  'archives.description': '文章归档',
+  'archives.total': '共 {count} 篇文章',
+  'archives.yearCount': '{count} 篇文章',
+  'archives.yearWords': '{words} 字',
+  'archives.monthCount': '{count} 篇',
+  'archives.filtered': '筛选出 {count} 篇文章',
+  'archives.empty': '没有符合条件的文章',
+  'archives.filterCategories': '分类',
+  'archives.filterTags': '标签',
+  'archives.moreTags': '更多 ({count})',
+  'archives.lessTags': '收起',
+  'archives.clearFilters': '清除筛选',
+  'archives.heatmapTotal': '{year} 年发布了 {count} 篇文章',
+  'archives.heatmapDay': '{day}：{count} 篇文章',
+  'archives.heatmapLess': '少',
+  'archives.heatmapMore': '多',
+
+  // 友链申请
+  'friends.apply': '申请友链',
+  'friends.site': '站点名称',
+  'friends.sitePlaceholder': '我的博客',
+  'friends.owner': '昵称',
+  'friends.ownerPlaceholder': '您的昵称',
+  'friends.url': '站点链接',
+  'friends.desc': '站点描述',
+  'friends.descPlaceholder': '一句话描述...',
+  'friends.image': '头像链接',
+  'friends.color': '主题色',
+  'friends.preview': '配置预览',
+  'friends.copy': '复制配置',
+  'friends.copied': '已复制!',
+  'friends.notice': '提示: 评论系统暂未开放，概不接受友链申请！',
+
+  // 漫画阅读记录
+  'comicHistory.title': '继续阅读',
+  'comicHistory.export': '导出阅读记录',
+  'comicHistory.import': '导入阅读记录',
+  'comicHistory.imported': '已导入 {count} 条阅读记录',
+  'comicHistory.importUpToDate': '没有需要更新的阅读记录',
+  'comicHistory.importFailed': '导入失败: {error}',
+  'comicHistory.unknownError': '未知错误',
+  'comicHistory.empty': '还没有未读完的漫画',
+  'comicHistory.continue': '继续阅读: {name}',
+  'comicHistory.progress': '{page} / {total} 页',
+  'comicHistory.remove': '移除阅读记录: {name}',
+  'comicHistory.viewPost': '查看文章: {name}',
+
+  // RSS
+  'rss.noDescription': 'No description',
+} as const;
+
+export type UIStringKey = keyof typeof zhCN;
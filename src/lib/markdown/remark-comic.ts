@@ -10,6 +10,8 @@
  * - name: Display name of the comic (required)
  * - src: Path to manifest.json file containing image list (required)
  * - author: Author name (optional)
+ * - artist: Artist ID(s) from config/artists.yaml, comma separated (optional),
+ *   e.g. artist="artist-a,artist-b" lists the comic on those artist pages
  * - cover: Cover image path (optional, auto-loaded from manifest if not specified)
  *
  * Cover priority:
@@ -23,17 +25,27 @@ import path from 'node:path';
 import type { ElementContent, Element as HastElement } from 'hast';
 import type { Root } from 'mdast';
 import type { LeafDirective } from 'mdast-util-directive';
+import { remark } from 'remark';
+import remarkDirective from 'remark-directive';
 import sanitizeHtml from 'sanitize-html';
 import { visit } from 'unist-util-visit';
+import type { ComicManifest } from '../../types/comic';
 
 // Icon SVG for comic card (always visible)
-const COMIC_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" class="comic-card-icon-svg"><path d="M5 21q-.825 0-1.412-.587T3 19V5q0-.825.588-1.412T5 3h14q.825 0 1.413.588T21 5v14q0 .825-.587 1.413T19 21zm0-2h14V5H5zm1-2h12l-3.75-5l-3 4L9 13zm-1 2V5zm3.5-9q.625 0 1.063-.437T10 8.5t-.437-1.062T8.5 7t-1.062.438T7 8.5t.438 1.063T8.5 10"/></svg>`;
-interface ComicManifest {
+export const COMIC_ICON_SVG = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" class="comic-card-icon-svg"><path d="M5 21q-.825 0-1.412-.587T3 19V5q0-.825.588-1.412T5 3h14q.825 0 1.413.588T21 5v14q0 .825-.587 1.413T19 21zm0-2h14V5H5zm1-2h12l-3.75-5l-3 4L9 13zm-1 2V5zm3.5-9q.625 0 1.063-.437T10 8.5t-.437-1.062T8.5 7t-1.062.438T7 8.5t.438 1.063T8.5 10"/></svg>`;
+
+/**
+ * Resolved attributes of a ::comic{} directive
+ */
+export interface ComicDirectiveInfo {
   id: string;
   name: string;
+  src: string;
   author?: string;
+  /** Artist IDs from the artist attribute */
+  artists?: string[];
+  /** Explicit cover, or the cover from manifest.json */
   cover?: string;
-  images: string[];
 }
 
 /**
@@ -47,6 +59,21 @@ function sanitizeText(text: string | null | undefined): string {
   }).trim();
 }
 
+/**
+ * Split a comma separated artist attribute into sanitized IDs
+ */
+function parseArtistIds(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return [
+    ...new Set(
+      value
+        .split(',')
+        .map((id) => sanitizeText(id))
+        .filter(Boolean),
+    ),
+  ];
+}
+
 /**
  * Validate URL to ensure it's safe (relative path or http/https)
  */
@@ -88,6 +115,74 @@ function readManifestCover(srcPath: string): string | null {
   }
 }
 
+/**
+ * Sanitize and validate ::comic{} attributes, resolving the cover from manifest.json
+ * @returns The resolved comic, or an error message when the directive is invalid
+ */
+function resolveComicAttributes(
+  attributes: Record<string, string | null | undefined>,
+): { comic: ComicDirectiveInfo } | { error: string } {
+  // Extract and sanitize attributes
+  const id = sanitizeText(attributes.id);
+  const name = sanitizeText(attributes.name);
+  const src = attributes.src?.trim() || '';
+  const author = sanitizeText(attributes.author);
+  const artists = parseArtistIds(attributes.artist);
+  const explicitCover = attributes.cover?.trim() || '';
+
+  // Validate required fields
+  if (!id || !name || !src) {
+    return { error: 'Missing required attributes (id, name, src) for ::comic directive' };
+  }
+
+  // Validate URLs
+  if (!isValidUrl(src)) {
+    return { error: `Invalid src URL: ${src}` };
+  }
+
+  if (explicitCover && !isValidUrl(explicitCover)) {
+    return { error: `Invalid cover URL: ${explicitCover}` };
+  }
+
+  // Determine cover: explicit > manifest > none
+  let cover = explicitCover;
+  if (!cover) {
+    const manifestCover = readManifestCover(src);
+    if (manifestCover && isValidUrl(manifestCover)) {
+      cover = manifestCover;
+    }
+  }
+
+  return {
+    comic: {
+      id,
+      name,
+      src,
+      author: author || undefined,
+      artists: artists.length ? artists : undefined,
+      cover: cover || undefined,
+    },
+  };
+}
+
+/**
+ * Collect the valid ::comic{} directives in a Markdown document
+ * Parses the document so directives inside code blocks are ignored
+ * @param markdown Raw Markdown body
+ */
+export function extractComicDirectives(markdown: string): ComicDirectiveInfo[] {
+  const tree = remark().use(remarkDirective).parse(markdown);
+  const comics: ComicDirectiveInfo[] = [];
+
+  visit(tree, 'leafDirective', (node: LeafDirective) => {
+    if (node.name !== 'comic') return;
+    const resolved = resolveComicAttributes(node.attributes || {});
+    if ('comic' in resolved) comics.push(resolved.comic);
+  });
+
+  return comics;
+}
+
 /**
  * Remark plugin to transform ::comic directives into comic cards
  */
@@ -97,40 +192,12 @@ export function remarkComic() {
       // Check for leaf directive with name 'comic'
       if (node.type === 'leafDirective' && (node as LeafDirective).name === 'comic') {
         const directive = node as LeafDirective;
-        const attributes = directive.attributes || {};
-
-        // Extract and sanitize attributes
-        const id = sanitizeText(attributes.id);
-        const name = sanitizeText(attributes.name);
-        const src = attributes.src?.trim() || '';
-        const author = sanitizeText(attributes.author);
-        const explicitCover = attributes.cover?.trim() || '';
-
-        // Validate required fields
-        if (!id || !name || !src) {
-          console.warn('[remark-comic] Missing required attributes (id, name, src) for ::comic directive');
+        const resolved = resolveComicAttributes(directive.attributes || {});
+        if ('error' in resolved) {
+          console.warn(`[remark-comic] ${resolved.error}`);
           return;
         }
-
-        // Validate URLs
-        if (!isValidUrl(src)) {
-          console.warn(`[remark-comic] Invalid src URL: ${src}`);
-          return;
-        }
-
-        if (explicitCover && !isValidUrl(explicitCover)) {
-          console.warn(`[remark-comic] Invalid cover URL: ${explicitCover}`);
-          return;
-        }
-
-        // Determine cover: explicit > manifest > none
-        let cover = explicitCover;
-        if (!cover) {
-          const manifestCover = readManifestCover(src);
-          if (manifestCover && isValidUrl(manifestCover)) {
-            cover = manifestCover;
-          }
-        }
+        const { id, name, src, author, artists, cover } = resolved.comic;
 
         // Transform to HTML
         if (!directive.data) {
@@ -146,6 +213,7 @@ export function remarkComic() {
           'data-comic-name': name,
           'data-comic-src': src,
           ...(author && { 'data-comic-author': author }),
+          ...(artists && { 'data-comic-artists': artists.join(',') }),
           ...(cover && { 'data-comic-cover': cover }),
         };
 
@@ -1,4 +1,5 @@
 import { Routes } from '@constants/router';
+import { localizePath } from '@lib/i18n';
 import type { BlogPost, PostRef } from 'types/blog';
 
 export type RouteParams<T extends Routes> = T extends Routes.Post ? BlogPost | PostRef | undefined : undefined;
@@ -17,8 +18,10 @@ export function routeBuilder<T extends Routes>(route: T, param: RouteParams<type
     case Routes.Post: {
       // 兼容 BlogPost 和 PostRef
       const link = 'data' in param ? param.data?.link : param.link;
+      const lang = 'data' in param ? param.data?.lang : param.lang;
       const slug = param.slug;
-      href += `/${encodeSlug(link ?? slug)}`;
+      // 非默认语言的文章带语言前缀，如 /en/post/hello
+      href = localizePath(`${href}/${encodeSlug(link ?? slug)}`, lang);
       break;
     }
     default:
@@ -183,3 +183,48 @@ function processLine(line: string): string {
 
   return line.trim();
 }
+
+/**
+ * 去除 Markdown 语法，返回完整纯文本（不截断），用于构建搜索索引
+ * 会丢弃代码块、HTML 标签、指令（::comic{} / :::note 等）和表格分隔线
+ * @param content Markdown内容字符串
+ * @returns 纯文本，连续空白折叠为单个空格
+ */
+export const stripMarkdown = (content: string): string => {
+  if (!content) return '';
+
+  return (
+    content
+      // YAML front matter
+      .replace(/^---\n[\s\S]*?\n---\n?/, '')
+      // 围栏代码块
+      .replace(/^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm, ' ')
+      // HTML 注释和标签
+      .replace(/<!--[\s\S]*?-->/g, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      // 叶子指令 ::comic{...} / ::video{...}，容器指令标记 :::note / :::
+      .replace(/^\s*::[a-z][\w-]*(\[[^\]]*\])?(\{[^}]*\})?\s*$/gim, ' ')
+      .replace(/^\s*:{3,}[a-z]*[^\n]*$/gim, ' ')
+      // GitHub alerts 标记 > [!NOTE]
+      .replace(/\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]/gi, ' ')
+      // 图片和链接保留文字
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      // 表格分隔线与竖线
+      .replace(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/gm, ' ')
+      .replace(/\|/g, ' ')
+      // 分割线 --- / *** / ___
+      .replace(/^\s*([-*_])(\s*\1){2,}\s*$/gm, ' ')
+      // 标题、引用、列表标记
+      .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+      .replace(/^\s*>+\s?/gm, '')
+      .replace(/^\s*([-*+]|\d+\.)\s+(\[[ xX]\]\s+)?/gm, '')
+      // 行内代码、加粗、斜体、删除线
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+      // 斜体只处理 *text*，避免误伤 snake_case 标识符
+      .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+};
@@ -0,0 +1,37 @@
+/**
+ * Scheduled publishing utilities
+ *
+ * A post whose `date` is after the build time is scheduled: like a draft it
+ * is left out of production builds, and appears once the site is rebuilt
+ * after that date. Post dates are parsed in `siteTimezone` by the content
+ * schema, so comparing timestamps here is timezone-safe.
+ */
+
+/** 构建开始时间，同一次构建中的所有页面使用相同的时间判断 */
+export const BUILD_TIME = new Date();
+
+/**
+ * 文章日期是否晚于构建时间（定时发布）
+ * @param date 文章日期（post.data.date）
+ * @param now 比较的时间，默认为构建时间
+ */
+export function isScheduled(date: Date, now: Date = BUILD_TIME): boolean {
+  return date.getTime() > now.getTime();
+}
+
+/**
+ * 计算下一次需要重新构建的时间，即最早一篇定时文章的发布时间
+ * 用于定时触发部署的场景（如 cron 任务读取 /schedule.json 后判断是否需要构建）
+ * @param dates 文章日期列表
+ * @param now 比较的时间，默认为构建时间
+ * @returns 没有定时文章时返回 null
+ */
+export function getNextRebuildTime(dates: Date[], now: Date = BUILD_TIME): Date | null {
+  let next: Date | null = null;
+  for (const date of dates) {
+    if (isScheduled(date, now) && (!next || date < next)) {
+      next = date;
+    }
+  }
+  return next;
+}
@@ -0,0 +1,94 @@
+/**
+ * Build-time search index generation
+ *
+ * Produces the payload served at /search-index.json (one per locale, e.g.
+ * /en/search-index.json). Server-only: imports astro:content through the
+ * content utilities.
+ */
+
+import { Routes } from '@constants/router';
+import { getAllTags, getCategoryArr, getCategoryList, getEnabledSeries, getPostSummary, getSortedPosts } from '@lib/content';
+import type { Category } from '@lib/content/types';
+import { displayDate } from '@lib/date';
+import { defaultLocale } from '@lib/i18n';
+import { routeBuilder } from '@lib/route';
+import { stripMarkdown } from '@lib/sanitize';
+import type { BlogPost } from 'types/blog';
+import type { SearchFacetOption, SearchFacetOptions, SearchIndex, SearchIndexEntry } from './types';
+
+/** 索引格式版本，结构变化时递增 */
+const SEARCH_INDEX_VERSION = 2;
+
+/**
+ * 将单篇文章转换为搜索索引条目
+ */
+function toSearchIndexEntry(post: BlogPost): SearchIndexEntry {
+  const slug = post.data.link ?? post.slug;
+  const categories = getCategoryArr(post.data.categories?.[0]);
+
+  return {
+    slug,
+    url: routeBuilder(Routes.Post, post),
+    title: post.data.title,
+    date: post.data.date.toISOString(),
+    year: Number(displayDate.date(post.data.date).slice(0, 4)),
+    tags: post.data.tags ?? [],
+    categories,
+    series: getEnabledSeries()
+      .filter((series) => categories.includes(series.categoryName))
+      .map((series) => series.slug),
+    summary: post.data.description || getPostSummary(slug) || undefined,
+    body: stripMarkdown(post.body ?? ''),
+  };
+}
+
+/**
+ * 展开分类树为筛选项（父分类在前）
+ */
+function flattenCategories(categories: Category[], countMap: Record<string, number>): SearchFacetOption[] {
+  return categories.flatMap((category) => [
+    { value: category.name, label: category.name, count: countMap[category.name] ?? 0 },
+    ...flattenCategories(category.children ?? [], countMap),
+  ]);
+}
+
+/**
+ * 构建筛选项：分类、标签、系列、年份
+ */
+async function buildFacetOptions(entries: SearchIndexEntry[], posts: BlogPost[], locale: string): Promise<SearchFacetOptions> {
+  const { categories, countMap } = await getCategoryList(locale);
+
+  const tags = Object.entries(getAllTags(posts))
+    .map(([tag, count]) => ({ value: tag, label: tag, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const series = getEnabledSeries().map((item) => ({
+    value: item.slug,
+    label: item.label ?? item.categoryName,
+    count: entries.filter((entry) => entry.series.includes(item.slug)).length,
+  }));
+
+  const years = Array.from(new Set(entries.map((entry) => entry.year))).sort((a, b) => b - a);
+
+  return {
+    categories: flattenCategories(categories, countMap),
+    tags,
+    series: series.filter((item) => item.count > 0),
+    years,
+  };
+}
+
+/**
+ * 构建指定语言的搜索索引（生产环境排除草稿，与 getSortedPosts 一致）
+ */
+export async function buildSearchIndex(locale: string = defaultLocale): Promise<SearchIndex> {
+  const posts = await getSortedPosts(locale);
+  const entries = posts.map(toSearchIndexEntry);
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    generatedAt: new Date().toISOString(),
+    entries,
+    facets: await buildFacetOptions(entries, posts, locale),
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Client-side search loading utilities
+ *
+ * Detects whether Pagefind is available and lazily loads the fallback
+ * search index. Results are cached for the lifetime of the page.
+ */
+
+import { localizePath } from '@lib/i18n';
+import { createSearchEngine, type SearchEngine } from './engine';
+import type { SearchFacetOptions, SearchIndex, SearchMode } from './types';
+
+const SEARCH_INDEX_URL = '/search-index.json';
+
+/** Pagefind 构建产物的入口文件，存在即说明索引构建成功 */
+const PAGEFIND_ENTRY_URL = '/pagefind/pagefind-entry.json';
+
+type ResolvedSearchMode = Exclude<SearchMode, 'pending'>;
+
+let searchModePromise: Promise<ResolvedSearchMode> | null = null;
+export interface LoadedSearchIndex {
+  engine: SearchEngine;
+  facets: SearchFacetOptions;
+}
+
+/** 按索引地址缓存（每种语言一份索引） */
+const searchIndexPromises = new Map<string, Promise<LoadedSearchIndex>>();
+
+/**
+ * 检测当前可用的搜索模式
+ * 开发环境始终使用 fallback（Pagefind 索引只在构建时生成，可能已过期）
+ */
+export function detectSearchMode(): Promise<ResolvedSearchMode> {
+  if (import.meta.env.DEV) return Promise.resolve('fallback');
+
+  searchModePromise ??= fetch(PAGEFIND_ENTRY_URL, { method: 'HEAD' })
+    .then((res): ResolvedSearchMode => (res.ok ? 'pagefind' : 'fallback'))
+    .catch((): ResolvedSearchMode => 'fallback');
+
+  return searchModePromise;
+}
+
+/**
+ * 加载指定语言的搜索索引，创建搜索引擎并返回筛选项（每种语言只请求一次）
+ */
+export function loadSearchIndex(locale?: string): Promise<LoadedSearchIndex> {
+  const url = localizePath(SEARCH_INDEX_URL, locale);
+  const cached = searchIndexPromises.get(url);
+  if (cached) return cached;
+
+  const promise = fetch(url)
+    .then((res) => {
+      if (!res.ok) throw new Error(`Failed to load search index: ${res.status}`);
+      return res.json() as Promise<SearchIndex>;
+    })
+    .then((index) => ({ engine: createSearchEngine(index.entries), facets: index.facets }))
+    .catch((error) => {
+      // 允许下次打开搜索时重试
+      searchIndexPromises.delete(url);
+      throw error;
+    });
+
+  searchIndexPromises.set(url, promise);
+  return promise;
+}
@@ -0,0 +1,214 @@
+/**
+ * Client-side search engine
+ *
+ * Builds an in-memory inverted index from search-index.json and ranks posts
+ * with field-weighted TF-IDF. Used when Pagefind is unavailable (astro dev,
+ * or the Pagefind index failed to build).
+ */
+
+import { isCjk, normalizeText, splitSegments, tokenize } from './tokenize';
+import type { ExcerptSegment, SearchIndexEntry, SearchResult } from './types';
+
+type SearchField = 'title' | 'tags' | 'categories' | 'summary' | 'body';
+
+/** 字段权重：标题 > 标签 > 分类 > 摘要 > 正文 */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  tags: 6,
+  categories: 5,
+  summary: 3,
+  body: 1,
+};
+
+/** 前缀匹配（输入中的单词）相对完全匹配的权重 */
+const PREFIX_MATCH_FACTOR = 0.6;
+/** 单个 CJK 字符匹配 bigram 的权重 */
+const CJK_CHAR_MATCH_FACTOR = 0.5;
+
+const EXCERPT_LENGTH = 140;
+const EXCERPT_LEADING = 40;
+
+export interface SearchOptions {
+  /** 返回结果数量上限 */
+  limit?: number;
+  /** 结果过滤条件，用于在排序结果之上叠加筛选 */
+  filter?: (entry: SearchIndexEntry) => boolean;
+}
+
+export interface SearchEngine {
+  entries: SearchIndexEntry[];
+  search: (query: string, options?: SearchOptions) => SearchResult[];
+  /** 不带关键词时按日期列出文章（仅使用筛选条件） */
+  list: (options?: SearchOptions) => SearchResult[];
+}
+
+/**
+ * 统计单个字段的词频并按字段权重累加到文档词表中
+ */
+function addFieldTerms(termScores: Map<string, number>, text: string, field: SearchField) {
+  const counts = new Map<string, number>();
+  for (const token of tokenize(text)) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  for (const [token, count] of counts) {
+    // 对数词频，避免长文正文中的高频词压过标题
+    const weighted = FIELD_WEIGHTS[field] * (1 + Math.log(count));
+    termScores.set(token, (termScores.get(token) ?? 0) + weighted);
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 生成带高亮的摘录：优先从正文中截取，找不到则使用 AI 摘要
+ */
+function buildExcerpt(entry: SearchIndexEntry, segments: string[]): ExcerptSegment[] {
+  const sources = [entry.body, entry.summary ?? ''];
+  let source = entry.body;
+  let position = -1;
+
+  for (const text of sources) {
+    const lower = normalizeText(text);
+    for (const segment of segments) {
+      const index = lower.indexOf(segment);
+      if (index !== -1 && (position === -1 || index < position)) position = index;
+    }
+    if (position !== -1) {
+      source = text;
+      break;
+    }
+  }
+
+  if (position === -1) {
+    source = entry.summary || entry.body;
+    position = 0;
+  }
+
+  const start = Math.max(0, position - EXCERPT_LEADING);
+  const end = Math.min(source.length, start + EXCERPT_LENGTH);
+  const window = `${start > 0 ? '…' : ''}${source.slice(start, end)}${end < source.length ? '…' : ''}`;
+
+  if (segments.length === 0) return [{ text: window, match: false }];
+
+  const pattern = new RegExp(`(${segments.map(escapeRegExp).join('|')})`, 'gi');
+  return window
+    .split(pattern)
+    .filter(Boolean)
+    .map((text) => ({ text, match: segments.includes(normalizeText(text)) }));
+}
+
+/**
+ * 创建搜索引擎实例
+ * @param entries search-index.json 中的文章列表
+ */
+export function createSearchEngine(entries: SearchIndexEntry[]): SearchEngine {
+  // term -> (文档下标 -> 加权得分)
+  const invertedIndex = new Map<string, Map<number, number>>();
+
+  entries.forEach((entry, docIndex) => {
+    const termScores = new Map<string, number>();
+    addFieldTerms(termScores, entry.title, 'title');
+    addFieldTerms(termScores, entry.tags.join(' '), 'tags');
+    addFieldTerms(termScores, entry.categories.join(' '), 'categories');
+    addFieldTerms(termScores, entry.summary ?? '', 'summary');
+    addFieldTerms(termScores, entry.body, 'body');
+
+    for (const [term, score] of termScores) {
+      let postings = invertedIndex.get(term);
+      if (!postings) {
+        postings = new Map();
+        invertedIndex.set(term, postings);
+      }
+      postings.set(docIndex, score);
+    }
+  });
+
+  const terms = Array.from(invertedIndex.keys());
+  const docCount = entries.length;
+
+  /**
+   * 计算单个查询 token 对每篇文章的得分（完全匹配 + 前缀匹配）
+   */
+  const scoreToken = (token: string, allowPrefix: boolean): Map<number, number> => {
+    const scores = new Map<number, number>();
+
+    const addPostings = (term: string, factor: number) => {
+      const postings = invertedIndex.get(term);
+      if (!postings) return;
+      const idf = Math.log(1 + docCount / postings.size);
+      for (const [docIndex, score] of postings) {
+        const value = score * idf * factor;
+        if (value > (scores.get(docIndex) ?? 0)) scores.set(docIndex, value);
+      }
+    };
+
+    addPostings(token, 1);
+
+    const singleCjkChar = token.length === 1 && isCjk(token);
+    if (allowPrefix || singleCjkChar) {
+      for (const term of terms) {
+        if (term === token) continue;
+        if (term.startsWith(token)) {
+          addPostings(term, singleCjkChar ? CJK_CHAR_MATCH_FACTOR : PREFIX_MATCH_FACTOR);
+        } else if (singleCjkChar && term.includes(token)) {
+          addPostings(term, CJK_CHAR_MATCH_FACTOR);
+        }
+      }
+    }
+
+    return scores;
+  };
+
+  const search = (query: string, options: SearchOptions = {}): SearchResult[] => {
+    const { limit, filter } = options;
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    const normalizedQuery = normalizeText(query).trim();
+    // 摘录高亮优先匹配完整片段，其次匹配 CJK bigram，长的在前
+    const segments = Array.from(new Set([...splitSegments(query), ...queryTokens])).sort((a, b) => b.length - a.length);
+    let totals: Map<number, number> | null = null;
+
+    for (const [index, token] of queryTokens.entries()) {
+      // 只有最后一个 token 可能尚未输入完整，允许前缀匹配
+      const tokenScores = scoreToken(token, index === queryTokens.length - 1);
+      const next = new Map<number, number>();
+      // 所有 token 都需要命中（AND 语义）
+      for (const [docIndex, score] of tokenScores) {
+        if (totals && !totals.has(docIndex)) continue;
+        next.set(docIndex, (totals?.get(docIndex) ?? 0) + score);
+      }
+      totals = next;
+      if (totals.size === 0) return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const [docIndex, baseScore] of totals ?? []) {
+      const entry = entries[docIndex];
+      if (filter && !filter(entry)) continue;
+
+      let score = baseScore;
+      const title = normalizeText(entry.title);
+      // 标题完整包含查询词时额外加分
+      if (title.includes(normalizedQuery)) score *= title.startsWith(normalizedQuery) ? 2 : 1.5;
+
+      results.push({ entry, score, excerpt: buildExcerpt(entry, segments) });
+    }
+
+    results.sort((a, b) => b.score - a.score || b.entry.date.localeCompare(a.entry.date));
+    return limit ? results.slice(0, limit) : results;
+  };
+
+  const list = (options: SearchOptions = {}): SearchResult[] => {
+    const { limit, filter } = options;
+    // entries 已按日期降序排列
+    const results = entries
+      .filter((entry) => !filter || filter(entry))
+      .map((entry) => ({ entry, score: 0, excerpt: buildExcerpt(entry, []) }));
+    return limit ? results.slice(0, limit) : results;
+  };
+
+  return { entries, search, list };
+}
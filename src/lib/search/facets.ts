@@ -0,0 +1,118 @@
+/**
+ * Search facet utilities
+ *
+ * Matching entries against selected facets and (de)serializing the search
+ * state to URL query parameters so a filtered search can be shared.
+ */
+
+import { normalizeTag } from '@lib/content/tags';
+import type { SearchFacetState, SearchIndexEntry } from './types';
+
+/** URL 查询参数名 */
+const SearchParams = {
+  QUERY: 'q',
+  CATEGORY: 'category',
+  TAG: 'tag',
+  SERIES: 'series',
+  YEAR_FROM: 'from',
+  YEAR_TO: 'to',
+} as const;
+
+export const EMPTY_FACETS: SearchFacetState = {
+  categories: [],
+  tags: [],
+  series: [],
+};
+
+/**
+ * 是否选中了任意筛选条件
+ */
+export function hasActiveFacets(facets: SearchFacetState): boolean {
+  return (
+    facets.categories.length > 0 ||
+    facets.tags.length > 0 ||
+    facets.series.length > 0 ||
+    facets.yearFrom !== undefined ||
+    facets.yearTo !== undefined
+  );
+}
+
+/**
+ * 判断文章是否满足筛选条件
+ */
+export function matchesFacets(entry: SearchIndexEntry, facets: SearchFacetState): boolean {
+  const { categories, tags, series, yearFrom, yearTo } = facets;
+
+  if (categories.length && !categories.some((name) => entry.categories.includes(name))) return false;
+
+  if (tags.length) {
+    const entryTags = entry.tags.map(normalizeTag);
+    if (!tags.some((tag) => entryTags.includes(normalizeTag(tag)))) return false;
+  }
+
+  if (series.length && !series.some((slug) => entry.series.includes(slug))) return false;
+  if (yearFrom !== undefined && entry.year < yearFrom) return false;
+  if (yearTo !== undefined && entry.year > yearTo) return false;
+
+  return true;
+}
+
+/**
+ * 切换某个维度中的值（已选中则移除，否则添加）
+ */
+export function toggleFacetValue(
+  facets: SearchFacetState,
+  key: 'categories' | 'tags' | 'series',
+  value: string,
+): SearchFacetState {
+  const values = facets[key];
+  return {
+    ...facets,
+    [key]: values.includes(value) ? values.filter((v) => v !== value) : [...values, value],
+  };
+}
+
+function parseYear(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const year = Number.parseInt(value, 10);
+  return Number.isNaN(year) ? undefined : year;
+}
+
+/**
+ * 从 URL 查询参数中读取搜索状态
+ * @example ?q=画师&category=插画&tag=原创&from=2023
+ */
+export function parseSearchParams(params: URLSearchParams): { query: string; facets: SearchFacetState } {
+  return {
+    query: params.get(SearchParams.QUERY) ?? '',
+    facets: {
+      categories: params.getAll(SearchParams.CATEGORY),
+      tags: params.getAll(SearchParams.TAG),
+      series: params.getAll(SearchParams.SERIES),
+      yearFrom: parseYear(params.get(SearchParams.YEAR_FROM)),
+      yearTo: parseYear(params.get(SearchParams.YEAR_TO)),
+    },
+  };
+}
+
+/**
+ * 将搜索状态写入 URL 查询参数（传入 null 则清除）
+ * @returns 新的 URL，不修改传入的对象
+ */
+export function applySearchParams(url: URL, state: { query: string; facets: SearchFacetState } | null): URL {
+  const next = new URL(url);
+  for (const key of Object.values(SearchParams)) {
+    next.searchParams.delete(key);
+  }
+  if (!state) return next;
+
+  const { query, facets } = state;
+  if (query.trim()) next.searchParams.set(SearchParams.QUERY, query.trim());
+  for (const name of facets.categories) next.searchParams.append(SearchParams.CATEGORY, name);
+  for (const tag of facets.tags) next.searchParams.append(SearchParams.TAG, tag);
+  for (const slug of facets.series) next.searchParams.append(SearchParams.SERIES, slug);
+  if (facets.yearFrom !== undefined) next.searchParams.set(SearchParams.YEAR_FROM, String(facets.yearFrom));
+  if (facets.yearTo !== undefined) next.searchParams.set(SearchParams.YEAR_TO, String(facets.yearTo));
+
+  return next;
+}
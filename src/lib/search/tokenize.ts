@@ -0,0 +1,60 @@
+/**
+ * Search tokenizer with CJK support
+ *
+ * Latin/Cyrillic/digit runs are split on word boundaries, CJK runs are split
+ * into overlapping bigrams (漫画推荐 → 漫画 / 画推 / 推荐), which gives decent
+ * recall for Chinese and Japanese without shipping a dictionary.
+ */
+
+// 中日韩统一表意文字、扩展 A、兼容表意文字、平假名、片假名、韩文音节
+const CJK_CHAR = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af';
+const CJK_CHAR_RE = new RegExp(`[${CJK_CHAR}]`);
+const SEGMENT_RE = new RegExp(`[${CJK_CHAR}]+|(?:(?![${CJK_CHAR}])[\\p{L}\\p{N}_])+`, 'gu');
+
+/**
+ * 判断字符串是否以 CJK 字符开头
+ */
+export function isCjk(text: string): boolean {
+  return CJK_CHAR_RE.test(text.charAt(0));
+}
+
+/**
+ * 规范化文本：全角转半角、转小写
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * 将文本切分为原始片段（不拆分 CJK bigram），用于摘录高亮
+ * @example splitSegments('Astro 博客主题') => ['astro', '博客主题']
+ */
+export function splitSegments(text: string): string[] {
+  return normalizeText(text).match(SEGMENT_RE) ?? [];
+}
+
+/**
+ * 将文本切分为搜索 token
+ * @example tokenize('Astro 博客主题') => ['astro', '博客', '客主', '主题']
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const segment of splitSegments(text)) {
+    if (!isCjk(segment)) {
+      tokens.push(segment);
+      continue;
+    }
+
+    if (segment.length === 1) {
+      tokens.push(segment);
+      continue;
+    }
+
+    for (let i = 0; i < segment.length - 1; i++) {
+      tokens.push(segment.slice(i, i + 2));
+    }
+  }
+
+  return tokens;
+}
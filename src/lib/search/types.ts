@@ -0,0 +1,94 @@
+/**
+ * Search-related type definitions
+ *
+ * Shared between the build-time index endpoint (search-index.json) and the
+ * client-side fallback search engine.
+ */
+
+/**
+ * 搜索索引中的单篇文章
+ */
+export interface SearchIndexEntry {
+  /** 文章 slug（post.data.link ?? post.slug） */
+  slug: string;
+  /** 文章 URL，如 /post/hello-world */
+  url: string;
+  title: string;
+  /** ISO 日期字符串 */
+  date: string;
+  tags: string[];
+  /** 发布年份（站点时区） */
+  year: number;
+  /** 分类路径，如 ['笔记', '前端'] */
+  categories: string[];
+  /** 所属 Featured Series 的 slug */
+  series: string[];
+  /** AI 摘要（来自 summaries.json） */
+  summary?: string;
+  /** 去除 Markdown 语法后的正文 */
+  body: string;
+}
+
+/**
+ * 筛选项（分类、标签、系列）
+ */
+export interface SearchFacetOption {
+  /** 写入 URL 和用于匹配的值 */
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * 可用的筛选项，构建时生成
+ */
+export interface SearchFacetOptions {
+  categories: SearchFacetOption[];
+  tags: SearchFacetOption[];
+  series: SearchFacetOption[];
+  /** 有文章的年份（降序） */
+  years: number[];
+}
+
+/**
+ * 当前选中的筛选条件
+ * 同一维度内为 OR，不同维度之间为 AND
+ */
+export interface SearchFacetState {
+  categories: string[];
+  tags: string[];
+  series: string[];
+  yearFrom?: number;
+  yearTo?: number;
+}
+
+/**
+ * search-index.json 的数据结构
+ */
+export interface SearchIndex {
+  version: number;
+  generatedAt: string;
+  entries: SearchIndexEntry[];
+  facets: SearchFacetOptions;
+}
+
+/**
+ * 摘录片段，match 为 true 表示命中关键词需要高亮
+ */
+export interface ExcerptSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  entry: SearchIndexEntry;
+  score: number;
+  excerpt: ExcerptSegment[];
+}
+
+/**
+ * 搜索模式
+ * - pagefind: 使用 Pagefind 静态索引（生产环境）
+ * - fallback: 使用 search-index.json + 客户端搜索引擎（开发环境或 Pagefind 不可用时）
+ */
+export type SearchMode = 'pending' | 'pagefind' | 'fallback';
@@ -2,44 +2,87 @@
  * Site statistics utilities
  */
 
-import { getCollection } from 'astro:content';
+import { type CollectionEntry, getCollection } from 'astro:content';
+import fs from 'node:fs';
+import path from 'node:path';
+import { getSeriesPath, Routes } from '@constants/router';
+import {
+  buildCategoryPath,
+  buildTagPath,
+  getAllTags,
+  getCategoryArr,
+  getEnabledSeries,
+  getPostsByCategory,
+  getSortedPosts,
+} from '@lib/content';
+import { displayDate } from '@lib/date';
+import { extractComicDirectives } from '@lib/markdown/remark-comic';
+import { routeBuilder } from '@lib/route';
+import { isScheduled } from '@lib/schedule';
 import readingTime from 'reading-time';
+import type { ComicManifest } from '../types/comic';
+
+/** 漫画 manifest 所在目录（generateComicManifests 生成） */
+const COMIC_DIR = path.join(process.cwd(), 'public', 'img', 'comic');
+
+/** Markdown 图片和 HTML <img> 标签 */
+const IMAGE_PATTERN = /!\[[^\]]*\]\([^)]+\)|<img\b/gi;
+
+/**
+ * Format word count (e.g., 871k)
+ */
+function formatWordCount(count: number): string {
+  if (count >= 1000) {
+    return `${Math.floor(count / 1000)}k`;
+  }
+  return count.toString();
+}
+
+/**
+ * Format reading time (e.g., 13:12 for 13 hours 12 minutes)
+ */
+function formatReadingTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}:${mins.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Word count, reading time (rounded up to minutes) and image count of a single post
+ */
+export function getPostStats(post: CollectionEntry<'blog'>) {
+  const content = post.body || '';
+  const stats = readingTime(content);
+
+  return {
+    words: stats.words,
+    minutes: Math.ceil(stats.minutes),
+    images: content.match(IMAGE_PATTERN)?.length ?? 0,
+  };
+}
 
 /**
- * Calculate total word count and reading time for all posts (excluding drafts in production)
+ * Calculate total word count and reading time for all posts (excluding drafts and scheduled posts in production)
+ * @param subset Only count these posts, e.g. one year of the archive
  */
-export async function getSiteStats() {
-  const posts = await getCollection('blog', ({ data }) => {
-    // 在生产环境中，过滤掉草稿
-    return import.meta.env.PROD ? data.draft !== true : true;
-  });
+export async function getSiteStats(subset?: CollectionEntry<'blog'>[]) {
+  const posts =
+    subset ??
+    (await getCollection('blog', ({ data }) => {
+      // 在生产环境中，过滤掉草稿和定时文章
+      return import.meta.env.PROD ? data.draft !== true && !isScheduled(data.date) : true;
+    }));
 
   let totalWords = 0;
   let totalMinutes = 0;
 
   for (const post of posts) {
-    const content = post.body || '';
-    const stats = readingTime(content);
+    const stats = getPostStats(post);
 
     totalWords += stats.words;
-    totalMinutes += Math.ceil(stats.minutes);
+    totalMinutes += stats.minutes;
   }
 
-  // Format word count (e.g., 871k)
-  const formatWordCount = (count: number): string => {
-    if (count >= 1000) {
-      return `${Math.floor(count / 1000)}k`;
-    }
-    return count.toString();
-  };
-
-  // Format reading time (e.g., 13:12 for 13 hours 12 minutes)
-  const formatReadingTime = (minutes: number): string => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return `${hours}:${mins.toString().padStart(2, '0')}`;
-  };
-
   return {
     totalWords,
     totalMinutes,
@@ -48,3 +91,145 @@ export async function getSiteStats() {
     postCount: posts.length,
   };
 }
+
+/** 统计图表中的一项 */
+export interface StatsItem {
+  label: string;
+  value: number;
+  href?: string;
+}
+
+/** 单篇文章统计 */
+export interface PostStatsItem {
+  title: string;
+  href: string;
+  date: string;
+  words: number;
+  minutes: number;
+  images: number;
+}
+
+/** 系列完成度 */
+export interface SeriesStats {
+  label: string;
+  href: string;
+  count: number;
+  /** 计划文章数（featuredSeries[].total），未配置时为 undefined */
+  total?: number;
+  /** 0 ~ 1，未配置计划文章数时为 undefined */
+  completion?: number;
+  latest?: string;
+}
+
+/**
+ * 读取 public/img/comic 下所有漫画的 manifest.json
+ */
+function readComicManifests(): ComicManifest[] {
+  if (!fs.existsSync(COMIC_DIR)) return [];
+
+  const manifests: ComicManifest[] = [];
+  for (const entry of fs.readdirSync(COMIC_DIR, { withFileTypes: true })) {
+    const manifestPath = path.join(COMIC_DIR, entry.name, 'manifest.json');
+    if (!entry.isDirectory() || !fs.existsSync(manifestPath)) continue;
+    try {
+      manifests.push(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')));
+    } catch (error) {
+      console.warn(`[stats] Failed to read comic manifest: ${manifestPath}`, error);
+    }
+  }
+  return manifests;
+}
+
+/**
+ * 统计每月发文数，从第一篇到最后一篇之间没有文章的月份补 0
+ */
+function countPostsByMonth(posts: CollectionEntry<'blog'>[]): StatsItem[] {
+  const counts = new Map<string, number>();
+  for (const post of posts) {
+    const month = displayDate.date(post.data.date).slice(0, 7);
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+
+  const months = [...counts.keys()].sort();
+  const last = months[months.length - 1];
+  let [year, month] = months[0].split('-').map(Number);
+
+  const items: StatsItem[] = [];
+  for (;;) {
+    const label = `${year}-${String(month).padStart(2, '0')}`;
+    items.push({ label, value: counts.get(label) ?? 0 });
+    if (label === last) break;
+    if (++month > 12) {
+      year++;
+      month = 1;
+    }
+  }
+  return items;
+}
+
+/**
+ * 统计页面数据，构建时从文章集合和漫画 manifest 计算（默认语言的文章）
+ * @param limit 标签和最长文章的显示数量
+ */
+export async function getStatsDashboard(limit: number = 10) {
+  const posts = await getSortedPosts();
+  const site = await getSiteStats(posts);
+
+  const postItems: PostStatsItem[] = posts.map((post) => ({
+    title: post.data.title,
+    href: routeBuilder(Routes.Post, post),
+    date: displayDate.date(post.data.date),
+    ...getPostStats(post),
+  }));
+
+  const categoryCounts = new Map<string, number>();
+  for (const post of posts) {
+    const name = getCategoryArr(post.data.categories?.[0])[0];
+    if (name) categoryCounts.set(name, (categoryCounts.get(name) ?? 0) + 1);
+  }
+
+  const series = await Promise.all(
+    getEnabledSeries().map(async (item): Promise<SeriesStats> => {
+      const seriesPosts = await getPostsByCategory(item.categoryName);
+      return {
+        label: item.label ?? item.categoryName,
+        href: getSeriesPath(item.slug),
+        count: seriesPosts.length,
+        total: item.total,
+        completion: item.total ? Math.min(seriesPosts.length / item.total, 1) : undefined,
+        latest: seriesPosts[0] && displayDate.date(seriesPosts[0].data.date),
+      };
+    }),
+  );
+
+  const tagCounts = getAllTags(posts);
+  const comics = readComicManifests();
+  const postComicIds = new Set(posts.flatMap((post) => extractComicDirectives(post.body ?? '').map((comic) => comic.id)));
+
+  return {
+    overview: {
+      ...site,
+      averageMinutes: posts.length ? Math.round(site.totalMinutes / posts.length) : 0,
+      averageWords: posts.length ? Math.round(site.totalWords / posts.length) : 0,
+      imageCount: postItems.reduce((sum, item) => sum + item.images, 0),
+      comicCount: comics.length,
+      comicPageCount: comics.reduce((sum, comic) => sum + comic.images.length, 0),
+      /** 在文章中通过 ::comic{} 引用的漫画数 */
+      linkedComicCount: postComicIds.size,
+    },
+    postsByMonth: countPostsByMonth(posts),
+    tags: Object.entries(tagCounts)
+      .map(([label, value]): StatsItem => ({ label, value, href: buildTagPath(label) }))
+      .sort((a, b) => b.value - a.value)
+      .slice(0, limit),
+    tagCount: Object.keys(tagCounts).length,
+    categories: [...categoryCounts]
+      .map(([label, value]): StatsItem => ({ label, value, href: buildCategoryPath(label) }))
+      .sort((a, b) => b.value - a.value),
+    longestPosts: [...postItems].sort((a, b) => b.words - a.words).slice(0, limit),
+    series,
+  };
+}
+
+export type StatsDashboard = Awaited<ReturnType<typeof getStatsDashboard>>;
@@ -0,0 +1,27 @@
+import { siteConfig } from '@constants/site-config';
+import { getSortedPosts } from '@lib/content';
+import { getLocaleStaticParams, getTranslator } from '@lib/i18n';
+import { createRssResponse } from '@lib/rss';
+import type { APIContext } from 'astro';
+
+// 每种语言一个 feed：/rss.xml、/en/rss.xml
+export function getStaticPaths() {
+  return getLocaleStaticParams().map(({ params, locale }) => ({ params, props: { locale } }));
+}
+
+export async function GET(context: APIContext) {
+  const { locale } = context.props as { locale: string };
+  const { site } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createRssResponse({
+    title: siteConfig.title,
+    description: siteConfig.subtitle || getTranslator(locale)('rss.noDescription'),
+    site,
+    posts: await getSortedPosts(locale),
+    language: locale,
+  });
+}
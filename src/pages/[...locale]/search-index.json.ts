@@ -0,0 +1,26 @@
+/**
+ * Search index endpoint
+ *
+ * Generated at build time from the blog collection, one index per locale.
+ * Consumed by the client-side fallback search in SearchDialog when Pagefind
+ * is unavailable.
+ */
+import { getLocaleStaticParams } from '@lib/i18n';
+import { buildSearchIndex } from '@lib/search/build-index';
+import type { APIContext } from 'astro';
+
+// 每种语言一个索引：/search-index.json、/en/search-index.json
+export function getStaticPaths() {
+  return getLocaleStaticParams().map(({ params, locale }) => ({ params, props: { locale } }));
+}
+
+export async function GET(context: APIContext) {
+  const { locale } = context.props as { locale: string };
+  const index = await buildSearchIndex(locale);
+
+  return new Response(JSON.stringify(index), {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { siteConfig } from '@constants/site-config';
+import { type ArtistWithPosts, getArtistList } from '@lib/content';
+import { createRssResponse } from '@lib/rss';
+import type { APIContext } from 'astro';
+
+// 每位画师一个 feed：/artist/<id>/rss.xml
+export async function getStaticPaths() {
+  const artists = await getArtistList();
+  return artists.map((artist) => ({ params: { id: artist.id }, props: { artist } }));
+}
+
+export async function GET(context: APIContext) {
+  const { artist } = context.props as { artist: ArtistWithPosts };
+  const { site } = context;
+
+  if (!site) {
+    throw new Error('Missing site metadata');
+  }
+
+  return createRssResponse({
+    title: `${artist.name} | ${siteConfig.title}`,
+    description: artist.description || `画师 ${artist.name} 的所有文章`,
+    site,
+    posts: artist.posts,
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Scheduled publishing endpoint
+ *
+ * Generated at build time. Posts dated after the build are left out of the
+ * site; a cron-driven deploy can fetch this file and rebuild once
+ * `nextRebuild` has passed.
+ */
+import { getScheduledPosts } from '@lib/content';
+import { BUILD_TIME, getNextRebuildTime } from '@lib/schedule';
+
+export async function GET() {
+  const posts = await getScheduledPosts();
+  const nextRebuild = getNextRebuildTime(posts.map((post) => post.data.date));
+
+  return new Response(
+    JSON.stringify({
+      builtAt: BUILD_TIME.toISOString(),
+      nextRebuild: nextRebuild?.toISOString() ?? null,
+      scheduled: posts.length,
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+      },
+    },
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Stale posts report endpoint
+ *
+ * Generated at build time. Lists posts whose `expires` date has passed or
+ * that exceeded `outdatedAfterDays` since their last update, so they can be
+ * reviewed after each deploy. The count is also logged during the build.
+ */
+import { Routes } from '@constants/router';
+import { getStalePosts } from '@lib/content';
+import { routeBuilder } from '@lib/route';
+import { BUILD_TIME } from '@lib/schedule';
+
+export async function GET() {
+  const posts = await getStalePosts();
+
+  if (posts.length > 0) {
+    console.warn(`[stale-posts] ${posts.length} 篇文章已过期或过时，详见 /stale-posts.json`);
+  }
+
+  return new Response(
+    JSON.stringify({
+      builtAt: BUILD_TIME.toISOString(),
+      stale: posts.length,
+      posts: posts.map(({ post, status, daysSinceUpdate, lastUpdated, expires }) => ({
+        url: routeBuilder(Routes.Post, post),
+        title: post.data.title,
+        status,
+        lastUpdated: lastUpdated.toISOString(),
+        daysSinceUpdate,
+        expires: expires?.toISOString() ?? null,
+      })),
+    }),
+    {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+      },
+    },
+  );
+}
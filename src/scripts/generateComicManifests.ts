@@ -3,55 +3,162 @@
  *
  * This script:
  * 1. Scans public/img/comic/ directory for comic folders
- * 2. Each folder should contain numbered image files (1.jpg, 2.png, etc.)
- * 3. Generates manifest.json with image list in correct order
+ * 2. Each folder should contain numbered image files (1.jpg, 2.png, etc.),
+ *    or chapter folders containing numbered image files
+ * 3. Generates manifest.json with image list in correct order,
+ *    plus per-page width/height and LQIP colors
  * 4. Auto-detects cover image (cover.* or first image)
+ * 5. Optionally writes resized WebP/AVIF variants to _optimized/
+ * 6. Optionally imports a CBZ/ZIP archive into a new comic folder (--from)
  *
  * Usage:
  *   pnpm generate:comics
- *   pnpm generate:comics --force  # Regenerate all manifests
+ *   pnpm generate:comics --force                 # Regenerate all manifests and variants
+ *   pnpm generate:comics --formats webp,avif     # Also write resized variants
+ *   pnpm generate:comics --formats webp --max-width 1200 --quality 75
+ *   pnpm generate:comics --from ~/Downloads/my-manga.cbz               # Import an archive
+ *   pnpm generate:comics --from my-manga.cbz --id my-manga --force     # Custom id, replace existing folder
  *
  * Folder structure:
  *   public/img/comic/
- *     └── my-manga/
- *         ├── cover.jpg (optional, priority cover)
- *         ├── 001.jpg
- *         ├── 002.jpg
- *         ├── 003.png
- *         └── manifest.json (generated)
+ *     ├── my-manga/
+ *     │   ├── cover.jpg (optional, priority cover)
+ *     │   ├── 001.jpg
+ *     │   ├── 002.jpg
+ *     │   ├── 003.png
+ *     │   └── manifest.json (generated)
+ *     └── my-series/
+ *         ├── cover.jpg (optional)
+ *         ├── ch01/
+ *         │   ├── 001.jpg
+ *         │   └── 002.jpg
+ *         ├── ch02/
+ *         │   └── 001.jpg
+ *         ├── _optimized/ (generated variants, mirrors the folder structure)
+ *         └── manifest.json (generated, with chapters)
  *
  * Cover priority:
  *   1. ::comic{cover="..."} in Markdown (highest)
  *   2. cover.jpg/png/webp in folder
  *   3. First image in the list (fallback)
+ *
+ * Chapters:
+ *   Sub folders are read as chapters, sorted by the number in their name.
+ *   Chapter names default to the folder name and can be edited in manifest.json,
+ *   edited names are kept when the manifest is regenerated.
+ *   Folders starting with "_" or "." are ignored.
+ *
+ * Archive import (--from):
+ *   Pages are natural-sorted and renamed to 001.jpg, 002.jpg, ...; nested folders
+ *   become chapters (ch01/, ch02/, ...) named after the original folder.
+ *   Title/author/series are read from ComicInfo.xml when present.
+ *   The folder id defaults to the archive file name.
  */
 
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import chalk from 'chalk';
+import sharp from 'sharp';
+import type { ComicImageFormat, ComicManifest, ComicManifestChapter, ComicManifestPage } from '../types/comic';
+import { extractLqipColors } from './utils/lqip';
+import { readZipEntries, type ZipEntry } from './utils/zip';
 
 // --------- Configuration ---------
 const COMIC_BASE_DIR = 'public/img/comic';
-const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif'];
+const COMIC_BASE_URL = '/img/comic';
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.avif'];
 const COVER_FILENAMES = ['cover.jpg', 'cover.jpeg', 'cover.png', 'cover.webp'];
+const VARIANT_DIR = '_optimized';
+const VARIANT_FORMATS: ComicImageFormat[] = ['webp', 'avif'];
+const DEFAULT_MAX_WIDTH = 1600;
+const DEFAULT_QUALITY = 80;
+const COMIC_INFO_FILENAME = 'comicinfo.xml';
+
+// --------- Parse CLI Arguments ---------
+interface GenerateOptions {
+  force: boolean;
+  /** Variant formats to produce, empty to skip */
+  formats: ComicImageFormat[];
+  maxWidth: number;
+  quality: number;
+  /** CBZ/ZIP archive to import */
+  from: string | null;
+  /** Folder id for the imported archive, defaults to the archive name */
+  id: string | null;
+}
+
+function parseArgs(): GenerateOptions {
+  const args = process.argv.slice(2);
+  const options: GenerateOptions = {
+    force: false,
+    formats: [],
+    maxWidth: DEFAULT_MAX_WIDTH,
+    quality: DEFAULT_QUALITY,
+    from: null,
+    id: null,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--force') {
+      options.force = true;
+    } else if (args[i] === '--formats' && args[i + 1]) {
+      const formats = args[i + 1].split(',').map((f) => f.trim().toLowerCase());
+      const invalid = formats.filter((f) => !VARIANT_FORMATS.includes(f as ComicImageFormat));
+      if (invalid.length > 0) {
+        throw new Error(`Unsupported format(s): ${invalid.join(', ')}. Supported: ${VARIANT_FORMATS.join(', ')}`);
+      }
+      options.formats = [...new Set(formats)] as ComicImageFormat[];
+      i++;
+    } else if (args[i] === '--max-width' && args[i + 1]) {
+      options.maxWidth = parsePositiveInt(args[i + 1], '--max-width');
+      i++;
+    } else if (args[i] === '--quality' && args[i + 1]) {
+      options.quality = Math.min(100, parsePositiveInt(args[i + 1], '--quality'));
+      i++;
+    } else if (args[i] === '--from' && args[i + 1]) {
+      options.from = args[i + 1];
+      i++;
+    } else if (args[i] === '--id' && args[i + 1]) {
+      options.id = args[i + 1];
+      i++;
+    }
+  }
+
+  return options;
+}
+
+function parsePositiveInt(value: string, flag: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
 
 // --------- Type Definitions ---------
-interface ComicManifest {
-  id: string;
+interface ChapterFolder {
+  /** Folder name, also the chapter id */
   name: string;
-  author?: string;
-  cover?: string;
+  /** Image file names, sorted */
   images: string[];
+  /** Display name override, used for chapters imported from archives */
+  displayName?: string;
 }
 
 interface ComicFolder {
   path: string;
   name: string;
+  /** Image paths relative to the comic folder, sorted (chapter/file for chapters) */
   images: string[];
+  /** Chapter folders, empty for single-chapter comics */
+  chapters: ChapterFolder[];
   coverFile: string | null;
   hasManifest: boolean;
 }
 
+/** Manifest fields that override folder defaults, e.g. from ComicInfo.xml */
+type ComicMetadata = Partial<Pick<ComicManifest, 'name' | 'author' | 'series'>>;
+
 // --------- Utility Functions ---------
 
 /**
@@ -69,9 +176,16 @@ function isCoverFile(filename: string): boolean {
   return COVER_FILENAMES.includes(filename.toLowerCase());
 }
 
+/**
+ * Check if a folder should be skipped (generated variants, hidden folders)
+ */
+function isIgnoredFolder(name: string): boolean {
+  return name.startsWith('_') || name.startsWith('.');
+}
+
 /**
  * Extract number from filename for sorting
- * Supports: 001.jpg, 1.jpg, page_001.jpg, image-1.png, etc.
+ * Supports: 001.jpg, 1.jpg, page_001.jpg, image-1.png, ch01, etc.
  */
 function extractNumberFromFilename(filename: string): number {
   const nameWithoutExt = path.basename(filename, path.extname(filename));
@@ -80,6 +194,13 @@ function extractNumberFromFilename(filename: string): number {
   return match ? parseInt(match[1], 10) : Infinity;
 }
 
+/**
+ * Sort file or folder names by their number, then by name
+ */
+function sortByNumber(names: string[]): string[] {
+  return [...names].sort((a, b) => extractNumberFromFilename(a) - extractNumberFromFilename(b) || a.localeCompare(b));
+}
+
 /**
  * Convert folder name to display name
  * Example: my-awesome-manga -> My Awesome Manga
@@ -88,8 +209,43 @@ function folderNameToDisplayName(folderName: string): string {
   return folderName.replace(/[-_]/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
 }
 
+/**
+ * Build the public URL of a file inside a comic folder
+ */
+function toComicUrl(folderName: string, relativePath: string): string {
+  return `${COMIC_BASE_URL}/${folderName}/${relativePath.split(path.sep).join('/')}`;
+}
+
+/**
+ * Variant path relative to the comic folder
+ * Example: ch01/001.jpg -> _optimized/ch01/001.webp
+ */
+function toVariantPath(relativePath: string, format: ComicImageFormat): string {
+  const parsed = path.parse(relativePath);
+  return path.join(VARIANT_DIR, parsed.dir, `${parsed.name}.${format}`);
+}
+
+/**
+ * Check whether a generated file is missing or older than its source
+ */
+async function isOutdated(sourcePath: string, outputPath: string): Promise<boolean> {
+  try {
+    const [source, output] = await Promise.all([fs.stat(sourcePath), fs.stat(outputPath)]);
+    return output.mtimeMs < source.mtimeMs;
+  } catch {
+    return true;
+  }
+}
+
 // --------- Main Functions ---------
 
+/**
+ * List sorted page images in a folder (cover excluded)
+ */
+function listPageImages(files: string[]): string[] {
+  return sortByNumber(files.filter((f) => isImageFile(f) && !isCoverFile(f)));
+}
+
 /**
  * Scan comic directory and find all comic folders
  */
@@ -100,26 +256,46 @@ async function scanComicFolders(): Promise<ComicFolder[]> {
     const entries = await fs.readdir(COMIC_BASE_DIR, { withFileTypes: true });
 
     for (const entry of entries) {
-      if (!entry.isDirectory()) continue;
+      if (!entry.isDirectory() || isIgnoredFolder(entry.name)) continue;
 
       const folderPath = path.join(COMIC_BASE_DIR, entry.name);
-      const files = await fs.readdir(folderPath);
+      const folderEntries = await fs.readdir(folderPath, { withFileTypes: true });
+      const files = folderEntries.filter((e) => e.isFile()).map((e) => e.name);
 
       // Find cover file (case-insensitive)
       const coverFile = files.find((f) => isCoverFile(f)) || null;
+      const hasManifest = files.includes('manifest.json');
 
-      // Filter image files (excluding cover) and sort by number
-      const images = files
-        .filter((f) => isImageFile(f) && !isCoverFile(f))
-        .sort((a, b) => extractNumberFromFilename(a) - extractNumberFromFilename(b));
+      // Sub folders are chapters
+      const chapterNames = sortByNumber(
+        folderEntries.filter((e) => e.isDirectory() && !isIgnoredFolder(e.name)).map((e) => e.name),
+      );
+      const chapters: ChapterFolder[] = [];
+      for (const chapterName of chapterNames) {
+        const chapterFiles = await fs.readdir(path.join(folderPath, chapterName));
+        const images = listPageImages(chapterFiles);
+        if (images.length > 0) {
+          chapters.push({ name: chapterName, images });
+        }
+      }
 
-      const hasManifest = files.includes('manifest.json');
+      const rootImages = listPageImages(files);
+      if (chapters.length > 0 && rootImages.length > 0) {
+        console.log(chalk.yellow(`  ${entry.name}: ${rootImages.length} image(s) outside chapter folders are ignored`));
+      }
+
+      // Chapter comics read all chapters in order
+      const images =
+        chapters.length > 0
+          ? chapters.flatMap((chapter) => chapter.images.map((img) => path.join(chapter.name, img)))
+          : rootImages;
 
       if (images.length > 0) {
         comicFolders.push({
           path: folderPath,
           name: entry.name,
           images,
+          chapters,
           coverFile,
           hasManifest,
         });
@@ -158,45 +334,134 @@ async function readExistingManifest(folderPath: string): Promise<ComicManifest |
 function determineCoverPath(folder: ComicFolder): string {
   if (folder.coverFile) {
     // Use dedicated cover file
-    return `/img/comic/${folder.name}/${folder.coverFile}`;
+    return toComicUrl(folder.name, folder.coverFile);
   }
   // Fallback to first image
   if (folder.images.length > 0) {
-    return `/img/comic/${folder.name}/${folder.images[0]}`;
+    return toComicUrl(folder.name, folder.images[0]);
   }
   return '';
 }
 
+/**
+ * Write resized variants of a page image, skipping up-to-date files
+ * @returns Variant URLs by format
+ */
+async function writeVariants(
+  folder: ComicFolder,
+  relativePath: string,
+  options: GenerateOptions,
+): Promise<ComicManifestPage['variants']> {
+  const sourcePath = path.join(folder.path, relativePath);
+  const variants: ComicManifestPage['variants'] = {};
+
+  for (const format of options.formats) {
+    const variantPath = toVariantPath(relativePath, format);
+    const outputPath = path.join(folder.path, variantPath);
+
+    if (options.force || (await isOutdated(sourcePath, outputPath))) {
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await sharp(sourcePath)
+        .resize({ width: options.maxWidth, withoutEnlargement: true })
+        .toFormat(format, { quality: options.quality })
+        .toFile(outputPath);
+    }
+
+    variants[format] = toComicUrl(folder.name, variantPath);
+  }
+
+  return variants;
+}
+
+/**
+ * Read dimensions and LQIP of a page image, and write its variants
+ */
+async function processPage(folder: ComicFolder, relativePath: string, options: GenerateOptions): Promise<ComicManifestPage> {
+  const sourcePath = path.join(folder.path, relativePath);
+  const { width = 0, height = 0 } = await sharp(sourcePath).metadata();
+
+  const page: ComicManifestPage = {
+    src: toComicUrl(folder.name, relativePath),
+    width,
+    height,
+  };
+
+  try {
+    page.lqip = await extractLqipColors(sourcePath);
+  } catch (error) {
+    console.error(chalk.red(`  Error extracting LQIP for ${sourcePath}:`), error);
+  }
+
+  if (options.formats.length > 0) {
+    page.variants = await writeVariants(folder, relativePath, options);
+  }
+
+  return page;
+}
+
+/**
+ * Build chapter list, keeping chapter names edited in the existing manifest
+ */
+function buildChapters(folder: ComicFolder, existing: ComicManifest | null): ComicManifestChapter[] {
+  const existingNames = new Map(existing?.chapters?.map((chapter) => [chapter.id, chapter.name]));
+  let start = 0;
+
+  return folder.chapters.map((chapter) => {
+    const result: ComicManifestChapter = {
+      id: chapter.name,
+      name: existingNames.get(chapter.name) || chapter.displayName || folderNameToDisplayName(chapter.name),
+      start,
+      count: chapter.images.length,
+    };
+    start += chapter.images.length;
+    return result;
+  });
+}
+
 /**
  * Generate manifest for a comic folder
+ * @param metadata Fields overriding the existing manifest and folder defaults
  */
-async function generateManifest(folder: ComicFolder, force: boolean): Promise<boolean> {
+async function generateManifest(folder: ComicFolder, options: GenerateOptions, metadata: ComicMetadata = {}): Promise<boolean> {
   const manifestPath = path.join(folder.path, 'manifest.json');
 
+  // Read existing manifest to preserve custom fields (author, name override)
+  const existing = folder.hasManifest ? await readExistingManifest(folder.path) : null;
+
   // Skip if manifest exists and not forcing
-  if (folder.hasManifest && !force) {
-    const existing = await readExistingManifest(folder.path);
-    if (existing) {
-      console.log(chalk.dim(`  Skipping ${folder.name} (manifest exists)`));
-      return false;
-    }
+  // Manifests from older versions without page metadata are always upgraded
+  const needsVariants = options.formats.some((format) => !existing?.pages?.[0]?.variants?.[format]);
+  if (existing?.pages && !options.force && !needsVariants) {
+    console.log(chalk.dim(`  Skipping ${folder.name} (manifest exists)`));
+    return false;
   }
 
-  // Read existing manifest to preserve custom fields (author, name override)
-  const existing = await readExistingManifest(folder.path);
+  const pages: ComicManifestPage[] = [];
+  for (const [index, image] of folder.images.entries()) {
+    process.stdout.write(`\r  ${folder.name}: processing ${index + 1}/${folder.images.length}...`);
+    pages.push(await processPage(folder, image, options));
+  }
+  process.stdout.write('\n');
 
-  // Generate image URLs (relative paths from site root)
-  const imageUrls = folder.images.map((img) => `/img/comic/${folder.name}/${img}`);
+  // Prefer the first requested variant format for reading, fall back to the original
+  const preferredFormat = options.formats[0];
+  const imageUrls = pages.map((page) => (preferredFormat && page.variants?.[preferredFormat]) || page.src);
 
   // Determine cover path
   const coverPath = determineCoverPath(folder);
+  const chapters = buildChapters(folder, existing);
 
+  const author = metadata.author || existing?.author;
+  const series = metadata.series || existing?.series;
   const manifest: ComicManifest = {
     id: folder.name,
-    name: existing?.name || folderNameToDisplayName(folder.name),
-    ...(existing?.author && { author: existing.author }),
+    name: metadata.name || existing?.name || folderNameToDisplayName(folder.name),
+    ...(author && { author }),
+    ...(series && { series }),
     ...(coverPath && { cover: coverPath }),
     images: imageUrls,
+    pages,
+    ...(chapters.length > 0 && { chapters }),
   };
 
   // Write manifest
@@ -205,15 +470,231 @@ async function generateManifest(folder: ComicFolder, force: boolean): Promise<bo
   return true;
 }
 
+// --------- Archive Import ---------
+
+/**
+ * Natural sort, e.g. page2 before page10
+ */
+function naturalSort(names: string[]): string[] {
+  return [...names].sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
+}
+
+/**
+ * Convert an archive file name to a folder id
+ * Example: My Manga Vol.1.cbz -> my-manga-vol-1
+ */
+function archiveNameToId(archivePath: string): string {
+  return path
+    .basename(archivePath, path.extname(archivePath))
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Decode XML entities and CDATA in a text node
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number.parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read a top-level text field from ComicInfo.xml
+ */
+function readXmlField(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'i'));
+  const value = match ? decodeXmlText(match[1]) : '';
+  return value || undefined;
+}
+
+/**
+ * Read title/author/series from ComicInfo.xml (ComicRack schema)
+ */
+function parseComicInfo(xml: string): ComicMetadata {
+  const title = readXmlField(xml, 'Title');
+  const series = readXmlField(xml, 'Series');
+  const number = readXmlField(xml, 'Number');
+  // Writer and Penciller may be the same person
+  const creators = [readXmlField(xml, 'Writer'), readXmlField(xml, 'Penciller')].filter(Boolean) as string[];
+
+  return {
+    name: title || (series && number ? `${series} #${number}` : series),
+    author: creators.length > 0 ? [...new Set(creators)].join(', ') : undefined,
+    series,
+  };
+}
+
+/**
+ * Remove folder levels shared by all entries, e.g. my-manga/001.jpg -> 001.jpg
+ */
+function stripCommonRoot(entries: ZipEntry[]): ZipEntry[] {
+  let result = entries;
+  while (result.length > 0) {
+    const segments = result.map((entry) => entry.name.split('/'));
+    const root = segments[0][0];
+    if (!segments.every((parts) => parts.length > 1 && parts[0] === root)) break;
+    result = result.map((entry) => ({ ...entry, name: entry.name.slice(root.length + 1) }));
+  }
+  return result;
+}
+
+/**
+ * Check if an archive entry is metadata from the packing tool (__MACOSX, .DS_Store, Thumbs.db)
+ */
+function isJunkEntry(name: string): boolean {
+  return name.split('/').some((part) => part === '__MACOSX' || part.startsWith('.')) || /(^|\/)thumbs\.db$/i.test(name);
+}
+
+/**
+ * Extract a CBZ/ZIP archive into a new comic folder
+ * Pages are renamed so the folder scans in the same order later
+ */
+async function extractArchive(
+  archivePath: string,
+  folderName: string,
+  force: boolean,
+): Promise<{ folder: ComicFolder; metadata: ComicMetadata }> {
+  const folderPath = path.join(COMIC_BASE_DIR, folderName);
+
+  const exists = await fs.stat(folderPath).then(
+    () => true,
+    () => false,
+  );
+  if (exists && !force) {
+    throw new Error(`Comic folder already exists: ${folderPath} (use --force to replace it, or --id to pick another id)`);
+  }
+
+  const entries = (await readZipEntries(archivePath)).filter((entry) => !isJunkEntry(entry.name));
+
+  const comicInfo = entries.find((entry) => path.posix.basename(entry.name).toLowerCase() === COMIC_INFO_FILENAME);
+  const metadata = comicInfo ? parseComicInfo(comicInfo.data.toString('utf-8')) : {};
+
+  const imageEntries = stripCommonRoot(entries.filter((entry) => isImageFile(entry.name)));
+  if (imageEntries.length === 0) {
+    throw new Error(`No images found in ${archivePath}`);
+  }
+
+  const coverEntry = imageEntries.find((entry) => !entry.name.includes('/') && isCoverFile(entry.name));
+
+  // Group pages by folder, nested folders are chapters, root pages come first
+  const groups = new Map<string, ZipEntry[]>();
+  for (const entry of imageEntries) {
+    if (entry === coverEntry) continue;
+    const dir = path.posix.dirname(entry.name);
+    const key = dir === '.' ? '' : dir;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  const groupKeys = naturalSort([...groups.keys()]);
+  const hasChapters = groupKeys.length > 1;
+
+  if (exists) {
+    console.log(chalk.yellow(`  Replacing existing folder ${folderPath}`));
+    await fs.rm(folderPath, { recursive: true, force: true });
+  }
+  await fs.mkdir(folderPath, { recursive: true });
+
+  let coverFile: string | null = null;
+  if (coverEntry) {
+    coverFile = `cover${path.extname(coverEntry.name).toLowerCase()}`;
+    await fs.writeFile(path.join(folderPath, coverFile), coverEntry.data);
+  }
+
+  const chapterDigits = Math.max(2, String(groupKeys.length).length);
+  const chapters: ChapterFolder[] = [];
+  const images: string[] = [];
+
+  for (const [chapterIndex, key] of groupKeys.entries()) {
+    const groupEntries = groups.get(key) ?? [];
+    const pageNames = naturalSort(groupEntries.map((entry) => entry.name));
+    const pageDigits = Math.max(3, String(pageNames.length).length);
+    const chapterName = hasChapters ? `ch${String(chapterIndex + 1).padStart(chapterDigits, '0')}` : '';
+    const chapterImages: string[] = [];
+
+    await fs.mkdir(path.join(folderPath, chapterName), { recursive: true });
+    for (const [pageIndex, pageName] of pageNames.entries()) {
+      const entry = groupEntries.find((item) => item.name === pageName) as ZipEntry;
+      const fileName = `${String(pageIndex + 1).padStart(pageDigits, '0')}${path.extname(pageName).toLowerCase()}`;
+      await fs.writeFile(path.join(folderPath, chapterName, fileName), entry.data);
+      chapterImages.push(fileName);
+      images.push(path.join(chapterName, fileName));
+    }
+
+    if (hasChapters) {
+      chapters.push({
+        name: chapterName,
+        images: chapterImages,
+        // Root pages before the chapter folders are named after the comic
+        displayName: key ? path.posix.basename(key) : metadata.name || folderNameToDisplayName(folderName),
+      });
+    }
+  }
+
+  return {
+    folder: { path: folderPath, name: folderName, images, chapters, coverFile, hasManifest: false },
+    metadata,
+  };
+}
+
+/**
+ * Import a CBZ/ZIP archive and print the ::comic{} directive
+ */
+async function importArchive(archivePath: string, options: GenerateOptions) {
+  const folderName = options.id || archiveNameToId(archivePath);
+  if (!folderName || isIgnoredFolder(folderName) || /[\\/]/.test(folderName)) {
+    throw new Error(`Invalid comic id "${folderName}", use --id to set one`);
+  }
+
+  console.log(chalk.cyan(`Importing ${archivePath} -> ${path.join(COMIC_BASE_DIR, folderName)}`));
+  const { folder, metadata } = await extractArchive(archivePath, folderName, options.force);
+
+  await generateManifest(folder, { ...options, force: true }, metadata);
+
+  const chapterInfo = folder.chapters.length > 0 ? `, ${folder.chapters.length} chapters` : '';
+  console.log(chalk.green(`  Imported ${folder.images.length} images${chapterInfo}`));
+  if (metadata.series) {
+    console.log(chalk.dim(`  Series: ${metadata.series}`));
+  }
+
+  // Double quotes would end the directive attribute
+  const attr = (value: string) => value.replace(/"/g, "'");
+  const name = metadata.name || folderNameToDisplayName(folderName);
+  const author = metadata.author ? ` author="${attr(metadata.author)}"` : '';
+
+  console.log(chalk.cyan('\nUsage in Markdown:'));
+  console.log(
+    `  ::comic{id="${folderName}" name="${attr(name)}" src="${COMIC_BASE_URL}/${folderName}/manifest.json"${author}}`,
+  );
+  console.log();
+}
+
 // --------- Main Entry Point ---------
 
 async function main() {
   console.log(chalk.blue.bold('\n=== Comic Manifest Generator ===\n'));
 
-  const force = process.argv.includes('--force');
-  if (force) {
+  const options = parseArgs();
+  if (options.from) {
+    await importArchive(options.from, options);
+    return;
+  }
+  if (options.force) {
     console.log(chalk.yellow('Force mode: regenerating all manifests\n'));
   }
+  if (options.formats.length > 0) {
+    console.log(
+      chalk.cyan(`Variants: ${options.formats.join(', ')} (max width ${options.maxWidth}px, quality ${options.quality})\n`),
+    );
+  }
 
   // Scan for comic folders
   console.log(chalk.cyan('Scanning comic folders...'));
@@ -226,6 +707,7 @@ async function main() {
     console.log(chalk.dim('  public/img/comic/my-manga/cover.jpg (optional)'));
     console.log(chalk.dim('  public/img/comic/my-manga/001.jpg'));
     console.log(chalk.dim('  public/img/comic/my-manga/002.jpg'));
+    console.log(chalk.dim('  public/img/comic/my-series/ch01/001.jpg (chapters)'));
     return;
   }
 
@@ -236,10 +718,13 @@ async function main() {
   let skipped = 0;
 
   for (const folder of folders) {
-    const wasGenerated = await generateManifest(folder, force);
+    const wasGenerated = await generateManifest(folder, options);
     if (wasGenerated) {
       const coverInfo = folder.coverFile ? `cover: ${folder.coverFile}` : 'cover: first image';
-      console.log(chalk.green(`  Generated manifest for ${folder.name} (${folder.images.length} images, ${coverInfo})`));
+      const chapterInfo = folder.chapters.length > 0 ? `, ${folder.chapters.length} chapters` : '';
+      console.log(
+        chalk.green(`  Generated manifest for ${folder.name} (${folder.images.length} images${chapterInfo}, ${coverInfo})`),
+      );
       generated++;
     } else {
       skipped++;
@@ -255,7 +740,9 @@ async function main() {
   if (generated > 0) {
     console.log(chalk.cyan('\nUsage in Markdown:'));
     for (const folder of folders) {
-      console.log(chalk.dim(`  ::comic{id="${folder.name}" name="漫画名称" src="/img/comic/${folder.name}/manifest.json"}`));
+      console.log(
+        chalk.dim(`  ::comic{id="${folder.name}" name="漫画名称" src="${COMIC_BASE_URL}/${folder.name}/manifest.json"}`),
+      );
     }
     console.log(chalk.dim('\nNote: Cover in ::comic{cover="..."} overrides manifest cover'));
   }
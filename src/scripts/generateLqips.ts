@@ -11,64 +11,25 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import chalk from 'chalk';
 import { glob } from 'glob';
-import sharp from 'sharp';
+import { extractLqipColors } from './utils/lqip';
 
 // --------- Configuration ---------
 const IMAGE_GLOB = 'public/img/**/*.{webp,jpg,jpeg,png}';
 const OUTPUT_FILE = 'src/assets/lqips.json';
+// Comic pages carry their own LQIP in manifest.json, skip the resized variants
+const IGNORE_GLOB = 'public/img/comic/**/_optimized/**';
 
 // --------- Type Definitions ---------
-interface RgbColor {
-  r: number;
-  g: number;
-  b: number;
-}
-
 type LqipMap = Record<string, string>;
 
-// --------- Color Utilities ---------
-
-/**
- * Convert RGB to hex string
- */
-function rgbToHex(rgb: RgbColor): string {
-  const toHex = (n: number) =>
-    Math.round(Math.max(0, Math.min(255, n)))
-      .toString(16)
-      .padStart(2, '0');
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
-}
-
 // --------- Image Processing ---------
 
 /**
- * Process a single image and generate gradient CSS
+ * Process a single image and generate the compact gradient colors
  */
 async function processImage(imagePath: string): Promise<string | null> {
   try {
-    // Resize to 2x2 to get 4 quadrant colors
-    const resized = await sharp(imagePath).resize(2, 2, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
-
-    const channels = resized.info.channels;
-    const data = resized.data;
-
-    // Extract 4 colors (top-left, top-right, bottom-left, bottom-right)
-    const colors: string[] = [];
-    for (let i = 0; i < 4; i++) {
-      const offset = i * channels;
-      const rgb: RgbColor = {
-        r: data[offset],
-        g: data[offset + 1],
-        b: data[offset + 2],
-      };
-      colors.push(rgbToHex(rgb));
-    }
-
-    // Store only the 3 hex colors (without #) as a compact string
-    // Colors: top-left, top-right, bottom-right (used for 0%, 50%, 100%)
-    const compact = `${colors[0].slice(1)}${colors[1].slice(1)}${colors[3].slice(1)}`;
-
-    return compact;
+    return await extractLqipColors(imagePath);
   } catch (error) {
     console.error(chalk.red(`  Error processing ${imagePath}:`), error);
     return null;
@@ -90,7 +51,7 @@ async function main() {
   try {
     console.log(chalk.cyan('=== LQIP Generator ===\n'));
 
-    const files = await glob(IMAGE_GLOB);
+    const files = await glob(IMAGE_GLOB, { ignore: IGNORE_GLOB });
     if (!files.length) {
       console.log(chalk.yellow('No image files found.'));
       return;
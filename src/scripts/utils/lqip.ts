@@ -0,0 +1,53 @@
+/**
+ * Shared LQIP helpers for generator scripts
+ *
+ * Used by generateLqips.ts and generateComicManifests.ts.
+ * The compact format is decoded by src/lib/lqip.ts.
+ */
+
+import sharp from 'sharp';
+
+interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Convert RGB to hex string
+ */
+function rgbToHex(rgb: RgbColor): string {
+  const toHex = (n: number) =>
+    Math.round(Math.max(0, Math.min(255, n)))
+      .toString(16)
+      .padStart(2, '0');
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+}
+
+/**
+ * Extract the compact LQIP string of an image from its 4 quadrant colors
+ * @param input Image file path or buffer
+ * @returns 18 hex chars: top-left, top-right, bottom-right (used for 0%, 50%, 100%)
+ */
+export async function extractLqipColors(input: string | Buffer): Promise<string> {
+  // Resize to 2x2 to get 4 quadrant colors
+  const resized = await sharp(input).resize(2, 2, { fit: 'fill' }).raw().toBuffer({ resolveWithObject: true });
+
+  const channels = resized.info.channels;
+  const data = resized.data;
+
+  // Extract 4 colors (top-left, top-right, bottom-left, bottom-right)
+  const colors: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    const offset = i * channels;
+    const rgb: RgbColor = {
+      r: data[offset] ?? 0,
+      g: data[offset + 1] ?? 0,
+      b: data[offset + 2] ?? 0,
+    };
+    colors.push(rgbToHex(rgb));
+  }
+
+  // Store only the 3 hex colors (without #) as a compact string
+  return [colors[0], colors[1], colors[3]].map((color) => color?.slice(1)).join('');
+}
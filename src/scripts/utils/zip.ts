@@ -0,0 +1,137 @@
+/**
+ * Minimal ZIP reader for comic archives (CBZ/ZIP)
+ *
+ * Reads the central directory and inflates entries with node:zlib,
+ * supporting the stored and deflate methods used by CBZ files.
+ * ZIP64 and encrypted archives are rejected.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { inflateRawSync } from 'node:zlib';
+
+// --------- ZIP Format Constants ---------
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+/** EOCD may be followed by a comment of up to 65535 bytes */
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+export interface ZipEntry {
+  /** Normalized entry path using "/" separators */
+  name: string;
+  data: Buffer;
+}
+
+/**
+ * Find the End Of Central Directory record
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const start = Math.max(0, buffer.length - EOCD_MAX_SEARCH);
+  for (let offset = buffer.length - EOCD_MIN_SIZE; offset >= start; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive (end of central directory not found)');
+}
+
+/**
+ * Validate an entry name against absolute paths and parent traversal
+ */
+function normalizeEntryName(rawName: string, archivePath: string): string {
+  if (rawName.includes('\0')) {
+    throw new Error(`zip entry contains null byte in ${archivePath}`);
+  }
+
+  const normalized = path.posix.normalize(rawName.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized)) {
+    throw new Error(`zip entry is absolute path: ${rawName}`);
+  }
+  if (normalized.split('/').includes('..')) {
+    throw new Error(`zip entry contains parent traversal: ${rawName}`);
+  }
+  return normalized;
+}
+
+/**
+ * Read all file entries of a ZIP archive into memory
+ * Directory entries are skipped
+ * @param archivePath Path to the .zip/.cbz file
+ */
+export async function readZipEntries(archivePath: string): Promise<ZipEntry[]> {
+  const buffer = await fs.readFile(archivePath);
+  const eocd = findEndOfCentralDirectory(buffer);
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const centralOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || centralOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = centralOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error(`Corrupted ZIP central directory in ${archivePath}`);
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const rawName = buffer.subarray(offset + 46, offset + 46 + nameLength).toString(flags & FLAG_UTF8 ? 'utf-8' : 'latin1');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directory entry
+    if (rawName.endsWith('/')) continue;
+
+    const name = normalizeEntryName(rawName, archivePath);
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupted ZIP local header for ${name}`);
+    }
+    const localNameLength = buffer.readUInt16LE(localOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localOffset + 28);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = Buffer.from(compressed);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        // Stop inflating past the declared size (zip bombs); maxOutputLength must be at least 1
+        data = inflateRawSync(compressed, { maxOutputLength: Math.max(uncompressedSize, 1) });
+      } catch (error) {
+        // RangeError when the output exceeds the declared size, zlib errors for invalid data
+        throw new Error(`Corrupted ZIP entry ${name}: ${(error as Error).message}`);
+      }
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== uncompressedSize) {
+      throw new Error(`Size mismatch when extracting ${name}`);
+    }
+
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
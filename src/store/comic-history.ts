@@ -0,0 +1,217 @@
+/**
+ * Comic Reading History
+ *
+ * Nanostores-based reading history for comics opened via ::comic{}.
+ * Persisted to localStorage, synced across tabs via the storage event,
+ * and exportable as JSON to move between devices.
+ */
+
+import { atom, computed } from 'nanostores';
+import type { ComicHistoryEntry, ComicHistoryExport, ComicInfo } from '@/types/comic';
+
+const STORAGE_KEY = 'comic-reading-history';
+
+/** Legacy per-comic progress key used before the history store */
+const LEGACY_PROGRESS_PREFIX = 'comic-progress-';
+
+/** Maximum number of comics kept in the history */
+const MAX_HISTORY_SIZE = 100;
+
+/**
+ * Reading history keyed by comic ID
+ */
+export const comicHistory = atom<Record<string, ComicHistoryEntry>>({});
+
+/**
+ * Computed: History sorted by last read time (newest first)
+ */
+export const sortedComicHistory = computed(comicHistory, (history) =>
+  Object.values(history).sort((a, b) => b.updatedAt - a.updatedAt),
+);
+
+/**
+ * Computed: Comics that were started but not finished
+ */
+export const continueReadingComics = computed(sortedComicHistory, (history) =>
+  history.filter((entry) => entry.page < entry.totalPages - 1),
+);
+
+let initialized = false;
+
+/**
+ * Check that an unknown value is a valid history entry
+ */
+function isHistoryEntry(value: unknown): value is ComicHistoryEntry {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Partial<ComicHistoryEntry>;
+  return (
+    typeof entry.id === 'string' &&
+    typeof entry.name === 'string' &&
+    typeof entry.src === 'string' &&
+    typeof entry.page === 'number' &&
+    typeof entry.totalPages === 'number' &&
+    typeof entry.updatedAt === 'number' &&
+    typeof entry.pageUrl === 'string'
+  );
+}
+
+/**
+ * Parse stored history, dropping invalid entries
+ */
+function parseHistory(raw: string | null): Record<string, ComicHistoryEntry> {
+  if (!raw) return {};
+  try {
+    const entries = JSON.parse(raw) as unknown[];
+    if (!Array.isArray(entries)) return {};
+    return Object.fromEntries(entries.filter(isHistoryEntry).map((entry) => [entry.id, entry]));
+  } catch (e) {
+    console.warn('[ComicHistory] Failed to parse stored history', e);
+    return {};
+  }
+}
+
+/**
+ * Save history to localStorage, keeping the most recent entries
+ */
+function persist(history: Record<string, ComicHistoryEntry>): void {
+  const entries = Object.values(history)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_HISTORY_SIZE);
+  const trimmed = Object.fromEntries(entries.map((entry) => [entry.id, entry]));
+  comicHistory.set(trimmed);
+
+  if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+      // Quota exceeded or storage disabled: keep the in-memory history only
+      console.warn('[ComicHistory] Failed to save history', e);
+    }
+  }
+}
+
+/**
+ * Initialize history from localStorage and listen for changes in other tabs
+ * Safe to call multiple times
+ */
+export function initComicHistory(): void {
+  if (typeof window === 'undefined' || initialized) return;
+  initialized = true;
+
+  try {
+    comicHistory.set(parseHistory(localStorage.getItem(STORAGE_KEY)));
+  } catch (e) {
+    // Storage disabled: start with an empty history
+    console.warn('[ComicHistory] Failed to read stored history', e);
+  }
+
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) {
+      comicHistory.set(parseHistory(e.newValue));
+    }
+  });
+}
+
+/**
+ * Get the saved page of a comic, falling back to the legacy progress key
+ */
+export function getComicProgress(id: string): number {
+  initComicHistory();
+  const entry = comicHistory.get()[id];
+  if (entry) return entry.page;
+
+  try {
+    const legacy = localStorage.getItem(`${LEGACY_PROGRESS_PREFIX}${id}`);
+    return legacy ? Number.parseInt(legacy, 10) || 0 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Record that a comic was opened
+ * Keeps the page the comic was first opened from, so reopening it from the
+ * continue-reading shelf on another page still links back to its post
+ * @param comic Comic info from the card
+ * @param totalPages Page count from the manifest
+ * @param page Starting page
+ */
+export function recordComicOpen(comic: ComicInfo, totalPages: number, page: number): void {
+  initComicHistory();
+  const history = comicHistory.get();
+  persist({
+    ...history,
+    [comic.id]: {
+      ...comic,
+      page,
+      totalPages,
+      pageUrl: history[comic.id]?.pageUrl ?? window.location.pathname,
+      updatedAt: Date.now(),
+    },
+  });
+}
+
+/**
+ * Update the last viewed page of a comic in the history
+ */
+export function updateComicProgress(id: string, page: number): void {
+  const history = comicHistory.get();
+  const entry = history[id];
+  if (!entry || entry.page === page) return;
+
+  persist({ ...history, [id]: { ...entry, page, updatedAt: Date.now() } });
+}
+
+/**
+ * Remove a comic from the history
+ */
+export function removeComicHistory(id: string): void {
+  const { [id]: _removed, ...rest } = comicHistory.get();
+  persist(rest);
+}
+
+/**
+ * Export the history as a JSON string
+ */
+export function exportComicHistory(): string {
+  const data: ComicHistoryExport = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    entries: sortedComicHistory.get(),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Import history from an exported JSON string
+ * Entries are merged, keeping whichever copy was read more recently
+ * @returns Number of entries added or updated
+ * @throws Error when the JSON is not a comic history export
+ */
+export function importComicHistory(json: string): number {
+  initComicHistory();
+
+  let data: Partial<ComicHistoryExport>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Invalid JSON file');
+  }
+
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error('Not a comic reading history export');
+  }
+
+  const merged = { ...comicHistory.get() };
+  let changed = 0;
+
+  for (const entry of data.entries.filter(isHistoryEntry)) {
+    const existing = merged[entry.id];
+    if (existing && existing.updatedAt >= entry.updatedAt) continue;
+    merged[entry.id] = entry;
+    changed++;
+  }
+
+  if (changed > 0) persist(merged);
+  return changed;
+}
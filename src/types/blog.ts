@@ -20,17 +20,26 @@ export interface BlogSchema {
   tocNumbering?: boolean;
   /** Exclude this post from AI summary generation */
   excludeFromSummary?: boolean;
-  /** Artist ID for artist profile pages, references artists.yaml */
-  artist?: string;
+  /** Artist ID(s) for artist profile pages, references artists.yaml */
+  artist?: string | string[];
+  /** Post language, one of the locale codes in site.yaml i18n config */
+  lang?: string;
+  /** Posts sharing a translationKey are translations of each other */
+  translationKey?: string;
+  /** Show an expired notice once this date has passed */
+  expires?: Date;
+  /** Show an outdated notice once this many days have passed since `updated`/`date` */
+  outdatedAfterDays?: number;
 }
 
 /**
  * Blog post schema INPUT type - before Zod transforms.
  * gray-matter parses YAML dates as Date objects, so date fields accept both.
  */
-export interface BlogSchemaInput extends Omit<BlogSchema, 'date' | 'updated'> {
+export interface BlogSchemaInput extends Omit<BlogSchema, 'date' | 'updated' | 'expires'> {
   date: string | Date;
   updated?: string | Date;
+  expires?: string | Date;
 }
 
 /**
@@ -45,6 +54,8 @@ export interface PostRef {
   slug: string;
   link?: string;
   title: string;
+  /** Post language, used for the locale prefix of the post URL */
+  lang?: string;
 }
 
 /**
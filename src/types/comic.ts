@@ -0,0 +1,106 @@
+/**
+ * Comic Reader Types
+ *
+ * Types for comic manifests (generated by generateComicManifests.ts)
+ * and the reading history recorded by ComicReaderOverlay.
+ */
+
+/** Per-page metadata in manifest.json, in the same order as images */
+export interface ComicManifestPage {
+  /** Original image URL */
+  src: string;
+
+  /** Image width in px */
+  width: number;
+
+  /** Image height in px */
+  height: number;
+
+  /** Compact LQIP colors, same format as src/assets/lqips.json */
+  lqip?: string;
+
+  /** Resized variants, e.g. { webp: '/img/comic/x/_optimized/001.webp' } */
+  variants?: Partial<Record<ComicImageFormat, string>>;
+}
+
+/** Resized variant formats produced by the manifest generator */
+export type ComicImageFormat = 'webp' | 'avif';
+
+/** Chapter generated from a nested folder, e.g. my-manga/ch01/ */
+export interface ComicManifestChapter {
+  /** Folder name */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Index of the first page in images */
+  start: number;
+
+  /** Number of pages in the chapter */
+  count: number;
+}
+
+/** manifest.json of a comic folder */
+export interface ComicManifest {
+  id: string;
+  name: string;
+  author?: string;
+
+  /** Series name, read from ComicInfo.xml when imported from an archive */
+  series?: string;
+
+  cover?: string;
+
+  /** Image URLs to read, variants are used when generated */
+  images: string[];
+
+  /** Page metadata, missing in manifests from older generator versions */
+  pages?: ComicManifestPage[];
+
+  /** Chapters, only present when the comic has chapter folders */
+  chapters?: ComicManifestChapter[];
+}
+
+/** Comic info read from a ::comic{} card */
+export interface ComicInfo {
+  /** Comic ID from the ::comic{} directive */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Path to manifest.json */
+  src: string;
+
+  /** Author name */
+  author?: string;
+
+  /** Cover image */
+  cover?: string;
+}
+
+/** One comic in the reading history */
+export interface ComicHistoryEntry extends ComicInfo {
+  /** Last viewed page (0-based) */
+  page: number;
+
+  /** Total page count from the manifest */
+  totalPages: number;
+
+  /** Path of the page the comic was first opened from, linked from the continue-reading shelf */
+  pageUrl: string;
+
+  /** Last read time (ms timestamp) */
+  updatedAt: number;
+}
+
+/** Exported history file */
+export interface ComicHistoryExport {
+  version: 1;
+
+  /** Export time (ISO 8601 string) */
+  exportedAt: string;
+
+  entries: ComicHistoryEntry[];
+}